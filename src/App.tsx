@@ -24,7 +24,8 @@ import { AdminLogin } from "./components/auth/AdminLogin";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { AuthProvider, useAuth } from "./hooks/useAuth";
 import { CartProvider } from "./hooks/useCart";
-import { NotificationSchedulerProvider } from "./services/NotificationScheduler";
+import { CustomerLocationProvider } from "./components/CustomerLocationProvider";
+import { FavoritesProvider } from "./components/FavoritesProvider";
 import { LoadingScreen } from "./components/LoadingScreen";
 import "./utils/errorHandler"; // Initialize production error handling
 import { initializeCSRFProtection, clearCSRFToken } from "./utils/csrfProtection";
@@ -36,6 +37,7 @@ import { useCSP } from './hooks/useCSP';
 import ProviderSelectionNew from './pages/ProviderSelectionNew';
 import Scheduling from './pages/Scheduling';
 import ServiceCategory from './pages/ServiceCategory';
+import SearchResults from './pages/SearchResults';
 import SubcategorySelection from './pages/SubcategorySelection';
 import DateSelection from './pages/DateSelection';
 import TimeSelection from './pages/TimeSelection';
@@ -123,7 +125,8 @@ const App = () => {
           <TooltipProvider>
             <AuthProvider>
               <CartProvider>
-                <NotificationSchedulerProvider enabled={true} checkInterval={60 * 60 * 1000}>
+                <FavoritesProvider>
+                <CustomerLocationProvider>
                   <Toaster />
                   <Sonner />
                 {isLoading ? (
@@ -214,6 +217,7 @@ const App = () => {
                       
                       {/* Service listing pages */}
                       <Route path="/all-categories" element={<AllCategories />} />
+                      <Route path="/search" element={<SearchResults />} />
                       <Route path="/all-popular-services" element={<AllPopularServices />} />
                       <Route path="/all-new-services" element={<AllNewServices />} />
                       <Route path="/popular-services" element={<PopularServices />} />
@@ -224,7 +228,8 @@ const App = () => {
                     </Routes>
                   </BrowserRouter>
                 )}
-                </NotificationSchedulerProvider>
+                </CustomerLocationProvider>
+                </FavoritesProvider>
               </CartProvider>
             </AuthProvider>
           </TooltipProvider>
@@ -6,40 +6,20 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { CartItem } from '@/hooks/useCart';
+import { couponService, AppliedCoupon, SpecialOffer } from '@/services/couponService';
 import { Gift, Tag, X, Check, AlertCircle } from 'lucide-react';
 
-interface SpecialOffer {
-  id: string;
-  title: string;
-  description: string | null;
-  code: string;
-  discount_type: string;
-  discount_value: number;
-  minimum_order_amount: number | null;
-  maximum_discount_amount: number | null;
-  usage_limit: number | null;
-  usage_count: number;
-  valid_from: string;
-  valid_until: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface AppliedCoupon {
-  code: string;
-  discountAmount: number;
-  offerId: string;
-}
-
 interface CouponApplicationProps {
   subtotal: number;
+  items: CartItem[];
   onCouponApplied: (coupon: AppliedCoupon | null) => void;
   appliedCoupon: AppliedCoupon | null;
 }
 
 export const CouponApplication: React.FC<CouponApplicationProps> = ({
   subtotal,
+  items,
   onCouponApplied,
   appliedCoupon
 }) => {
@@ -90,27 +70,18 @@ export const CouponApplication: React.FC<CouponApplicationProps> = ({
         throw new Error('User not authenticated');
       }
 
-      const { data, error } = await supabase.rpc('validate_coupon_code', {
-        coupon_code: code.toUpperCase(),
-        customer_id: session.user.id,
-        order_amount: subtotal
-      });
-
-      if (error) throw error;
+      const result = await couponService.validateForCart(
+        code,
+        session.user.id,
+        couponService.toCouponLines(items)
+      );
 
-      // The data is an array of results from the function
-      let result;
-      if (Array.isArray(data) && data.length > 0) {
-        result = data[0];
-      } else if (data && typeof data === 'object' && !Array.isArray(data)) {
-        result = data;
-      }
-      
-      if (result && 'is_valid' in result && result.is_valid) {
+      if (result.isValid && result.offerId) {
         const appliedCouponData: AppliedCoupon = {
           code: code.toUpperCase(),
-          discountAmount: result.discount_amount || 0,
-          offerId: result.offer_id || code.toUpperCase()
+          discountAmount: result.discountAmount,
+          offerId: result.offerId,
+          lineDiscounts: result.lineDiscounts
         };
         
         onCouponApplied(appliedCouponData);
@@ -118,12 +89,12 @@ export const CouponApplication: React.FC<CouponApplicationProps> = ({
         
         toast({
           title: 'Coupon Applied!',
-          description: `You saved $${(result.discount_amount || 0).toFixed(2)}`,
+          description: `You saved $${result.discountAmount.toFixed(2)}`,
         });
       } else {
         toast({
           title: 'Invalid Coupon',
-          description: (result && 'error_message' in result && result.error_message) || 'Invalid coupon code',
+          description: result.errorMessage || 'Invalid coupon code',
           variant: 'destructive',
         });
       }
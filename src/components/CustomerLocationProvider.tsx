@@ -0,0 +1,54 @@
+import React, { useState, useCallback, useMemo, ReactNode } from 'react';
+import { CustomerLocation, CustomerLocationContext } from '@/hooks/useCustomerLocation';
+
+const STORAGE_KEY = 'customer_location';
+
+const loadStoredLocation = (): CustomerLocation | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading saved location:', error);
+    return null;
+  }
+};
+
+export const CustomerLocationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [location, setLocationState] = useState<CustomerLocation | null>(loadStoredLocation);
+
+  const setLocation = useCallback((next: CustomerLocation) => {
+    setLocationState(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  const clearLocation = useCallback(() => {
+    setLocationState(null);
+    localStorage.removeItem(STORAGE_KEY);
+  }, []);
+
+  const detectLocation = useCallback(() => new Promise<GeolocationCoordinates>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Location detection is not supported by this browser'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(position.coords),
+      (error) => reject(new Error(error.message || 'Unable to detect your location')),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  }), []);
+
+  const contextValue = useMemo(() => ({
+    location,
+    setLocation,
+    clearLocation,
+    detectLocation
+  }), [location, setLocation, clearLocation, detectLocation]);
+
+  return (
+    <CustomerLocationContext.Provider value={contextValue}>
+      {children}
+    </CustomerLocationContext.Provider>
+  );
+};
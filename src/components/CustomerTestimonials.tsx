@@ -1,11 +1,14 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Star, Quote } from 'lucide-react';
 import { useAdminSettings } from '@/hooks/useAdminSettings';
+import { reviewService } from '@/services/reviewService';
 
 interface Testimonial {
-  id: number;
+  id: number | string;
   name: string;
   location: string;
   service: string;
@@ -17,8 +20,12 @@ interface Testimonial {
 
 const CustomerTestimonials: React.FC = () => {
   const { data: testimonialsData, isLoading } = useAdminSettings('customer_testimonials');
+  const { data: featuredReviews, isLoading: reviewsLoading } = useQuery({
+    queryKey: ['featured-reviews'],
+    queryFn: () => reviewService.getFeaturedReviews(4),
+  });
 
-  if (isLoading) {
+  if (isLoading || reviewsLoading) {
     return <section className="py-16 bg-gradient-to-b from-gray-50 to-white">
       <div className="container mx-auto px-6">
         <div className="animate-pulse text-center mb-12">
@@ -34,7 +41,21 @@ const CustomerTestimonials: React.FC = () => {
     </section>;
   }
 
-  const testimonials: Testimonial[] = (testimonialsData as any)?.testimonials?.map((testimonial: any, index: number) => ({
+  const getInitials = (name: string) => name.split(' ').map((n: string) => n[0]).join('');
+
+  // Published customer reviews take over from the curated testimonials once there are any
+  const reviewTestimonials: Testimonial[] = (featuredReviews || []).map(review => ({
+    id: review.id,
+    name: review.customer_name || 'Customer',
+    location: 'Verified customer',
+    service: review.service_name || 'Service',
+    rating: review.rating,
+    review: review.comment || '',
+    date: format(new Date(review.created_at), 'MMM yyyy'),
+    avatar: getInitials(review.customer_name || 'Customer')
+  }));
+
+  const testimonials: Testimonial[] = reviewTestimonials.length > 0 ? reviewTestimonials : (testimonialsData as any)?.testimonials?.map((testimonial: any, index: number) => ({
     id: index + 1,
     name: testimonial.name,
     location: testimonial.location,
@@ -42,7 +63,7 @@ const CustomerTestimonials: React.FC = () => {
     rating: testimonial.rating,
     review: testimonial.comment,
     date: "Recent",
-    avatar: testimonial.name.split(' ').map((n: string) => n[0]).join('')
+    avatar: getInitials(testimonial.name)
   })) || [];
 
   const renderStars = (rating: number) => {
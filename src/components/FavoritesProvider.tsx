@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { FavoritesContext } from '@/hooks/useFavorites';
+import {
+  favoritesService,
+  getFavoriteKey,
+  CustomerFavorite,
+  FavoriteInput,
+  FavoriteType
+} from '@/services/database';
+
+// Guests keep favorites here until they sign in and they are merged into the account
+const STORAGE_KEY = 'guest_favorites';
+
+const loadGuestFavorites = (): FavoriteInput[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading saved favorites:', error);
+    return [];
+  }
+};
+
+const saveGuestFavorites = (inputs: FavoriteInput[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(inputs));
+};
+
+// Stand-in row shown until the server responds, and for guests
+const toLocalFavorite = (input: FavoriteInput, customerId: string | null): CustomerFavorite => {
+  const key = getFavoriteKey(input.type, input.itemId);
+  return {
+    id: `local:${key}`,
+    customer_id: customerId,
+    favorite_key: key,
+    favorite_type: input.type,
+    provider_id: input.type === 'provider' ? input.itemId : input.providerId || null,
+    service_id: input.type === 'service' ? input.itemId : null,
+    provider_name: input.providerName,
+    service_name: input.serviceName || null,
+    category: input.category || null,
+    price_range: input.priceRange || null,
+    location: input.location || null,
+    rating: input.rating ?? null,
+    created_at: new Date().toISOString()
+  };
+};
+
+const toFavoriteInput = (favorite: CustomerFavorite): FavoriteInput => ({
+  type: favorite.favorite_type as FavoriteType,
+  itemId: (favorite.favorite_type === 'provider' ? favorite.provider_id : favorite.service_id) || '',
+  providerId: favorite.provider_id || undefined,
+  providerName: favorite.provider_name,
+  serviceName: favorite.service_name || undefined,
+  category: favorite.category || undefined,
+  priceRange: favorite.price_range || undefined,
+  location: favorite.location || undefined,
+  rating: favorite.rating ?? undefined
+});
+
+export const FavoritesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [favorites, setFavorites] = useState<CustomerFavorite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const userId = user?.id ?? null;
+
+  // Load the account's favorites, first merging anything saved as a guest
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!userId) {
+      setFavorites(loadGuestFavorites().map(input => toLocalFavorite(input, null)));
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadFavorites = async () => {
+      setIsLoading(true);
+      try {
+        const guestFavorites = loadGuestFavorites();
+        if (guestFavorites.length > 0) {
+          await favoritesService.merge(userId, guestFavorites);
+          localStorage.removeItem(STORAGE_KEY);
+        }
+
+        const data = await favoritesService.getAll(userId);
+        if (!cancelled) setFavorites(data);
+      } catch (error) {
+        console.error('Error loading favorites:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadFavorites();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authLoading, userId]);
+
+  const isFavorite = useCallback((type: FavoriteType, itemId: string) => {
+    const key = getFavoriteKey(type, itemId);
+    return favorites.some(favorite => favorite.favorite_key === key);
+  }, [favorites]);
+
+  const toggleFavorite = useCallback(async (input: FavoriteInput) => {
+    const key = getFavoriteKey(input.type, input.itemId);
+    const existing = favorites.find(favorite => favorite.favorite_key === key);
+    const withoutItem = (list: CustomerFavorite[]) => list.filter(favorite => favorite.favorite_key !== key);
+
+    // Update the list straight away and undo it if the server rejects the change
+    if (existing) {
+      setFavorites(withoutItem);
+    } else {
+      setFavorites(prev => [toLocalFavorite(input, userId), ...withoutItem(prev)]);
+    }
+
+    if (!userId) {
+      const guestFavorites = loadGuestFavorites().filter(item => getFavoriteKey(item.type, item.itemId) !== key);
+      saveGuestFavorites(existing ? guestFavorites : [input, ...guestFavorites]);
+      return;
+    }
+
+    try {
+      if (existing) {
+        await favoritesService.remove(userId, input.type, input.itemId);
+      } else {
+        const saved = await favoritesService.add(userId, input);
+        setFavorites(prev => prev.map(favorite => favorite.favorite_key === key ? saved : favorite));
+      }
+    } catch (error) {
+      console.error('Error updating favorites:', error);
+      setFavorites(prev => existing ? [existing, ...withoutItem(prev)] : withoutItem(prev));
+      toast({
+        title: "Error",
+        description: existing ? "Failed to remove favorite" : "Failed to save favorite",
+        variant: "destructive"
+      });
+    }
+  }, [favorites, userId, toast]);
+
+  const removeFavorite = useCallback(
+    (favorite: CustomerFavorite) => toggleFavorite(toFavoriteInput(favorite)),
+    [toggleFavorite]
+  );
+
+  const contextValue = useMemo(() => ({
+    favorites,
+    isLoading,
+    isFavorite,
+    toggleFavorite,
+    removeFavorite
+  }), [favorites, isLoading, isFavorite, toggleFavorite, removeFavorite]);
+
+  return (
+    <FavoritesContext.Provider value={contextValue}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
@@ -1,11 +1,13 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Star, MapPin, Clock, Award, CheckCircle, Users } from 'lucide-react';
 
 interface Professional {
-  id: number;
+  id: number | string;
   name: string;
   profession: string;
   specialization: string[];
@@ -19,11 +21,55 @@ interface Professional {
   isVerified: boolean;
   isTopRated: boolean;
   badges: string[];
-  startingPrice: number;
+  startingPrice: number | null;
 }
 
+const getInitials = (name: string) => name.split(' ').map(n => n[0]).join('').slice(0, 2).toUpperCase();
+
 const FeaturedProfessionals: React.FC = () => {
-  const professionals: Professional[] = [
+  // Highest rated approved providers that have at least one published review
+  const { data: topRated } = useQuery({
+    queryKey: ['featured-professionals'],
+    queryFn: async (): Promise<Professional[]> => {
+      const { data, error } = await supabase
+        .from('service_providers')
+        .select('*')
+        .eq('status', 'approved')
+        .gt('total_reviews', 0)
+        .order('rating', { ascending: false })
+        .order('total_reviews', { ascending: false })
+        .limit(4);
+
+      if (error) throw error;
+
+      return (data || []).map(provider => {
+        const specializations = Array.isArray(provider.specializations)
+          ? provider.specializations.map(spec => String(spec))
+          : [];
+        const rating = Number(provider.rating ?? 0);
+
+        return {
+          id: provider.id,
+          name: provider.contact_person || provider.business_name,
+          profession: provider.business_name,
+          specialization: specializations,
+          rating,
+          totalReviews: provider.total_reviews ?? 0,
+          yearsExperience: provider.years_of_experience ?? 0,
+          completedJobs: provider.total_completed_jobs ?? 0,
+          responseTime: provider.response_time_minutes ? `< ${provider.response_time_minutes} min` : 'Varies',
+          location: provider.address,
+          avatar: getInitials(provider.contact_person || provider.business_name),
+          isVerified: true,
+          isTopRated: rating >= 4.8,
+          badges: rating >= 4.8 ? ['Top Rated'] : [],
+          startingPrice: null
+        };
+      });
+    },
+  });
+
+  const sampleProfessionals: Professional[] = [
     {
       id: 1,
       name: "Sarah Johnson",
@@ -94,6 +140,8 @@ const FeaturedProfessionals: React.FC = () => {
     }
   ];
 
+  const professionals = topRated && topRated.length > 0 ? topRated : sampleProfessionals;
+
   const renderStars = (rating: number) => {
     return Array.from({ length: 5 }, (_, index) => (
       <Star
@@ -154,7 +202,7 @@ const FeaturedProfessionals: React.FC = () => {
                     <div className="flex items-center">
                       {renderStars(professional.rating)}
                       <span className="ml-2 text-sm font-medium text-gray-700">
-                        {professional.rating}
+                        {professional.rating.toFixed(1)}
                       </span>
                     </div>
                     <span className="text-xs text-gray-500">
@@ -208,12 +256,16 @@ const FeaturedProfessionals: React.FC = () => {
                   {/* Pricing & CTA */}
                   <div className="border-t pt-3">
                     <div className="flex items-center justify-between mb-3">
-                      <div>
-                        <p className="text-xs text-gray-500">Starting from</p>
-                        <p className="text-lg font-bold text-gray-900">
-                          ${professional.startingPrice}
-                        </p>
-                      </div>
+                      {professional.startingPrice !== null ? (
+                        <div>
+                          <p className="text-xs text-gray-500">Starting from</p>
+                          <p className="text-lg font-bold text-gray-900">
+                            ${professional.startingPrice}
+                          </p>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-gray-500">Rated by verified customers</p>
+                      )}
                       <Button size="sm" className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700">
                         Book Now
                       </Button>
@@ -1,13 +1,20 @@
 
-import React, { useEffect } from 'react';
+import React, { useState } from 'react';
 import { X, MapPin, Navigation, Loader2 } from 'lucide-react';
 import { useLocations, Location } from '@/hooks/useLocations';
+import { useCustomerLocation, CustomerLocation } from '@/hooks/useCustomerLocation';
+import { findNearest, distanceKm, normalizePostalCode } from '@/utils/geo';
+
+// Beyond this the nearest configured location is not a meaningful name for where the customer is
+const NEAREST_LOCATION_MAX_KM = 50;
+
+const POSTAL_CODE_PATTERN = /^[A-Z]\d[A-Z](\d[A-Z]\d)?$/;
 
 interface LocationModalProps {
   isOpen: boolean;
   onClose: () => void;
   currentLocation: string;
-  onLocationSelect: (location: string) => void;
+  onLocationSelect: (location: CustomerLocation) => void;
   loading: boolean;
 }
 
@@ -19,23 +26,54 @@ export const LocationModal: React.FC<LocationModalProps> = ({
   loading
 }) => {
   const { locations, loading: locationsLoading } = useLocations();
+  const { detectLocation } = useCustomerLocation();
+  const [detecting, setDetecting] = useState(false);
+  const [detectError, setDetectError] = useState<string | null>(null);
+  const [postalCode, setPostalCode] = useState('');
 
   if (!isOpen) return null;
 
-  const handleDetectLocation = () => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          // Simulate location detection
-          onLocationSelect("Detected: Moncton, NB");
-        },
-        (error) => {
-          console.error('Error detecting location:', error);
-        }
-      );
+  const formatLocation = (location: Location) => `${location.name}, ${location.city}, ${location.state}`;
+
+  const handleDetectLocation = async () => {
+    setDetecting(true);
+    setDetectError(null);
+    try {
+      const coords = await detectLocation();
+      const origin = { latitude: coords.latitude, longitude: coords.longitude };
+      const nearest = findNearest(origin, locations);
+      const isNearby = nearest?.latitude != null && nearest?.longitude != null &&
+        distanceKm(origin, { latitude: nearest.latitude, longitude: nearest.longitude }) <= NEAREST_LOCATION_MAX_KM;
+
+      onLocationSelect({
+        label: nearest && isNearby ? `Near ${formatLocation(nearest)}` : 'Current location',
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        postalCode: nearest && isNearby ? nearest.postal_code : undefined
+      });
+    } catch (error) {
+      console.error('Error detecting location:', error);
+      setDetectError(error instanceof Error ? error.message : 'Unable to detect your location');
+    } finally {
+      setDetecting(false);
     }
   };
 
+  const normalizedPostalCode = normalizePostalCode(postalCode);
+  const isPostalCodeValid = POSTAL_CODE_PATTERN.test(normalizedPostalCode);
+
+  const handlePostalCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isPostalCodeValid) return;
+
+    onLocationSelect({
+      label: normalizedPostalCode.length === 6
+        ? `${normalizedPostalCode.slice(0, 3)} ${normalizedPostalCode.slice(3)}`
+        : normalizedPostalCode,
+      postalCode: normalizedPostalCode
+    });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="fixed inset-0 bg-background/90 backdrop-blur-xl" onClick={onClose}></div>
@@ -54,11 +92,34 @@ export const LocationModal: React.FC<LocationModalProps> = ({
           {/* Auto-detect button */}
           <button
             onClick={handleDetectLocation}
-            className="w-full flex items-center justify-center space-x-2 p-4 border-2 border-dashed border-primary/30 rounded-2xl text-primary hover:border-primary/50 hover:bg-primary/5 transition-all duration-200 mb-6"
+            disabled={detecting || loading}
+            className="w-full flex items-center justify-center space-x-2 p-4 border-2 border-dashed border-primary/30 rounded-2xl text-primary hover:border-primary/50 hover:bg-primary/5 transition-all duration-200 mb-2 disabled:opacity-50"
           >
-            <Navigation className="h-5 w-5" />
-            <span className="font-medium">Detect My Location</span>
+            {detecting ? <Loader2 className="h-5 w-5 animate-spin" /> : <Navigation className="h-5 w-5" />}
+            <span className="font-medium">{detecting ? 'Detecting...' : 'Detect My Location'}</span>
           </button>
+          {detectError && (
+            <p className="text-sm text-red-600 mb-2">{detectError}</p>
+          )}
+
+          {/* Postal code */}
+          <form onSubmit={handlePostalCodeSubmit} className="flex gap-2 mt-4 mb-6">
+            <input
+              type="text"
+              value={postalCode}
+              onChange={(e) => setPostalCode(e.target.value)}
+              placeholder="Postal code, e.g. E1C 4P5"
+              maxLength={7}
+              className="flex-1 px-4 py-2 border border-border rounded-xl focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              type="submit"
+              disabled={!isPostalCodeValid || loading}
+              className="px-4 py-2 rounded-xl bg-primary text-primary-foreground font-medium disabled:opacity-50"
+            >
+              Use
+            </button>
+          </form>
 
           {/* Locations list */}
           <div className="space-y-2">
@@ -76,11 +137,16 @@ export const LocationModal: React.FC<LocationModalProps> = ({
               </div>
             ) : (
               locations.map((location) => {
-                const locationDisplay = `${location.name}, ${location.city}, ${location.state}`;
+                const locationDisplay = formatLocation(location);
                 return (
                   <button
                     key={location.id}
-                    onClick={() => onLocationSelect(locationDisplay)}
+                    onClick={() => onLocationSelect({
+                      label: locationDisplay,
+                      latitude: location.latitude ?? undefined,
+                      longitude: location.longitude ?? undefined,
+                      postalCode: location.postal_code
+                    })}
                     disabled={loading}
                     className={`w-full text-left p-4 rounded-xl border transition-all duration-200 ${
                       locationDisplay === currentLocation
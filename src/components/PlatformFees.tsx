@@ -1,134 +1,69 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { Info } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-
-interface PlatformFee {
-  id: string;
-  fee_type: 'percentage' | 'fixed_amount';
-  fee_value: number;
-  minimum_fee?: number | null;
-  maximum_fee?: number | null;
-  description?: string | null;
-  applicable_services?: any;
-  applicable_categories?: any;
-  created_by?: string | null;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+import { feeService, FeeLineInput, LineFee } from '@/services/feeService';
 
 interface PlatformFeesProps {
-  subtotal: number;
-  onFeesCalculated: (fees: number) => void;
+  /** Cart lines with the coupon discount already spread over them */
+  lines: FeeLineInput[];
+  onFeesCalculated: (total: number, fees: LineFee[]) => void;
 }
 
 export const PlatformFees: React.FC<PlatformFeesProps> = ({
-  subtotal,
+  lines,
   onFeesCalculated
 }) => {
-  const [platformFee, setPlatformFee] = useState<PlatformFee | null>(null);
-  const [calculatedFee, setCalculatedFee] = useState(0);
+  const [fees, setFees] = useState<LineFee[]>([]);
 
-  useEffect(() => {
-    loadPlatformFees();
-  }, []);
+  // Re-evaluate only when the lines themselves change, not on every render
+  const linesKey = JSON.stringify(lines);
 
   useEffect(() => {
-    if (platformFee && subtotal > 0) {
-      const fee = calculateFee(subtotal, platformFee);
-      setCalculatedFee(fee);
-      onFeesCalculated(fee);
-    } else {
-      setCalculatedFee(0);
-      onFeesCalculated(0);
-    }
-  }, [subtotal, platformFee, onFeesCalculated]);
-
-  const loadPlatformFees = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('platform_fees')
-        .select('*')
-        .eq('is_active', true)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
+    let cancelled = false;
+
+    const evaluate = async () => {
+      try {
+        const result = await feeService.evaluateFees(JSON.parse(linesKey));
+        if (cancelled) return;
+        setFees(result);
+        onFeesCalculated(feeService.totalFees(result), result);
+      } catch (error) {
         console.error('Error loading platform fees:', error);
-        return;
-      }
-
-      if (data) {
-        const fee: PlatformFee = {
-          ...data,
-          fee_type: data.fee_type as "percentage" | "fixed_amount"
-        };
-        setPlatformFee(fee);
+        if (cancelled) return;
+        setFees([]);
+        onFeesCalculated(0, []);
       }
-    } catch (error) {
-      console.error('Error loading platform fees:', error);
-    }
-  };
-
-  const calculateFee = (amount: number, fee: PlatformFee): number => {
-    let calculatedFee = 0;
+    };
+
+    evaluate();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [linesKey, onFeesCalculated]);
+
+  const totalFee = feeService.totalFees(fees);
+
+  // One row per rule, summed across the lines it applied to
+  const feesByRule = Array.from(
+    fees.reduce((byRule, fee) => {
+      const existing = byRule.get(fee.platform_fee_id);
+      byRule.set(fee.platform_fee_id, {
+        ...fee,
+        fee_amount: (existing?.fee_amount || 0) + fee.fee_amount
+      });
+      return byRule;
+    }, new Map<string, LineFee>()).values()
+  );
 
+  const getFeeLabel = (fee: LineFee) => {
     if (fee.fee_type === 'percentage') {
-      calculatedFee = amount * (fee.fee_value / 100);
-    } else {
-      calculatedFee = fee.fee_value;
-    }
-
-    // Apply minimum fee limit
-    if (fee.minimum_fee && calculatedFee < fee.minimum_fee) {
-      calculatedFee = fee.minimum_fee;
-    }
-
-    // Apply maximum fee limit
-    if (fee.maximum_fee && calculatedFee > fee.maximum_fee) {
-      calculatedFee = fee.maximum_fee;
-    }
-
-    return Math.round(calculatedFee * 100) / 100; // Round to 2 decimal places
-  };
-
-  const getFeeDescription = () => {
-    if (!platformFee) return 'Platform service fee';
-    
-    if (platformFee.description) {
-      return platformFee.description;
-    }
-
-    if (platformFee.fee_type === 'percentage') {
-      return `${platformFee.fee_value}% platform service fee`;
-    } else {
-      return `$${platformFee.fee_value} platform service fee`;
-    }
-  };
-
-  const getFeeTooltipContent = () => {
-    if (!platformFee) return 'Platform service fee for processing your booking';
-    
-    let content = getFeeDescription();
-    
-    if (platformFee.fee_type === 'percentage') {
-      content += ` (${platformFee.fee_value}% of subtotal)`;
-      
-      if (platformFee.minimum_fee) {
-        content += `. Minimum fee: $${platformFee.minimum_fee}`;
-      }
-      
-      if (platformFee.maximum_fee) {
-        content += `. Maximum fee: $${platformFee.maximum_fee}`;
-      }
+      return `${fee.description} (${fee.fee_value}%)`;
     }
-    
-    return content;
+    return fee.description;
   };
 
-  if (!platformFee || calculatedFee === 0) {
+  if (totalFee === 0) {
     return null;
   }
 
@@ -142,12 +77,19 @@ export const PlatformFees: React.FC<PlatformFeesProps> = ({
               <Info className="h-4 w-4 text-muted-foreground hover:text-primary cursor-help" />
             </TooltipTrigger>
             <TooltipContent side="top" className="max-w-xs">
-              <p className="text-sm">{getFeeTooltipContent()}</p>
+              <div className="space-y-1 text-sm">
+                {feesByRule.map((fee) => (
+                  <div key={fee.platform_fee_id} className="flex justify-between gap-4">
+                    <span>{getFeeLabel(fee)}</span>
+                    <span>${fee.fee_amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
       </div>
-      <span className="font-semibold text-lg">${calculatedFee.toFixed(2)}</span>
+      <span className="font-semibold text-lg">${totalFee.toFixed(2)}</span>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -2,8 +2,9 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Star, Clock, Shield, User, Plus } from 'lucide-react';
+import { Star, Clock, Shield, User, Plus, Heart } from 'lucide-react';
 import { useCart } from '@/hooks/useCart';
+import { useFavorites } from '@/hooks/useFavorites';
 import { useToast } from '@/hooks/use-toast';
 
 interface ProfessionalServiceCardProps {
@@ -35,15 +36,19 @@ export const ProfessionalServiceCard: React.FC<ProfessionalServiceCardProps> = (
   onBook 
 }) => {
   const { addToCart, isLoading } = useCart();
+  const { isFavorite, toggleFavorite } = useFavorites();
   const { toast } = useToast();
 
+  const providerName = service.service_providers?.business_name || service.user_profile?.business_name || 'Professional Service';
+  const favorite = isFavorite('service', service.id);
+
   const handleAddToCart = async () => {
     try {
       await addToCart({
         serviceId: service.id,
         serviceName: service.service_name,
         providerId: service.provider_id || undefined,
-        providerName: service.service_providers?.business_name || service.user_profile?.business_name || 'Professional Service',
+        providerName,
         price: service.price,
         serviceDetails: {
           duration: service.duration || 60,
@@ -57,6 +62,19 @@ export const ProfessionalServiceCard: React.FC<ProfessionalServiceCardProps> = (
     }
   };
 
+  const handleToggleFavorite = () => {
+    toggleFavorite({
+      type: 'service',
+      itemId: service.id,
+      providerId: service.provider_id,
+      providerName,
+      serviceName: service.service_name,
+      category: service.subcategories?.name,
+      priceRange: `₹${service.price}`,
+      rating: service.service_providers?.rating
+    });
+  };
+
   const handleBookNow = () => {
     if (onBook) {
       onBook(service);
@@ -79,7 +97,7 @@ export const ProfessionalServiceCard: React.FC<ProfessionalServiceCardProps> = (
                     {service.service_name}
                   </h3>
                   <p className="text-small text-text-secondary">
-                    {service.service_providers?.business_name || service.user_profile?.business_name || 'Professional Service'}
+                    {providerName}
                   </p>
                 </div>
               </div>
@@ -103,6 +121,15 @@ export const ProfessionalServiceCard: React.FC<ProfessionalServiceCardProps> = (
             </div>
             
             <div className="text-right">
+              <button
+                onClick={handleToggleFavorite}
+                aria-label={favorite ? 'Remove from favorites' : 'Add to favorites'}
+                className={`mb-2 p-2 rounded-full transition-colors ${
+                  favorite ? 'text-error bg-error/10' : 'text-text-muted hover:text-error hover:bg-error/10'
+                }`}
+              >
+                <Heart className={`h-5 w-5 ${favorite ? 'fill-current' : ''}`} />
+              </button>
               <div className="text-h3 font-bold text-primary">₹{service.price}</div>
               <div className="text-xsmall text-text-muted">Starting price</div>
             </div>
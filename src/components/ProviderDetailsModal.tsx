@@ -1,9 +1,11 @@
 
 import React from 'react';
 import { X, Star, Shield, Phone, Mail, MapPin, Clock, Calendar, Heart } from 'lucide-react';
+import { useFavorites } from '@/hooks/useFavorites';
 
 interface Provider {
-  id: number;
+  /** user_profiles.id */
+  id: string;
   name: string;
   rating: number;
   reviews: number;
@@ -26,20 +28,30 @@ interface ProviderDetailsModalProps {
   onClose: () => void;
   provider: Provider | null;
   onBookNow: () => void;
-  onToggleFavorite: (providerId: number) => void;
-  isFavorite: boolean;
 }
 
 export const ProviderDetailsModal: React.FC<ProviderDetailsModalProps> = ({
   isOpen,
   onClose,
   provider,
-  onBookNow,
-  onToggleFavorite,
-  isFavorite
+  onBookNow
 }) => {
+  const { isFavorite: isSaved, toggleFavorite } = useFavorites();
+
   if (!isOpen || !provider) return null;
 
+  const isFavorite = isSaved('provider', provider.id);
+
+  const handleToggleFavorite = () => {
+    toggleFavorite({
+      type: 'provider',
+      itemId: provider.id,
+      providerName: provider.name,
+      location: provider.address,
+      rating: provider.rating
+    });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="fixed inset-0 bg-background/90 backdrop-blur-xl" onClick={onClose}></div>
@@ -77,7 +89,7 @@ export const ProviderDetailsModal: React.FC<ProviderDetailsModalProps> = ({
             </div>
             <div className="flex items-center space-x-2">
               <button
-                onClick={() => onToggleFavorite(provider.id)}
+                onClick={handleToggleFavorite}
                 className={`p-3 rounded-2xl transition-all ${
                   isFavorite 
                     ? 'text-error bg-error/10 scale-110 shadow-lg' 
@@ -0,0 +1,159 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, Repeat, XCircle } from 'lucide-react';
+import {
+  FREQUENCY_LABELS,
+  MAX_SERIES_OCCURRENCES,
+  RecurrenceFrequency,
+  SeriesOccurrence
+} from '@/services/bookingSeriesService';
+
+export type RepeatFrequency = RecurrenceFrequency | 'none';
+export type SeriesEnd = 'count' | 'date';
+
+interface RecurrenceOptionsProps {
+  frequency: RepeatFrequency;
+  endMode: SeriesEnd;
+  occurrenceCount: number;
+  endDate: string;
+  minEndDate: string;
+  occurrences: SeriesOccurrence[] | null;
+  checking: boolean;
+  onFrequencyChange: (frequency: RepeatFrequency) => void;
+  onEndModeChange: (endMode: SeriesEnd) => void;
+  onOccurrenceCountChange: (count: number) => void;
+  onEndDateChange: (date: string) => void;
+  onCheckAvailability: () => void;
+}
+
+export const RecurrenceOptions: React.FC<RecurrenceOptionsProps> = ({
+  frequency,
+  endMode,
+  occurrenceCount,
+  endDate,
+  minEndDate,
+  occurrences,
+  checking,
+  onFrequencyChange,
+  onEndModeChange,
+  onOccurrenceCountChange,
+  onEndDateChange,
+  onCheckAvailability
+}) => {
+  const unavailableCount = occurrences?.filter(occurrence => !occurrence.slot).length ?? 0;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="w-5 h-5" />
+          Repeat Booking
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Repeat</Label>
+            <Select value={frequency} onValueChange={(value) => onFrequencyChange(value as RepeatFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(option => (
+                  <SelectItem key={option} value={option}>{FREQUENCY_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {frequency !== 'none' && (
+            <>
+              <div className="space-y-2">
+                <Label>Ends</Label>
+                <Select value={endMode} onValueChange={(value) => onEndModeChange(value as SeriesEnd)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">After a number of visits</SelectItem>
+                    <SelectItem value="date">On a date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                {endMode === 'count' ? (
+                  <>
+                    <Label htmlFor="occurrence-count">Visits</Label>
+                    <Input
+                      id="occurrence-count"
+                      type="number"
+                      min={2}
+                      max={MAX_SERIES_OCCURRENCES}
+                      value={occurrenceCount}
+                      onChange={(e) => onOccurrenceCountChange(Number(e.target.value))}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Label htmlFor="series-end-date">Last date</Label>
+                    <Input
+                      id="series-end-date"
+                      type="date"
+                      min={minEndDate}
+                      value={endDate}
+                      onChange={(e) => onEndDateChange(e.target.value)}
+                    />
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {frequency !== 'none' && (
+          <>
+            <Button variant="outline" onClick={onCheckAvailability} disabled={checking} className="w-full">
+              {checking ? 'Checking availability...' : 'Check Availability'}
+            </Button>
+
+            {occurrences && (
+              <div className="space-y-2">
+                {occurrences.map(occurrence => (
+                  <div key={occurrence.date} className="flex items-center justify-between text-sm border rounded-md px-3 py-2">
+                    <span>
+                      {occurrence.occurrence}. {format(parseISO(occurrence.date), 'EEE, MMM d, yyyy')}
+                    </span>
+                    {occurrence.slot ? (
+                      <span className="flex items-center gap-1 text-green-600">
+                        <CheckCircle className="w-4 h-4" />
+                        Available
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-destructive">
+                        <XCircle className="w-4 h-4" />
+                        Unavailable
+                      </span>
+                    )}
+                  </div>
+                ))}
+                {unavailableCount > 0 && (
+                  <p className="text-sm text-destructive">
+                    {unavailableCount} of {occurrences.length} dates are not available at this time.
+                    Choose a different time, frequency or end to book the series.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,103 +1,92 @@
 import React, { useState, useEffect } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Calculator, Info } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-
-interface TaxSlab {
-  id: string;
-  name: string;
-  tax_percentage: number;
-  minimum_amount: number;
-  maximum_amount: number | null;
-  is_active: boolean;
-  applies_to?: string;
-  description?: string;
-}
+import { taxService, LineTax, TaxLineInput, TaxJurisdiction } from '@/services/taxService';
 
 interface TaxCalculationProps {
-  subtotal: number;
-  onTaxCalculated: (taxAmount: number, taxDetails: { slab: TaxSlab; calculatedTax: number } | null) => void;
+  /** Cart lines with their discounted amount plus platform fees */
+  lines: TaxLineInput[];
+  /** Province code or name, usually from the customer's profile */
+  region: string | null;
+  /** When set, the customer can pick their province here */
+  onRegionChange?: (region: string) => void;
+  onTaxCalculated: (taxAmount: number, taxes: LineTax[]) => void;
 }
 
-export function TaxCalculation({ subtotal, onTaxCalculated }: TaxCalculationProps) {
-  const [taxSlabs, setTaxSlabs] = useState<TaxSlab[]>([]);
+export function TaxCalculation({ lines, region, onRegionChange, onTaxCalculated }: TaxCalculationProps) {
+  const [taxes, setTaxes] = useState<LineTax[]>([]);
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [applicableTax, setApplicableTax] = useState<{ slab: TaxSlab; calculatedTax: number } | null>(null);
   const { toast } = useToast();
 
+  // Re-calculate only when the lines themselves change, not on every render
+  const linesKey = JSON.stringify(lines);
+
   useEffect(() => {
-    loadTaxSlabs();
-  }, []);
+    if (!onRegionChange) return;
+
+    taxService.getJurisdictions()
+      .then(setJurisdictions)
+      .catch(error => console.error('Error loading tax jurisdictions:', error));
+  }, [onRegionChange]);
 
   useEffect(() => {
-    if (taxSlabs.length > 0 && subtotal > 0) {
-      calculateApplicableTax();
-    } else {
-      setApplicableTax(null);
-      onTaxCalculated(0, null);
-    }
-  }, [taxSlabs, subtotal]);
-
-  const loadTaxSlabs = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('tax_slabs')
-        .select('*')
-        .eq('is_active', true)
-        .order('minimum_amount', { ascending: true });
-
-      if (error) {
-        console.error('Error loading tax slabs:', error);
+    let cancelled = false;
+
+    const calculate = async () => {
+      try {
+        setLoading(true);
+        const result = await taxService.calculateTaxes(region, JSON.parse(linesKey));
+        if (cancelled) return;
+        setTaxes(result);
+        onTaxCalculated(taxService.totalTax(result), result);
+      } catch (error) {
+        console.error('Error calculating tax:', error);
+        if (cancelled) return;
+        setTaxes([]);
+        onTaxCalculated(0, []);
         toast({
           title: 'Error',
           description: 'Failed to load tax configuration',
           variant: 'destructive',
         });
-        return;
+      } finally {
+        if (!cancelled) setLoading(false);
       }
+    };
+
+    calculate();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [region, linesKey, onTaxCalculated, toast]);
+
+  const components = taxService.totalsByComponent(taxes);
+  const jurisdiction = jurisdictions.find(j => j.region_code === region);
+  const usesSlab = taxes.some(tax => tax.tax_slab_id);
 
-      setTaxSlabs(data || []);
-    } catch (error) {
-      console.error('Error loading tax slabs:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to load tax configuration',
-        variant: 'destructive',
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const calculateApplicableTax = () => {
-    // Find the applicable tax slab based on subtotal
-    const applicableSlab = taxSlabs.find(slab => {
-      const meetsMinimum = subtotal >= slab.minimum_amount;
-      const meetsMaximum = slab.maximum_amount === null || subtotal <= slab.maximum_amount;
-      return meetsMinimum && meetsMaximum;
-    });
-
-    if (applicableSlab) {
-      const calculatedTax = (subtotal * applicableSlab.tax_percentage) / 100;
-      const taxDetails = { slab: applicableSlab, calculatedTax };
-      setApplicableTax(taxDetails);
-      onTaxCalculated(calculatedTax, taxDetails);
-    } else {
-      setApplicableTax(null);
-      onTaxCalculated(0, null);
-    }
-  };
-
-  if (loading) {
+  const regionPicker = onRegionChange && (
+    <Select value={jurisdiction?.region_code ?? ''} onValueChange={onRegionChange}>
+      <SelectTrigger className="h-8 text-sm">
+        <SelectValue placeholder="Select your province for tax" />
+      </SelectTrigger>
+      <SelectContent>
+        {jurisdictions.map((j) => (
+          <SelectItem key={j.id} value={j.region_code}>{j.region_name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (loading && taxes.length === 0) {
     return (
       <div className="flex items-center justify-center p-4">
         <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
@@ -106,57 +95,52 @@ export function TaxCalculation({ subtotal, onTaxCalculated }: TaxCalculationProp
     );
   }
 
-  if (!applicableTax) {
+  if (components.length === 0) {
     return (
-      <div className="flex items-center justify-between py-2 text-sm text-gray-600">
-        <span className="flex items-center">
-          <Calculator className="w-4 h-4 mr-2" />
-          Tax
-        </span>
-        <span>No tax applicable</span>
+      <div className="space-y-2">
+        {regionPicker}
+        <div className="flex items-center justify-between py-2 text-sm text-gray-600">
+          <span className="flex items-center">
+            <Calculator className="w-4 h-4 mr-2" />
+            Tax
+          </span>
+          <span>No tax applicable</span>
+        </div>
       </div>
     );
   }
 
   return (
     <div className="space-y-2">
-      <div className="flex items-center justify-between py-2">
-        <div className="flex items-center">
-          <Calculator className="w-4 h-4 mr-2 text-green-600" />
-          <span className="text-sm font-medium">Tax ({applicableTax.slab.tax_percentage}%)</span>
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger>
-                <Info className="w-4 h-4 ml-1 text-gray-400 hover:text-gray-600" />
-              </TooltipTrigger>
-              <TooltipContent>
-                <div className="max-w-xs">
-                  <p className="font-medium">{applicableTax.slab.name}</p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    Applies to amounts: ${applicableTax.slab.minimum_amount.toFixed(2)}
-                    {applicableTax.slab.maximum_amount && ` - $${applicableTax.slab.maximum_amount.toFixed(2)}`}
-                  </p>
-                </div>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+      {regionPicker}
+      {components.map((component) => (
+        <div key={`${component.name}:${component.rate}`} className="flex items-center justify-between py-1">
+          <div className="flex items-center">
+            <Calculator className="w-4 h-4 mr-2 text-green-600" />
+            <span className="text-sm font-medium">{component.name} ({component.rate}%)</span>
+          </div>
+          <span className="text-sm font-medium">${component.amount.toFixed(2)}</span>
         </div>
-        <div className="flex items-center">
-          <Badge variant="secondary" className="mr-2 text-xs">
-            {applicableTax.slab.name}
-          </Badge>
-          <span className="text-sm font-medium">
-            ${applicableTax.calculatedTax.toFixed(2)}
-          </span>
-        </div>
-      </div>
-      
-      {/* Tax breakdown for transparency */}
-      <div className="text-xs text-gray-500 pl-6">
-        ${subtotal.toFixed(2)} × {applicableTax.slab.tax_percentage}% = ${applicableTax.calculatedTax.toFixed(2)}
+      ))}
+
+      <div className="flex items-center text-xs text-gray-500 pl-6">
+        {usesSlab ? 'Standard tax rate' : `Tax for ${region}`}
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger>
+              <Info className="w-3 h-3 ml-1 text-gray-400 hover:text-gray-600" />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="max-w-xs text-xs">
+                Tax is charged per service on its price after discounts plus its platform fees.
+                Some categories are exempt from some taxes.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
       </div>
     </div>
   );
 }
 
-export default TaxCalculation;
\ No newline at end of file
+export default TaxCalculation;
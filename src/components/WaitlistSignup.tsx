@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { waitlistService } from '@/services/waitlistService';
+import { BellRing, CheckCircle } from 'lucide-react';
+
+interface ServiceOption {
+  id: string;
+  service_name?: string;
+  name?: string;
+}
+
+interface WaitlistSignupProps {
+  providerId: string;
+  /** yyyy-MM-dd */
+  date: string;
+  services: ServiceOption[];
+}
+
+export const WaitlistSignup: React.FC<WaitlistSignupProps> = ({ providerId, date, services }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [serviceId, setServiceId] = useState(services[0]?.id ?? '');
+  const [windowStart, setWindowStart] = useState('');
+  const [windowEnd, setWindowEnd] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [joined, setJoined] = useState(false);
+
+  const handleJoin = async () => {
+    if (!user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in to join the waitlist",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setJoining(true);
+    try {
+      const result = await waitlistService.joinWaitlist({ providerId, serviceId, date, windowStart, windowEnd });
+      if (!result.success) {
+        toast({
+          title: "Could Not Join Waitlist",
+          description: result.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setJoined(true);
+      toast({
+        title: "Added to Waitlist",
+        description: "We'll hold the first matching slot that opens up and notify you"
+      });
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      toast({
+        title: "Error",
+        description: "Failed to join the waitlist",
+        variant: "destructive"
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (joined) {
+    return (
+      <div className="flex flex-col items-center gap-2 text-center">
+        <CheckCircle className="w-8 h-8 text-green-600" />
+        <p className="font-medium">You're on the waitlist</p>
+        <p className="text-sm text-muted-foreground">
+          If a slot opens up we'll hold it for you and send a notification. Track it under My Bookings.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="flex items-center gap-2">
+        <BellRing className="w-5 h-5 text-primary" />
+        <p className="font-medium">Join the waitlist for this day</p>
+      </div>
+
+      {services.length > 1 && (
+        <div className="space-y-2">
+          <Label>Service</Label>
+          <Select value={serviceId} onValueChange={setServiceId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {services.map(service => (
+                <SelectItem key={service.id} value={service.id}>
+                  {service.service_name || service.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="waitlist-from">From (optional)</Label>
+          <Input id="waitlist-from" type="time" value={windowStart} onChange={(e) => setWindowStart(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="waitlist-until">Until (optional)</Label>
+          <Input id="waitlist-until" type="time" value={windowEnd} onChange={(e) => setWindowEnd(e.target.value)} />
+        </div>
+      </div>
+
+      <Button onClick={handleJoin} disabled={joining || !serviceId} className="w-full">
+        {joining ? 'Joining...' : 'Join Waitlist'}
+      </Button>
+    </div>
+  );
+};
@@ -18,7 +18,7 @@ export const AdminSectionInitializer: React.FC = () => {
         const { data: existingSections } = await supabase
           .from('admin_permissions')
           .select('section')
-          .in('section', ['special-offers', 'video-gallery', 'service-management', 'popular-services']);
+          .in('section', ['special-offers', 'video-gallery', 'service-management', 'popular-services', 'payouts', 'reviews']);
 
         const existingSectionNames = existingSections?.map(s => s.section) || [];
         
@@ -50,6 +50,20 @@ export const AdminSectionInitializer: React.FC = () => {
             description: 'Manage featured and popular services',
             is_enabled: true,
             sort_order: 15
+          },
+          {
+            section: 'payouts',
+            display_name: 'Provider Payouts',
+            description: 'Batch provider earnings into payouts and download settlement statements',
+            is_enabled: true,
+            sort_order: 16
+          },
+          {
+            section: 'reviews',
+            display_name: 'Review Moderation',
+            description: 'Approve or reject customer reviews before they are published',
+            is_enabled: true,
+            sort_order: 17
           }
         ].filter(section => !existingSectionNames.includes(section.section));
 
@@ -17,10 +17,12 @@ import {
   Crown,
   BarChart3,
   CreditCard,
+  Wallet,
   Bell,
   Gift,
   Star,
-  Video
+  Video,
+  MessageSquare
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useAdminPermissions } from '@/hooks/useAdminPermissions';
@@ -54,6 +56,7 @@ const navigationSections = [
       { name: 'Service Register Requests', href: '/dashboard/admin?section=service-register-requests', icon: ClipboardCheck },
       { name: 'Category Management', href: '/dashboard/admin?section=categories', icon: FolderTree },
       { name: 'Location Management', href: '/dashboard/admin?section=locations', icon: MapPin },
+      { name: 'Review Moderation', href: '/dashboard/admin?section=reviews', icon: MessageSquare },
     ]
   }
   ,{
@@ -62,6 +65,7 @@ const navigationSections = [
       { name: 'Booking Management', href: '/dashboard/admin?section=bookings', icon: Calendar },
       { name: 'Reports & Analytics', href: '/dashboard/admin?section=reports', icon: BarChart3 },
       { name: 'Payment Management', href: '/dashboard/admin?section=payments', icon: CreditCard },
+      { name: 'Provider Payouts', href: '/dashboard/admin?section=payouts', icon: Wallet },
     ]
   },
   {
@@ -101,6 +105,8 @@ export const AdminSidebar = () => {
     'bookings': { name: 'Booking Management', href: '/dashboard/admin?section=bookings', icon: Calendar },
     'reports': { name: 'Reports & Analytics', href: '/dashboard/admin?section=reports', icon: BarChart3 },
     'payments': { name: 'Payment Management', href: '/dashboard/admin?section=payments', icon: CreditCard },
+    'payouts': { name: 'Provider Payouts', href: '/dashboard/admin?section=payouts', icon: Wallet },
+    'reviews': { name: 'Review Moderation', href: '/dashboard/admin?section=reviews', icon: MessageSquare },
     'notifications': { name: 'Notification Center', href: '/dashboard/admin?section=notifications', icon: Bell },
     'settings': { name: 'System Settings', href: '/dashboard/admin?section=settings', icon: Settings },
     'special-offers': { name: 'Special Offers', href: '/dashboard/admin?section=special-offers', icon: Gift },
@@ -6,34 +6,29 @@ import { Button } from '@/components/ui/button';
 import { Calendar, Clock, DollarSign, User, Phone } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { PROVIDER_STATUS_LABELS, ProviderBookingStatus } from '@/services/bookingProgressService';
 
-interface Booking {
-  id: string;
-  booking_date: string;
-  booking_time: string;
-  status: string;
-  total_amount: number;
-  payment_status: string;
-  special_instructions?: string;
-  services: { name: string };
-  service_providers: { business_name: string; phone: string };
-}
+type Booking = Tables<'bookings'> & {
+  service: { service_name: string } | null;
+  provider: { business_name: string | null; full_name: string | null; phone: string | null } | null;
+};
 
 export const BookingManager = () => {
   const { data: bookings, isLoading } = useQuery({
     queryKey: ['admin-bookings'],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('orders')
+        .from('bookings')
         .select(`
           *,
-          services (name),
-          service_providers (business_name, phone)
+          service:provider_services (service_name),
+          provider:user_profiles (business_name, full_name, phone)
         `)
         .order('created_at', { ascending: false });
       
       if (error) throw error;
-      return data as any;
+      return data as Booking[];
     }
   });
 
@@ -44,6 +39,7 @@ export const BookingManager = () => {
       case 'completed': return 'bg-blue-100 text-blue-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
       case 'rescheduled': return 'bg-purple-100 text-purple-800';
+      case 'no_show': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -57,6 +53,19 @@ export const BookingManager = () => {
     }
   };
 
+  const getProviderStatusColor = (status: string) => {
+    switch (status) {
+      case 'accepted':
+      case 'en_route':
+      case 'in_progress': return 'bg-green-100 text-green-800';
+      case 'pending': return 'bg-yellow-100 text-yellow-800';
+      case 'completed': return 'bg-blue-100 text-blue-800';
+      case 'declined':
+      case 'no_show': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
   if (isLoading) {
     return <div className="flex justify-center p-8"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div></div>;
   }
@@ -87,8 +96,8 @@ export const BookingManager = () => {
             color: 'text-blue-600' 
           },
           { 
-            title: 'Pending', 
-            value: bookings?.filter(b => b.status === 'pending').length || 0, 
+            title: 'Awaiting Provider', 
+            value: bookings?.filter(b => b.status === 'confirmed' && b.provider_status === 'pending').length || 0, 
             color: 'text-yellow-600' 
           },
           { 
@@ -103,7 +112,7 @@ export const BookingManager = () => {
           },
           { 
             title: 'Total Revenue', 
-            value: `$${bookings?.reduce((sum, b) => sum + (b.payment_status === 'paid' ? b.total_amount : 0), 0).toFixed(2)}`,
+            value: `$${bookings?.reduce((sum, b) => sum + (b.payment_status === 'paid' ? Number(b.total_amount) : 0), 0).toFixed(2)}`,
             color: 'text-green-600' 
           }
         ].map((stat, index) => (
@@ -124,7 +133,7 @@ export const BookingManager = () => {
               <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 items-center">
                 {/* Booking Info */}
                 <div className="lg:col-span-4">
-                  <h3 className="font-semibold text-lg mb-2">{booking.services?.name}</h3>
+                  <h3 className="font-semibold text-lg mb-2">{booking.service?.service_name}</h3>
                   <div className="flex items-center space-x-2 text-sm text-gray-600 mb-1">
                     <Calendar className="w-4 h-4" />
                     <span>{booking.booking_date}</span>
@@ -143,22 +152,25 @@ export const BookingManager = () => {
                 <div className="lg:col-span-3">
                   <div className="flex items-center space-x-2 text-sm mb-1">
                     <User className="w-4 h-4 text-gray-400" />
-                    <span className="font-medium">{booking.service_providers?.business_name}</span>
+                    <span className="font-medium">{booking.provider?.business_name || booking.provider?.full_name}</span>
                   </div>
                   <div className="flex items-center space-x-2 text-sm text-gray-600">
                     <Phone className="w-4 h-4 text-gray-400" />
-                    <span>{booking.service_providers?.phone}</span>
+                    <span>{booking.provider?.phone}</span>
                   </div>
                 </div>
 
                 {/* Status */}
                 <div className="lg:col-span-2">
                   <div className="space-y-2">
-                    <Badge className={getStatusColor(booking.status)}>
-                      {booking.status.toUpperCase()}
+                    <Badge className={getStatusColor(booking.status ?? '')}>
+                      {booking.status?.toUpperCase()}
+                    </Badge>
+                    <Badge className={getPaymentStatusColor(booking.payment_status ?? '')}>
+                      {booking.payment_status?.toUpperCase()}
                     </Badge>
-                    <Badge className={getPaymentStatusColor(booking.payment_status)}>
-                      {booking.payment_status.toUpperCase()}
+                    <Badge className={getProviderStatusColor(booking.provider_status)}>
+                      {(PROVIDER_STATUS_LABELS[booking.provider_status as ProviderBookingStatus] ?? booking.provider_status).toUpperCase()}
                     </Badge>
                   </div>
                 </div>
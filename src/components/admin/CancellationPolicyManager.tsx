@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Save, Loader2 } from 'lucide-react';
+
+interface CancellationPolicyForm {
+  id?: string;
+  name: string;
+  description: string;
+  full_refund_hours: number;
+  partial_refund_percentage: number;
+  max_reschedules: number;
+}
+
+const DEFAULT_FORM: CancellationPolicyForm = {
+  name: 'Standard',
+  description: '',
+  full_refund_hours: 24,
+  partial_refund_percentage: 50,
+  max_reschedules: 2
+};
+
+export function CancellationPolicyManager() {
+  const [formData, setFormData] = useState<CancellationPolicyForm>(DEFAULT_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadPolicy = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('cancellation_policies')
+        .select('*')
+        .eq('is_active', true)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setFormData({
+          id: data.id,
+          name: data.name,
+          description: data.description || '',
+          full_refund_hours: data.full_refund_hours,
+          partial_refund_percentage: Number(data.partial_refund_percentage),
+          max_reschedules: data.max_reschedules
+        });
+      }
+    } catch (error) {
+      console.error('Error loading cancellation policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load cancellation policy",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.partial_refund_percentage < 0 || formData.partial_refund_percentage > 100) {
+      toast({
+        title: "Invalid Percentage",
+        description: "Partial refund must be between 0 and 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const values = {
+        name: formData.name,
+        description: formData.description || null,
+        full_refund_hours: formData.full_refund_hours,
+        partial_refund_percentage: formData.partial_refund_percentage,
+        max_reschedules: formData.max_reschedules,
+        is_active: true
+      };
+
+      const { data, error } = formData.id
+        ? await supabase.from('cancellation_policies').update(values).eq('id', formData.id).select().single()
+        : await supabase.from('cancellation_policies').insert(values).select().single();
+
+      if (error) throw error;
+
+      setFormData(prev => ({ ...prev, id: data.id }));
+      toast({
+        title: "Success",
+        description: "Cancellation policy saved",
+      });
+    } catch (error) {
+      console.error('Error saving cancellation policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save cancellation policy",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-w-xl">
+      <div>
+        <Label htmlFor="policy-name">Policy Name</Label>
+        <Input
+          id="policy-name"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="full-refund-hours">Full Refund Window (hours before)</Label>
+          <Input
+            id="full-refund-hours"
+            type="number"
+            min="0"
+            value={formData.full_refund_hours}
+            onChange={(e) => setFormData({ ...formData, full_refund_hours: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="partial-refund-percentage">Refund Inside Window (%)</Label>
+          <Input
+            id="partial-refund-percentage"
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={formData.partial_refund_percentage}
+            onChange={(e) => setFormData({ ...formData, partial_refund_percentage: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="max-reschedules">Reschedules Allowed Per Order</Label>
+        <Input
+          id="max-reschedules"
+          type="number"
+          min="0"
+          value={formData.max_reschedules}
+          onChange={(e) => setFormData({ ...formData, max_reschedules: parseInt(e.target.value) || 0 })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="policy-description">Description</Label>
+        <Textarea
+          id="policy-description"
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          placeholder="Shown to customers when they cancel"
+        />
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Customers get a full refund when cancelling at least {formData.full_refund_hours} hours before the
+        appointment, {formData.partial_refund_percentage}% inside that window, and nothing once it has started.
+      </p>
+
+      <Button type="submit" disabled={isSaving}>
+        {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+        Save Policy
+      </Button>
+    </form>
+  );
+}
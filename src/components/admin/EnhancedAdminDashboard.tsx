@@ -25,7 +25,9 @@ import {
   Gift,
   Star,
   Video,
-  ClipboardCheck
+  ClipboardCheck,
+  Wallet,
+  MessageSquare
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLocation, useNavigate, Link } from 'react-router-dom';
@@ -39,6 +41,8 @@ import { UserManager } from './UserManager';
 import { ProviderManager } from './ProviderManager';
 import { AdminManager } from './AdminManager';
 import { BookingManager } from './BookingManager';
+import { ProviderPayoutManager } from './ProviderPayoutManager';
+import { ReviewModerationQueue } from './ReviewModerationQueue';
 import { SettingsManager } from './SettingsManager';
 import { ServiceRegisterRequestSection } from './ServiceRegisterRequestSection';
 import SpecialOffersManager from './SpecialOffersManager';
@@ -64,6 +68,8 @@ const sectionComponents: Record<string, React.ComponentType> = {
   locations: LocationManagement,
   reports: () => <ReportsSection />,
   payments: () => <PaymentManagementSection />,
+  payouts: ProviderPayoutManager,
+  reviews: ReviewModerationQueue,
   notifications: () => <NotificationCenterSection />,
   settings: SettingsManager,
   admins: AdminManager,
@@ -84,6 +90,8 @@ const sectionIcons: Record<string, React.ReactNode> = {
   locations: <MapPin className="h-4 w-4" />,
   reports: <BarChart3 className="h-4 w-4" />,
   payments: <CreditCard className="h-4 w-4" />,
+  payouts: <Wallet className="h-4 w-4" />,
+  reviews: <MessageSquare className="h-4 w-4" />,
   notifications: <Bell className="h-4 w-4" />,
   settings: <Settings className="h-4 w-4" />,
   admins: <Crown className="h-4 w-4" />,
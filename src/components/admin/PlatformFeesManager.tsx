@@ -7,9 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, Save, X, DollarSign, Percent } from 'lucide-react';
+import { useCategories, useSubcategories } from '@/hooks/useCategories';
+import { feeService, LineFee } from '@/services/feeService';
+import { Plus, Edit, Trash2, Save, X, DollarSign, Percent, Calculator } from 'lucide-react';
 
 interface PlatformFee {
   id: string;
@@ -19,6 +22,8 @@ interface PlatformFee {
   maximum_fee?: number | null;
   applicable_services?: any;
   applicable_categories?: any;
+  priority: number;
+  is_stackable: boolean;
   is_active: boolean;
   description?: string | null;
   created_at?: string;
@@ -36,8 +41,17 @@ export function PlatformFeesManager() {
     fee_value: 0,
     minimum_fee: 0,
     maximum_fee: 0,
-    description: ''
+    description: '',
+    priority: 0,
+    is_stackable: true,
+    applicable_categories: [] as string[],
+    applicable_services: [] as string[]
   });
+  const [previewLines, setPreviewLines] = useState([{ subcategory_id: '', amount: 100 }]);
+  const [previewFees, setPreviewFees] = useState<LineFee[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const { categories } = useCategories();
+  const { subcategories } = useSubcategories();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -71,6 +85,8 @@ export function PlatformFeesManager() {
         description: fee.description,
         applicable_services: fee.applicable_services,
         applicable_categories: fee.applicable_categories,
+        priority: fee.priority,
+        is_stackable: fee.is_stackable,
         created_by: fee.created_by,
         is_active: fee.is_active,
         created_at: fee.created_at,
@@ -91,6 +107,11 @@ export function PlatformFeesManager() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (editingId) {
+      await handleUpdate(editingId);
+      return;
+    }
     
     try {
       const { data, error } = await supabase
@@ -101,6 +122,10 @@ export function PlatformFeesManager() {
           minimum_fee: formData.minimum_fee || null,
           maximum_fee: formData.maximum_fee || null,
           description: formData.description || null,
+          priority: formData.priority,
+          is_stackable: formData.is_stackable,
+          applicable_categories: formData.applicable_categories,
+          applicable_services: formData.applicable_services,
           is_active: true
         })
         .select()
@@ -119,6 +144,8 @@ export function PlatformFeesManager() {
         description: data.description,
         applicable_services: data.applicable_services,
         applicable_categories: data.applicable_categories,
+        priority: data.priority,
+        is_stackable: data.is_stackable,
         created_by: data.created_by,
         is_active: data.is_active,
         created_at: data.created_at,
@@ -152,6 +179,10 @@ export function PlatformFeesManager() {
           minimum_fee: formData.minimum_fee || null,
           maximum_fee: formData.maximum_fee || null,
           description: formData.description || null,
+          priority: formData.priority,
+          is_stackable: formData.is_stackable,
+          applicable_categories: formData.applicable_categories,
+          applicable_services: formData.applicable_services,
           updated_at: new Date().toISOString()
         })
         .eq('id', id)
@@ -171,6 +202,8 @@ export function PlatformFeesManager() {
         description: data.description,
         applicable_services: data.applicable_services,
         applicable_categories: data.applicable_categories,
+        priority: data.priority,
+        is_stackable: data.is_stackable,
         created_by: data.created_by,
         is_active: data.is_active,
         created_at: data.created_at,
@@ -200,7 +233,11 @@ export function PlatformFeesManager() {
       fee_value: fee.fee_value,
       minimum_fee: fee.minimum_fee || 0,
       maximum_fee: fee.maximum_fee || 0,
-      description: fee.description || ''
+      description: fee.description || '',
+      priority: fee.priority,
+      is_stackable: fee.is_stackable,
+      applicable_categories: Array.isArray(fee.applicable_categories) ? fee.applicable_categories : [],
+      applicable_services: Array.isArray(fee.applicable_services) ? fee.applicable_services : []
     });
     setEditingId(fee.id);
   };
@@ -253,6 +290,8 @@ export function PlatformFeesManager() {
         description: data.description,
         applicable_services: data.applicable_services,
         applicable_categories: data.applicable_categories,
+        priority: data.priority,
+        is_stackable: data.is_stackable,
         created_by: data.created_by,
         is_active: data.is_active,
         created_at: data.created_at,
@@ -279,10 +318,59 @@ export function PlatformFeesManager() {
       fee_value: 0,
       minimum_fee: 0,
       maximum_fee: 0,
-      description: ''
+      description: '',
+      priority: 0,
+      is_stackable: true,
+      applicable_categories: [],
+      applicable_services: []
     });
   };
 
+  const toggleScope = (field: 'applicable_categories' | 'applicable_services', id: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: checked ? [...prev[field], id] : prev[field].filter(existing => existing !== id)
+    }));
+  };
+
+  const describeScope = (fee: PlatformFee) => {
+    const categoryIds: string[] = Array.isArray(fee.applicable_categories) ? fee.applicable_categories : [];
+    const subcategoryIds: string[] = Array.isArray(fee.applicable_services) ? fee.applicable_services : [];
+
+    if (categoryIds.length === 0 && subcategoryIds.length === 0) {
+      return 'All services';
+    }
+
+    return [
+      ...categoryIds.map(id => categories.find(category => category.id === id)?.name || 'Unknown category'),
+      ...subcategoryIds.map(id => subcategories.find(subcategory => subcategory.id === id)?.name || 'Unknown subcategory')
+    ].join(', ');
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      const lines = previewLines
+        .map((line, index) => ({ key: String(index), subcategory_id: line.subcategory_id || undefined, amount: line.amount }))
+        .filter(line => line.amount > 0);
+      setPreviewFees(await feeService.evaluateFees(lines));
+    } catch (error) {
+      console.error('Error previewing platform fees:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to preview platform fees",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const updatePreviewLine = (index: number, updates: Partial<{ subcategory_id: string; amount: number }>) => {
+    setPreviewLines(prev => prev.map((line, i) => i === index ? { ...line, ...updates } : line));
+    setPreviewFees(null);
+  };
+
   if (isLoading) {
     return <div className="flex justify-center p-8">Loading platform fees...</div>;
   }
@@ -369,7 +457,67 @@ export function PlatformFeesManager() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="priority">Priority</Label>
+                  <Input
+                    id="priority"
+                    type="number"
+                    step="1"
+                    value={formData.priority}
+                    onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Higher priority rules are applied first</p>
+                </div>
+                <div className="flex items-center gap-3 pt-6">
+                  <Switch
+                    id="is_stackable"
+                    checked={formData.is_stackable}
+                    onCheckedChange={(checked) => setFormData({ ...formData, is_stackable: checked })}
+                  />
+                  <div>
+                    <Label htmlFor="is_stackable">Stacks with other fees</Label>
+                    <p className="text-xs text-muted-foreground">When off, this fee replaces all others on the services it applies to</p>
+                  </div>
+                </div>
+              </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Categories</Label>
+                  <div className="mt-2 max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                    {categories.map((category) => (
+                      <div key={category.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`fee-category-${category.id}`}
+                          checked={formData.applicable_categories.includes(category.id)}
+                          onCheckedChange={(checked) => toggleScope('applicable_categories', category.id, checked === true)}
+                        />
+                        <Label htmlFor={`fee-category-${category.id}`} className="font-normal">{category.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label>Subcategories</Label>
+                  <div className="mt-2 max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                    {subcategories.map((subcategory) => (
+                      <div key={subcategory.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`fee-subcategory-${subcategory.id}`}
+                          checked={formData.applicable_services.includes(subcategory.id)}
+                          onCheckedChange={(checked) => toggleScope('applicable_services', subcategory.id, checked === true)}
+                        />
+                        <Label htmlFor={`fee-subcategory-${subcategory.id}`} className="font-normal">
+                          {subcategory.name}
+                          {subcategory.category?.name && <span className="text-muted-foreground"> ({subcategory.category.name})</span>}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">Leave both empty to apply the fee to every service.</p>
 
               <div className="flex gap-2">
                 <Button type="submit" className="flex items-center gap-2">
@@ -429,7 +577,12 @@ export function PlatformFeesManager() {
                       {fee.maximum_fee && (
                         <span>Max: ${fee.maximum_fee}</span>
                       )}
+                      <span>Priority: {fee.priority}</span>
+                      {!fee.is_stackable && (
+                        <Badge variant="outline">Exclusive</Badge>
+                      )}
                     </div>
+                    <p className="text-sm text-muted-foreground mt-1">Applies to: {describeScope(fee)}</p>
                   </div>
                   <div className="flex items-center gap-2">
                     <Switch
@@ -459,6 +612,88 @@ export function PlatformFeesManager() {
           ))
         )}
       </div>
+
+      {/* Preview */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="w-5 h-5" />
+            Preview Fees
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">Check what the active rules charge on a sample cart.</p>
+          {previewLines.map((line, index) => {
+            const lineFees = (previewFees || []).filter(fee => fee.line_key === String(index));
+            return (
+              <div key={index} className="space-y-2">
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_160px_auto] gap-2">
+                  <Select value={line.subcategory_id} onValueChange={(value) => updatePreviewLine(index, { subcategory_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a subcategory" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {subcategories.map((subcategory) => (
+                        <SelectItem key={subcategory.id} value={subcategory.id}>{subcategory.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={line.amount}
+                    onChange={(e) => updatePreviewLine(index, { amount: parseFloat(e.target.value) || 0 })}
+                    aria-label="Line amount"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setPreviewLines(previewLines.filter((_, i) => i !== index));
+                      setPreviewFees(null);
+                    }}
+                    disabled={previewLines.length === 1}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                {previewFees && (
+                  <div className="pl-2 text-sm text-muted-foreground">
+                    {lineFees.length === 0 ? (
+                      <p>No fees</p>
+                    ) : lineFees.map((fee) => (
+                      <p key={fee.platform_fee_id}>{fee.description}: ${fee.fee_amount.toFixed(2)}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex items-center justify-between">
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setPreviewLines([...previewLines, { subcategory_id: '', amount: 100 }]);
+                  setPreviewFees(null);
+                }}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Line
+              </Button>
+              <Button type="button" onClick={handlePreview} disabled={previewing}>
+                Preview
+              </Button>
+            </div>
+            {previewFees && (
+              <span className="font-semibold">Total fees: ${feeService.totalFees(previewFees).toFixed(2)}</span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
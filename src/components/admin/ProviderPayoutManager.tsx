@@ -0,0 +1,306 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Layers, Download, Printer } from 'lucide-react';
+import { payoutService, ProviderPayout, PayoutStatus } from '@/services/payoutService';
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+interface StatusDialogState {
+  payout: ProviderPayout;
+  status: 'paid' | 'failed';
+}
+
+export const ProviderPayoutManager: React.FC = () => {
+  const { toast } = useToast();
+  const lastMonth = subMonths(new Date(), 1);
+  const [periodStart, setPeriodStart] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [periodEnd, setPeriodEnd] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [payouts, setPayouts] = useState<ProviderPayout[]>([]);
+  const [providerNames, setProviderNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [statusDialog, setStatusDialog] = useState<StatusDialogState | null>(null);
+  const [dialogValue, setDialogValue] = useState('');
+
+  const loadPayouts = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('provider_payouts')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const providerIds = [...new Set((data || []).map(payout => payout.provider_id))];
+      if (providerIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('user_profiles')
+          .select('id, business_name, full_name')
+          .in('id', providerIds);
+
+        setProviderNames(Object.fromEntries(
+          (profiles || []).map(profile => [profile.id, profile.business_name || profile.full_name || 'Provider'])
+        ));
+      }
+
+      setPayouts(data || []);
+    } catch (error) {
+      console.error('Error loading payouts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load provider payouts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    loadPayouts();
+  }, [loadPayouts]);
+
+  const handleCreateBatches = async () => {
+    setCreating(true);
+    const result = await payoutService.createBatches(periodStart, periodEnd);
+    setCreating(false);
+
+    toast({
+      title: result.success ? "Payout Batches" : "Error",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+
+    if (result.success) {
+      loadPayouts();
+    }
+  };
+
+  const updateStatus = async (payout: ProviderPayout, status: PayoutStatus, value?: string) => {
+    setUpdatingId(payout.id);
+    const result = await payoutService.updateStatus(payout.id, status, {
+      referenceNumber: status === 'paid' ? value : undefined,
+      failureReason: status === 'failed' ? value : undefined
+    });
+    setUpdatingId(null);
+
+    toast({
+      title: result.success ? "Payout Updated" : "Error",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+
+    if (result.success) {
+      setStatusDialog(null);
+      loadPayouts();
+    }
+  };
+
+  const handleStatement = async (payout: ProviderPayout, kind: 'csv' | 'print') => {
+    try {
+      const statement = await payoutService.getStatement(payout.id);
+      if (kind === 'csv') {
+        payoutService.downloadStatementCsv(statement);
+      } else {
+        payoutService.openPrintableStatement(statement);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to build settlement statement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openStatusDialog = (payout: ProviderPayout, status: 'paid' | 'failed') => {
+    setDialogValue(status === 'paid' ? payout.reference_number || '' : '');
+    setStatusDialog({ payout, status });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Layers className="h-5 w-5" />
+            <span>Create Payout Batches</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div>
+              <Label htmlFor="payout-period-start">Period Start</Label>
+              <Input
+                id="payout-period-start"
+                type="date"
+                value={periodStart}
+                onChange={(e) => setPeriodStart(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="payout-period-end">Period End</Label>
+              <Input
+                id="payout-period-end"
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreateBatches} disabled={creating || !periodStart || !periodEnd}>
+              {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Batches
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground mt-3">
+            Groups each provider's available earnings from completed jobs in this period into one pending payout.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">Payout Batches</h3>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="processing">Processing</SelectItem>
+            <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          <span>Loading payouts...</span>
+        </div>
+      ) : payouts.length === 0 ? (
+        <p className="text-center text-muted-foreground py-12">No payout batches found</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead className="text-right">Jobs</TableHead>
+              <TableHead className="text-right">Net Payout</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payouts.map((payout) => (
+              <TableRow key={payout.id}>
+                <TableCell className="font-medium">{providerNames[payout.provider_id] || 'Provider'}</TableCell>
+                <TableCell>{payout.period_start} – {payout.period_end}</TableCell>
+                <TableCell className="text-right">{payout.entry_count}</TableCell>
+                <TableCell className="text-right">${Number(payout.net_amount).toFixed(2)}</TableCell>
+                <TableCell>
+                  <Badge className={statusColors[payout.status]} title={payout.failure_reason || undefined}>
+                    {payout.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{payout.reference_number || '-'}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    {payout.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={updatingId === payout.id}
+                        onClick={() => updateStatus(payout, 'processing')}
+                      >
+                        Mark Processing
+                      </Button>
+                    )}
+                    {payout.status === 'processing' && (
+                      <Button size="sm" onClick={() => openStatusDialog(payout, 'paid')}>
+                        Mark Paid
+                      </Button>
+                    )}
+                    {(payout.status === 'pending' || payout.status === 'processing') && (
+                      <Button size="sm" variant="destructive" onClick={() => openStatusDialog(payout, 'failed')}>
+                        Mark Failed
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => handleStatement(payout, 'csv')} title="Download CSV statement">
+                      <Download className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleStatement(payout, 'print')} title="Printable statement">
+                      <Printer className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={!!statusDialog} onOpenChange={(open) => !open && setStatusDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {statusDialog?.status === 'paid' ? 'Mark Payout Paid' : 'Mark Payout Failed'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="payout-status-value">
+              {statusDialog?.status === 'paid' ? 'Reference Number' : 'Failure Reason'}
+            </Label>
+            <Input
+              id="payout-status-value"
+              value={dialogValue}
+              onChange={(e) => setDialogValue(e.target.value)}
+              placeholder={statusDialog?.status === 'paid' ? 'Bank transfer reference' : 'e.g. Invalid bank details'}
+            />
+            {statusDialog?.status === 'failed' && (
+              <p className="text-sm text-muted-foreground">
+                The earnings in this batch return to the provider's available balance.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusDialog(null)}>Cancel</Button>
+            <Button
+              variant={statusDialog?.status === 'failed' ? 'destructive' : 'default'}
+              disabled={!statusDialog || updatingId === statusDialog.payout.id || (statusDialog.status === 'paid' && !dialogValue.trim())}
+              onClick={() => statusDialog && updateStatus(statusDialog.payout, statusDialog.status, dialogValue.trim())}
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
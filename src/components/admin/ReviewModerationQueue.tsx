@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Check, X } from 'lucide-react';
+import { StarRating } from '@/components/reviews/StarRating';
+import { reviewService, Review, ReviewStatus } from '@/services/reviewService';
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+export const ReviewModerationQueue: React.FC = () => {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [providerNames, setProviderNames] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('reviews')
+        .select('*')
+        .order('created_at', { ascending: statusFilter === 'pending' });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const providerIds = [...new Set((data || []).map(review => review.provider_id))];
+      if (providerIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('user_profiles')
+          .select('id, business_name, full_name')
+          .in('id', providerIds);
+
+        setProviderNames(Object.fromEntries(
+          (profiles || []).map(profile => [profile.id, profile.business_name || profile.full_name || 'Provider'])
+        ));
+      }
+
+      setReviews(data || []);
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load reviews",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const moderate = async (review: Review, status: ReviewStatus) => {
+    setUpdatingId(review.id);
+    const result = await reviewService.moderateReview(review.id, status, notes[review.id]?.trim() || undefined);
+    setUpdatingId(null);
+
+    toast({
+      title: result.success ? "Review Updated" : "Error",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+
+    if (result.success) {
+      loadReviews();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Review Moderation</h2>
+          <p className="text-muted-foreground">Only approved reviews are shown publicly and count towards ratings</p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          <span>Loading reviews...</span>
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-center text-muted-foreground py-12">No reviews to show</p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <Card key={review.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                  <div className="flex items-center gap-3">
+                    <StarRating rating={review.rating} />
+                    <span className="font-medium">{review.customer_name || 'Customer'}</span>
+                    <span className="text-sm text-muted-foreground">
+                      for {providerNames[review.provider_id] || 'Provider'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className={statusColors[review.status]}>{review.status}</Badge>
+                    <span className="text-sm text-muted-foreground">
+                      {format(new Date(review.created_at), 'MMM dd, yyyy')}
+                    </span>
+                  </div>
+                </div>
+
+                <p className="text-sm">{review.comment || <span className="italic text-muted-foreground">No comment</span>}</p>
+
+                {review.provider_reply && (
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-medium">Provider reply:</span> {review.provider_reply}
+                  </p>
+                )}
+
+                {review.moderation_note && review.status !== 'pending' && (
+                  <p className="text-xs text-muted-foreground">Note: {review.moderation_note}</p>
+                )}
+
+                <div className="flex flex-col md:flex-row gap-2">
+                  <Input
+                    value={notes[review.id] || ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [review.id]: e.target.value }))}
+                    placeholder="Moderation note (optional)"
+                    className="md:flex-1"
+                  />
+                  {review.status !== 'approved' && (
+                    <Button
+                      size="sm"
+                      disabled={updatingId === review.id}
+                      onClick={() => moderate(review, 'approved')}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  )}
+                  {review.status !== 'rejected' && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={updatingId === review.id}
+                      onClick={() => moderate(review, 'rejected')}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
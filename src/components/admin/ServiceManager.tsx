@@ -19,6 +19,7 @@ interface Service {
   description: string;
   price: number;
   duration_minutes: number;
+  buffer_minutes: number;
   is_popular: boolean;
   display_order: number;
   is_active: boolean;
@@ -149,6 +150,7 @@ export const ServiceManager = () => {
       description: service.description || '',
       price: service.price || 0,
       duration_minutes: service.duration_minutes || 60,
+      buffer_minutes: service.buffer_minutes || 0,
       is_popular: service.is_popular || false,
       display_order: service.display_order || 0,
       is_active: service.is_active ?? true
@@ -200,7 +202,7 @@ export const ServiceManager = () => {
             />
           </div>
           
-          <div className="grid grid-cols-3 gap-4">
+          <div className="grid grid-cols-4 gap-4">
             <div>
               <Label htmlFor="price">Price ($)</Label>
               <Input
@@ -220,6 +222,17 @@ export const ServiceManager = () => {
                 onChange={(e) => setFormData(prev => ({ ...prev, duration_minutes: parseInt(e.target.value) }))}
               />
             </div>
+            <div>
+              <Label htmlFor="buffer">Buffer after (minutes)</Label>
+              <Input
+                id="buffer"
+                type="number"
+                min="0"
+                step="15"
+                value={formData.buffer_minutes}
+                onChange={(e) => setFormData(prev => ({ ...prev, buffer_minutes: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
             <div>
               <Label htmlFor="display_order">Display Order</Label>
               <Input
@@ -308,7 +321,9 @@ export const ServiceManager = () => {
                   <p className="text-sm text-gray-600">{service.description}</p>
                   <div className="flex items-center space-x-4 mt-2">
                     <span className="text-lg font-bold text-primary">${service.price}</span>
-                    <span className="text-sm text-gray-500">{service.duration_minutes} min</span>
+                    <span className="text-sm text-gray-500">
+                      {service.duration_minutes} min{service.buffer_minutes > 0 && ` + ${service.buffer_minutes} min buffer`}
+                    </span>
                     <span className="text-sm text-gray-500">
                       {service.subcategories?.categories?.name} - {service.subcategories?.name}
                     </span>
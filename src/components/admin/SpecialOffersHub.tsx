@@ -6,7 +6,9 @@ import { Badge } from '@/components/ui/badge';
 import SpecialOffersManager from './SpecialOffersManager';
 import { PlatformFeesManager } from './PlatformFeesManager';
 import { TaxSlabsManager } from './TaxSlabsManager';
-import { Gift, DollarSign, Calculator, TrendingUp } from 'lucide-react';
+import { TaxJurisdictionsManager } from './TaxJurisdictionsManager';
+import { CancellationPolicyManager } from './CancellationPolicyManager';
+import { Gift, DollarSign, Calculator, TrendingUp, Undo2 } from 'lucide-react';
 
 export default function SpecialOffersHub() {
   const [activeTab, setActiveTab] = useState('offers');
@@ -18,7 +20,7 @@ export default function SpecialOffersHub() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Special Offers Management</h1>
           <p className="text-muted-foreground mt-2">
-            Manage offers, platform fees, and tax configurations for your platform
+            Manage offers, platform fees, tax and cancellation configurations for your platform
           </p>
         </div>
         <Badge variant="secondary" className="text-sm">
@@ -29,7 +31,7 @@ export default function SpecialOffersHub() {
 
       {/* Main Content */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="offers" className="flex items-center gap-2">
             <Gift className="w-4 h-4" />
             Special Offers
@@ -40,7 +42,11 @@ export default function SpecialOffersHub() {
           </TabsTrigger>
           <TabsTrigger value="taxes" className="flex items-center gap-2">
             <Calculator className="w-4 h-4" />
-            Tax Slabs
+            Taxes
+          </TabsTrigger>
+          <TabsTrigger value="cancellations" className="flex items-center gap-2">
+            <Undo2 className="w-4 h-4" />
+            Cancellations
           </TabsTrigger>
         </TabsList>
 
@@ -79,6 +85,21 @@ export default function SpecialOffersHub() {
         </TabsContent>
 
         <TabsContent value="taxes" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                Provincial Tax Rates
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Taxes charged on each service by the customer's province, and the categories exempt from them
+              </p>
+            </CardHeader>
+            <CardContent>
+              <TaxJurisdictionsManager />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -86,7 +107,7 @@ export default function SpecialOffersHub() {
                 Tax Slabs Management
               </CardTitle>
               <p className="text-sm text-muted-foreground">
-                Configure tax percentages and slabs that will be applied to the total amount
+                Used when the customer's province has no tax rates set up
               </p>
             </CardHeader>
             <CardContent>
@@ -94,6 +115,23 @@ export default function SpecialOffersHub() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="cancellations" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Undo2 className="w-5 h-5" />
+                Cancellation Policy
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Decide how much customers are refunded when they cancel an order
+              </p>
+            </CardHeader>
+            <CardContent>
+              <CancellationPolicyManager />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
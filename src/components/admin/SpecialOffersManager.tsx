@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,9 +6,13 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, Gift } from 'lucide-react';
+import { useCategories, useSubcategories } from '@/hooks/useCategories';
+import { couponService, SpecialOffer, ProviderOption } from '@/services/couponService';
+import { Plus, Edit, Trash2, Gift, Tag } from 'lucide-react';
 
 interface Offer {
   id: string;
@@ -21,7 +25,42 @@ interface Offer {
   isActive: boolean;
 }
 
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyCouponForm = () => ({
+  title: '',
+  description: '',
+  code: '',
+  offer_type: 'discount' as 'discount' | 'buy_x_get_one',
+  buy_quantity: 1,
+  discount_type: 'percentage' as 'percentage' | 'fixed_amount',
+  discount_value: 0,
+  minimum_order_amount: 0,
+  maximum_discount_amount: 0,
+  usage_limit: 0,
+  usage_limit_per_customer: 1,
+  valid_from: new Date().toISOString().slice(0, 10),
+  valid_until: '',
+  first_booking_only: false,
+  valid_weekdays: [] as number[],
+  valid_start_time: '',
+  valid_end_time: '',
+  applicable_categories: [] as string[],
+  applicable_services: [] as string[],
+  applicable_providers: [] as string[],
+  is_active: true
+});
+
+const toIdList = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+
 const SpecialOffersManager: React.FC = () => {
+  const [coupons, setCoupons] = useState<SpecialOffer[]>([]);
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [isEditingCoupon, setIsEditingCoupon] = useState(false);
+  const [editingCouponId, setEditingCouponId] = useState<string | null>(null);
+  const [couponForm, setCouponForm] = useState(emptyCouponForm);
+  const { categories } = useCategories();
+  const { subcategories } = useSubcategories();
   const [offers, setOffers] = useState<Offer[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [editingOffer, setEditingOffer] = useState<Offer | null>(null);
@@ -36,9 +75,197 @@ const SpecialOffersManager: React.FC = () => {
   });
   const { toast } = useToast();
 
+  const loadCoupons = useCallback(async () => {
+    try {
+      const [offers, providerOptions] = await Promise.all([
+        couponService.getOffers(),
+        couponService.getProviderOptions()
+      ]);
+      setCoupons(offers);
+      setProviders(providerOptions);
+    } catch (error) {
+      console.error('Error loading coupons:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load coupons",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
   useEffect(() => {
     loadOffers();
-  }, []);
+    loadCoupons();
+  }, [loadCoupons]);
+
+  const handleCouponSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (couponForm.valid_start_time && couponForm.valid_end_time && couponForm.valid_start_time >= couponForm.valid_end_time) {
+      toast({
+        title: "Error",
+        description: "The time window must end after it starts",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const offer = {
+      title: couponForm.title,
+      description: couponForm.description,
+      code: couponForm.code.toUpperCase(),
+      offer_type: couponForm.offer_type,
+      buy_quantity: couponForm.offer_type === 'buy_x_get_one' ? couponForm.buy_quantity : null,
+      discount_type: couponForm.discount_type,
+      discount_value: couponForm.discount_value,
+      minimum_order_amount: couponForm.minimum_order_amount || 0,
+      maximum_discount_amount: couponForm.maximum_discount_amount || null,
+      usage_limit: couponForm.usage_limit || null,
+      usage_limit_per_customer: couponForm.usage_limit_per_customer || 1,
+      valid_from: new Date(couponForm.valid_from).toISOString(),
+      valid_until: new Date(`${couponForm.valid_until}T23:59:59`).toISOString(),
+      first_booking_only: couponForm.first_booking_only,
+      valid_weekdays: couponForm.valid_weekdays,
+      valid_start_time: couponForm.valid_start_time || null,
+      valid_end_time: couponForm.valid_end_time || null,
+      applicable_categories: couponForm.applicable_categories,
+      applicable_services: couponForm.applicable_services,
+      applicable_providers: couponForm.applicable_providers,
+      is_active: couponForm.is_active
+    };
+
+    try {
+      if (editingCouponId) {
+        await couponService.updateOffer(editingCouponId, { ...offer, updated_at: new Date().toISOString() });
+      } else {
+        await couponService.createOffer(offer);
+      }
+
+      toast({
+        title: "Success",
+        description: `Coupon ${editingCouponId ? 'updated' : 'created'} successfully`
+      });
+      resetCouponForm();
+      await loadCoupons();
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save coupon",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEditCoupon = (coupon: SpecialOffer) => {
+    setCouponForm({
+      title: coupon.title,
+      description: coupon.description,
+      code: coupon.code,
+      offer_type: coupon.offer_type === 'buy_x_get_one' ? 'buy_x_get_one' : 'discount',
+      buy_quantity: coupon.buy_quantity || 1,
+      discount_type: coupon.discount_type === 'fixed_amount' ? 'fixed_amount' : 'percentage',
+      discount_value: Number(coupon.discount_value),
+      minimum_order_amount: Number(coupon.minimum_order_amount) || 0,
+      maximum_discount_amount: Number(coupon.maximum_discount_amount) || 0,
+      usage_limit: coupon.usage_limit || 0,
+      usage_limit_per_customer: coupon.usage_limit_per_customer || 1,
+      valid_from: coupon.valid_from.slice(0, 10),
+      valid_until: coupon.valid_until.slice(0, 10),
+      first_booking_only: coupon.first_booking_only,
+      valid_weekdays: coupon.valid_weekdays || [],
+      valid_start_time: coupon.valid_start_time?.slice(0, 5) || '',
+      valid_end_time: coupon.valid_end_time?.slice(0, 5) || '',
+      applicable_categories: toIdList(coupon.applicable_categories),
+      applicable_services: toIdList(coupon.applicable_services),
+      applicable_providers: toIdList(coupon.applicable_providers),
+      is_active: coupon.is_active !== false
+    });
+    setEditingCouponId(coupon.id);
+    setIsEditingCoupon(true);
+  };
+
+  const handleDeleteCoupon = async (couponId: string) => {
+    try {
+      await couponService.deleteOffer(couponId);
+      setCoupons(coupons.filter(coupon => coupon.id !== couponId));
+      toast({
+        title: "Success",
+        description: "Coupon deleted successfully"
+      });
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete coupon",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleCouponStatus = async (couponId: string, isActive: boolean) => {
+    try {
+      await couponService.updateOffer(couponId, { is_active: isActive, updated_at: new Date().toISOString() });
+      setCoupons(coupons.map(coupon => coupon.id === couponId ? { ...coupon, is_active: isActive } : coupon));
+    } catch (error) {
+      console.error('Error toggling coupon status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update coupon status",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const resetCouponForm = () => {
+    setCouponForm(emptyCouponForm());
+    setEditingCouponId(null);
+    setIsEditingCoupon(false);
+  };
+
+  const toggleCouponScope = (
+    field: 'applicable_categories' | 'applicable_services' | 'applicable_providers',
+    id: string,
+    checked: boolean
+  ) => {
+    setCouponForm(prev => ({
+      ...prev,
+      [field]: checked ? [...prev[field], id] : prev[field].filter(existing => existing !== id)
+    }));
+  };
+
+  const toggleWeekday = (day: number, checked: boolean) => {
+    setCouponForm(prev => ({
+      ...prev,
+      valid_weekdays: checked
+        ? [...prev.valid_weekdays, day].sort()
+        : prev.valid_weekdays.filter(existing => existing !== day)
+    }));
+  };
+
+  const describeDiscount = (coupon: SpecialOffer) => {
+    const amount = coupon.discount_type === 'percentage' ? `${coupon.discount_value}% off` : `$${coupon.discount_value} off`;
+    return coupon.offer_type === 'buy_x_get_one'
+      ? `Buy ${coupon.buy_quantity}, get one ${coupon.discount_type === 'percentage' && Number(coupon.discount_value) >= 100 ? 'free' : amount}`
+      : amount;
+  };
+
+  const describeCouponRules = (coupon: SpecialOffer) => {
+    const scope = [
+      ...toIdList(coupon.applicable_categories).map(id => categories.find(category => category.id === id)?.name || 'Unknown category'),
+      ...toIdList(coupon.applicable_services).map(id => subcategories.find(subcategory => subcategory.id === id)?.name || 'Unknown subcategory')
+    ];
+    const providerNames = toIdList(coupon.applicable_providers).map(id => providers.find(provider => provider.id === id)?.name || 'Unknown provider');
+
+    return [
+      scope.length > 0 ? `Services: ${scope.join(', ')}` : 'All services',
+      providerNames.length > 0 && `Providers: ${providerNames.join(', ')}`,
+      coupon.first_booking_only && 'First booking only',
+      coupon.valid_weekdays?.length > 0 && `On ${coupon.valid_weekdays.map(day => WEEKDAYS[day]).join(', ')}`,
+      (coupon.valid_start_time || coupon.valid_end_time) &&
+        `Between ${coupon.valid_start_time?.slice(0, 5) || '00:00'} and ${coupon.valid_end_time?.slice(0, 5) || '24:00'}`
+    ].filter(Boolean).join(' · ');
+  };
 
   const loadOffers = async () => {
     try {
@@ -150,10 +377,374 @@ const SpecialOffersManager: React.FC = () => {
         <div>
           <h2 className="text-3xl font-bold tracking-tight">Special Offers</h2>
           <p className="text-muted-foreground">
-            Manage promotional offers and deals for your platform
+            Manage coupons and the promotional offers shown on your platform
           </p>
         </div>
-        <Button onClick={() => setIsEditing(true)}>
+      </div>
+
+      {/* Coupons */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Coupons ({coupons.length})</h3>
+        <Button variant="outline" onClick={() => setIsEditingCoupon(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Coupon
+        </Button>
+      </div>
+
+      {isEditingCoupon && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {editingCouponId ? 'Edit Coupon' : 'Add New Coupon'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCouponSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="coupon_title">Title</Label>
+                  <Input
+                    id="coupon_title"
+                    value={couponForm.title}
+                    onChange={(e) => setCouponForm({ ...couponForm, title: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="coupon_code">Coupon Code</Label>
+                  <Input
+                    id="coupon_code"
+                    placeholder="e.g., FIRST20"
+                    value={couponForm.code}
+                    onChange={(e) => setCouponForm({ ...couponForm, code: e.target.value.toUpperCase() })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="coupon_description">Description</Label>
+                <Textarea
+                  id="coupon_description"
+                  value={couponForm.description}
+                  onChange={(e) => setCouponForm({ ...couponForm, description: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label>Offer Type</Label>
+                  <Select
+                    value={couponForm.offer_type}
+                    onValueChange={(value: 'discount' | 'buy_x_get_one') => setCouponForm({ ...couponForm, offer_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="discount">Discount</SelectItem>
+                      <SelectItem value="buy_x_get_one">Buy N, get one</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {couponForm.offer_type === 'buy_x_get_one' && (
+                  <div>
+                    <Label htmlFor="buy_quantity">Buy Quantity</Label>
+                    <Input
+                      id="buy_quantity"
+                      type="number"
+                      step="1"
+                      min="1"
+                      value={couponForm.buy_quantity}
+                      onChange={(e) => setCouponForm({ ...couponForm, buy_quantity: parseInt(e.target.value) || 1 })}
+                      required
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label>Discount Type</Label>
+                  <Select
+                    value={couponForm.discount_type}
+                    onValueChange={(value: 'percentage' | 'fixed_amount') => setCouponForm({ ...couponForm, discount_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">Percentage</SelectItem>
+                      <SelectItem value="fixed_amount">Fixed Amount</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="discount_value">
+                    {couponForm.discount_type === 'percentage' ? 'Discount (%)' : 'Discount ($)'}
+                  </Label>
+                  <Input
+                    id="discount_value"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={couponForm.discount_value}
+                    onChange={(e) => setCouponForm({ ...couponForm, discount_value: parseFloat(e.target.value) || 0 })}
+                    required
+                  />
+                </div>
+              </div>
+              {couponForm.offer_type === 'buy_x_get_one' && (
+                <p className="text-xs text-muted-foreground">
+                  For every {couponForm.buy_quantity + 1} eligible services booked, the cheapest one gets the discount. Use 100% to make it free.
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="minimum_order_amount">Minimum Order ($)</Label>
+                  <Input
+                    id="minimum_order_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={couponForm.minimum_order_amount}
+                    onChange={(e) => setCouponForm({ ...couponForm, minimum_order_amount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="maximum_discount_amount">Maximum Discount ($)</Label>
+                  <Input
+                    id="maximum_discount_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={couponForm.maximum_discount_amount}
+                    onChange={(e) => setCouponForm({ ...couponForm, maximum_discount_amount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="usage_limit">Total Uses</Label>
+                  <Input
+                    id="usage_limit"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={couponForm.usage_limit}
+                    onChange={(e) => setCouponForm({ ...couponForm, usage_limit: parseInt(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">0 for unlimited</p>
+                </div>
+                <div>
+                  <Label htmlFor="usage_limit_per_customer">Uses per Customer</Label>
+                  <Input
+                    id="usage_limit_per_customer"
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={couponForm.usage_limit_per_customer}
+                    onChange={(e) => setCouponForm({ ...couponForm, usage_limit_per_customer: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="valid_from">Valid From</Label>
+                  <Input
+                    id="valid_from"
+                    type="date"
+                    value={couponForm.valid_from}
+                    onChange={(e) => setCouponForm({ ...couponForm, valid_from: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="valid_until">Valid Until</Label>
+                  <Input
+                    id="valid_until"
+                    type="date"
+                    value={couponForm.valid_until}
+                    onChange={(e) => setCouponForm({ ...couponForm, valid_until: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="valid_start_time">Booked From</Label>
+                  <Input
+                    id="valid_start_time"
+                    type="time"
+                    value={couponForm.valid_start_time}
+                    onChange={(e) => setCouponForm({ ...couponForm, valid_start_time: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="valid_end_time">Booked Until</Label>
+                  <Input
+                    id="valid_end_time"
+                    type="time"
+                    value={couponForm.valid_end_time}
+                    onChange={(e) => setCouponForm({ ...couponForm, valid_end_time: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Appointment Days</Label>
+                <div className="mt-2 flex flex-wrap gap-4">
+                  {WEEKDAYS.map((day, index) => (
+                    <div key={day} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`coupon-weekday-${index}`}
+                        checked={couponForm.valid_weekdays.includes(index)}
+                        onCheckedChange={(checked) => toggleWeekday(index, checked === true)}
+                      />
+                      <Label htmlFor={`coupon-weekday-${index}`} className="font-normal">{day}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Days and times apply to the booked appointment. Leave empty for any day or time.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label>Categories</Label>
+                  <div className="mt-2 max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                    {categories.map((category) => (
+                      <div key={category.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`coupon-category-${category.id}`}
+                          checked={couponForm.applicable_categories.includes(category.id)}
+                          onCheckedChange={(checked) => toggleCouponScope('applicable_categories', category.id, checked === true)}
+                        />
+                        <Label htmlFor={`coupon-category-${category.id}`} className="font-normal">{category.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label>Subcategories</Label>
+                  <div className="mt-2 max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                    {subcategories.map((subcategory) => (
+                      <div key={subcategory.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`coupon-subcategory-${subcategory.id}`}
+                          checked={couponForm.applicable_services.includes(subcategory.id)}
+                          onCheckedChange={(checked) => toggleCouponScope('applicable_services', subcategory.id, checked === true)}
+                        />
+                        <Label htmlFor={`coupon-subcategory-${subcategory.id}`} className="font-normal">
+                          {subcategory.name}
+                          {subcategory.category?.name && <span className="text-muted-foreground"> ({subcategory.category.name})</span>}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label>Providers</Label>
+                  <div className="mt-2 max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                    {providers.map((provider) => (
+                      <div key={provider.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`coupon-provider-${provider.id}`}
+                          checked={couponForm.applicable_providers.includes(provider.id)}
+                          onCheckedChange={(checked) => toggleCouponScope('applicable_providers', provider.id, checked === true)}
+                        />
+                        <Label htmlFor={`coupon-provider-${provider.id}`} className="font-normal">{provider.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Only services in the selected categories or subcategories, and from the selected providers, are discounted. Leave empty for all.
+              </p>
+
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="first_booking_only"
+                    checked={couponForm.first_booking_only}
+                    onCheckedChange={(checked) => setCouponForm({ ...couponForm, first_booking_only: checked })}
+                  />
+                  <Label htmlFor="first_booking_only">First booking only</Label>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="coupon_is_active"
+                    checked={couponForm.is_active}
+                    onCheckedChange={(checked) => setCouponForm({ ...couponForm, is_active: checked })}
+                  />
+                  <Label htmlFor="coupon_is_active">Active</Label>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit">
+                  {editingCouponId ? 'Update' : 'Create'} Coupon
+                </Button>
+                <Button type="button" variant="outline" onClick={resetCouponForm}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4">
+        {coupons.length === 0 && !isEditingCoupon ? (
+          <Card>
+            <CardContent className="text-center py-8">
+              <Tag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No coupons yet.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          coupons.map((coupon) => (
+            <Card key={coupon.id} className={coupon.is_active ? '' : 'opacity-60'}>
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-2">
+                      <h4 className="font-semibold text-lg">{coupon.title}</h4>
+                      <Badge variant="outline" className="font-mono">{coupon.code}</Badge>
+                      <Badge variant={coupon.is_active ? 'default' : 'secondary'}>
+                        {coupon.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <span className="font-medium text-primary">{describeDiscount(coupon)}</span>
+                      {(coupon.minimum_order_amount || 0) > 0 && <span>Min: ${coupon.minimum_order_amount}</span>}
+                      {coupon.maximum_discount_amount && <span>Max: ${coupon.maximum_discount_amount}</span>}
+                      <span>Used: {coupon.usage_count || 0}{coupon.usage_limit ? ` / ${coupon.usage_limit}` : ''}</span>
+                      <span>Until {new Date(coupon.valid_until).toLocaleDateString()}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">{describeCouponRules(coupon)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={coupon.is_active !== false}
+                      onCheckedChange={(checked) => toggleCouponStatus(coupon.id, checked)}
+                    />
+                    <Button size="sm" variant="outline" onClick={() => handleEditCoupon(coupon)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDeleteCoupon(coupon.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Promotional Banners */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Promotional Banners ({offers.length})</h3>
+        <Button variant="outline" onClick={() => setIsEditing(true)}>
           <Plus className="h-4 w-4 mr-2" />
           Add Offer
         </Button>
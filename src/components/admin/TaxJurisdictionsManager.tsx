@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/useCategories';
+import { taxService, TaxJurisdiction, TaxExemption } from '@/services/taxService';
+import { Plus, Trash2, Save, MapPin, Ban } from 'lucide-react';
+
+const ALL = 'all';
+
+export function TaxJurisdictionsManager() {
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([]);
+  const [exemptions, setExemptions] = useState<TaxExemption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rates, setRates] = useState<Record<string, string>>({});
+  const [newComponent, setNewComponent] = useState({ jurisdictionId: '', name: '', rate: '', isCompound: false });
+  const [newExemption, setNewExemption] = useState({ categoryId: '', jurisdictionId: ALL, componentId: ALL });
+  const { categories } = useCategories();
+  const { toast } = useToast();
+
+  const showError = useCallback((message: string, error: unknown) => {
+    console.error(message, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : message,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [loadedJurisdictions, loadedExemptions] = await Promise.all([
+        taxService.getJurisdictions(),
+        taxService.getExemptions()
+      ]);
+      setJurisdictions(loadedJurisdictions);
+      setExemptions(loadedExemptions);
+      setRates(Object.fromEntries(
+        loadedJurisdictions.flatMap(j => j.tax_components.map(c => [c.id, String(c.rate)]))
+      ));
+    } catch (error) {
+      showError('Failed to load tax jurisdictions', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleToggleJurisdiction = async (jurisdiction: TaxJurisdiction, isActive: boolean) => {
+    try {
+      await taxService.setJurisdictionActive(jurisdiction.id, isActive);
+      setJurisdictions(prev => prev.map(j => j.id === jurisdiction.id ? { ...j, is_active: isActive } : j));
+    } catch (error) {
+      showError('Failed to update jurisdiction', error);
+    }
+  };
+
+  const handleSaveRate = async (componentId: string) => {
+    const rate = parseFloat(rates[componentId]);
+    if (isNaN(rate) || rate < 0 || rate > 100) return;
+
+    try {
+      await taxService.updateComponent(componentId, { rate });
+      toast({
+        title: "Success",
+        description: "Tax rate updated successfully",
+      });
+      loadData();
+    } catch (error) {
+      showError('Failed to update tax rate', error);
+    }
+  };
+
+  const handleToggleComponent = async (componentId: string, updates: { is_active?: boolean; is_compound?: boolean }) => {
+    try {
+      await taxService.updateComponent(componentId, updates);
+      loadData();
+    } catch (error) {
+      showError('Failed to update tax component', error);
+    }
+  };
+
+  const handleDeleteComponent = async (componentId: string) => {
+    try {
+      await taxService.deleteComponent(componentId);
+      loadData();
+    } catch (error) {
+      showError('Failed to delete tax component', error);
+    }
+  };
+
+  const handleAddComponent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(newComponent.rate);
+    if (!newComponent.jurisdictionId || !newComponent.name.trim() || isNaN(rate)) return;
+
+    const jurisdiction = jurisdictions.find(j => j.id === newComponent.jurisdictionId);
+
+    try {
+      await taxService.addComponent({
+        jurisdiction_id: newComponent.jurisdictionId,
+        name: newComponent.name.trim(),
+        rate,
+        is_compound: newComponent.isCompound,
+        sort_order: jurisdiction?.tax_components.length ?? 0
+      });
+      toast({
+        title: "Success",
+        description: "Tax component added successfully",
+      });
+      setNewComponent({ jurisdictionId: newComponent.jurisdictionId, name: '', rate: '', isCompound: false });
+      loadData();
+    } catch (error) {
+      showError('Failed to add tax component', error);
+    }
+  };
+
+  const handleAddExemption = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newExemption.categoryId) return;
+
+    try {
+      await taxService.addExemption({
+        category_id: newExemption.categoryId,
+        jurisdiction_id: newExemption.jurisdictionId === ALL ? null : newExemption.jurisdictionId,
+        tax_component_id: newExemption.componentId === ALL ? null : newExemption.componentId
+      });
+      toast({
+        title: "Success",
+        description: "Tax exemption added successfully",
+      });
+      setNewExemption({ categoryId: '', jurisdictionId: ALL, componentId: ALL });
+      loadData();
+    } catch (error) {
+      showError('Failed to add tax exemption', error);
+    }
+  };
+
+  const handleDeleteExemption = async (exemptionId: string) => {
+    try {
+      await taxService.deleteExemption(exemptionId);
+      setExemptions(prev => prev.filter(exemption => exemption.id !== exemptionId));
+    } catch (error) {
+      showError('Failed to delete tax exemption', error);
+    }
+  };
+
+  const exemptionJurisdiction = jurisdictions.find(j => j.id === newExemption.jurisdictionId);
+
+  if (isLoading) {
+    return <div className="flex justify-center p-8">Loading tax jurisdictions...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Jurisdictions */}
+      <div className="grid gap-4 md:grid-cols-2">
+        {jurisdictions.map((jurisdiction) => (
+          <Card key={jurisdiction.id} className={!jurisdiction.is_active ? 'opacity-60' : ''}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  <span className="font-semibold">{jurisdiction.region_name}</span>
+                  <Badge variant="outline">{jurisdiction.region_code}</Badge>
+                </div>
+                <Switch
+                  checked={jurisdiction.is_active}
+                  onCheckedChange={(checked) => handleToggleJurisdiction(jurisdiction, checked)}
+                  aria-label="Jurisdiction active"
+                />
+              </div>
+              {jurisdiction.tax_components.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No taxes configured</p>
+              ) : jurisdiction.tax_components.map((component) => (
+                <div key={component.id} className="flex items-center gap-2">
+                  <span className="w-12 text-sm font-medium">{component.name}</span>
+                  <Input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    max="100"
+                    value={rates[component.id] ?? ''}
+                    onChange={(e) => setRates({ ...rates, [component.id]: e.target.value })}
+                    className="h-8 w-24"
+                    aria-label={`${component.name} rate`}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleSaveRate(component.id)}
+                    disabled={rates[component.id] === String(component.rate)}
+                  >
+                    <Save className="w-4 h-4" />
+                  </Button>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Switch
+                      checked={component.is_compound}
+                      onCheckedChange={(checked) => handleToggleComponent(component.id, { is_compound: checked })}
+                      aria-label="Compound"
+                    />
+                    Compound
+                  </div>
+                  <Switch
+                    checked={component.is_active}
+                    onCheckedChange={(checked) => handleToggleComponent(component.id, { is_active: checked })}
+                    aria-label="Component active"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteComponent(component.id)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Add Component */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Add a Tax</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAddComponent} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="md:col-span-2">
+              <Label>Province</Label>
+              <Select
+                value={newComponent.jurisdictionId}
+                onValueChange={(value) => setNewComponent({ ...newComponent, jurisdictionId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a province" />
+                </SelectTrigger>
+                <SelectContent>
+                  {jurisdictions.map((jurisdiction) => (
+                    <SelectItem key={jurisdiction.id} value={jurisdiction.id}>{jurisdiction.region_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="component-name">Name</Label>
+              <Input
+                id="component-name"
+                value={newComponent.name}
+                onChange={(e) => setNewComponent({ ...newComponent, name: e.target.value })}
+                placeholder="e.g., PST"
+              />
+            </div>
+            <div>
+              <Label htmlFor="component-rate">Rate (%)</Label>
+              <Input
+                id="component-rate"
+                type="number"
+                step="0.001"
+                min="0"
+                max="100"
+                value={newComponent.rate}
+                onChange={(e) => setNewComponent({ ...newComponent, rate: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="component-compound"
+                  checked={newComponent.isCompound}
+                  onCheckedChange={(checked) => setNewComponent({ ...newComponent, isCompound: checked })}
+                />
+                <Label htmlFor="component-compound">Compound</Label>
+              </div>
+              <Button type="submit" size="sm">
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </form>
+          <p className="text-xs text-muted-foreground mt-2">
+            A compound tax is charged on the price plus the taxes listed before it.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Exemptions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Ban className="w-4 h-4" />
+            Category Exemptions
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAddExemption} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <Label>Category</Label>
+              <Select
+                value={newExemption.categoryId}
+                onValueChange={(value) => setNewExemption({ ...newExemption, categoryId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Province</Label>
+              <Select
+                value={newExemption.jurisdictionId}
+                onValueChange={(value) => setNewExemption({ ...newExemption, jurisdictionId: value, componentId: ALL })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All provinces</SelectItem>
+                  {jurisdictions.map((jurisdiction) => (
+                    <SelectItem key={jurisdiction.id} value={jurisdiction.id}>{jurisdiction.region_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Tax</Label>
+              <Select
+                value={newExemption.componentId}
+                onValueChange={(value) => setNewExemption({ ...newExemption, componentId: value })}
+                disabled={!exemptionJurisdiction}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All taxes</SelectItem>
+                  {exemptionJurisdiction?.tax_components.map((component) => (
+                    <SelectItem key={component.id} value={component.id}>{component.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={!newExemption.categoryId} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add Exemption
+            </Button>
+          </form>
+
+          {exemptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No exemptions. Every category is taxed.</p>
+          ) : (
+            <div className="space-y-2">
+              {exemptions.map((exemption) => (
+                <div key={exemption.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <span className="text-sm">
+                    <span className="font-medium">{exemption.categories?.name || 'Unknown category'}</span>
+                    {' is exempt from '}
+                    {exemption.tax_components?.name || 'all taxes'}
+                    {' in '}
+                    {exemption.tax_jurisdictions?.region_code || 'every province'}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteExemption(exemption.id)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -264,8 +264,8 @@ export function TaxSlabsManager() {
           <div>
             <h4 className="font-medium text-blue-900">Tax Configuration</h4>
             <p className="text-sm text-blue-700 mt-1">
-              Tax slabs will be automatically applied to the total amount during checkout based on the configured percentage rates. 
-              Only active tax slabs within the amount range will be applied.
+              Tax slabs apply only when the customer's province has no tax rates set up. The first active slab whose
+              amount range contains the cart total is charged on every service.
             </p>
           </div>
         </div>
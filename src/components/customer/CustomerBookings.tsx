@@ -6,6 +6,22 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useCart } from '@/hooks/useCart';
+import { paymentService } from '@/services/paymentService';
+import {
+  bookingSeriesService,
+  BookingSeries,
+  FREQUENCY_LABELS,
+  RecurrenceFrequency,
+  SeriesBooking
+} from '@/services/bookingSeriesService';
+import { waitlistService, CustomerWaitlistEntry } from '@/services/waitlistService';
+import {
+  bookingProgressService,
+  BookingProgress,
+  PROVIDER_STATUS_LABELS,
+  ProviderBookingStatus
+} from '@/services/bookingProgressService';
 import { 
   Calendar as CalendarIcon, 
   Clock, 
@@ -15,7 +31,9 @@ import {
   Loader2,
   Package,
   ChevronRight,
-  ArrowLeft
+  ArrowLeft,
+  Repeat,
+  BellRing
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -47,16 +65,86 @@ export const CustomerBookings: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { addToCart } = useCart();
   
   const [orders, setOrders] = useState<Order[]>([]);
+  const [series, setSeries] = useState<BookingSeries[]>([]);
+  const [seriesBookings, setSeriesBookings] = useState<SeriesBooking[]>([]);
+  const [waitlist, setWaitlist] = useState<CustomerWaitlistEntry[]>([]);
+  const [progress, setProgress] = useState<BookingProgress[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (user) {
       loadOrders();
+      loadSeries();
+      loadWaitlist();
     }
   }, [user]);
 
+  const loadWaitlist = async () => {
+    if (!user) return;
+
+    try {
+      setWaitlist(await waitlistService.getCustomerWaitlist(user.id));
+    } catch (error) {
+      console.error('Error loading waitlist:', error);
+    }
+  };
+
+  const handleBookOffer = async (entry: CustomerWaitlistEntry) => {
+    if (!entry.offer || !entry.service) return;
+
+    // The offered slot is already held for this customer, so it goes to the cart like any held slot
+    await addToCart({
+      serviceId: entry.service.id,
+      serviceName: entry.service.service_name,
+      providerId: entry.provider_id,
+      providerName: entry.provider_name ?? undefined,
+      price: Number(entry.service.price),
+      serviceDetails: {
+        date: entry.offer.slotDate,
+        time: entry.offer.slotTime,
+        displayDate: format(new Date(`${entry.offer.slotDate}T00:00:00`), 'EEE, MMM d'),
+        slotId: entry.offer.slotId,
+        duration: entry.service.duration_minutes,
+        waitlistId: entry.id
+      }
+    });
+
+    navigate('/cart');
+  };
+
+  const handleLeaveWaitlist = async (entry: CustomerWaitlistEntry) => {
+    try {
+      await waitlistService.leaveWaitlist(entry.id);
+      await loadWaitlist();
+      toast({
+        title: "Success",
+        description: entry.offer ? "Slot declined" : "You have left the waitlist",
+      });
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      toast({
+        title: "Error",
+        description: "Failed to leave the waitlist",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadSeries = async () => {
+    if (!user) return;
+
+    try {
+      const result = await bookingSeriesService.getCustomerSeries(user.id);
+      setSeries(result.series.filter(item => item.status === 'active'));
+      setSeriesBookings(result.bookings);
+    } catch (error) {
+      console.error('Error loading recurring bookings:', error);
+    }
+  };
+
   const loadOrders = async () => {
     if (!user) return;
     
@@ -77,6 +165,7 @@ export const CustomerBookings: React.FC = () => {
       }));
       
       setOrders(transformedOrders);
+      setProgress(await bookingProgressService.getOrderProgress(transformedOrders.map(order => order.id)));
     } catch (error) {
       console.error('Error loading orders:', error);
       toast({
@@ -92,21 +181,15 @@ export const CustomerBookings: React.FC = () => {
   const handleCancelBooking = async (bookingId: string) => {
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          status: 'cancelled',
-          booking_status: 'cancelled',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      if (error) throw error;
+      const result = await paymentService.cancelOrder(bookingId);
+      if (!result.success) throw new Error(result.error);
 
       await loadOrders();
       toast({
         title: "Success",
-        description: "Booking cancelled successfully",
+        description: result.refund && result.refund.refundAmount > 0
+          ? `Booking cancelled. $${result.refund.refundAmount.toFixed(2)} will be refunded.`
+          : "Booking cancelled successfully",
       });
     } catch (error) {
       console.error('Error cancelling booking:', error);
@@ -120,6 +203,55 @@ export const CustomerBookings: React.FC = () => {
     }
   };
 
+  // Visits still to come, one entry per occurrence with all of its bookings
+  const getUpcomingVisits = (seriesId: string) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const visits = new Map<number, SeriesBooking[]>();
+
+    seriesBookings
+      .filter(booking =>
+        booking.series_id === seriesId &&
+        booking.booking_date >= today &&
+        booking.status !== 'cancelled' &&
+        booking.status !== 'completed'
+      )
+      .forEach(booking => {
+        visits.set(booking.series_occurrence, [...(visits.get(booking.series_occurrence) || []), booking]);
+      });
+
+    return Array.from(visits.values()).sort((a, b) => a[0].booking_date.localeCompare(b[0].booking_date));
+  };
+
+  const cancelSeriesBookings = async (bookings: SeriesBooking[], successMessage: string) => {
+    const orderId = bookings[0]?.order_id;
+    if (!orderId) return;
+
+    setLoading(true);
+    try {
+      const result = await paymentService.cancelOrder(orderId, {
+        bookingIds: bookings.map(booking => booking.id)
+      });
+      if (!result.success) throw new Error(result.error);
+
+      await Promise.all([loadOrders(), loadSeries()]);
+      toast({
+        title: "Success",
+        description: result.refund && result.refund.refundAmount > 0
+          ? `${successMessage} $${result.refund.refundAmount.toFixed(2)} will be refunded.`
+          : successMessage,
+      });
+    } catch (error) {
+      console.error('Error cancelling recurring booking:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to cancel booking",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const getServicesSummary = (cartItems: OrderItem[]) => {
     if (!cartItems || cartItems.length === 0) return 'No services';
     if (cartItems.length === 1) return cartItems[0].service_name;
@@ -148,6 +280,25 @@ export const CustomerBookings: React.FC = () => {
     }
   };
 
+  const getProgressBadge = (booking: BookingProgress) => {
+    const status = booking.provider_status as ProviderBookingStatus;
+    if (booking.status === 'cancelled' && status !== 'declined') {
+      return <Badge className="bg-red-100 text-red-800">Cancelled</Badge>;
+    }
+
+    switch (status) {
+      case 'pending':
+        return <Badge className="bg-yellow-100 text-yellow-800">{PROVIDER_STATUS_LABELS[status]}</Badge>;
+      case 'declined':
+      case 'no_show':
+        return <Badge className="bg-red-100 text-red-800">{PROVIDER_STATUS_LABELS[status]}</Badge>;
+      case 'completed':
+        return <Badge className="bg-green-100 text-green-800">{PROVIDER_STATUS_LABELS[status]}</Badge>;
+      default:
+        return <Badge className="bg-blue-100 text-blue-800">{PROVIDER_STATUS_LABELS[status] ?? status}</Badge>;
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -194,6 +345,101 @@ export const CustomerBookings: React.FC = () => {
         </Button>
       </div>
 
+      {waitlist.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Waitlist</h3>
+          {waitlist.map((entry) => (
+            <Card key={entry.id} className={entry.offer ? 'border-green-300' : undefined}>
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="flex items-start space-x-3">
+                  <BellRing className={`h-5 w-5 mt-0.5 ${entry.offer ? 'text-green-600' : 'text-gray-500'}`} />
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {entry.service?.service_name || 'Service'}{entry.provider_name ? ` with ${entry.provider_name}` : ''}
+                    </p>
+                    {entry.offer ? (
+                      <p className="text-sm text-green-700">
+                        A slot opened on {format(new Date(`${entry.offer.slotDate}T00:00:00`), 'MMM dd, yyyy')} at {entry.offer.slotTime.slice(0, 5)}
+                        {entry.offer.holdExpiresAt && ` and is held for you until ${format(new Date(entry.offer.holdExpiresAt), 'h:mm a')}`}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-600">
+                        Waiting for an opening on {format(new Date(`${entry.waitlist_date}T00:00:00`), 'MMM dd, yyyy')}
+                        {(entry.window_start || entry.window_end) &&
+                          ` between ${entry.window_start?.slice(0, 5) ?? 'opening'} and ${entry.window_end?.slice(0, 5) ?? 'closing'}`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  {entry.offer && (
+                    <Button size="sm" onClick={() => handleBookOffer(entry)}>
+                      Book Now
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => handleLeaveWaitlist(entry)}>
+                    {entry.offer ? 'Decline' : 'Leave Waitlist'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {series.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Recurring Bookings</h3>
+          {series.map((item) => {
+            const visits = getUpcomingVisits(item.id);
+            return (
+              <Card key={item.id}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span className="flex items-center gap-2">
+                      <Repeat className="h-5 w-5 text-primary" />
+                      {FREQUENCY_LABELS[item.frequency as RecurrenceFrequency] ?? item.frequency} at {item.slot_time.slice(0, 5)}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={loading || visits.length === 0}
+                      onClick={() => cancelSeriesBookings(visits.flat(), "Recurring booking cancelled.")}
+                    >
+                      Cancel Series
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {visits.length === 0 ? (
+                    <p className="text-sm text-gray-600">No upcoming visits in this series</p>
+                  ) : (
+                    visits.map((visit) => (
+                      <div key={visit[0].series_occurrence} className="flex items-center justify-between border rounded-md px-3 py-2">
+                        <div className="flex items-center space-x-2 text-sm text-gray-600">
+                          <CalendarIcon className="h-4 w-4" />
+                          <span>
+                            Visit {visit[0].series_occurrence} of {item.occurrence_count}: {format(new Date(`${visit[0].booking_date}T00:00:00`), 'EEE, MMM dd, yyyy')} at {visit[0].booking_time.slice(0, 5)}
+                          </span>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={loading}
+                          onClick={() => cancelSeriesBookings(visit, "Visit skipped.")}
+                        >
+                          Skip
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
       {orders.length === 0 ? (
         <Card>
           <CardContent className="text-center py-12">
@@ -244,6 +490,21 @@ export const CustomerBookings: React.FC = () => {
                    </div>
                  </div>
 
+                {progress.some(booking => booking.order_id === order.id) && (
+                  <div className="space-y-2 mb-4">
+                    {progress.filter(booking => booking.order_id === order.id).map(booking => (
+                      <div key={booking.id} className="flex items-center justify-between border rounded-md px-3 py-2">
+                        <div className="text-sm text-gray-600">
+                          <span className="font-medium text-gray-900">{booking.service?.service_name || 'Service'}</span>
+                          {' '}on {format(new Date(`${booking.booking_date}T00:00:00`), 'MMM dd')} at {booking.booking_time.slice(0, 5)}
+                          {booking.provider_note && <p className="text-xs text-gray-500">{booking.provider_note}</p>}
+                        </div>
+                        {getProgressBadge(booking)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex justify-end space-x-2">
                   {/* View Details Button */}
                   <Button 
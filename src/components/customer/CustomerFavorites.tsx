@@ -1,93 +1,31 @@
-
 import React, { useState } from 'react';
-import { Heart, Star, MapPin, Phone, Search, Filter, Calendar, MessageCircle, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Heart, Star, MapPin, Search, Calendar, Trash2, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { useFavorites } from '@/hooks/useFavorites';
 
 export const CustomerFavorites = () => {
+  const navigate = useNavigate();
+  const { favorites, isLoading, removeFavorite } = useFavorites();
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('All');
 
-  const favorites = [
-    {
-      id: 1,
-      name: 'John Smith',
-      service: 'Plumbing Services',
-      category: 'Home Maintenance',
-      rating: 4.9,
-      reviews: 156,
-      distance: '2.3 km away',
-      phone: '(506) 555-0123',
-      price: 85,
-      specialties: ['Emergency Repairs', 'Installations', 'Maintenance'],
-      availability: 'Available Today',
-      lastBooked: '2 weeks ago',
-      image: ''
-    },
-    {
-      id: 2,
-      name: 'Maria Garcia',
-      service: 'House Cleaning',
-      category: 'Cleaning',
-      rating: 4.8,
-      reviews: 203,
-      distance: '1.8 km away',
-      phone: '(506) 555-0456',
-      price: 120,
-      specialties: ['Deep Cleaning', 'Regular Maintenance', 'Move-in/out'],
-      availability: 'Available Tomorrow',
-      lastBooked: '1 week ago',
-      image: ''
-    },
-    {
-      id: 3,
-      name: 'Green Thumb Co.',
-      service: 'Garden & Landscaping',
-      category: 'Landscaping',
-      rating: 4.7,
-      reviews: 89,
-      distance: '3.1 km away',
-      phone: '(506) 555-0789',
-      price: 200,
-      specialties: ['Lawn Care', 'Tree Trimming', 'Garden Design'],
-      availability: 'Available Next Week',
-      lastBooked: '1 month ago',
-      image: ''
-    },
-    {
-      id: 4,
-      name: 'Tech Solutions Pro',
-      service: 'Computer Repair',
-      category: 'Technology',
-      rating: 4.9,
-      reviews: 124,
-      distance: '1.2 km away',
-      phone: '(506) 555-0321',
-      price: 95,
-      specialties: ['Hardware Repair', 'Software Issues', 'Data Recovery'],
-      availability: 'Available Today',
-      lastBooked: '3 days ago',
-      image: ''
-    }
-  ];
+  const getTitle = (favorite: typeof favorites[number]) =>
+    favorite.favorite_type === 'service' ? favorite.service_name || favorite.provider_name : favorite.provider_name;
 
-  const categories = ['All', ...new Set(favorites.map(f => f.category))];
+  const categories = ['All', ...new Set(favorites.map(f => f.category).filter((c): c is string => !!c))];
 
-  const filteredFavorites = favorites.filter(provider => {
-    const matchesSearch = provider.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         provider.service.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = categoryFilter === 'All' || provider.category === categoryFilter;
+  const filteredFavorites = favorites.filter(favorite => {
+    const matchesSearch = getTitle(favorite).toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         favorite.provider_name.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesCategory = categoryFilter === 'All' || favorite.category === categoryFilter;
     return matchesSearch && matchesCategory;
   });
 
-  const removeFavorite = (id: number) => {
-    // In a real app, this would make an API call
-    console.log('Removing favorite:', id);
-  };
-
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -100,7 +38,7 @@ export const CustomerFavorites = () => {
         </div>
         <div className="flex items-center gap-2 text-sm text-gray-500">
           <Heart className="h-4 w-4 text-pink-500" />
-          {favorites.length} saved services
+          {favorites.length} saved
         </div>
       </div>
 
@@ -142,39 +80,47 @@ export const CustomerFavorites = () => {
 
       {/* Favorites Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {filteredFavorites.length > 0 ? (
-          filteredFavorites.map((provider) => (
-            <Card key={provider.id} className="border-0 shadow-lg hover:shadow-xl transition-all duration-300 group">
+        {isLoading ? (
+          <div className="col-span-full flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : filteredFavorites.length > 0 ? (
+          filteredFavorites.map((favorite) => (
+            <Card key={favorite.id} className="border-0 shadow-lg hover:shadow-xl transition-all duration-300 group">
               <CardContent className="p-6">
                 <div className="flex items-start justify-between mb-6">
                   <div className="flex items-start space-x-4 flex-1">
                     <Avatar className="w-16 h-16">
-                      <AvatarImage src={provider.image} />
                       <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-600 text-white text-lg font-bold">
-                        {provider.name.charAt(0)}
+                        {getTitle(favorite).charAt(0)}
                       </AvatarFallback>
                     </Avatar>
                     <div className="flex-1 min-w-0">
                       <h3 className="text-xl font-semibold text-gray-900 mb-1">
-                        {provider.name}
+                        {getTitle(favorite)}
                       </h3>
                       <p className="text-gray-600 font-medium mb-2">
-                        {provider.service}
+                        {favorite.favorite_type === 'service' ? favorite.provider_name : 'Service provider'}
                       </p>
-                      <Badge variant="secondary" className="mb-3">
-                        {provider.category}
-                      </Badge>
+                      {favorite.category && (
+                        <Badge variant="secondary" className="mb-3">
+                          {favorite.category}
+                        </Badge>
+                      )}
                       
                       <div className="flex items-center space-x-4 text-sm">
-                        <div className="flex items-center space-x-1">
-                          <Star className="h-4 w-4 text-yellow-400 fill-current" />
-                          <span className="font-medium text-gray-900">{provider.rating}</span>
-                          <span className="text-gray-500">({provider.reviews})</span>
-                        </div>
-                        <div className="flex items-center space-x-1 text-gray-500">
-                          <MapPin className="h-4 w-4" />
-                          <span>{provider.distance}</span>
-                        </div>
+                        {favorite.rating !== null && (
+                          <div className="flex items-center space-x-1">
+                            <Star className="h-4 w-4 text-yellow-400 fill-current" />
+                            <span className="font-medium text-gray-900">{Number(favorite.rating).toFixed(1)}</span>
+                          </div>
+                        )}
+                        {favorite.location && (
+                          <div className="flex items-center space-x-1 text-gray-500">
+                            <MapPin className="h-4 w-4" />
+                            <span>{favorite.location}</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -182,56 +128,29 @@ export const CustomerFavorites = () => {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => removeFavorite(provider.id)}
+                    onClick={() => removeFavorite(favorite)}
                     className="text-gray-400 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-opacity"
                   >
                     <Trash2 className="h-4 w-4" />
                   </Button>
                 </div>
 
-                <div className="mb-6">
-                  <p className="text-sm font-medium text-gray-700 mb-3">Specialties:</p>
-                  <div className="flex flex-wrap gap-2">
-                    {provider.specialties.map((specialty) => (
-                      <Badge key={specialty} variant="outline" className="text-xs">
-                        {specialty}
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-2 gap-4 mb-6 text-sm">
-                  <div>
-                    <p className="text-gray-500">Availability</p>
-                    <p className="font-medium text-gray-900">{provider.availability}</p>
-                  </div>
-                  <div>
-                    <p className="text-gray-500">Last booked</p>
-                    <p className="font-medium text-gray-900">{provider.lastBooked}</p>
-                  </div>
-                </div>
-
-                <div className="flex items-center justify-between mb-6">
-                  <div className="flex items-center space-x-2 text-gray-600">
-                    <Phone className="h-4 w-4" />
-                    <span className="text-sm">{provider.phone}</span>
-                  </div>
-                  <div className="text-right">
-                    <p className="text-sm text-gray-500">Starting from</p>
-                    <p className="text-2xl font-bold text-gray-900">${provider.price}</p>
+                {favorite.price_range && (
+                  <div className="flex justify-end mb-6">
+                    <div className="text-right">
+                      <p className="text-sm text-gray-500">Starting from</p>
+                      <p className="text-2xl font-bold text-gray-900">{favorite.price_range}</p>
+                    </div>
                   </div>
-                </div>
+                )}
 
-                <div className="flex gap-3">
-                  <Button className="flex-1 bg-blue-600 hover:bg-blue-700">
-                    <Calendar className="h-4 w-4 mr-2" />
-                    Book Now
-                  </Button>
-                  <Button variant="outline" className="flex-1">
-                    <MessageCircle className="h-4 w-4 mr-2" />
-                    Contact
-                  </Button>
-                </div>
+                <Button
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  onClick={() => navigate(`/search?q=${encodeURIComponent(getTitle(favorite))}`)}
+                >
+                  <Calendar className="h-4 w-4 mr-2" />
+                  Book Now
+                </Button>
               </CardContent>
             </Card>
           ))
@@ -262,7 +181,7 @@ export const CustomerFavorites = () => {
                     Clear Filters
                   </Button>
                 ) : (
-                  <Button className="bg-pink-600 hover:bg-pink-700 shadow-lg">
+                  <Button className="bg-pink-600 hover:bg-pink-700 shadow-lg" onClick={() => navigate('/')}>
                     <Search className="h-5 w-5 mr-2" />
                     Discover Services
                   </Button>
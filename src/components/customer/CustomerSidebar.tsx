@@ -8,11 +8,13 @@ import {
   User, 
   LogOut,
   Home,
+  Bell,
   X
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
 
 interface CustomerSidebarProps {
   isOpen?: boolean;
@@ -34,6 +36,7 @@ export const CustomerSidebar: FC<CustomerSidebarProps> = ({
   const navItems = [
     { to: '/customer', icon: LayoutDashboard, label: 'Dashboard', end: true },
     { to: '/customer/bookings', icon: Calendar, label: 'My Bookings' },
+    { to: '/customer/notifications', icon: Bell, label: 'Notifications' },
     { to: '/customer/favorites', icon: Heart, label: 'Favorites' },
     { to: '/customer/profile', icon: User, label: 'Profile' },
   ];
@@ -52,15 +55,19 @@ export const CustomerSidebar: FC<CustomerSidebarProps> = ({
           </div>
         </div>
         
-        {/* Mobile close button */}
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onClose}
-          className="lg:hidden p-2"
-        >
-          <X className="h-5 w-5" />
-        </Button>
+        <div className="flex items-center space-x-1">
+          <NotificationBell inboxPath="/customer/notifications" align="start" />
+
+          {/* Mobile close button */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="lg:hidden p-2"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
       </div>
 
       {/* User Profile Section */}
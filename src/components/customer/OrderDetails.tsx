@@ -7,6 +7,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { paymentService, RefundQuote } from '@/services/paymentService';
+import { slotBookingService, BookingSlot } from '@/services/slotBookingService';
+import { calendarService } from '@/services/calendarService';
+import { OrderReviews } from './OrderReviews';
 import { 
   ArrowLeft, 
   Calendar as CalendarIcon, 
@@ -17,12 +21,15 @@ import {
   Loader2,
   RotateCcw,
   X,
-  Package
+  Package,
+  CalendarPlus
 } from 'lucide-react';
 import { format, addDays, isAfter, startOfToday, isSameDay } from 'date-fns';
 
 interface OrderItem {
   id: string;
+  serviceId?: string;
+  serviceName?: string;
   service_name: string;
   provider_name: string;
   price: number;
@@ -42,16 +49,23 @@ interface Order {
   booking_date?: string;
   booking_time?: string;
   special_instructions?: string;
+  reschedule_count?: number;
   created_at: string;
 }
 
-const TIME_SLOTS = [
-  '07:00-09:00',
-  '09:00-11:00', 
-  '11:00-13:00',
-  '13:00-15:00',
-  '15:00-17:00'
-];
+interface OrderBooking {
+  id: string;
+  provider_id: string | null;
+  service_id: string | null;
+  slot_id: string | null;
+  booking_date: string;
+  booking_time: string;
+  status: string | null;
+  provider_status: string;
+}
+
+const formatSlotTime = (time?: string) =>
+  time ? format(new Date(`1970-01-01T${time}`), 'h:mm a') : '';
 
 export const OrderDetails: React.FC = () => {
   const { orderId } = useParams<{ orderId: string }>();
@@ -63,8 +77,16 @@ export const OrderDetails: React.FC = () => {
   const [order, setOrder] = useState<Order | null>(null);
   const [isRescheduleOpen, setIsRescheduleOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
-  const [selectedTime, setSelectedTime] = useState('');
   const [rescheduleLoading, setRescheduleLoading] = useState(false);
+  const [bookings, setBookings] = useState<OrderBooking[]>([]);
+  const [maxReschedules, setMaxReschedules] = useState(2);
+  const [rescheduleBookingId, setRescheduleBookingId] = useState('');
+  const [slots, setSlots] = useState<BookingSlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [selectedSlotId, setSelectedSlotId] = useState('');
+  const [cancelQuote, setCancelQuote] = useState<RefundQuote | null>(null);
+  const [cancelLoading, setCancelLoading] = useState(false);
+  const [calendarBookingId, setCalendarBookingId] = useState('');
 
   useEffect(() => {
     if (orderId && user) {
@@ -89,6 +111,28 @@ export const OrderDetails: React.FC = () => {
         ...data,
         cart_items: Array.isArray(data.cart_items) ? data.cart_items : []
       } as unknown as Order);
+
+      const [{ data: bookingRows }, { data: policy }] = await Promise.all([
+        supabase
+          .from('bookings')
+          .select('id, provider_id, service_id, slot_id, booking_date, booking_time, status, provider_status')
+          .eq('order_id', orderId)
+          .neq('status', 'cancelled')
+          .order('booking_date')
+          .order('booking_time'),
+        supabase
+          .from('cancellation_policies')
+          .select('max_reschedules')
+          .eq('is_active', true)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      ]);
+
+      setBookings(bookingRows || []);
+      if (policy) {
+        setMaxReschedules(policy.max_reschedules);
+      }
     } catch (error) {
       console.error('Error loading order:', error);
       toast({
@@ -104,95 +148,132 @@ export const OrderDetails: React.FC = () => {
 
   const handleCancelOrder = async () => {
     if (!order) return;
-    
-    try {
-      // Update order status to cancelled
-      const { error: orderError } = await supabase
-        .from('orders')
-        .update({ status: 'cancelled' })
-        .eq('id', order.id);
-
-      if (orderError) throw orderError;
-      
-      // Send cancellation notifications to all providers in the order
-      const providerNames = [...new Set(order.cart_items?.map(item => item.provider_name) || [])];
-      
-      for (const providerName of providerNames) {
-        // Get provider details
-        const { data: providerData } = await supabase
-          .from('user_profiles')
-          .select('id, user_id')
-          .eq('full_name', providerName)
-          .eq('role', 'provider')
-          .single();
-          
-        if (providerData) {
-          // Log provider notification (notifications table doesn't exist, so we'll just log)
-          console.log('Provider notification:', {
-            user_id: providerData.user_id,
-            title: 'Order Cancelled',
-            message: `Order #${order.id.slice(-8)} has been cancelled by the customer.`,
-            type: 'order_cancelled',
-            related_id: order.id
-            });
-        }
-      }
-      
+
+    setCancelLoading(true);
+    const result = await paymentService.cancelOrder(order.id, { preview: true });
+    setCancelLoading(false);
+
+    if (!result.success || !result.refund) {
       toast({
-        title: "Order Cancelled",
-        description: "Your order has been cancelled successfully and providers have been notified"
+        title: "Error",
+        description: result.error || "Failed to load the cancellation policy",
+        variant: "destructive"
       });
-      
-      setOrder({ ...order, status: 'cancelled' });
-    } catch (error) {
-      console.error('Error cancelling order:', error);
+      return;
+    }
+
+    setCancelQuote(result.refund);
+  };
+
+  const handleConfirmCancel = async () => {
+    if (!order) return;
+
+    setCancelLoading(true);
+    const result = await paymentService.cancelOrder(order.id);
+    setCancelLoading(false);
+    setCancelQuote(null);
+
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to cancel order",
+        description: result.error || "Failed to cancel order",
         variant: "destructive"
       });
+      return;
+    }
+
+    toast({
+      title: "Order Cancelled",
+      description: result.refund && result.refund.refundAmount > 0
+        ? `$${result.refund.refundAmount.toFixed(2)} will be refunded to your original payment method`
+        : "Your order has been cancelled. No refund applies under the cancellation policy."
+    });
+
+    loadOrderDetails();
+  };
+
+  const rescheduleBooking = bookings.find(booking => booking.id === rescheduleBookingId);
+  // Once the provider is on the way a visit can no longer be moved or called off
+  const visitUnderWay = bookings.some(booking => ['en_route', 'in_progress'].includes(booking.provider_status));
+  const movableBookings = bookings.filter(booking =>
+    booking.status !== 'cancelled' && ['pending', 'accepted'].includes(booking.provider_status)
+  );
+
+  // Only offer slots the provider still has free for this booking's service
+  useEffect(() => {
+    if (!rescheduleBooking?.provider_id || !selectedDate) {
+      setSlots([]);
+      return;
     }
+
+    let cancelled = false;
+    setSlotsLoading(true);
+    setSelectedSlotId('');
+    slotBookingService
+      .getAvailableSlots(rescheduleBooking.provider_id, rescheduleBooking.service_id, format(selectedDate, 'yyyy-MM-dd'))
+      .then((result) => {
+        if (cancelled) return;
+        setSlots(result.filter(slot => slot.status === 'available' && slot.id !== rescheduleBooking.slot_id));
+        setSlotsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rescheduleBooking, selectedDate]);
+
+  const openReschedule = () => {
+    setRescheduleBookingId(movableBookings.length === 1 ? movableBookings[0].id : '');
+    setIsRescheduleOpen(true);
+  };
+
+  const closeReschedule = () => {
+    setIsRescheduleOpen(false);
+    setRescheduleBookingId('');
+    setSelectedDate(undefined);
+    setSelectedSlotId('');
   };
 
   const handleRescheduleOrder = async () => {
-    if (!order || !selectedDate || !selectedTime) return;
-    
+    if (!order || !rescheduleBookingId || !selectedSlotId) return;
+
     setRescheduleLoading(true);
-    try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          booking_date: format(selectedDate, 'yyyy-MM-dd'),
-          booking_time: selectedTime.split('-')[0],
-          status: 'rescheduled'
-        })
-        .eq('id', order.id);
+    const result = await slotBookingService.rescheduleBooking(rescheduleBookingId, selectedSlotId);
+    setRescheduleLoading(false);
 
-      if (error) throw error;
-      
+    if (!result.success) {
       toast({
-        title: "Order Rescheduled",
-        description: `Your order has been rescheduled to ${format(selectedDate, 'MMM dd, yyyy')} at ${selectedTime}`
-      });
-      
-      setOrder({ 
-        ...order, 
-        booking_date: format(selectedDate, 'yyyy-MM-dd'),
-        booking_time: selectedTime.split('-')[0],
-        status: 'rescheduled'
+        title: "Error",
+        description: result.message || "Failed to reschedule order",
+        variant: "destructive"
       });
-      setIsRescheduleOpen(false);
-      setSelectedDate(undefined);
-      setSelectedTime('');
+      return;
+    }
+
+    toast({
+      title: "Order Rescheduled",
+      description: `Your booking has been moved to ${format(new Date(`${result.slot_date}T${result.slot_time}`), 'MMM dd, yyyy')} at ${formatSlotTime(result.slot_time)}`
+    });
+
+    closeReschedule();
+    loadOrderDetails();
+  };
+
+  const handleAddToCalendar = async (bookingId: string) => {
+    if (!order) return;
+
+    setCalendarBookingId(bookingId);
+    try {
+      await calendarService.downloadBookingCalendar({ orderId: order.id, bookingId });
     } catch (error) {
-      console.error('Error rescheduling order:', error);
+      console.error('Error downloading calendar file:', error);
       toast({
         title: "Error",
-        description: "Failed to reschedule order",
+        description: "Failed to create the calendar file",
         variant: "destructive"
       });
     } finally {
-      setRescheduleLoading(false);
+      setCalendarBookingId('');
     }
   };
 
@@ -209,12 +290,23 @@ export const OrderDetails: React.FC = () => {
     return <Badge className={config.color}>{config.text}</Badge>;
   };
 
-  const canReschedule = order && ['confirmed', 'pending'].includes(order.status);
-  const canCancel = order && ['confirmed', 'pending', 'rescheduled'].includes(order.status);
+  const reschedulesLeft = Math.max(0, maxReschedules - (order?.reschedule_count ?? 0));
+  const canReschedule = order && ['confirmed', 'pending', 'rescheduled'].includes(order.status) && movableBookings.length > 0 && reschedulesLeft > 0;
+  const canCancel = order && ['confirmed', 'pending', 'rescheduled'].includes(order.status) && !visitUnderWay;
 
   // Generate next 7 days for rescheduling
   const availableDates = Array.from({ length: 7 }, (_, i) => addDays(new Date(), i + 1));
 
+  const bookingLabel = (booking: OrderBooking) => {
+    const item = order?.cart_items.find(cartItem => cartItem.serviceId === booking.service_id);
+    const name = item?.serviceName || item?.service_name || 'Service';
+    return `${name} – ${format(new Date(`${booking.booking_date}T${booking.booking_time}`), 'MMM dd')} at ${formatSlotTime(booking.booking_time)}`;
+  };
+
+  // Only visits the provider completed count as delivered; a no-show is neither
+  const completedBookings = bookings.filter(booking => booking.provider_status === 'completed');
+  const upcomingBookings = bookings.filter(booking => !['completed', 'no_show'].includes(booking.provider_status));
+
   const getDayName = (date: Date) => {
     if (isSameDay(date, new Date())) return 'Today';
     if (isSameDay(date, addDays(new Date(), 1))) return 'Tomorrow';
@@ -339,38 +431,139 @@ export const OrderDetails: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Scheduled visits */}
+      {upcomingBookings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Scheduled Visits</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {upcomingBookings.map(booking => (
+                <div key={booking.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                  <span className="text-sm font-medium text-gray-900">{bookingLabel(booking)}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAddToCalendar(booking.id)}
+                    disabled={calendarBookingId === booking.id}
+                    className="flex items-center space-x-2"
+                  >
+                    {calendarBookingId === booking.id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <CalendarPlus className="h-4 w-4" />}
+                    <span>Add to Calendar</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Reviews for completed services */}
+      {completedBookings.length > 0 && (
+        <OrderReviews
+          orderId={order.id}
+          bookings={completedBookings.map(booking => ({ id: booking.id, label: bookingLabel(booking) }))}
+        />
+      )}
+
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row gap-3">
         {canReschedule && (
           <Button 
-            onClick={() => setIsRescheduleOpen(true)}
+            onClick={openReschedule}
             className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700"
           >
             <RotateCcw className="h-4 w-4" />
             <span>Reschedule Order</span>
           </Button>
         )}
+        {canReschedule && (
+          <span className="self-center text-sm text-gray-500">
+            {reschedulesLeft} reschedule{reschedulesLeft === 1 ? '' : 's'} left
+          </span>
+        )}
         
         {canCancel && (
           <Button 
             variant="destructive"
             onClick={handleCancelOrder}
+            disabled={cancelLoading}
             className="flex items-center space-x-2"
           >
-            <X className="h-4 w-4" />
+            {cancelLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
             <span>Cancel Order</span>
           </Button>
         )}
       </div>
 
+      {/* Cancel Confirmation Dialog */}
+      <Dialog open={!!cancelQuote} onOpenChange={(open) => !open && setCancelQuote(null)}>
+        <DialogContent className="max-w-md bg-white">
+          <DialogHeader>
+            <DialogTitle>Cancel Order</DialogTitle>
+          </DialogHeader>
+
+          {cancelQuote && (
+            <div className="space-y-4">
+              <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Refund</span>
+                  <span className="font-semibold">
+                    ${cancelQuote.refundAmount.toFixed(2)} ({cancelQuote.refundPercentage}%)
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {cancelQuote.tier === 'full' && 'You are cancelling early enough for a full refund.'}
+                  {cancelQuote.tier === 'partial' && `Cancellations within ${cancelQuote.policy.full_refund_hours} hours of the appointment are refunded ${cancelQuote.policy.partial_refund_percentage}%.`}
+                  {cancelQuote.tier === 'none' && 'The appointment has already started, so no refund applies.'}
+                </p>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={() => setCancelQuote(null)}>
+                  Keep Order
+                </Button>
+                <Button variant="destructive" onClick={handleConfirmCancel} disabled={cancelLoading}>
+                  {cancelLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Cancel Order
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Reschedule Dialog */}
-      <Dialog open={isRescheduleOpen} onOpenChange={setIsRescheduleOpen}>
+      <Dialog open={isRescheduleOpen} onOpenChange={(open) => !open && closeReschedule()}>
         <DialogContent className="max-w-md bg-white">
           <DialogHeader>
             <DialogTitle>Reschedule Order</DialogTitle>
           </DialogHeader>
           
           <div className="space-y-4">
+            {movableBookings.length > 1 && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">
+                  Select Booking
+                </label>
+                <div className="grid grid-cols-1 gap-2">
+                  {movableBookings.map((booking) => (
+                    <Button
+                      key={booking.id}
+                      variant={rescheduleBookingId === booking.id ? "default" : "outline"}
+                      onClick={() => setRescheduleBookingId(booking.id)}
+                      className="justify-start"
+                    >
+                      {bookingLabel(booking)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="text-sm font-medium text-gray-700 mb-2 block">
                 Select New Date (Next 7 Days)
@@ -406,30 +599,40 @@ export const OrderDetails: React.FC = () => {
               </div>
             </div>
             
-            {selectedDate && (
+            {selectedDate && rescheduleBooking && (
               <div>
                 <label className="text-sm font-medium text-gray-700 mb-2 block">
                   Select Time Slot
                 </label>
-                <div className="grid grid-cols-1 gap-2">
-                  {TIME_SLOTS.map((slot) => (
-                    <Button
-                      key={slot}
-                      variant={selectedTime === slot ? "default" : "outline"}
-                      onClick={() => setSelectedTime(slot)}
-                      className="justify-start"
-                    >
-                      {slot}
-                    </Button>
-                  ))}
-                </div>
+                {slotsLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  </div>
+                ) : slots.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    No open slots on this day. Try another date.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-1 gap-2">
+                    {slots.map((slot) => (
+                      <Button
+                        key={slot.id}
+                        variant={selectedSlotId === slot.id ? "default" : "outline"}
+                        onClick={() => setSelectedSlotId(slot.id)}
+                        className="justify-start"
+                      >
+                        {formatSlotTime(slot.slot_time)}
+                      </Button>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
             
             <div className="flex space-x-2 pt-4">
               <Button 
                 onClick={handleRescheduleOrder}
-                disabled={!selectedDate || !selectedTime || rescheduleLoading}
+                disabled={!selectedSlotId || rescheduleLoading}
                 className="flex-1"
               >
                 {rescheduleLoading ? (
@@ -439,11 +642,7 @@ export const OrderDetails: React.FC = () => {
               </Button>
               <Button 
                 variant="outline" 
-                onClick={() => {
-                  setIsRescheduleOpen(false);
-                  setSelectedDate(undefined);
-                  setSelectedTime('');
-                }}
+                onClick={closeReschedule}
               >
                 Cancel
               </Button>
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, MessageSquare, Star } from 'lucide-react';
+import { StarRating } from '@/components/reviews/StarRating';
+import { reviewService, Review } from '@/services/reviewService';
+
+interface ReviewableBooking {
+  id: string;
+  label: string;
+}
+
+interface OrderReviewsProps {
+  orderId: string;
+  /** Completed bookings in the order */
+  bookings: ReviewableBooking[];
+}
+
+const statusBadges: Record<string, { color: string; text: string }> = {
+  pending: { color: 'bg-yellow-100 text-yellow-800', text: 'Awaiting approval' },
+  approved: { color: 'bg-green-100 text-green-800', text: 'Published' },
+  rejected: { color: 'bg-red-100 text-red-800', text: 'Not published' }
+};
+
+export const OrderReviews: React.FC<OrderReviewsProps> = ({ orderId, bookings }) => {
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewing, setReviewing] = useState<ReviewableBooking | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setReviews(await reviewService.getOrderReviews(orderId));
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const openReview = (booking: ReviewableBooking) => {
+    setRating(0);
+    setComment('');
+    setReviewing(booking);
+  };
+
+  const handleSubmit = async () => {
+    if (!reviewing || rating === 0) return;
+
+    setSubmitting(true);
+    const result = await reviewService.submitReview(reviewing.id, rating, comment);
+    setSubmitting(false);
+
+    toast({
+      title: result.success ? "Review Submitted" : "Error",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+
+    if (result.success) {
+      setReviewing(null);
+      loadReviews();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Star className="h-5 w-5" />
+          <span>Rate Your Services</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {bookings.map((booking) => {
+          const review = reviews.find(r => r.booking_id === booking.id);
+          const badge = review ? statusBadges[review.status] : null;
+
+          return (
+            <div key={booking.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium text-gray-900">{booking.label}</span>
+                {review ? (
+                  <div className="flex items-center gap-2">
+                    <StarRating rating={review.rating} size="sm" />
+                    {badge && <Badge className={badge.color}>{badge.text}</Badge>}
+                  </div>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => openReview(booking)}>
+                    Leave a Review
+                  </Button>
+                )}
+              </div>
+              {review?.comment && <p className="text-sm text-gray-600">{review.comment}</p>}
+              {review?.provider_reply && (
+                <div className="flex items-start gap-2 p-2 bg-white rounded border text-sm">
+                  <MessageSquare className="h-4 w-4 mt-0.5 text-blue-600 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium text-gray-900">Provider reply</p>
+                    <p className="text-gray-600">{review.provider_reply}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-md bg-white">
+          <DialogHeader>
+            <DialogTitle>Review {reviewing?.label}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <StarRating rating={rating} onChange={setRating} size="lg" />
+            </div>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Tell others about your experience (optional)"
+              rows={4}
+              maxLength={1000}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={rating === 0 || submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Submit Review
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
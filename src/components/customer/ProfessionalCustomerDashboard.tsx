@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useFavorites } from '@/hooks/useFavorites';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   LayoutDashboard, 
@@ -21,7 +22,8 @@ import {
   Search,
   Filter,
   Settings,
-  LogOut
+  LogOut,
+  Bell
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -32,6 +34,10 @@ import { useToast } from '@/hooks/use-toast';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { CustomerProfile } from './CustomerProfile';
 import { CustomerBookings } from './CustomerBookings';
+import { OrderDetails } from './OrderDetails';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
+import { NotificationInbox } from '@/components/notifications/NotificationInbox';
+import { NotificationPreferences } from '@/components/notifications/NotificationPreferences';
 
 interface Booking {
   id: string;
@@ -45,17 +51,6 @@ interface Booking {
   provider_phone?: string;
 }
 
-interface Favorite {
-  id: string;
-  service_id: string;
-  service_name: string;
-  provider_name: string;
-  category: string;
-  rating: number;
-  price_range: string;
-  location: string;
-}
-
 interface UserProfile {
   id: string;
   full_name: string;
@@ -78,7 +73,7 @@ const ProfessionalCustomerDashboard: React.FC = () => {
   
   // Data states
   const [bookings, setBookings] = useState<Booking[]>([]);
-  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const { favorites, removeFavorite } = useFavorites();
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [stats, setStats] = useState({
     activeBookings: 0,
@@ -99,6 +94,7 @@ const ProfessionalCustomerDashboard: React.FC = () => {
   const menuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard, path: '/customer?section=dashboard' },
     { id: 'bookings', label: 'My Bookings', icon: Calendar, path: '/customer?section=bookings' },
+    { id: 'notifications', label: 'Notifications', icon: Bell, path: '/customer?section=notifications' },
     { id: 'profile', label: 'Profile', icon: User, path: '/customer?section=profile' },
   ];
 
@@ -110,6 +106,10 @@ const ProfessionalCustomerDashboard: React.FC = () => {
     
     if (section) {
       setActiveSection(section);
+    } else if (path.includes('/orders/')) {
+      setActiveSection('orders');
+    } else if (path.includes('/notifications')) {
+      setActiveSection('notifications');
     } else if (path.includes('/bookings')) {
       setActiveSection('bookings');
     } else if (path.includes('/profile')) {
@@ -301,30 +301,6 @@ const ProfessionalCustomerDashboard: React.FC = () => {
     }
   };
 
-  const removeFavorite = async (favoriteId: string) => {
-    try {
-      const { error } = await (supabase as any)
-        .from('favorites')
-        .delete()
-        .eq('id', favoriteId);
-
-      if (error) throw error;
-
-      setFavorites(favorites.filter(f => f.id !== favoriteId));
-      toast({
-        title: "Success",
-        description: "Removed from favorites"
-      });
-    } catch (error) {
-      console.error('Error removing favorite:', error);
-      toast({
-        title: "Error",
-        description: "Failed to remove favorite",
-        variant: "destructive"
-      });
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-emerald-100 text-emerald-800 border-emerald-200';
@@ -500,8 +476,10 @@ const ProfessionalCustomerDashboard: React.FC = () => {
                       <Heart className="h-8 w-8 text-white" />
                     </div>
                     <div className="flex-1 min-w-0">
-                      <h3 className="text-xl font-semibold text-gray-900 mb-1">{favorite.service_name}</h3>
-                      <p className="text-gray-600 font-medium">{favorite.provider_name}</p>
+                      <h3 className="text-xl font-semibold text-gray-900 mb-1">{favorite.service_name || favorite.provider_name}</h3>
+                      <p className="text-gray-600 font-medium">
+                        {favorite.favorite_type === 'service' ? favorite.provider_name : 'Service provider'}
+                      </p>
                       <p className="text-sm text-gray-500 mb-3">{favorite.category}</p>
                       <div className="flex flex-wrap items-center gap-4 text-sm">
                         <div className="flex items-center">
@@ -522,7 +500,7 @@ const ProfessionalCustomerDashboard: React.FC = () => {
                     </Button>
                     <Button 
                       variant="outline" 
-                      onClick={() => removeFavorite(favorite.id)}
+                      onClick={() => removeFavorite(favorite)}
                       className="border-red-200 text-red-600 hover:bg-red-50"
                     >
                       Remove
@@ -556,6 +534,17 @@ const ProfessionalCustomerDashboard: React.FC = () => {
   const renderContent = () => {
     switch (activeSection) {
       case 'bookings': return renderBookings();
+      case 'notifications': return (
+        <div className="space-y-6">
+          <NotificationInbox />
+          <NotificationPreferences />
+        </div>
+      );
+      case 'orders': return (
+        <Routes>
+          <Route path="orders/:orderId" element={<OrderDetails />} />
+        </Routes>
+      );
       case 'favorites': return renderFavorites();
       case 'profile': return renderProfile();
       default: return renderDashboard();
@@ -684,12 +673,15 @@ const ProfessionalCustomerDashboard: React.FC = () => {
                   <p className="text-sm text-gray-600">
                     {activeSection === 'dashboard' && 'Overview of your account'}
                     {activeSection === 'bookings' && 'Manage your service appointments'}
+                    {activeSection === 'orders' && 'Order details and changes'}
+                    {activeSection === 'notifications' && 'Updates about your bookings'}
                     {activeSection === 'favorites' && 'Your saved services'}
                     {activeSection === 'profile' && 'Account settings and information'}
                   </p>
                 </div>
               </div>
               <div className="flex items-center space-x-4">
+                <NotificationBell inboxPath="/customer?section=notifications" />
                 <div className="hidden sm:block text-sm text-gray-600">
                   Customer Dashboard
                 </div>
@@ -5,6 +5,9 @@ import { useAuth } from '@/hooks/useAuth';
 import { useCart } from '@/hooks/useCart';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { SearchBox } from '@/components/search/SearchBox';
+import { LocationModal } from '@/components/LocationModal';
+import { useCustomerLocation, CustomerLocation } from '@/hooks/useCustomerLocation';
 import { 
   ShoppingCart, 
   User, 
@@ -18,7 +21,6 @@ import {
   Shield,
   MapPin,
   ChevronDown,
-  Search,
   Bell
 } from 'lucide-react';
 
@@ -53,7 +55,15 @@ export const Header = ({ onCartClick }: { onCartClick?: () => void }) => {
     { href: '/help', label: 'Help', icon: User },
   ];
 
-  const [selectedLocation, setSelectedLocation] = useState('New Brunswick, NB');
+  const { location: customerLocation, setLocation: setCustomerLocation } = useCustomerLocation();
+  const [isLocationModalOpen, setIsLocationModalOpen] = useState(false);
+  const selectedLocation = customerLocation?.label || 'Set your location';
+
+  const handleLocationSelect = (next: CustomerLocation) => {
+    setCustomerLocation(next);
+    setIsLocationModalOpen(false);
+    setIsMobileMenuOpen(false);
+  };
 
   const isActive = (href: string) => location.pathname === href;
 
@@ -76,22 +86,19 @@ export const Header = ({ onCartClick }: { onCartClick?: () => void }) => {
             </Link>
 
             {/* Location Selector - Desktop */}
-            <div className="hidden md:flex items-center space-x-2 bg-gray-50 rounded-lg px-3 py-2 cursor-pointer hover:bg-gray-100 transition-colors">
+            <button
+              type="button"
+              onClick={() => setIsLocationModalOpen(true)}
+              className="hidden md:flex items-center space-x-2 bg-gray-50 rounded-lg px-3 py-2 cursor-pointer hover:bg-gray-100 transition-colors"
+            >
               <MapPin className="h-4 w-4 text-purple-600" />
-              <span className="text-sm font-medium text-gray-700">{selectedLocation}</span>
+              <span className="text-sm font-medium text-gray-700 max-w-[12rem] truncate">{selectedLocation}</span>
               <ChevronDown className="h-4 w-4 text-gray-500" />
-            </div>
+            </button>
 
             {/* Search Bar - Desktop */}
             <div className="hidden lg:flex flex-1 max-w-md mx-6">
-              <div className="relative w-full">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                <input
-                  type="text"
-                  placeholder="Search for services..."
-                  className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                />
-              </div>
+              <SearchBox inputClassName="focus:border-transparent" />
             </div>
 
 
@@ -199,24 +206,21 @@ export const Header = ({ onCartClick }: { onCartClick?: () => void }) => {
               </div>
 
               {/* Location Selector - Mobile */}
-              <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+              <button
+                type="button"
+                onClick={() => setIsLocationModalOpen(true)}
+                className="w-full mb-6 p-3 bg-gray-50 rounded-lg text-left"
+              >
                 <div className="flex items-center space-x-2">
                   <MapPin className="h-4 w-4 text-purple-600" />
                   <span className="text-sm font-medium text-gray-700">{selectedLocation}</span>
                   <ChevronDown className="h-4 w-4 text-gray-500" />
                 </div>
-              </div>
+              </button>
 
               {/* Search Bar - Mobile */}
               <div className="mb-6">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <input
-                    type="text"
-                    placeholder="Search services..."
-                    className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  />
-                </div>
+                <SearchBox placeholder="Search services..." onSearch={() => setIsMobileMenuOpen(false)} />
               </div>
 
               {/* Navigation */}
@@ -279,6 +283,14 @@ export const Header = ({ onCartClick }: { onCartClick?: () => void }) => {
           </div>
         </div>
       )}
+
+      <LocationModal
+        isOpen={isLocationModalOpen}
+        onClose={() => setIsLocationModalOpen(false)}
+        currentLocation={selectedLocation}
+        onLocationSelect={handleLocationSelect}
+        loading={false}
+      />
     </>
   );
 };
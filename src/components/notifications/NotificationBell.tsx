@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Bell, X, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useNotifications, UserNotification } from '@/hooks/useNotifications';
+import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { getNotificationStyle } from './notificationStyles';
+
+interface NotificationBellProps {
+  /** Where "View all notifications" goes */
+  inboxPath: string;
+  /** Which edge of the bell the panel lines up with */
+  align?: 'start' | 'end';
+}
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({ inboxPath, align = 'end' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead } = useNotifications(20);
+  const navigate = useNavigate();
+
+  const handleNotificationClick = async (notification: UserNotification) => {
+    if (!notification.is_read) {
+      await markAsRead(notification.id);
+    }
+
+    if (notification.link) {
+      navigate(notification.link);
+    }
+
+    setIsOpen(false);
+  };
+
+  if (loading) {
+    return (
+      <Button variant="ghost" size="sm" className="relative p-2">
+        <Bell className="h-5 w-5 text-gray-400" />
+      </Button>
+    );
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      {/* Notification Bell Button */}
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative p-2 hover:bg-gray-100"
+        >
+          <Bell className={`h-5 w-5 ${unreadCount > 0 ? 'text-orange-500' : 'text-gray-600'}`} />
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 h-5 min-w-5 flex items-center justify-center p-0 px-1 text-xs font-bold"
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+
+      {/* Notification Panel */}
+      <PopoverContent align={align} className="w-80 sm:w-96 p-0">
+        <Card className="border-0 shadow-none">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Bell className="h-5 w-5" />
+                Notifications
+                {unreadCount > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {unreadCount} new
+                  </Badge>
+                )}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                {unreadCount > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={markAllAsRead}
+                    className="text-xs"
+                  >
+                    Mark all read
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsOpen(false)}
+                  className="p-1"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent className="p-0">
+            <ScrollArea className="h-96">
+              {notifications.length === 0 ? (
+                <div className="p-6 text-center text-gray-500">
+                  <Bell className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                  <p>No notifications yet</p>
+                </div>
+              ) : (
+                <div className="space-y-0">
+                  {notifications.map((notification, index) => {
+                    const style = getNotificationStyle(notification.type);
+                    const Icon = style.icon;
+
+                    return (
+                      <div key={notification.id}>
+                        <div
+                          className={`p-4 cursor-pointer transition-colors hover:bg-gray-50 ${
+                            !notification.is_read ? 'bg-blue-50 border-l-4 border-l-blue-500' : ''
+                          }`}
+                          onClick={() => handleNotificationClick(notification)}
+                        >
+                          <div className="flex items-start gap-3">
+                            <div className={`p-2 rounded-full ${style.color}`}>
+                              <Icon className="h-4 w-4" />
+                            </div>
+
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center justify-between">
+                                <h4 className={`text-sm font-medium truncate ${
+                                  !notification.is_read ? 'text-gray-900' : 'text-gray-700'
+                                }`}>
+                                  {notification.title}
+                                </h4>
+                                {!notification.is_read && (
+                                  <div className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0 ml-2" />
+                                )}
+                              </div>
+
+                              <p className="text-xs text-gray-600 mt-1 line-clamp-2">
+                                {notification.message}
+                              </p>
+
+                              <div className="flex items-center gap-2 mt-2 text-xs text-gray-500">
+                                <Clock className="h-3 w-3" />
+                                <span>
+                                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                                </span>
+                              </div>
+                            </div>
+                          </div>
+                        </div>
+                        {index < notifications.length - 1 && <Separator />}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+
+            <div className="p-3 border-t">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  navigate(inboxPath);
+                  setIsOpen(false);
+                }}
+                className="w-full text-sm"
+              >
+                View all notifications
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </PopoverContent>
+    </Popover>
+  );
+};
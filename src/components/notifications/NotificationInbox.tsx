@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Bell, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useNotifications, UserNotification } from '@/hooks/useNotifications';
+import { getNotificationStyle } from './notificationStyles';
+
+export const NotificationInbox: React.FC = () => {
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<'all' | 'unread'>('all');
+  const {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification
+  } = useNotifications(200);
+
+  const visible = filter === 'unread'
+    ? notifications.filter(n => !n.is_read)
+    : notifications;
+
+  const handleOpen = async (notification: UserNotification) => {
+    if (!notification.is_read) {
+      await markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notifications
+            {unreadCount > 0 && (
+              <Badge variant="secondary">{unreadCount} unread</Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as 'all' | 'unread')}>
+              <TabsList>
+                <TabsTrigger value="all">All</TabsTrigger>
+                <TabsTrigger value="unread">Unread</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button variant="outline" size="sm" onClick={markAllAsRead} disabled={unreadCount === 0}>
+              Mark all read
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="py-12 text-center text-gray-500">
+            <Bell className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>{filter === 'unread' ? 'You are all caught up' : 'No notifications yet'}</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {visible.map((notification) => {
+              const style = getNotificationStyle(notification.type);
+              const Icon = style.icon;
+
+              return (
+                <div
+                  key={notification.id}
+                  className={`flex items-start gap-3 p-4 ${!notification.is_read ? 'bg-blue-50' : ''}`}
+                >
+                  <div className={`p-2 rounded-full ${style.color}`}>
+                    <Icon className="h-4 w-4" />
+                  </div>
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <h4 className={`text-sm ${!notification.is_read ? 'font-semibold text-gray-900' : 'font-medium text-gray-700'}`}>
+                        {notification.title}
+                      </h4>
+                      {!notification.is_read && <div className="w-2 h-2 bg-blue-500 rounded-full" />}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                    <p
+                      className="text-xs text-gray-500 mt-1"
+                      title={format(new Date(notification.created_at), 'PPpp')}
+                    >
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-1">
+                    {!notification.is_read && (
+                      <Button variant="ghost" size="sm" onClick={() => markAsRead(notification.id)}>
+                        Mark read
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteNotification(notification.id)}
+                      title="Delete notification"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
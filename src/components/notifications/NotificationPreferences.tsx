@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BellRing, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  reminderService,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferencesUpdate,
+} from '@/services/reminderService';
+
+type PreferenceKey = keyof NotificationPreferencesUpdate;
+
+const MESSAGE_OPTIONS: { key: PreferenceKey; label: string; description: string }[] = [
+  { key: 'reminder_24h_enabled', label: 'Day-before reminder', description: '24 hours before each booking' },
+  { key: 'reminder_1h_enabled', label: 'Hour-before reminder', description: '1 hour before each booking' },
+  { key: 'review_request_enabled', label: 'Review requests', description: 'After a completed service, as a customer' },
+];
+
+const CHANNEL_OPTIONS: { key: PreferenceKey; label: string; description: string }[] = [
+  { key: 'in_app_enabled', label: 'In the app', description: 'Shown in your notifications' },
+  { key: 'email_enabled', label: 'Email', description: 'Sent to your account email' },
+  { key: 'sms_enabled', label: 'Text message', description: 'Sent to the phone number on your profile' },
+];
+
+export const NotificationPreferences: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Required<NotificationPreferencesUpdate>>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<PreferenceKey | null>(null);
+
+  const loadPreferences = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      const saved = await reminderService.getPreferences(user.id);
+      if (saved) {
+        setPreferences({
+          reminder_24h_enabled: saved.reminder_24h_enabled,
+          reminder_1h_enabled: saved.reminder_1h_enabled,
+          review_request_enabled: saved.review_request_enabled,
+          in_app_enabled: saved.in_app_enabled,
+          email_enabled: saved.email_enabled,
+          sms_enabled: saved.sms_enabled,
+        });
+      }
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your reminder settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, toast]);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  // Saved per switch, rolling back if the save fails
+  const togglePreference = async (key: PreferenceKey, value: boolean) => {
+    if (!user?.id) return;
+
+    const previous = preferences;
+    const next = { ...preferences, [key]: value };
+    setPreferences(next);
+    setSavingKey(key);
+
+    try {
+      await reminderService.updatePreferences(user.id, next);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setPreferences(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save your reminder settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const renderOption = (option: { key: PreferenceKey; label: string; description: string }) => (
+    <div key={option.key} className="flex items-center justify-between">
+      <div className="space-y-0.5">
+        <Label htmlFor={option.key} className="text-sm font-medium">{option.label}</Label>
+        <p className="text-sm text-muted-foreground">{option.description}</p>
+      </div>
+      <Switch
+        id={option.key}
+        checked={preferences[option.key]}
+        disabled={savingKey !== null}
+        onCheckedChange={(checked) => togglePreference(option.key, checked)}
+      />
+    </div>
+  );
+
+  const noChannels = !preferences.in_app_enabled && !preferences.email_enabled && !preferences.sms_enabled;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Reminders & Follow-ups
+        </CardTitle>
+        <CardDescription>
+          Choose which booking reminders you get and where they are sent
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-4">
+              <h4 className="font-medium text-gray-900">Messages</h4>
+              {MESSAGE_OPTIONS.map(renderOption)}
+            </div>
+            <div className="space-y-4">
+              <h4 className="font-medium text-gray-900">Send to</h4>
+              {CHANNEL_OPTIONS.map(renderOption)}
+              {noChannels && (
+                <p className="text-sm text-amber-600">With every channel off you won't receive any reminders.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
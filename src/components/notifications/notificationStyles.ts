@@ -0,0 +1,26 @@
+import { AlertTriangle, Bell, Calendar, CalendarClock, CheckCircle, Clock, RotateCcw, Star, XCircle } from 'lucide-react';
+
+/** Icon and colour for a notification type */
+export const getNotificationStyle = (type: string) => {
+  switch (type) {
+    case 'booking_created':
+    case 'booking_confirmed':
+      return { icon: Calendar, color: 'bg-green-100 text-green-600' };
+    case 'booking_completed':
+      return { icon: CheckCircle, color: 'bg-blue-100 text-blue-600' };
+    case 'booking_rescheduled':
+      return { icon: RotateCcw, color: 'bg-purple-100 text-purple-600' };
+    case 'booking_cancelled':
+      return { icon: XCircle, color: 'bg-red-100 text-red-600' };
+    case 'booking_needs_rebook':
+      return { icon: AlertTriangle, color: 'bg-orange-100 text-orange-600' };
+    case 'booking_reminder':
+      return { icon: Clock, color: 'bg-amber-100 text-amber-600' };
+    case 'review_request':
+      return { icon: Star, color: 'bg-yellow-100 text-yellow-600' };
+    case 'availability_reminder':
+      return { icon: CalendarClock, color: 'bg-indigo-100 text-indigo-600' };
+    default:
+      return { icon: Bell, color: 'bg-gray-100 text-gray-600' };
+  }
+};
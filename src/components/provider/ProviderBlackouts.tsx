@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarOff, Trash2, Loader2, Plus, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  blackoutService,
+  BlackoutConflict,
+  BlackoutInput,
+  BlackoutRecurrence,
+  ProviderBlackout,
+  RECURRENCE_LABELS
+} from '@/services/blackoutService';
+
+const formatDate = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+const formatTime = (time: string) => format(parseISO(`2000-01-01T${time}`), 'h:mm a');
+
+interface ProviderBlackoutsProps {
+  /** Called after time off is added or removed */
+  onChange?: () => void;
+}
+
+export const ProviderBlackouts = ({ onChange }: ProviderBlackoutsProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [blackouts, setBlackouts] = useState<ProviderBlackout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [allDay, setAllDay] = useState(true);
+  const [startTime, setStartTime] = useState('12:00');
+  const [endTime, setEndTime] = useState('17:00');
+  const [recurrence, setRecurrence] = useState<BlackoutRecurrence>('none');
+  const [recurrenceUntil, setRecurrenceUntil] = useState('');
+  const [conflicts, setConflicts] = useState<BlackoutConflict[] | null>(null);
+
+  const loadBlackouts = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setLoading(true);
+      setBlackouts(await blackoutService.getBlackouts(profile.id));
+    } catch (error) {
+      console.error('Error loading time off:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load time off",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id, toast]);
+
+  useEffect(() => {
+    loadBlackouts();
+  }, [loadBlackouts]);
+
+  const input: BlackoutInput = {
+    title: title.trim(),
+    startDate,
+    endDate: endDate || startDate,
+    startTime: allDay ? undefined : startTime,
+    endTime: allDay ? undefined : endTime,
+    recurrence,
+    recurrenceUntil: recurrenceUntil || undefined
+  };
+
+  const canAdd = !!input.title && !!startDate && input.endDate >= startDate
+    && (allDay || (!!startTime && !!endTime && endTime > startTime));
+
+  const saveBlackout = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setSaving(true);
+      await blackoutService.addBlackout(profile.id, input);
+      toast({
+        title: "Time Off Added",
+        description: "Customers can no longer book you during this time",
+      });
+      setTitle('');
+      setStartDate('');
+      setEndDate('');
+      setRecurrence('none');
+      setRecurrenceUntil('');
+      loadBlackouts();
+      onChange?.();
+    } catch (error) {
+      console.error('Error adding time off:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add time off",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      setConflicts(null);
+    }
+  };
+
+  // Check for confirmed bookings first; the provider has to confirm blocking over them
+  const handleAdd = async () => {
+    if (!profile?.id || !canAdd) return;
+
+    try {
+      setSaving(true);
+      const found = await blackoutService.findConflicts(profile.id, input);
+      if (found.length > 0) {
+        setConflicts(found);
+        setSaving(false);
+        return;
+      }
+    } catch (error) {
+      console.error('Error checking bookings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check your existing bookings",
+        variant: "destructive",
+      });
+      setSaving(false);
+      return;
+    }
+
+    await saveBlackout();
+  };
+
+  const handleDelete = async (blackout: ProviderBlackout) => {
+    try {
+      await blackoutService.deleteBlackout(blackout.id);
+      setBlackouts(prev => prev.filter(b => b.id !== blackout.id));
+      onChange?.();
+    } catch (error) {
+      console.error('Error deleting time off:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete time off",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeBlackout = (blackout: ProviderBlackout) => {
+    const dates = blackout.end_date === blackout.start_date
+      ? formatDate(blackout.start_date)
+      : `${formatDate(blackout.start_date)} – ${formatDate(blackout.end_date)}`;
+    const times = blackout.start_time && blackout.end_time
+      ? `${formatTime(blackout.start_time)} – ${formatTime(blackout.end_time)}`
+      : 'All day';
+    return `${dates} · ${times}`;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="h-5 w-5" />
+            Time Off & Holidays
+          </CardTitle>
+          <CardDescription>
+            Block an afternoon, a vacation or a public holiday. Blocked times are hidden from customers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="blackout-title">Reason</Label>
+              <Input
+                id="blackout-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Vacation"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-start">From</Label>
+              <Input
+                id="blackout-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-end">Until (optional)</Label>
+              <Input
+                id="blackout-end"
+                type="date"
+                min={startDate}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center gap-3 md:pt-8">
+              <Switch id="blackout-all-day" checked={allDay} onCheckedChange={setAllDay} />
+              <Label htmlFor="blackout-all-day">All day</Label>
+            </div>
+            {!allDay && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="blackout-start-time">From time</Label>
+                  <Input
+                    id="blackout-start-time"
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="blackout-end-time">Until time</Label>
+                  <Input
+                    id="blackout-end-time"
+                    type="time"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select value={recurrence} onValueChange={(value) => setRecurrence(value as BlackoutRecurrence)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RECURRENCE_LABELS) as BlackoutRecurrence[]).map(option => (
+                    <SelectItem key={option} value={option}>{RECURRENCE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {recurrence !== 'none' && (
+              <div className="space-y-2">
+                <Label htmlFor="blackout-repeat-until">Repeat until (optional)</Label>
+                <Input
+                  id="blackout-repeat-until"
+                  type="date"
+                  min={input.endDate}
+                  value={recurrenceUntil}
+                  onChange={(e) => setRecurrenceUntil(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={!canAdd || saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Time Off
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : blackouts.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">No time off scheduled</p>
+          ) : (
+            <div className="space-y-3">
+              {blackouts.map((blackout) => (
+                <div key={blackout.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">{blackout.title}</p>
+                    <p className="text-sm text-gray-600">{describeBlackout(blackout)}</p>
+                    {blackout.recurrence !== 'none' && (
+                      <Badge variant="outline" className="mt-1">
+                        {RECURRENCE_LABELS[blackout.recurrence as BlackoutRecurrence]}
+                        {blackout.recurrence_until && ` until ${formatDate(blackout.recurrence_until)}`}
+                      </Badge>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(blackout)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!conflicts} onOpenChange={(open) => !open && setConflicts(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              You have bookings during this time
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              These confirmed bookings stay in place. Reschedule or cancel them with the customers after adding the time off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {conflicts?.map(conflict => (
+              <div key={conflict.booking_id} className="flex justify-between text-sm border rounded-md px-3 py-2">
+                <span>{conflict.service_name || 'Booking'}</span>
+                <span className="text-gray-600">
+                  {formatDate(conflict.booking_date)} at {formatTime(conflict.booking_time)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={saveBlackout}>Add Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
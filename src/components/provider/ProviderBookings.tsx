@@ -1,144 +1,223 @@
-import React, { useState } from 'react';
-import { 
-  Calendar, 
-  Clock, 
-  User, 
-  MapPin, 
-  Phone, 
-  Mail,
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import {
+  Calendar,
+  Clock,
+  User,
+  MapPin,
+  Phone,
   CheckCircle,
   XCircle,
   AlertCircle,
-  DollarSign
+  DollarSign,
+  Truck,
+  PlayCircle,
+  Loader2
 } from 'lucide-react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  bookingProgressService,
+  NEXT_PROVIDER_STEPS,
+  PROVIDER_STATUS_LABELS,
+  ProviderBooking,
+  ProviderBookingStatus
+} from '@/services/bookingProgressService';
+
+type BookingTab = 'all' | 'pending' | 'active' | 'completed' | 'closed';
+
+const ACTIVE_STATUSES: ProviderBookingStatus[] = ['accepted', 'en_route', 'in_progress'];
+
+const ACTION_LABELS: Partial<Record<ProviderBookingStatus, string>> = {
+  accepted: 'Accept',
+  declined: 'Decline',
+  en_route: 'On My Way',
+  in_progress: 'Start Job',
+  completed: 'Mark Complete',
+  no_show: 'Customer No-Show',
+};
+
+// Steps that can't be undone ask for confirmation and an optional note for the customer
+const CONFIRMED_STEPS: ProviderBookingStatus[] = ['declined', 'no_show'];
+
+const formatTime = (time: string) => format(parseISO(`2000-01-01T${time}`), 'h:mm a');
 
 export const ProviderBookings = () => {
-  const [activeTab, setActiveTab] = useState('all');
-
-  // Mock bookings data - replace with real data from hooks
-  const bookings = [
-    {
-      id: '1',
-      service: 'Emergency Plumbing Repair',
-      customer: {
-        name: 'John Smith',
-        email: 'john@example.com',
-        phone: '+1 (555) 123-4567',
-        address: '123 Main St, New York, NY 10001'
-      },
-      date: '2025-09-03',
-      time: '10:00 AM',
-      status: 'confirmed',
-      amount: 150,
-      notes: 'Kitchen sink is leaking, urgent repair needed',
-      created_at: '2025-09-01T10:00:00Z'
-    },
-    {
-      id: '2',
-      service: 'Electrical Installation',
-      customer: {
-        name: 'Sarah Johnson',
-        email: 'sarah@example.com',
-        phone: '+1 (555) 987-6543',
-        address: '456 Oak Ave, Los Angeles, CA 90210'
-      },
-      date: '2025-09-04',
-      time: '2:00 PM',
-      status: 'pending',
-      amount: 300,
-      notes: 'Install new ceiling fan in living room',
-      created_at: '2025-09-02T14:30:00Z'
-    },
-    {
-      id: '3',
-      service: 'HVAC Maintenance',
-      customer: {
-        name: 'Mike Wilson',
-        email: 'mike@example.com',
-        phone: '+1 (555) 456-7890',
-        address: '789 Pine Rd, Chicago, IL 60601'
-      },
-      date: '2025-09-02',
-      time: '9:00 AM',
-      status: 'completed',
-      amount: 200,
-      notes: 'Regular maintenance check and filter replacement',
-      created_at: '2025-08-30T09:15:00Z'
-    },
-    {
-      id: '4',
-      service: 'Plumbing Inspection',
-      customer: {
-        name: 'Emily Davis',
-        email: 'emily@example.com',
-        phone: '+1 (555) 321-0987',
-        address: '321 Elm St, Miami, FL 33101'
-      },
-      date: '2025-09-05',
-      time: '11:00 AM',
-      status: 'cancelled',
-      amount: 100,
-      notes: 'Pre-purchase home inspection',
-      created_at: '2025-09-01T16:45:00Z'
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  // Set when arriving from the calendar to pick out one booking
+  const [searchParams] = useSearchParams();
+  const focusedBookingId = searchParams.get('booking');
+  const scrolledToBooking = useRef<string | null>(null);
+  const [activeTab, setActiveTab] = useState<BookingTab>('all');
+  const [bookings, setBookings] = useState<ProviderBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [pendingStep, setPendingStep] = useState<{ booking: ProviderBooking; status: ProviderBookingStatus } | null>(null);
+  const [note, setNote] = useState('');
+
+  const loadBookings = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setLoading(true);
+      setBookings(await bookingProgressService.getProviderBookings(profile.id));
+    } catch (error) {
+      console.error('Error loading bookings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load bookings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
     }
-  ];
+  }, [profile?.id, toast]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  useEffect(() => {
+    if (!focusedBookingId || bookings.length === 0 || scrolledToBooking.current === focusedBookingId) return;
+    scrolledToBooking.current = focusedBookingId;
+    document.getElementById(`booking-${focusedBookingId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedBookingId, bookings]);
+
+  // A booking the customer cancelled is closed whatever step it had reached
+  const getProgress = (booking: ProviderBooking): ProviderBookingStatus | 'cancelled' =>
+    booking.status === 'cancelled' && booking.provider_status !== 'declined'
+      ? 'cancelled'
+      : booking.provider_status as ProviderBookingStatus;
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'confirmed': return <CheckCircle className="h-4 w-4 text-green-500" />;
+  const getStatusIcon = (progress: ProviderBookingStatus | 'cancelled') => {
+    switch (progress) {
+      case 'accepted': return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'en_route': return <Truck className="h-4 w-4 text-indigo-500" />;
+      case 'in_progress': return <PlayCircle className="h-4 w-4 text-purple-500" />;
       case 'completed': return <CheckCircle className="h-4 w-4 text-blue-500" />;
-      case 'cancelled': return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'declined':
+      case 'cancelled':
+      case 'no_show': return <XCircle className="h-4 w-4 text-red-500" />;
       default: return <AlertCircle className="h-4 w-4 text-yellow-500" />;
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'confirmed': return 'bg-green-100 text-green-800';
+  const getStatusColor = (progress: ProviderBookingStatus | 'cancelled') => {
+    switch (progress) {
+      case 'accepted': return 'bg-green-100 text-green-800';
+      case 'en_route': return 'bg-indigo-100 text-indigo-800';
+      case 'in_progress': return 'bg-purple-100 text-purple-800';
       case 'completed': return 'bg-blue-100 text-blue-800';
-      case 'cancelled': return 'bg-red-100 text-red-800';
+      case 'declined':
+      case 'cancelled':
+      case 'no_show': return 'bg-red-100 text-red-800';
       default: return 'bg-yellow-100 text-yellow-800';
     }
   };
 
-  const filterBookings = (status: string) => {
-    if (status === 'all') return bookings;
-    return bookings.filter(booking => booking.status === status);
-  };
+  const filterBookings = (tab: BookingTab) => bookings.filter(booking => {
+    const progress = getProgress(booking);
+    switch (tab) {
+      case 'pending': return progress === 'pending';
+      case 'active': return ACTIVE_STATUSES.includes(progress as ProviderBookingStatus);
+      case 'completed': return progress === 'completed';
+      case 'closed': return progress === 'declined' || progress === 'cancelled' || progress === 'no_show';
+      default: return true;
+    }
+  });
+
+  const applyStep = async (booking: ProviderBooking, status: ProviderBookingStatus, stepNote?: string) => {
+    try {
+      setUpdatingId(booking.booking_id);
+      const result = status === 'declined'
+        ? await bookingProgressService.declineBooking(booking, stepNote)
+        : await bookingProgressService.updateProgress(booking.booking_id, status, stepNote);
 
-  const handleAcceptBooking = (bookingId: string) => {
-    console.log('Accept booking:', bookingId);
-    // Implement accept booking logic
+      if (!result.success) {
+        toast({
+          title: "Could Not Update Booking",
+          description: result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Booking Updated",
+        description: status === 'declined'
+          ? "The customer has been notified and refunded"
+          : `Marked as ${PROVIDER_STATUS_LABELS[status].toLowerCase()}. The customer has been notified.`,
+      });
+      await loadBookings();
+    } catch (error) {
+      console.error('Error updating booking:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update booking",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
   };
 
-  const handleRejectBooking = (bookingId: string) => {
-    console.log('Reject booking:', bookingId);
-    // Implement reject booking logic
+  const handleStep = (booking: ProviderBooking, status: ProviderBookingStatus) => {
+    if (CONFIRMED_STEPS.includes(status)) {
+      setNote('');
+      setPendingStep({ booking, status });
+      return;
+    }
+    applyStep(booking, status);
   };
 
-  const handleCompleteBooking = (bookingId: string) => {
-    console.log('Complete booking:', bookingId);
-    // Implement complete booking logic
+  const confirmPendingStep = async () => {
+    if (!pendingStep) return;
+    const { booking, status } = pendingStep;
+    setPendingStep(null);
+    await applyStep(booking, status, note.trim());
   };
 
   const stats = {
     total: bookings.length,
-    pending: bookings.filter(b => b.status === 'pending').length,
-    confirmed: bookings.filter(b => b.status === 'confirmed').length,
-    completed: bookings.filter(b => b.status === 'completed').length
+    pending: filterBookings('pending').length,
+    active: filterBookings('active').length,
+    completed: filterBookings('completed').length,
+    closed: filterBookings('closed').length
   };
 
+  if (loading && bookings.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Bookings</h1>
-          <p className="text-gray-600 mt-1">Manage your service bookings and appointments</p>
+          <p className="text-gray-600 mt-1">Accept new bookings and keep customers updated as you work</p>
         </div>
       </div>
 
@@ -160,7 +239,7 @@ export const ProviderBookings = () => {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-600">Pending</p>
+                <p className="text-sm text-gray-600">Awaiting Response</p>
                 <p className="text-2xl font-bold text-yellow-600">{stats.pending}</p>
               </div>
               <AlertCircle className="h-8 w-8 text-yellow-500" />
@@ -172,8 +251,8 @@ export const ProviderBookings = () => {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-600">Confirmed</p>
-                <p className="text-2xl font-bold text-green-600">{stats.confirmed}</p>
+                <p className="text-sm text-gray-600">Upcoming & Active</p>
+                <p className="text-2xl font-bold text-green-600">{stats.active}</p>
               </div>
               <CheckCircle className="h-8 w-8 text-green-500" />
             </div>
@@ -194,121 +273,121 @@ export const ProviderBookings = () => {
       </div>
 
       {/* Bookings Tabs */}
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as BookingTab)}>
         <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="all">All ({stats.total})</TabsTrigger>
-          <TabsTrigger value="pending">Pending ({stats.pending})</TabsTrigger>
-          <TabsTrigger value="confirmed">Confirmed ({stats.confirmed})</TabsTrigger>
+          <TabsTrigger value="pending">New ({stats.pending})</TabsTrigger>
+          <TabsTrigger value="active">Active ({stats.active})</TabsTrigger>
           <TabsTrigger value="completed">Completed ({stats.completed})</TabsTrigger>
-          <TabsTrigger value="cancelled">Cancelled</TabsTrigger>
+          <TabsTrigger value="closed">Closed ({stats.closed})</TabsTrigger>
         </TabsList>
 
         <TabsContent value={activeTab} className="mt-6">
           <div className="space-y-4">
-            {filterBookings(activeTab).map((booking) => (
-              <Card key={booking.id} className="hover:shadow-md transition-shadow">
-                <CardContent className="p-6">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-3">
-                        <h3 className="text-lg font-semibold text-gray-900">
-                          {booking.service}
-                        </h3>
-                        <div className="flex items-center space-x-1">
-                          {getStatusIcon(booking.status)}
-                          <Badge className={getStatusColor(booking.status)}>
-                            {booking.status}
-                          </Badge>
-                        </div>
-                      </div>
+            {filterBookings(activeTab).map((booking) => {
+              const progress = getProgress(booking);
+              const steps = progress === 'cancelled' ? [] : NEXT_PROVIDER_STEPS[progress];
 
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {/* Customer Info */}
-                        <div className="space-y-2">
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <User className="h-4 w-4" />
-                            <span>{booking.customer.name}</span>
-                          </div>
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <Mail className="h-4 w-4" />
-                            <span>{booking.customer.email}</span>
-                          </div>
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <Phone className="h-4 w-4" />
-                            <span>{booking.customer.phone}</span>
-                          </div>
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <MapPin className="h-4 w-4" />
-                            <span>{booking.customer.address}</span>
+              return (
+                <Card
+                  key={booking.booking_id}
+                  id={`booking-${booking.booking_id}`}
+                  className={`hover:shadow-md transition-shadow ${booking.booking_id === focusedBookingId ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-3">
+                          <h3 className="text-lg font-semibold text-gray-900">
+                            {booking.service_name || 'Service'}
+                            {booking.quantity > 1 && ` × ${booking.quantity}`}
+                          </h3>
+                          <div className="flex items-center space-x-1">
+                            {getStatusIcon(progress)}
+                            <Badge className={getStatusColor(progress)}>
+                              {progress === 'cancelled' ? 'Cancelled by customer' : PROVIDER_STATUS_LABELS[progress]}
+                            </Badge>
                           </div>
                         </div>
 
-                        {/* Booking Details */}
-                        <div className="space-y-2">
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <Calendar className="h-4 w-4" />
-                            <span>{booking.date}</span>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          {/* Customer Info */}
+                          <div className="space-y-2">
+                            <div className="flex items-center space-x-2 text-sm text-gray-600">
+                              <User className="h-4 w-4" />
+                              <span>{booking.customer_name || 'Customer'}</span>
+                            </div>
+                            {booking.customer_phone && (
+                              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                                <Phone className="h-4 w-4" />
+                                <span>{booking.customer_phone}</span>
+                              </div>
+                            )}
+                            {booking.customer_address && (
+                              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                                <MapPin className="h-4 w-4" />
+                                <span>{booking.customer_address}</span>
+                              </div>
+                            )}
                           </div>
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <Clock className="h-4 w-4" />
-                            <span>{booking.time}</span>
-                          </div>
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <DollarSign className="h-4 w-4" />
-                            <span className="font-semibold text-green-600">${booking.amount}</span>
+
+                          {/* Booking Details */}
+                          <div className="space-y-2">
+                            <div className="flex items-center space-x-2 text-sm text-gray-600">
+                              <Calendar className="h-4 w-4" />
+                              <span>{format(parseISO(booking.booking_date), 'EEE, MMM d, yyyy')}</span>
+                            </div>
+                            <div className="flex items-center space-x-2 text-sm text-gray-600">
+                              <Clock className="h-4 w-4" />
+                              <span>{formatTime(booking.booking_time)}</span>
+                            </div>
+                            <div className="flex items-center space-x-2 text-sm text-gray-600">
+                              <DollarSign className="h-4 w-4" />
+                              <span className="font-semibold text-green-600">${Number(booking.total_amount).toFixed(2)}</span>
+                            </div>
                           </div>
                         </div>
-                      </div>
 
-                      {booking.notes && (
-                        <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-                          <p className="text-sm text-gray-700">
-                            <strong>Notes:</strong> {booking.notes}
+                        {booking.special_instructions && (
+                          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+                            <p className="text-sm text-gray-700">
+                              <strong>Notes:</strong> {booking.special_instructions}
+                            </p>
+                          </div>
+                        )}
+
+                        {booking.provider_note && (
+                          <p className="mt-2 text-sm text-gray-600">
+                            <strong>Your note:</strong> {booking.provider_note}
                           </p>
-                        </div>
-                      )}
-                    </div>
+                        )}
+                      </div>
 
-                    {/* Actions */}
-                    <div className="flex flex-col space-y-2 ml-4">
-                      {booking.status === 'pending' && (
-                        <>
-                          <Button
-                            size="sm"
-                            onClick={() => handleAcceptBooking(booking.id)}
-                            className="bg-green-600 hover:bg-green-700"
-                          >
-                            Accept
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleRejectBooking(booking.id)}
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            Reject
-                          </Button>
-                        </>
-                      )}
-                      
-                      {booking.status === 'confirmed' && (
-                        <Button
-                          size="sm"
-                          onClick={() => handleCompleteBooking(booking.id)}
-                          className="bg-blue-600 hover:bg-blue-700"
-                        >
-                          Mark Complete
-                        </Button>
+                      {/* Actions */}
+                      {steps.length > 0 && (
+                        <div className="flex flex-col space-y-2 ml-4">
+                          {steps.map(step => (
+                            <Button
+                              key={step}
+                              size="sm"
+                              variant={CONFIRMED_STEPS.includes(step) ? 'outline' : 'default'}
+                              disabled={updatingId === booking.booking_id}
+                              onClick={() => handleStep(booking, step)}
+                              className={CONFIRMED_STEPS.includes(step) ? 'text-red-600 hover:text-red-700 hover:bg-red-50' : undefined}
+                            >
+                              {updatingId === booking.booking_id && !CONFIRMED_STEPS.includes(step) && (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              )}
+                              {ACTION_LABELS[step]}
+                            </Button>
+                          ))}
+                        </div>
                       )}
-
-                      <Button size="sm" variant="outline">
-                        View Details
-                      </Button>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
 
             {filterBookings(activeTab).length === 0 && (
               <Card className="text-center py-12">
@@ -317,12 +396,12 @@ export const ProviderBookings = () => {
                     <Calendar className="h-8 w-8 text-gray-400" />
                   </div>
                   <h3 className="text-lg font-medium text-gray-900 mb-2">
-                    No {activeTab === 'all' ? '' : activeTab} bookings
+                    No {activeTab === 'all' ? '' : activeTab === 'pending' ? 'new' : activeTab} bookings
                   </h3>
                   <p className="text-gray-600">
-                    {activeTab === 'all' 
+                    {activeTab === 'all'
                       ? 'You don\'t have any bookings yet. Start promoting your services!'
-                      : `No ${activeTab} bookings at the moment.`
+                      : 'Nothing here at the moment.'
                     }
                   </p>
                 </CardContent>
@@ -331,6 +410,36 @@ export const ProviderBookings = () => {
           </div>
         </TabsContent>
       </Tabs>
+
+      <AlertDialog open={!!pendingStep} onOpenChange={(open) => !open && setPendingStep(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingStep?.status === 'declined' ? 'Decline this booking?' : 'Report a no-show?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingStep?.status === 'declined'
+                ? 'The customer is refunded in full and the time becomes bookable again.'
+                : 'The booking is closed as completed and the customer is told you could not reach them.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="booking-step-note">Note for the customer (optional)</Label>
+            <Input
+              id="booking-step-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={pendingStep?.status === 'declined' ? 'Fully booked that day' : 'Nobody answered the door'}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingStep}>
+              {pendingStep ? ACTION_LABELS[pendingStep.status] : 'Confirm'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-};
\ No newline at end of file
+};
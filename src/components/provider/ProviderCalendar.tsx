@@ -0,0 +1,454 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, Loader2, CalendarDays } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  providerCalendarService,
+  CalendarEntry,
+  CalendarSlotState,
+  SLOT_STATE_LABELS
+} from '@/services/providerCalendarService';
+import { PROVIDER_STATUS_LABELS, ProviderBookingStatus } from '@/services/bookingProgressService';
+
+type CalendarView = 'day' | 'week' | 'month';
+
+interface DragSelection {
+  date: string;
+  from: number;
+  to: number;
+}
+
+const STATE_STYLES: Record<CalendarSlotState, string> = {
+  available: 'bg-green-50 border-green-200 text-green-800 hover:bg-green-100 cursor-crosshair',
+  held: 'bg-amber-100 border-amber-300 text-amber-800 cursor-pointer',
+  booked: 'bg-blue-600 border-blue-700 text-white cursor-pointer hover:bg-blue-700',
+  blocked: 'bg-gray-200 border-gray-300 text-gray-600 cursor-pointer',
+};
+
+const STATE_DOTS: Record<CalendarSlotState, string> = {
+  available: 'bg-green-400',
+  held: 'bg-amber-400',
+  booked: 'bg-blue-600',
+  blocked: 'bg-gray-400',
+};
+
+const STATES: CalendarSlotState[] = ['available', 'held', 'booked', 'blocked'];
+
+const formatTime = (time: string) => format(parseISO(`2000-01-01T${time}`), 'h:mm a');
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+interface ProviderCalendarProps {
+  /** Bump to reload, e.g. after time off changes */
+  refreshKey?: number;
+}
+
+export const ProviderCalendar = ({ refreshKey = 0 }: ProviderCalendarProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [drag, setDrag] = useState<DragSelection | null>(null);
+  const [selectedEntry, setSelectedEntry] = useState<CalendarEntry | null>(null);
+
+  const days = useMemo(() => {
+    if (view === 'day') return [anchor];
+    if (view === 'week') {
+      return eachDayOfInterval({
+        start: startOfWeek(anchor, { weekStartsOn: 1 }),
+        end: endOfWeek(anchor, { weekStartsOn: 1 })
+      });
+    }
+    return eachDayOfInterval({
+      start: startOfWeek(startOfMonth(anchor), { weekStartsOn: 1 }),
+      end: endOfWeek(endOfMonth(anchor), { weekStartsOn: 1 })
+    });
+  }, [view, anchor]);
+
+  const rangeStart = toDateKey(days[0]);
+  const rangeEnd = toDateKey(days[days.length - 1]);
+
+  const loadCalendar = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setLoading(true);
+      setEntries(await providerCalendarService.getCalendar(profile.id, rangeStart, rangeEnd));
+    } catch (error) {
+      console.error('Error loading calendar:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your calendar",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id, rangeStart, rangeEnd, toast]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar, refreshKey]);
+
+  // Rows of the day and week grid: every start time that has a slot in the range
+  const times = useMemo(
+    () => Array.from(new Set(entries.map(entry => entry.slot_time))).sort(),
+    [entries]
+  );
+
+  const entryAt = useMemo(() => {
+    const cells = new Map<string, CalendarEntry>();
+    entries.forEach(entry => {
+      const key = `${entry.slot_date} ${entry.slot_time}`;
+      // A booking shown without a slot never hides the slot's own state
+      if (!cells.has(key) || entry.slot_id) cells.set(key, entry);
+    });
+    return (date: string, time: string) => cells.get(`${date} ${time}`);
+  }, [entries]);
+
+  const countsFor = (date: string) => {
+    const counts: Record<CalendarSlotState, number> = { available: 0, held: 0, booked: 0, blocked: 0 };
+    entries
+      .filter(entry => entry.slot_date === date)
+      .forEach(entry => {
+        counts[entry.state as CalendarSlotState] += 1;
+      });
+    return counts;
+  };
+
+  const setBlocked = useCallback(async (slotIds: string[], blocked: boolean) => {
+    if (slotIds.length === 0) return;
+
+    try {
+      setSaving(true);
+      const result = await providerCalendarService.setBlocked(slotIds, blocked);
+      toast({
+        title: result.success ? (blocked ? "Time Blocked" : "Time Unblocked") : "Nothing Changed",
+        description: result.message,
+        variant: result.success ? undefined : "destructive",
+      });
+      await loadCalendar();
+    } catch (error) {
+      console.error('Error updating blocked time:', error);
+      toast({
+        title: "Error",
+        description: blocked ? "Failed to block time" : "Failed to unblock time",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }, [loadCalendar, toast]);
+
+  // Dragging over free time in one day blocks every free slot in the stretch
+  useEffect(() => {
+    if (!drag) return;
+
+    const finishDrag = () => {
+      const [from, to] = drag.from <= drag.to ? [drag.from, drag.to] : [drag.to, drag.from];
+      const slotIds = times
+        .slice(from, to + 1)
+        .map(time => entryAt(drag.date, time))
+        .filter((entry): entry is CalendarEntry => !!entry?.slot_id && entry.state === 'available')
+        .map(entry => entry.slot_id);
+
+      setDrag(null);
+      setBlocked(slotIds, true);
+    };
+
+    window.addEventListener('mouseup', finishDrag);
+    return () => window.removeEventListener('mouseup', finishDrag);
+  }, [drag, times, entryAt, setBlocked]);
+
+  const isInDrag = (date: string, index: number) =>
+    !!drag && drag.date === date && index >= Math.min(drag.from, drag.to) && index <= Math.max(drag.from, drag.to);
+
+  const move = (direction: 1 | -1) => {
+    setAnchor(prev => {
+      if (view === 'day') return addDays(prev, direction);
+      if (view === 'week') return addWeeks(prev, direction);
+      return addMonths(prev, direction);
+    });
+  };
+
+  const title = view === 'day'
+    ? format(anchor, 'EEEE, MMMM d, yyyy')
+    : view === 'week'
+      ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+      : format(anchor, 'MMMM yyyy');
+
+  const renderGrid = () => {
+    if (times.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <CalendarDays className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No working hours</h3>
+          <p className="text-gray-600">
+            There are no slots {view === 'day' ? 'on this day' : 'this week'}. Set your weekly hours to open up times.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="overflow-x-auto select-none">
+        <div
+          className="grid gap-1 min-w-[640px]"
+          style={{ gridTemplateColumns: `80px repeat(${days.length}, minmax(0, 1fr))` }}
+        >
+          <div />
+          {days.map(day => (
+            <button
+              key={toDateKey(day)}
+              type="button"
+              onClick={() => {
+                setView('day');
+                setAnchor(day);
+              }}
+              className={`text-center text-sm font-medium py-2 rounded ${isToday(day) ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+            >
+              {format(day, view === 'day' ? 'EEEE' : 'EEE d')}
+            </button>
+          ))}
+
+          {times.map((time, index) => (
+            <React.Fragment key={time}>
+              <div className="text-xs text-gray-500 pr-2 text-right self-center">{formatTime(time)}</div>
+              {days.map(day => {
+                const date = toDateKey(day);
+                const entry = entryAt(date, time);
+
+                if (!entry) {
+                  return <div key={date} className="h-9 rounded border border-dashed border-gray-100" />;
+                }
+
+                const state = entry.state as CalendarSlotState;
+                const selected = isInDrag(date, index);
+
+                return (
+                  <div
+                    key={date}
+                    role="button"
+                    tabIndex={0}
+                    title={`${SLOT_STATE_LABELS[state]} · ${formatTime(time)}`}
+                    onMouseDown={(e) => {
+                      if (state !== 'available' || saving) return;
+                      e.preventDefault();
+                      setDrag({ date, from: index, to: index });
+                    }}
+                    onMouseEnter={() => {
+                      if (drag && drag.date === date) setDrag({ ...drag, to: index });
+                    }}
+                    onClick={() => {
+                      if (state !== 'available') setSelectedEntry(entry);
+                    }}
+                    className={`h-9 rounded border px-2 text-xs flex items-center truncate transition-colors ${
+                      selected ? 'bg-red-100 border-red-300 text-red-700' : STATE_STYLES[state]
+                    }`}
+                  >
+                    {state === 'booked' && (entry.service_name || 'Booking')}
+                    {state === 'held' && 'Held'}
+                    {state === 'blocked' && (entry.blackout_title || 'Blocked')}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 gap-1">
+      {days.slice(0, 7).map(day => (
+        <div key={day.toISOString()} className="text-center text-xs font-medium text-gray-500 py-1">
+          {format(day, 'EEE')}
+        </div>
+      ))}
+      {days.map(day => {
+        const date = toDateKey(day);
+        const counts = countsFor(date);
+
+        return (
+          <button
+            key={date}
+            type="button"
+            onClick={() => {
+              setView('day');
+              setAnchor(day);
+            }}
+            className={`min-h-[88px] rounded border p-2 text-left hover:bg-gray-50 transition-colors ${
+              isSameMonth(day, anchor) ? 'bg-white' : 'bg-gray-50 text-gray-400'
+            } ${isToday(day) ? 'border-blue-400' : 'border-gray-200'}`}
+          >
+            <div className="text-sm font-medium">{format(day, 'd')}</div>
+            <div className="mt-1 space-y-0.5">
+              {STATES.filter(state => counts[state] > 0).map(state => (
+                <div key={state} className="flex items-center space-x-1 text-xs text-gray-600">
+                  <span className={`h-2 w-2 rounded-full ${STATE_DOTS[state]}`} />
+                  <span>{counts[state]} {SLOT_STATE_LABELS[state].toLowerCase()}</span>
+                </div>
+              ))}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const selectedState = selectedEntry?.state as CalendarSlotState | undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Calendar</CardTitle>
+            <CardDescription>
+              Drag across free time to block it. Click a booking to see its details.
+            </CardDescription>
+          </div>
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="day">Day</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="month">Month</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 pt-2">
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => move(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => move(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="font-medium text-gray-900 ml-2">{title}</span>
+            {(loading || saving) && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {STATES.map(state => (
+              <div key={state} className="flex items-center space-x-1 text-xs text-gray-600">
+                <span className={`h-3 w-3 rounded-sm ${STATE_DOTS[state]}`} />
+                <span>{SLOT_STATE_LABELS[state]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {loading && entries.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : view === 'month' ? renderMonth() : renderGrid()}
+      </CardContent>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent>
+          {selectedEntry && selectedState && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {selectedState === 'booked' ? selectedEntry.service_name || 'Booking' : SLOT_STATE_LABELS[selectedState]}
+                </DialogTitle>
+                <DialogDescription>
+                  {format(parseISO(selectedEntry.slot_date), 'EEEE, MMMM d, yyyy')} at {formatTime(selectedEntry.slot_time)}
+                </DialogDescription>
+              </DialogHeader>
+
+              {selectedState === 'booked' && (
+                <div className="space-y-2 text-sm">
+                  <p><span className="text-gray-500">Customer:</span> {selectedEntry.customer_name || 'Customer'}</p>
+                  {selectedEntry.provider_status && (
+                    <p className="flex items-center space-x-2">
+                      <span className="text-gray-500">Status:</span>
+                      <Badge variant="outline">
+                        {selectedEntry.booking_status === 'cancelled'
+                          ? 'Cancelled'
+                          : PROVIDER_STATUS_LABELS[selectedEntry.provider_status as ProviderBookingStatus] ?? selectedEntry.provider_status}
+                      </Badge>
+                    </p>
+                  )}
+                  {!selectedEntry.booking_id && (
+                    <p className="text-gray-600">This slot is booked but no booking is linked to it.</p>
+                  )}
+                </div>
+              )}
+
+              {selectedState === 'held' && (
+                <p className="text-sm text-gray-600">
+                  A customer is checking out with this time. It is released if they don't finish in a few minutes.
+                </p>
+              )}
+
+              {selectedState === 'blocked' && (
+                <p className="text-sm text-gray-600">
+                  {selectedEntry.blackout_title
+                    ? `This time falls in your time off "${selectedEntry.blackout_title}". Remove it under Time Off to open the time again.`
+                    : 'You blocked this time, so customers can\'t book it.'}
+                </p>
+              )}
+
+              <DialogFooter>
+                {selectedState === 'booked' && selectedEntry.booking_id && (
+                  <Button onClick={() => navigate(`/provider/bookings?booking=${selectedEntry.booking_id}`)}>
+                    Open Booking
+                  </Button>
+                )}
+                {selectedState === 'blocked' && !selectedEntry.blackout_title && selectedEntry.slot_id && (
+                  <Button
+                    disabled={saving}
+                    onClick={() => {
+                      setBlocked([selectedEntry.slot_id], false);
+                      setSelectedEntry(null);
+                    }}
+                  >
+                    Unblock
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarSync, Copy, Loader2, RefreshCw, Link2Off } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { calendarService, CalendarFeed } from '@/services/calendarService';
+
+type FeedAction = 'rotate' | 'revoke';
+
+export const ProviderCalendarFeed = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [pendingAction, setPendingAction] = useState<FeedAction | null>(null);
+
+  const loadFeed = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setLoading(true);
+      setFeed(await calendarService.getFeed(profile.id));
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your calendar feed",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id, toast]);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const createFeed = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setSaving(true);
+      await calendarService.rotateFeedToken(profile.id);
+      await loadFeed();
+      toast({
+        title: feed ? "Link Reset" : "Feed Created",
+        description: feed
+          ? "Calendars using the old link will stop updating. Subscribe again with the new one."
+          : "Subscribe to this link from your calendar app",
+      });
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create a calendar feed",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeFeed = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setSaving(true);
+      await calendarService.revokeFeed(profile.id);
+      setFeed(null);
+      toast({
+        title: "Feed Turned Off",
+        description: "Subscribed calendars will no longer receive your bookings",
+      });
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to turn off the calendar feed",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feed) return;
+
+    try {
+      await navigator.clipboard.writeText(calendarService.getFeedUrl(feed.token));
+      toast({
+        title: "Copied",
+        description: "Paste the link into your calendar app to subscribe",
+      });
+    } catch (error) {
+      console.error('Error copying feed link:', error);
+    }
+  };
+
+  const confirmPendingAction = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (action === 'rotate') await createFeed();
+    if (action === 'revoke') await revokeFeed();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarSync className="h-5 w-5 text-blue-500" />
+          Calendar Sync
+        </CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see your confirmed bookings there.
+          Keep the link private: anyone with it can see your bookings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !feed ? (
+          <Button onClick={createFeed} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Feed Link
+          </Button>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input readOnly value={calendarService.getFeedUrl(feed.token)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={copyFeedUrl}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-sm text-gray-600">
+              {feed.last_fetched_at
+                ? `Last synced ${format(parseISO(feed.last_fetched_at), 'MMM d, yyyy h:mm a')}`
+                : 'No calendar has synced this link yet'}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline" size="sm">
+                <a href={calendarService.getWebcalUrl(feed.token)}>Open in Calendar App</a>
+              </Button>
+              <Button variant="outline" size="sm" disabled={saving} onClick={() => setPendingAction('rotate')}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset Link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={saving}
+                onClick={() => setPendingAction('revoke')}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Link2Off className="h-4 w-4 mr-2" />
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction === 'rotate' ? 'Reset your feed link?' : 'Turn off calendar sync?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === 'rotate'
+                ? 'The current link stops working straight away. Use this if it has been shared by mistake, then subscribe again with the new link.'
+                : 'The link stops working and subscribed calendars stop receiving your bookings. You can create a new link at any time.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingAction}>
+              {pendingAction === 'rotate' ? 'Reset Link' : 'Turn Off'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
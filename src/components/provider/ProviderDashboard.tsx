@@ -6,10 +6,14 @@ import { ProviderServices } from './ProviderServices';
 import { ProviderBookings } from './ProviderBookings';
 import { ProviderProfile } from './ProviderProfile';
 import { ProviderEarnings } from './ProviderEarnings';
+import { ProviderReviews } from './ProviderReviews';
 import { ProviderSchedule } from './ProviderSchedule';
+import { ProviderServiceAreas } from './ProviderServiceAreas';
 import { ProviderAccessControl } from './ProviderAccessControl';
 import { DatabaseStatus } from '../dev/DatabaseStatus';
 import { ServiceRegistration } from './ServiceRegistration';
+import { NotificationInbox } from '@/components/notifications/NotificationInbox';
+import { NotificationPreferences } from '@/components/notifications/NotificationPreferences';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { SecureStorage } from '@/utils/secureStorage';
@@ -331,7 +335,15 @@ export const ProviderDashboard = () => {
                 <Route path="/registration" element={<ServiceRegistration />} />
                 <Route path="/bookings" element={<ProviderBookings />} />
                 <Route path="/schedule" element={<ProviderSchedule />} />
+                <Route path="/service-areas" element={<ProviderServiceAreas />} />
                 <Route path="/earnings" element={<ProviderEarnings />} />
+                <Route path="/reviews" element={<ProviderReviews />} />
+                <Route path="/notifications" element={
+                  <div className="space-y-6">
+                    <NotificationInbox />
+                    <NotificationPreferences />
+                  </div>
+                } />
                 <Route path="/profile" element={<ProviderProfile isPendingApproval={false} />} />
                 <Route path="*" element={<Navigate to="/provider" replace />} />
               </Routes>
@@ -1,90 +1,89 @@
 import React, { useState } from 'react';
+import { format } from 'date-fns';
 import { 
   DollarSign, 
   TrendingUp, 
+  TrendingDown,
   Calendar, 
   CreditCard,
   Download,
-  Eye,
-  Filter
+  Printer
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProviderEarnings, EarningsPeriod } from '@/hooks/useProviderEarnings';
+import { downloadCsv } from '@/utils/csvExport';
+import { payoutService } from '@/services/payoutService';
+import { useToast } from '@/hooks/use-toast';
+
+const PERIOD_LABELS: Record<EarningsPeriod, string> = {
+  week: 'This Week',
+  month: 'This Month',
+  year: 'This Year'
+};
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
 
 export const ProviderEarnings = () => {
-  const [selectedPeriod, setSelectedPeriod] = useState('month');
+  const [selectedPeriod, setSelectedPeriod] = useState<EarningsPeriod>('month');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const { periodEntries, periodTotal, growth, balances, trend, payouts, loading } = useProviderEarnings(selectedPeriod);
+  const { toast } = useToast();
+
+  const transactions = statusFilter === 'all'
+    ? periodEntries
+    : periodEntries.filter(entry => entry.status === statusFilter);
+
+  const grossTotal = periodEntries.reduce((sum, entry) => sum + Number(entry.gross_amount), 0);
+  const commissionTotal = periodEntries.reduce((sum, entry) => sum + Number(entry.commission_amount), 0);
+  const averageJobValue = periodEntries.length > 0 ? grossTotal / periodEntries.length : 0;
+  const commissionRate = grossTotal > 0 ? (commissionTotal / grossTotal) * 100 : 0;
+  const maxTrend = Math.max(...trend.map(point => point.earnings), 0);
 
-  // Mock earnings data
-  const earnings = {
-    total: 4250,
-    thisMonth: 1850,
-    pending: 320,
-    available: 1530,
-    growth: 15.2
+  const handleExport = () => {
+    downloadCsv(
+      `earnings-${selectedPeriod}-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+      ['Date', 'Service', 'Customer', 'Service Date', 'Gross', 'Commission', 'Net', 'Status'],
+      transactions.map(entry => [
+        format(new Date(entry.created_at), 'yyyy-MM-dd'),
+        entry.service_name,
+        entry.customer_name,
+        entry.service_date,
+        Number(entry.gross_amount).toFixed(2),
+        Number(entry.commission_amount).toFixed(2),
+        Number(entry.net_amount).toFixed(2),
+        entry.status
+      ])
+    );
   };
 
-  const transactions = [
-    {
-      id: '1',
-      service: 'Emergency Plumbing Repair',
-      customer: 'John Smith',
-      date: '2025-09-02',
-      amount: 150,
-      status: 'completed',
-      commission: 15,
-      net: 135
-    },
-    {
-      id: '2',
-      service: 'HVAC Maintenance',
-      customer: 'Mike Wilson',
-      date: '2025-09-01',
-      amount: 200,
-      status: 'completed',
-      commission: 20,
-      net: 180
-    },
-    {
-      id: '3',
-      service: 'Electrical Installation',
-      customer: 'Sarah Johnson',
-      date: '2025-08-30',
-      amount: 300,
-      status: 'pending',
-      commission: 30,
-      net: 270
-    },
-    {
-      id: '4',
-      service: 'Plumbing Inspection',
-      customer: 'Emily Davis',
-      date: '2025-08-28',
-      amount: 100,
-      status: 'completed',
-      commission: 10,
-      net: 90
+  const handleStatement = async (payoutId: string, kind: 'csv' | 'print') => {
+    try {
+      const statement = await payoutService.getStatement(payoutId);
+      if (kind === 'csv') {
+        payoutService.downloadStatementCsv(statement);
+      } else {
+        payoutService.openPrintableStatement(statement);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load settlement statement",
+        variant: "destructive"
+      });
     }
-  ];
-
-  const monthlyData = [
-    { month: 'Jan', earnings: 2100 },
-    { month: 'Feb', earnings: 2350 },
-    { month: 'Mar', earnings: 2800 },
-    { month: 'Apr', earnings: 3200 },
-    { month: 'May', earnings: 2900 },
-    { month: 'Jun', earnings: 3400 },
-    { month: 'Jul', earnings: 3800 },
-    { month: 'Aug', earnings: 4100 },
-    { month: 'Sep', earnings: 1850 } // Current month (partial)
-  ];
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'completed': return 'bg-green-100 text-green-800';
+      case 'available': return 'bg-green-100 text-green-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'processing': return 'bg-blue-100 text-blue-800';
+      case 'paid_out':
+      case 'paid': return 'bg-blue-100 text-blue-800';
+      case 'processing': return 'bg-purple-100 text-purple-800';
+      case 'failed': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -98,14 +97,21 @@ export const ProviderEarnings = () => {
           <p className="text-gray-600 mt-1">Track your income and payment history</p>
         </div>
         <div className="flex items-center space-x-3">
-          <Button variant="outline">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="All statuses" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="available">Available</SelectItem>
+              <SelectItem value="paid_out">Paid out</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleExport} disabled={transactions.length === 0}>
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
-          <Button variant="outline">
-            <Filter className="h-4 w-4 mr-2" />
-            Filter
-          </Button>
         </div>
       </div>
 
@@ -116,15 +122,26 @@ export const ProviderEarnings = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Total Earnings</p>
-                <p className="text-2xl font-bold text-gray-900">${earnings.total}</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(balances.total)}</p>
               </div>
               <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
                 <DollarSign className="h-6 w-6 text-green-600" />
               </div>
             </div>
             <div className="mt-4 flex items-center text-sm">
-              <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
-              <span className="text-green-600">+{earnings.growth}% from last month</span>
+              {growth === null ? (
+                <span className="text-gray-500">No earnings in the previous period</span>
+              ) : growth >= 0 ? (
+                <>
+                  <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
+                  <span className="text-green-600">+{growth}% from last {selectedPeriod}</span>
+                </>
+              ) : (
+                <>
+                  <TrendingDown className="h-4 w-4 text-red-500 mr-1" />
+                  <span className="text-red-600">{growth}% from last {selectedPeriod}</span>
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -133,15 +150,15 @@ export const ProviderEarnings = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">This Month</p>
-                <p className="text-2xl font-bold text-gray-900">${earnings.thisMonth}</p>
+                <p className="text-sm font-medium text-gray-600">{PERIOD_LABELS[selectedPeriod]}</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(periodTotal)}</p>
               </div>
               <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
                 <Calendar className="h-6 w-6 text-blue-600" />
               </div>
             </div>
             <div className="mt-4 flex items-center text-sm">
-              <span className="text-blue-600">12 completed jobs</span>
+              <span className="text-blue-600">{periodEntries.length} paid job{periodEntries.length === 1 ? '' : 's'}</span>
             </div>
           </CardContent>
         </Card>
@@ -151,14 +168,14 @@ export const ProviderEarnings = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Pending</p>
-                <p className="text-2xl font-bold text-yellow-600">${earnings.pending}</p>
+                <p className="text-2xl font-bold text-yellow-600">{formatCurrency(balances.pending)}</p>
               </div>
               <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
                 <CreditCard className="h-6 w-6 text-yellow-600" />
               </div>
             </div>
             <div className="mt-4 flex items-center text-sm">
-              <span className="text-yellow-600">Processing payment</span>
+              <span className="text-yellow-600">Released once the job is completed</span>
             </div>
           </CardContent>
         </Card>
@@ -168,7 +185,7 @@ export const ProviderEarnings = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Available</p>
-                <p className="text-2xl font-bold text-green-600">${earnings.available}</p>
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(balances.available)}</p>
               </div>
               <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
                 <DollarSign className="h-6 w-6 text-green-600" />
@@ -213,16 +230,16 @@ export const ProviderEarnings = () => {
         </CardHeader>
         <CardContent>
           <div className="h-64 flex items-end justify-between space-x-2">
-            {monthlyData.map((data, index) => (
-              <div key={data.month} className="flex flex-col items-center flex-1">
+            {trend.map((point) => (
+              <div key={point.label} className="flex flex-col items-center flex-1" title={formatCurrency(point.earnings)}>
                 <div
                   className="w-full bg-blue-500 rounded-t-sm transition-all hover:bg-blue-600"
                   style={{
-                    height: `${(data.earnings / Math.max(...monthlyData.map(d => d.earnings))) * 200}px`,
-                    minHeight: '20px'
+                    height: `${maxTrend > 0 ? (point.earnings / maxTrend) * 200 : 0}px`,
+                    minHeight: '4px'
                   }}
                 />
-                <span className="text-xs text-gray-600 mt-2">{data.month}</span>
+                <span className="text-xs text-gray-600 mt-2">{point.label}</span>
               </div>
             ))}
           </div>
@@ -239,31 +256,72 @@ export const ProviderEarnings = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {transactions.map((transaction) => (
+            {loading ? (
+              <p className="text-center text-gray-500 py-8">Loading transactions...</p>
+            ) : transactions.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No earnings for {PERIOD_LABELS[selectedPeriod].toLowerCase()}</p>
+            ) : transactions.map((transaction) => (
               <div key={transaction.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
                 <div className="flex items-center space-x-4">
                   <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
                     <DollarSign className="h-5 w-5 text-blue-600" />
                   </div>
                   <div>
-                    <h4 className="font-medium text-gray-900">{transaction.service}</h4>
-                    <p className="text-sm text-gray-600">Customer: {transaction.customer}</p>
-                    <p className="text-sm text-gray-500">{transaction.date}</p>
+                    <h4 className="font-medium text-gray-900">{transaction.service_name || 'Service'}</h4>
+                    <p className="text-sm text-gray-600">Customer: {transaction.customer_name || 'Customer'}</p>
+                    <p className="text-sm text-gray-500">{format(new Date(transaction.created_at), 'yyyy-MM-dd')}</p>
                   </div>
                 </div>
                 
                 <div className="flex items-center space-x-4">
                   <div className="text-right">
-                    <p className="font-medium text-gray-900">${transaction.amount}</p>
-                    <p className="text-sm text-gray-600">Commission: ${transaction.commission}</p>
-                    <p className="text-sm font-medium text-green-600">Net: ${transaction.net}</p>
+                    <p className="font-medium text-gray-900">{formatCurrency(Number(transaction.gross_amount))}</p>
+                    <p className="text-sm text-gray-600">Commission: {formatCurrency(Number(transaction.commission_amount))}</p>
+                    <p className="text-sm font-medium text-green-600">Net: {formatCurrency(Number(transaction.net_amount))}</p>
                   </div>
                   <Badge className={getStatusColor(transaction.status)}>
-                    {transaction.status}
+                    {transaction.status.replace('_', ' ')}
                   </Badge>
-                  <Button size="sm" variant="outline">
-                    <Eye className="h-3 w-3 mr-1" />
-                    View
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Payout Batches */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <DollarSign className="h-5 w-5" />
+            <span>Payouts</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {payouts.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No payouts yet</p>
+            ) : payouts.map((payout) => (
+              <div key={payout.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                <div>
+                  <h4 className="font-medium text-gray-900">{payout.period_start} – {payout.period_end}</h4>
+                  <p className="text-sm text-gray-600">{payout.entry_count} job{payout.entry_count === 1 ? '' : 's'}</p>
+                  {payout.reference_number && (
+                    <p className="text-sm text-gray-500">Ref: {payout.reference_number}</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-4">
+                  <p className="font-medium text-green-600">{formatCurrency(Number(payout.net_amount))}</p>
+                  <Badge className={getStatusColor(payout.status)}>
+                    {payout.status}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => handleStatement(payout.id, 'csv')}>
+                    <Download className="h-3 w-3 mr-1" />
+                    CSV
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleStatement(payout.id, 'print')}>
+                    <Printer className="h-3 w-3 mr-1" />
+                    Print
                   </Button>
                 </div>
               </div>
@@ -281,12 +339,12 @@ export const ProviderEarnings = () => {
           <CardContent>
             <div className="space-y-4">
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Next Payout</span>
-                <span className="font-medium text-gray-900">September 15, 2025</span>
+                <span className="text-sm text-gray-600">Paid Out to Date</span>
+                <span className="font-medium text-gray-900">{formatCurrency(balances.paidOut)}</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-600">Payout Amount</span>
-                <span className="font-medium text-green-600">${earnings.available}</span>
+                <span className="font-medium text-green-600">{formatCurrency(balances.available)}</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-600">Payout Method</span>
@@ -309,19 +367,15 @@ export const ProviderEarnings = () => {
             <div className="space-y-4">
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-600">Average Job Value</span>
-                <span className="font-medium text-gray-900">$187</span>
+                <span className="font-medium text-gray-900">{formatCurrency(averageJobValue)}</span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Jobs This Month</span>
-                <span className="font-medium text-gray-900">12</span>
+                <span className="text-sm text-gray-600">Jobs {PERIOD_LABELS[selectedPeriod]}</span>
+                <span className="font-medium text-gray-900">{periodEntries.length}</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-600">Commission Rate</span>
-                <span className="font-medium text-gray-900">10%</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Customer Rating</span>
-                <span className="font-medium text-gray-900">⭐ 4.8/5.0</span>
+                <span className="font-medium text-gray-900">{commissionRate.toFixed(1)}%</span>
               </div>
             </div>
           </CardContent>
@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Star, MessageSquare, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { StarRating } from '@/components/reviews/StarRating';
+import { reviewService, Review } from '@/services/reviewService';
+
+export const ProviderReviews = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setLoading(true);
+      setReviews(await reviewService.getProviderReviews(profile.id));
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load reviews",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id, toast]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleReply = async (review: Review) => {
+    const reply = replyDrafts[review.id]?.trim();
+    if (!reply) return;
+
+    setReplyingId(review.id);
+    const result = await reviewService.replyToReview(review.id, reply);
+    setReplyingId(null);
+
+    toast({
+      title: result.success ? "Reply Posted" : "Error",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+
+    if (result.success) {
+      loadReviews();
+    }
+  };
+
+  const published = reviews.filter(review => review.status === 'approved');
+  const averageRating = published.length > 0
+    ? published.reduce((sum, review) => sum + review.rating, 0) / published.length
+    : 0;
+  const awaitingReply = published.filter(review => !review.provider_reply).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Reviews</h1>
+        <p className="text-gray-600 mt-1">See what customers say and reply to their feedback</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Average Rating</CardTitle>
+            <Star className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{published.length > 0 ? averageRating.toFixed(1) : '—'}</div>
+            <StarRating rating={averageRating} size="sm" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Published Reviews</CardTitle>
+            <MessageSquare className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{published.length}</div>
+            <p className="text-xs text-muted-foreground">{reviews.length - published.length} awaiting moderation or hidden</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Your Reply</CardTitle>
+            <MessageSquare className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{awaitingReply}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Review List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer Reviews</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : reviews.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No reviews yet</p>
+          ) : (
+            <div className="space-y-4">
+              {reviews.map((review) => (
+                <div key={review.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <StarRating rating={review.rating} />
+                      <span className="font-medium text-gray-900">{review.customer_name || 'Customer'}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {review.status !== 'approved' && (
+                        <Badge variant="secondary">{review.status === 'pending' ? 'Awaiting moderation' : 'Hidden'}</Badge>
+                      )}
+                      <span className="text-sm text-gray-500">{format(new Date(review.created_at), 'MMM dd, yyyy')}</span>
+                    </div>
+                  </div>
+
+                  {review.comment && <p className="text-gray-700">{review.comment}</p>}
+
+                  {review.provider_reply ? (
+                    <div className="p-3 bg-blue-50 rounded-lg text-sm">
+                      <p className="font-medium text-blue-900">Your reply</p>
+                      <p className="text-blue-800">{review.provider_reply}</p>
+                    </div>
+                  ) : review.status === 'approved' && (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={replyDrafts[review.id] || ''}
+                        onChange={(e) => setReplyDrafts(prev => ({ ...prev, [review.id]: e.target.value }))}
+                        placeholder="Write a public reply (you can reply once)"
+                        rows={2}
+                        maxLength={1000}
+                      />
+                      <div className="flex justify-end">
+                        <Button
+                          size="sm"
+                          onClick={() => handleReply(review)}
+                          disabled={!replyDrafts[review.id]?.trim() || replyingId === review.id}
+                        >
+                          {replyingId === review.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Post Reply
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MapPin, Hash, Trash2, Loader2, Plus } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useLocations } from '@/hooks/useLocations';
+import { serviceAreaService, ServiceArea, ServiceAreaType } from '@/services/serviceAreaService';
+
+export const ProviderServiceAreas = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const { locations } = useLocations();
+  const [areas, setAreas] = useState<ServiceArea[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [areaType, setAreaType] = useState<ServiceAreaType>('radius');
+  const [locationId, setLocationId] = useState('');
+  const [radiusKm, setRadiusKm] = useState('25');
+  const [postalCodes, setPostalCodes] = useState('');
+
+  // Only locations with coordinates can be the centre of a radius
+  const mappableLocations = locations.filter(location => location.latitude != null && location.longitude != null);
+
+  const loadAreas = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setLoading(true);
+      setAreas(await serviceAreaService.getServiceAreas(profile.id));
+    } catch (error) {
+      console.error('Error loading service areas:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load service areas",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id, toast]);
+
+  useEffect(() => {
+    loadAreas();
+  }, [loadAreas]);
+
+  const parsedPostalCodes = postalCodes.split(/[,\n]/).map(code => code.trim()).filter(Boolean);
+  const canAdd = areaType === 'radius'
+    ? !!locationId && Number(radiusKm) > 0
+    : parsedPostalCodes.length > 0;
+
+  const handleAdd = async () => {
+    if (!profile?.id || !canAdd) return;
+
+    try {
+      setSaving(true);
+      await serviceAreaService.addServiceArea(profile.id, {
+        area_type: areaType,
+        location_id: locationId,
+        radius_km: Number(radiusKm),
+        postal_codes: parsedPostalCodes
+      });
+      toast({
+        title: "Service Area Added",
+        description: "Customers in this area can now find you",
+      });
+      setLocationId('');
+      setPostalCodes('');
+      loadAreas();
+    } catch (error) {
+      console.error('Error adding service area:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add service area",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (area: ServiceArea, isActive: boolean) => {
+    try {
+      await serviceAreaService.setServiceAreaActive(area.id, isActive);
+      setAreas(prev => prev.map(a => a.id === area.id ? { ...a, is_active: isActive } : a));
+    } catch (error) {
+      console.error('Error updating service area:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update service area",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (area: ServiceArea) => {
+    try {
+      await serviceAreaService.deleteServiceArea(area.id);
+      setAreas(prev => prev.filter(a => a.id !== area.id));
+    } catch (error) {
+      console.error('Error deleting service area:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete service area",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeArea = (area: ServiceArea) => {
+    if (area.area_type === 'radius') {
+      const centre = area.locations ? `${area.locations.name}, ${area.locations.city}` : 'Unknown location';
+      return `Within ${area.radius_km} km of ${centre}`;
+    }
+    return area.postal_codes.join(', ');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Service Areas</h1>
+        <p className="text-gray-600 mt-1">Choose where you take bookings. Without any areas you are shown to customers everywhere.</p>
+      </div>
+
+      {/* Add Area */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Add a Service Area</CardTitle>
+          <CardDescription>Cover a distance around a location, or list postal codes and prefixes such as E1C</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Area type</Label>
+              <Select value={areaType} onValueChange={(value) => setAreaType(value as ServiceAreaType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="radius">Distance from a location</SelectItem>
+                  <SelectItem value="postal_codes">Postal codes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {areaType === 'radius' ? (
+              <>
+                <div className="space-y-2">
+                  <Label>Centre</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mappableLocations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}, {location.city}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="radius-km">Radius (km)</Label>
+                  <Input
+                    id="radius-km"
+                    type="number"
+                    min="1"
+                    max="500"
+                    value={radiusKm}
+                    onChange={(e) => setRadiusKm(e.target.value)}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="postal-codes">Postal codes</Label>
+                <Input
+                  id="postal-codes"
+                  value={postalCodes}
+                  onChange={(e) => setPostalCodes(e.target.value)}
+                  placeholder="E1C, E1A, E1B 2K4"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={!canAdd || saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Area
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Area List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Service Areas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : areas.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No service areas yet — you are visible to customers everywhere</p>
+          ) : (
+            <div className="space-y-3">
+              {areas.map((area) => (
+                <div key={area.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    {area.area_type === 'radius'
+                      ? <MapPin className="h-5 w-5 text-purple-600" />
+                      : <Hash className="h-5 w-5 text-purple-600" />}
+                    <div>
+                      <p className="font-medium text-gray-900">{describeArea(area)}</p>
+                      <Badge variant="outline" className="mt-1">
+                        {area.area_type === 'radius' ? 'Radius' : 'Postal codes'}
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      checked={area.is_active}
+                      onCheckedChange={(checked) => handleToggle(area, checked)}
+                      aria-label="Area active"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(area)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  rating: number;
+  /** Makes the stars clickable */
+  onChange?: (rating: number) => void;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+const sizeClasses = {
+  sm: 'h-3 w-3',
+  md: 'h-4 w-4',
+  lg: 'h-7 w-7'
+};
+
+export const StarRating: React.FC<StarRatingProps> = ({ rating, onChange, size = 'md' }) => {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || rating;
+
+  return (
+    <div className="flex items-center gap-0.5" onMouseLeave={() => setHovered(0)}>
+      {Array.from({ length: 5 }, (_, index) => {
+        const value = index + 1;
+        const star = (
+          <Star
+            className={`${sizeClasses[size]} ${
+              value <= Math.round(shown) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+            }`}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={value}
+            type="button"
+            aria-label={`${value} star${value === 1 ? '' : 's'}`}
+            onMouseEnter={() => setHovered(value)}
+            onClick={() => onChange(value)}
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={value}>{star}</span>
+        );
+      })}
+    </div>
+  );
+};
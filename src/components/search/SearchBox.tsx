@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import { Search, Loader2 } from 'lucide-react';
+import { searchService, SearchSuggestion } from '@/services/searchService';
+
+interface SearchBoxProps {
+  placeholder?: string;
+  inputClassName?: string;
+  /** Called after navigating, e.g. to close the mobile menu */
+  onSearch?: () => void;
+}
+
+const typeLabels: Record<string, string> = {
+  category: 'Category',
+  subcategory: 'Service type',
+  service: 'Service'
+};
+
+export const SearchBox: React.FC<SearchBoxProps> = ({ placeholder = 'Search for services...', inputClassName = '', onSearch }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const urlQuery = location.pathname === '/search' ? searchParams.get('q') || '' : '';
+  const [query, setQuery] = useState(urlQuery);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the box in step with the results page when filters or history change the query
+  useEffect(() => {
+    setQuery(urlQuery);
+  }, [urlQuery]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const results = await searchService.suggest(trimmed);
+        if (!cancelled) {
+          setSuggestions(results);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        console.error('Error loading search suggestions:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const goTo = (path: string) => {
+    setOpen(false);
+    navigate(path);
+    onSearch?.();
+  };
+
+  const submitSearch = () => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    const params = location.pathname === '/search' ? new URLSearchParams(searchParams) : new URLSearchParams();
+    params.set('q', trimmed);
+    goTo(`/search?${params.toString()}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (open && activeIndex >= 0 && suggestions[activeIndex]) {
+        goTo(searchService.getSuggestionPath(suggestions[activeIndex]));
+      } else {
+        submitSearch();
+      }
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showDropdown = open && query.trim().length >= 2 && (loading || suggestions.length > 0);
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        aria-label="Search services"
+        aria-autocomplete="list"
+        aria-expanded={showDropdown}
+        className={`w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 ${inputClassName}`}
+      />
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 overflow-hidden">
+          {loading && suggestions.length === 0 ? (
+            <div className="flex items-center px-4 py-3 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Searching...
+            </div>
+          ) : (
+            <ul role="listbox">
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={`${suggestion.result_type}-${suggestion.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    goTo(searchService.getSuggestionPath(suggestion));
+                  }}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`flex items-center justify-between px-4 py-2 text-sm cursor-pointer ${
+                    index === activeIndex ? 'bg-purple-50 text-purple-700' : 'text-gray-700'
+                  }`}
+                >
+                  <span className="truncate">{suggestion.suggestion}</span>
+                  <span className="ml-3 text-xs text-gray-400 flex-shrink-0">{typeLabels[suggestion.result_type]}</span>
+                </li>
+              ))}
+              <li
+                role="option"
+                aria-selected={false}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  submitSearch();
+                }}
+                className="px-4 py-2 text-sm text-purple-600 border-t cursor-pointer hover:bg-gray-50"
+              >
+                See all results for "{query.trim()}"
+              </li>
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -16,6 +16,7 @@ export interface CartItem {
   date?: string;
   time?: string;
   displayDate?: string;
+  slotId?: string;
 }
 
 interface CartContextType {
@@ -41,6 +42,14 @@ const getGuestSessionId = (): string => {
   return sessionId;
 };
 
+// Scheduling fields are persisted inside service_details, so restore them from there
+const scheduleFromDetails = (details: CartItem['serviceDetails']): Pick<CartItem, 'date' | 'time' | 'displayDate' | 'slotId'> => ({
+  date: details?.date,
+  time: details?.time,
+  displayDate: details?.displayDate,
+  slotId: details?.slotId
+});
+
 export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { user, isAuthenticated, loading: authLoading } = useAuth();
   const { toast } = useToast();
@@ -85,7 +94,8 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           providerName: item.provider_name,
           price: Number(item.price),
           quantity: item.quantity,
-          serviceDetails: item.service_details
+          serviceDetails: item.service_details,
+          ...scheduleFromDetails(item.service_details)
         }));
 
         console.log('Loaded authenticated cart items:', cartItems.length);
@@ -114,7 +124,8 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             providerName: item.provider_name,
             price: Number(item.price),
             quantity: item.quantity,
-            serviceDetails: item.service_details
+            serviceDetails: item.service_details,
+            ...scheduleFromDetails(item.service_details)
           }));
 
           console.log('Loaded guest cart items:', cartItems.length);
@@ -266,10 +277,16 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         priceType: typeof newItem.price
       });
   
-      // Check if item already exists
-      const existingItem = items.find(item => 
-        item.serviceId === newItem.serviceId && 
-        item.providerId === newItem.providerId
+      // Check if item already exists; each visit (slot, date and time) and each
+      // occurrence of a recurring series stays its own line
+      const existingItem = items.find(item =>
+        item.serviceId === newItem.serviceId &&
+        item.providerId === newItem.providerId &&
+        item.serviceDetails?.slotId === newItem.serviceDetails?.slotId &&
+        item.serviceDetails?.date === newItem.serviceDetails?.date &&
+        item.serviceDetails?.time === newItem.serviceDetails?.time &&
+        item.serviceDetails?.seriesId === newItem.serviceDetails?.seriesId &&
+        item.serviceDetails?.seriesOccurrence === newItem.serviceDetails?.seriesOccurrence
       );
   
       if (existingItem) {
@@ -347,7 +364,8 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             providerName: insertedData.provider_name,
             price: Number(insertedData.price),
             quantity: insertedData.quantity,
-            serviceDetails: insertedData.service_details
+            serviceDetails: insertedData.service_details,
+            ...scheduleFromDetails(insertedData.service_details)
           };
   
           setItems(prev => [...prev, cartItem]);
@@ -386,7 +404,8 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               providerName: guestData.provider_name,
               price: Number(guestData.price),
               quantity: guestData.quantity,
-              serviceDetails: guestData.service_details
+              serviceDetails: guestData.service_details,
+              ...scheduleFromDetails(guestData.service_details)
             };
   
             setItems(prev => [...prev, cartItem]);
@@ -400,7 +419,8 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               providerName: newItem.providerName,
               price: newItem.price,
               quantity: 1,
-              serviceDetails: newItem.serviceDetails || {}
+              serviceDetails: newItem.serviceDetails || {},
+              ...scheduleFromDetails(newItem.serviceDetails)
             };
   
             const updatedItems = [...items, cartItem];
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+
+export interface CustomerLocation {
+  /** What the header shows, e.g. "Downtown, Moncton, NB" */
+  label: string;
+  latitude?: number;
+  longitude?: number;
+  postalCode?: string;
+}
+
+interface CustomerLocationContextType {
+  location: CustomerLocation | null;
+  setLocation: (location: CustomerLocation) => void;
+  clearLocation: () => void;
+  detectLocation: () => Promise<GeolocationCoordinates>;
+}
+
+// Provided by CustomerLocationProvider in components
+export const CustomerLocationContext = createContext<CustomerLocationContextType | undefined>(undefined);
+
+export const useCustomerLocation = (): CustomerLocationContextType => {
+  const context = useContext(CustomerLocationContext);
+  if (!context) {
+    throw new Error('useCustomerLocation must be used within a CustomerLocationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { CustomerFavorite, FavoriteInput, FavoriteType } from '@/services/database';
+
+interface FavoritesContextType {
+  favorites: CustomerFavorite[];
+  isLoading: boolean;
+  isFavorite: (type: FavoriteType, itemId: string) => boolean;
+  toggleFavorite: (input: FavoriteInput) => Promise<void>;
+  removeFavorite: (favorite: CustomerFavorite) => Promise<void>;
+}
+
+// Provided by FavoritesProvider in components
+export const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export const useFavorites = (): FavoritesContextType => {
+  const context = useContext(FavoritesContext);
+  if (!context) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+};
@@ -101,8 +101,9 @@ export const useProviderAvailability = () => {
     }
   };
 
-  // Get available slots for a provider on a specific date
-  const getAvailableSlots = async (providerId: string, date: string): Promise<BookingSlot[]> => {
+  // Get available slots for a provider on a specific date. With services, only
+  // slots the whole visit fits after are returned.
+  const getAvailableSlots = async (providerId: string, date: string, serviceIds?: string[]): Promise<BookingSlot[]> => {
     try {
       console.log('Fetching available slots for provider:', providerId, 'date:', date);
       
@@ -119,11 +120,17 @@ export const useProviderAvailability = () => {
         .lt('hold_expires_at', now);
       
       // Use the RPC function to get available slots
-      const { data, error } = await supabase.rpc('get_available_slots', {
-        p_provider_id: providerId,
-        p_service_id: null,
-        p_date: date
-      });
+      const { data, error } = serviceIds?.length
+        ? await supabase.rpc('get_available_service_slots', {
+            p_provider_id: providerId,
+            p_date: date,
+            p_service_ids: serviceIds
+          })
+        : await supabase.rpc('get_available_slots', {
+            p_provider_id: providerId,
+            p_service_id: null,
+            p_date: date
+          });
 
       if (error) {
         console.error('RPC error:', error);
@@ -156,14 +163,21 @@ export const useProviderAvailability = () => {
     }
   };
 
-  // Hold a slot temporarily using the database function
-  const holdSlot = async (slotId: string, userId: string) => {
+  // Hold a slot temporarily using the database function. With services, the
+  // following slots the visit runs into are held with it.
+  const holdSlot = async (slotId: string, userId: string, serviceIds?: string[]) => {
     try {
-      const { data, error } = await supabase.rpc('hold_slot', {
-        slot_id: slotId,
-        user_id: userId,
-        hold_duration_minutes: 7
-      });
+      const { data, error } = serviceIds?.length
+        ? await supabase.rpc('hold_service_slots', {
+            p_slot_id: slotId,
+            p_service_ids: serviceIds,
+            p_hold_minutes: 7
+          })
+        : await supabase.rpc('hold_slot', {
+            slot_id: slotId,
+            user_id: userId,
+            hold_duration_minutes: 7
+          });
 
       if (error) throw error;
       return data === true;
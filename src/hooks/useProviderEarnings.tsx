@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { addMonths, addWeeks, addYears, format, startOfMonth, startOfWeek, startOfYear } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type ProviderEarning = Tables<'provider_earnings'>;
+export type ProviderPayout = Tables<'provider_payouts'>;
+
+export type EarningsPeriod = 'week' | 'month' | 'year';
+
+export interface EarningsBalances {
+  pending: number;
+  available: number;
+  paidOut: number;
+  total: number;
+}
+
+export interface EarningsTrendPoint {
+  label: string;
+  earnings: number;
+}
+
+// How many buckets the trend chart shows for each period
+const TREND_LENGTH: Record<EarningsPeriod, number> = {
+  week: 8,
+  month: 12,
+  year: 5,
+};
+
+const periodStart = (period: EarningsPeriod, date: Date) => {
+  switch (period) {
+    case 'week': return startOfWeek(date);
+    case 'month': return startOfMonth(date);
+    case 'year': return startOfYear(date);
+  }
+};
+
+const shiftPeriod = (period: EarningsPeriod, date: Date, amount: number) => {
+  switch (period) {
+    case 'week': return addWeeks(date, amount);
+    case 'month': return addMonths(date, amount);
+    case 'year': return addYears(date, amount);
+  }
+};
+
+const sumNet = (entries: ProviderEarning[]) =>
+  Math.round(entries.reduce((sum, entry) => sum + Number(entry.net_amount), 0) * 100) / 100;
+
+/**
+ * Earnings ledger and payout batches for the signed-in provider, with
+ * balances and the entries for the selected period (this week, this month
+ * or this year).
+ */
+export const useProviderEarnings = (period: EarningsPeriod) => {
+  const { profile } = useAuth();
+  const [entries, setEntries] = useState<ProviderEarning[]>([]);
+  const [payouts, setPayouts] = useState<ProviderPayout[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEarnings = useCallback(async () => {
+    if (!profile?.id) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [{ data, error }, { data: payoutData, error: payoutError }] = await Promise.all([
+        supabase
+          .from('provider_earnings')
+          .select('*')
+          .eq('provider_id', profile.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('provider_payouts')
+          .select('*')
+          .eq('provider_id', profile.id)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (error || payoutError) {
+        console.error('Error fetching provider earnings:', error || payoutError);
+        return;
+      }
+
+      setEntries(data || []);
+      setPayouts(payoutData || []);
+    } catch (error) {
+      console.error('Error fetching provider earnings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    fetchEarnings();
+  }, [fetchEarnings]);
+
+  // Reversed entries (cancelled or refunded bookings) never count towards earnings
+  const activeEntries = useMemo(() => entries.filter(entry => entry.status !== 'reversed'), [entries]);
+
+  const balances: EarningsBalances = useMemo(() => ({
+    pending: sumNet(activeEntries.filter(entry => entry.status === 'pending')),
+    available: sumNet(activeEntries.filter(entry => entry.status === 'available')),
+    paidOut: sumNet(activeEntries.filter(entry => entry.status === 'paid_out')),
+    total: sumNet(activeEntries),
+  }), [activeEntries]);
+
+  const { periodEntries, previousPeriodTotal } = useMemo(() => {
+    const start = periodStart(period, new Date());
+    const previousStart = shiftPeriod(period, start, -1);
+
+    return {
+      periodEntries: activeEntries.filter(entry => new Date(entry.created_at) >= start),
+      previousPeriodTotal: sumNet(activeEntries.filter(entry => {
+        const createdAt = new Date(entry.created_at);
+        return createdAt >= previousStart && createdAt < start;
+      })),
+    };
+  }, [activeEntries, period]);
+
+  const periodTotal = sumNet(periodEntries);
+  const growth = previousPeriodTotal > 0
+    ? Math.round(((periodTotal - previousPeriodTotal) / previousPeriodTotal) * 1000) / 10
+    : null;
+
+  const trend: EarningsTrendPoint[] = useMemo(() => {
+    const labelFormat = period === 'week' ? 'MMM d' : period === 'month' ? 'MMM' : 'yyyy';
+    const current = periodStart(period, new Date());
+
+    return Array.from({ length: TREND_LENGTH[period] }, (_, index) => {
+      const start = shiftPeriod(period, current, index - TREND_LENGTH[period] + 1);
+      const end = shiftPeriod(period, start, 1);
+      return {
+        label: format(start, labelFormat),
+        earnings: sumNet(activeEntries.filter(entry => {
+          const createdAt = new Date(entry.created_at);
+          return createdAt >= start && createdAt < end;
+        })),
+      };
+    });
+  }, [activeEntries, period]);
+
+  return {
+    entries,
+    payouts,
+    periodEntries,
+    periodTotal,
+    growth,
+    balances,
+    trend,
+    loading,
+    refetch: fetchEarnings,
+  };
+};
@@ -170,6 +170,7 @@ export type Database = {
           fee_type: string
           fee_value: number
           id: string
+          platform_fee_id: string | null
         }
         Insert: {
           booking_id: string
@@ -179,6 +180,7 @@ export type Database = {
           fee_type: string
           fee_value: number
           id?: string
+          platform_fee_id?: string | null
         }
         Update: {
           booking_id?: string
@@ -188,6 +190,7 @@ export type Database = {
           fee_type?: string
           fee_value?: number
           id?: string
+          platform_fee_id?: string | null
         }
         Relationships: [
           {
@@ -197,8 +200,108 @@ export type Database = {
             referencedRelation: "bookings"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "booking_fees_platform_fee_id_fkey"
+            columns: ["platform_fee_id"]
+            isOneToOne: false
+            referencedRelation: "platform_fees"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      booking_reschedules: {
+        Row: {
+          booking_id: string
+          created_at: string
+          from_date: string | null
+          from_slot_id: string | null
+          from_time: string | null
+          id: string
+          order_id: string
+          reason: string | null
+          rescheduled_by: string | null
+          to_date: string
+          to_slot_id: string | null
+          to_time: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          from_date?: string | null
+          from_slot_id?: string | null
+          from_time?: string | null
+          id?: string
+          order_id: string
+          reason?: string | null
+          rescheduled_by?: string | null
+          to_date: string
+          to_slot_id?: string | null
+          to_time: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          from_date?: string | null
+          from_slot_id?: string | null
+          from_time?: string | null
+          id?: string
+          order_id?: string
+          reason?: string | null
+          rescheduled_by?: string | null
+          to_date?: string
+          to_slot_id?: string | null
+          to_time?: string
+        }
+        Relationships: []
+      }
+      booking_series: {
+        Row: {
+          cancelled_at: string | null
+          created_at: string
+          customer_id: string
+          end_date: string | null
+          frequency: string
+          id: string
+          occurrence_count: number
+          order_id: string | null
+          provider_id: string
+          slot_time: string
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          created_at?: string
+          customer_id: string
+          end_date?: string | null
+          frequency: string
+          id?: string
+          occurrence_count: number
+          order_id?: string | null
+          provider_id: string
+          slot_time: string
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          created_at?: string
+          customer_id?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          occurrence_count?: number
+          order_id?: string | null
+          provider_id?: string
+          slot_time?: string
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       booking_slots: {
         Row: {
           blocked_by: string | null
@@ -209,6 +312,7 @@ export type Database = {
           hold_expires_at: string | null
           id: string
           is_blocked: boolean | null
+          parent_slot_id: string | null
           provider_id: string
           service_id: string | null
           slot_date: string
@@ -225,6 +329,7 @@ export type Database = {
           hold_expires_at?: string | null
           id?: string
           is_blocked?: boolean | null
+          parent_slot_id?: string | null
           provider_id: string
           service_id?: string | null
           slot_date: string
@@ -241,6 +346,7 @@ export type Database = {
           hold_expires_at?: string | null
           id?: string
           is_blocked?: boolean | null
+          parent_slot_id?: string | null
           provider_id?: string
           service_id?: string | null
           slot_date?: string
@@ -248,54 +354,165 @@ export type Database = {
           status?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "booking_slots_parent_slot_id_fkey"
+            columns: ["parent_slot_id"]
+            isOneToOne: false
+            referencedRelation: "booking_slots"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       bookings: {
         Row: {
+          accepted_at: string | null
           booking_date: string
           booking_time: string
+          completed_at: string | null
           created_at: string
           customer_id: string | null
+          declined_at: string | null
+          en_route_at: string | null
           id: string
+          line_index: number | null
+          no_show_at: string | null
+          order_id: string | null
           payment_intent_id: string | null
           payment_status: string | null
           provider_id: string | null
+          provider_note: string | null
+          provider_status: string
+          quantity: number
+          series_id: string | null
+          series_occurrence: number
           service_id: string | null
+          slot_id: string | null
           special_instructions: string | null
+          started_at: string | null
           status: string | null
           total_amount: number
           updated_at: string
         }
         Insert: {
+          accepted_at?: string | null
           booking_date: string
           booking_time: string
+          completed_at?: string | null
           created_at?: string
           customer_id?: string | null
+          declined_at?: string | null
+          en_route_at?: string | null
           id?: string
+          line_index?: number | null
+          no_show_at?: string | null
+          order_id?: string | null
           payment_intent_id?: string | null
           payment_status?: string | null
           provider_id?: string | null
+          provider_note?: string | null
+          provider_status?: string
+          quantity?: number
+          series_id?: string | null
+          series_occurrence?: number
           service_id?: string | null
+          slot_id?: string | null
           special_instructions?: string | null
+          started_at?: string | null
           status?: string | null
           total_amount: number
           updated_at?: string
         }
         Update: {
+          accepted_at?: string | null
           booking_date?: string
           booking_time?: string
+          completed_at?: string | null
           created_at?: string
           customer_id?: string | null
+          declined_at?: string | null
+          en_route_at?: string | null
           id?: string
+          line_index?: number | null
+          no_show_at?: string | null
+          order_id?: string | null
           payment_intent_id?: string | null
           payment_status?: string | null
           provider_id?: string | null
+          provider_note?: string | null
+          provider_status?: string
+          quantity?: number
+          series_id?: string | null
+          series_occurrence?: number
           service_id?: string | null
+          slot_id?: string | null
           special_instructions?: string | null
+          started_at?: string | null
           status?: string | null
           total_amount?: number
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "bookings_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "provider_services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cancellation_policies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          full_refund_hours: number
+          id: string
+          is_active: boolean
+          max_reschedules: number
+          name: string
+          partial_refund_percentage: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          full_refund_hours?: number
+          id?: string
+          is_active?: boolean
+          max_reschedules?: number
+          name: string
+          partial_refund_percentage?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          full_refund_hours?: number
+          id?: string
+          is_active?: boolean
+          max_reschedules?: number
+          name?: string
+          partial_refund_percentage?: number
+          updated_at?: string
+        }
         Relationships: []
       }
       cart_items: {
@@ -350,6 +567,7 @@ export type Database = {
           image_url: string | null
           is_active: boolean | null
           name: string
+          search_vector: unknown | null
           updated_at: string | null
         }
         Insert: {
@@ -361,6 +579,7 @@ export type Database = {
           image_url?: string | null
           is_active?: boolean | null
           name: string
+          search_vector?: never
           updated_at?: string | null
         }
         Update: {
@@ -372,6 +591,7 @@ export type Database = {
           image_url?: string | null
           is_active?: boolean | null
           name?: string
+          search_vector?: never
           updated_at?: string | null
         }
         Relationships: []
@@ -379,37 +599,46 @@ export type Database = {
       coupons: {
         Row: {
           booking_id: string | null
+          checkout_session_id: string | null
           code_used: string
           customer_id: string | null
           discount_applied: number
           final_amount: number
           id: string
           offer_id: string
+          order_id: string | null
           original_amount: number
+          reserved_until: string | null
           status: string | null
           used_at: string
         }
         Insert: {
           booking_id?: string | null
+          checkout_session_id?: string | null
           code_used: string
           customer_id?: string | null
           discount_applied: number
           final_amount: number
           id?: string
           offer_id: string
+          order_id?: string | null
           original_amount: number
+          reserved_until?: string | null
           status?: string | null
           used_at?: string
         }
         Update: {
           booking_id?: string | null
+          checkout_session_id?: string | null
           code_used?: string
           customer_id?: string | null
           discount_applied?: number
           final_amount?: number
           id?: string
           offer_id?: string
+          order_id?: string | null
           original_amount?: number
+          reserved_until?: string | null
           status?: string | null
           used_at?: string
         }
@@ -435,39 +664,56 @@ export type Database = {
           category: string | null
           created_at: string | null
           customer_id: string | null
+          favorite_key: string | null
+          favorite_type: string
           id: string
           location: string | null
           price_range: string | null
+          provider_id: string | null
           provider_name: string
           rating: number | null
-          service_id: string
-          service_name: string
+          service_id: string | null
+          service_name: string | null
         }
         Insert: {
           category?: string | null
           created_at?: string | null
           customer_id?: string | null
+          favorite_key?: never
+          favorite_type?: string
           id?: string
           location?: string | null
           price_range?: string | null
+          provider_id?: string | null
           provider_name: string
           rating?: number | null
-          service_id: string
-          service_name: string
+          service_id?: string | null
+          service_name?: string | null
         }
         Update: {
           category?: string | null
           created_at?: string | null
           customer_id?: string | null
+          favorite_key?: never
+          favorite_type?: string
           id?: string
           location?: string | null
           price_range?: string | null
+          provider_id?: string | null
           provider_name?: string
           rating?: number | null
-          service_id?: string
-          service_name?: string
+          service_id?: string | null
+          service_name?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "customer_favorites_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       gallery_videos: {
         Row: {
@@ -601,11 +847,208 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          booking_id: string
+          channel: string
+          created_at: string
+          error: string | null
+          id: string
+          kind: string
+          notification_id: string | null
+          recipient_role: string
+          sent_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          booking_id: string
+          channel: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind: string
+          notification_id?: string | null
+          recipient_role: string
+          sent_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          booking_id?: string
+          channel?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind?: string
+          notification_id?: string | null
+          recipient_role?: string
+          sent_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          email_enabled: boolean
+          id: string
+          in_app_enabled: boolean
+          reminder_1h_enabled: boolean
+          reminder_24h_enabled: boolean
+          review_request_enabled: boolean
+          sms_enabled: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email_enabled?: boolean
+          id?: string
+          in_app_enabled?: boolean
+          reminder_1h_enabled?: boolean
+          reminder_24h_enabled?: boolean
+          review_request_enabled?: boolean
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email_enabled?: boolean
+          id?: string
+          in_app_enabled?: boolean
+          reminder_1h_enabled?: boolean
+          reminder_24h_enabled?: boolean
+          review_request_enabled?: boolean
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          is_read: boolean
+          link: string | null
+          message: string
+          order_id: string | null
+          read_at: string | null
+          recipient_role: string
+          title: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          is_read?: boolean
+          link?: string | null
+          message: string
+          order_id?: string | null
+          read_at?: string | null
+          recipient_role?: string
+          title: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          is_read?: boolean
+          link?: string | null
+          message?: string
+          order_id?: string | null
+          read_at?: string | null
+          recipient_role?: string
+          title?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      order_refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          order_id: string
+          policy_id: string | null
+          reason: string | null
+          refund_percentage: number
+          requested_by: string | null
+          status: string
+          stripe_refund_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id: string
+          policy_id?: string | null
+          reason?: string | null
+          refund_percentage: number
+          requested_by?: string | null
+          status?: string
+          stripe_refund_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          order_id?: string
+          policy_id?: string | null
+          reason?: string | null
+          refund_percentage?: number
+          requested_by?: string | null
+          status?: string
+          stripe_refund_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       orders: {
         Row: {
           booking_date: string
           booking_status: string | null
           booking_time: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
           cart_items: Json | null
           created_at: string | null
           currency: string | null
@@ -618,11 +1061,16 @@ export type Database = {
           payment_status: string | null
           provider_id: string | null
           provider_name: string
+          refunded_amount: number
+          reschedule_count: number
           service_id: string | null
           service_name: string
           special_instructions: string | null
           status: string | null
           stripe_payment_intent_id: string | null
+          stripe_session_id: string | null
+          tax_amount: number
+          tax_snapshot: Json | null
           total_amount: number
           updated_at: string | null
           user_id: string | null
@@ -631,6 +1079,8 @@ export type Database = {
           booking_date: string
           booking_status?: string | null
           booking_time: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           cart_items?: Json | null
           created_at?: string | null
           currency?: string | null
@@ -643,11 +1093,16 @@ export type Database = {
           payment_status?: string | null
           provider_id?: string | null
           provider_name: string
+          refunded_amount?: number
+          reschedule_count?: number
           service_id?: string | null
           service_name: string
           special_instructions?: string | null
           status?: string | null
           stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          tax_amount?: number
+          tax_snapshot?: Json | null
           total_amount: number
           updated_at?: string | null
           user_id?: string | null
@@ -656,6 +1111,8 @@ export type Database = {
           booking_date?: string
           booking_status?: string | null
           booking_time?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           cart_items?: Json | null
           created_at?: string | null
           currency?: string | null
@@ -668,11 +1125,16 @@ export type Database = {
           payment_status?: string | null
           provider_id?: string | null
           provider_name?: string
+          refunded_amount?: number
+          reschedule_count?: number
           service_id?: string | null
           service_name?: string
           special_instructions?: string | null
           status?: string | null
           stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          tax_amount?: number
+          tax_snapshot?: Json | null
           total_amount?: number
           updated_at?: string | null
           user_id?: string | null
@@ -703,6 +1165,7 @@ export type Database = {
           currency: string
           id: string
           metadata: Json | null
+          order_id: string | null
           status: string
           stripe_customer_id: string | null
           updated_at: string
@@ -716,6 +1179,7 @@ export type Database = {
           currency?: string
           id: string
           metadata?: Json | null
+          order_id?: string | null
           status?: string
           stripe_customer_id?: string | null
           updated_at?: string
@@ -729,6 +1193,7 @@ export type Database = {
           currency?: string
           id?: string
           metadata?: Json | null
+          order_id?: string | null
           status?: string
           stripe_customer_id?: string | null
           updated_at?: string
@@ -747,8 +1212,10 @@ export type Database = {
           fee_value: number
           id: string
           is_active: boolean | null
+          is_stackable: boolean
           maximum_fee: number | null
           minimum_fee: number | null
+          priority: number
           updated_at: string
         }
         Insert: {
@@ -761,8 +1228,10 @@ export type Database = {
           fee_value: number
           id?: string
           is_active?: boolean | null
+          is_stackable?: boolean
           maximum_fee?: number | null
           minimum_fee?: number | null
+          priority?: number
           updated_at?: string
         }
         Update: {
@@ -775,8 +1244,10 @@ export type Database = {
           fee_value?: number
           id?: string
           is_active?: boolean | null
+          is_stackable?: boolean
           maximum_fee?: number | null
           minimum_fee?: number | null
+          priority?: number
           updated_at?: string
         }
         Relationships: []
@@ -858,31 +1329,113 @@ export type Database = {
           },
         ]
       }
-      provider_categories: {
+      provider_blackouts: {
         Row: {
-          category_id: string
-          created_at: string | null
+          created_at: string
+          end_date: string
+          end_time: string | null
           id: string
           provider_id: string
-          updated_at: string | null
+          recurrence: string
+          recurrence_until: string | null
+          start_date: string
+          start_time: string | null
+          title: string
+          updated_at: string
         }
         Insert: {
-          category_id: string
-          created_at?: string | null
+          created_at?: string
+          end_date: string
+          end_time?: string | null
           id?: string
           provider_id: string
-          updated_at?: string | null
+          recurrence?: string
+          recurrence_until?: string | null
+          start_date: string
+          start_time?: string | null
+          title: string
+          updated_at?: string
         }
         Update: {
-          category_id?: string
-          created_at?: string | null
+          created_at?: string
+          end_date?: string
+          end_time?: string | null
           id?: string
           provider_id?: string
-          updated_at?: string | null
+          recurrence?: string
+          recurrence_until?: string | null
+          start_date?: string
+          start_time?: string | null
+          title?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "provider_categories_category_id_fkey"
+            foreignKeyName: "provider_blackouts_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          last_fetched_at: string | null
+          provider_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_fetched_at?: string | null
+          provider_id: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_fetched_at?: string | null
+          provider_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_calendar_feeds_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: true
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_categories: {
+        Row: {
+          category_id: string
+          created_at: string | null
+          id: string
+          provider_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          category_id: string
+          created_at?: string | null
+          id?: string
+          provider_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          category_id?: string
+          created_at?: string | null
+          id?: string
+          provider_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_categories_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
             referencedRelation: "categories"
@@ -897,6 +1450,69 @@ export type Database = {
           },
         ]
       }
+      provider_earnings: {
+        Row: {
+          available_at: string | null
+          booking_id: string
+          commission_amount: number
+          created_at: string
+          customer_name: string | null
+          gross_amount: number
+          id: string
+          net_amount: number
+          order_id: string | null
+          paid_out_at: string | null
+          payout_id: string | null
+          platform_fee_id: string | null
+          provider_id: string
+          service_date: string | null
+          service_id: string | null
+          service_name: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          available_at?: string | null
+          booking_id: string
+          commission_amount?: number
+          created_at?: string
+          customer_name?: string | null
+          gross_amount: number
+          id?: string
+          net_amount: number
+          order_id?: string | null
+          paid_out_at?: string | null
+          payout_id?: string | null
+          platform_fee_id?: string | null
+          provider_id: string
+          service_date?: string | null
+          service_id?: string | null
+          service_name?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          available_at?: string | null
+          booking_id?: string
+          commission_amount?: number
+          created_at?: string
+          customer_name?: string | null
+          gross_amount?: number
+          id?: string
+          net_amount?: number
+          order_id?: string | null
+          paid_out_at?: string | null
+          payout_id?: string | null
+          platform_fee_id?: string | null
+          provider_id?: string
+          service_date?: string | null
+          service_id?: string | null
+          service_name?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       provider_notification_preferences: {
         Row: {
           availability_reminder_enabled: boolean
@@ -938,8 +1554,120 @@ export type Database = {
           },
         ]
       }
+      provider_payouts: {
+        Row: {
+          commission_amount: number
+          created_at: string
+          created_by: string | null
+          entry_count: number
+          failed_at: string | null
+          failure_reason: string | null
+          gross_amount: number
+          id: string
+          net_amount: number
+          paid_at: string | null
+          period_end: string
+          period_start: string
+          processing_at: string | null
+          provider_id: string
+          reference_number: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          commission_amount?: number
+          created_at?: string
+          created_by?: string | null
+          entry_count?: number
+          failed_at?: string | null
+          failure_reason?: string | null
+          gross_amount?: number
+          id?: string
+          net_amount?: number
+          paid_at?: string | null
+          period_end: string
+          period_start: string
+          processing_at?: string | null
+          provider_id: string
+          reference_number?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          commission_amount?: number
+          created_at?: string
+          created_by?: string | null
+          entry_count?: number
+          failed_at?: string | null
+          failure_reason?: string | null
+          gross_amount?: number
+          id?: string
+          net_amount?: number
+          paid_at?: string | null
+          period_end?: string
+          period_start?: string
+          processing_at?: string | null
+          provider_id?: string
+          reference_number?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      provider_service_areas: {
+        Row: {
+          area_type: string
+          created_at: string
+          id: string
+          is_active: boolean
+          location_id: string | null
+          postal_codes: string[]
+          provider_id: string
+          radius_km: number | null
+          updated_at: string
+        }
+        Insert: {
+          area_type: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_id?: string | null
+          postal_codes?: string[]
+          provider_id: string
+          radius_km?: number | null
+          updated_at?: string
+        }
+        Update: {
+          area_type?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_id?: string | null
+          postal_codes?: string[]
+          provider_id?: string
+          radius_km?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_service_areas_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "provider_service_areas_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       provider_services: {
         Row: {
+          buffer_minutes: number
           created_at: string | null
           description: string | null
           duration_minutes: number | null
@@ -955,14 +1683,17 @@ export type Database = {
           price: number
           provider_id: string
           rating: number | null
+          search_vector: unknown | null
           service_name: string
           status: string | null
           subcategory_id: string
           total_bookings: number | null
+          total_reviews: number
           updated_at: string | null
           video_url: string | null
         }
         Insert: {
+          buffer_minutes?: number
           created_at?: string | null
           description?: string | null
           duration_minutes?: number | null
@@ -978,14 +1709,17 @@ export type Database = {
           price: number
           provider_id: string
           rating?: number | null
+          search_vector?: never
           service_name: string
           status?: string | null
           subcategory_id: string
           total_bookings?: number | null
+          total_reviews?: number
           updated_at?: string | null
           video_url?: string | null
         }
         Update: {
+          buffer_minutes?: number
           created_at?: string | null
           description?: string | null
           duration_minutes?: number | null
@@ -1001,10 +1735,12 @@ export type Database = {
           price?: number
           provider_id?: string
           rating?: number | null
+          search_vector?: never
           service_name?: string
           status?: string | null
           subcategory_id?: string
           total_bookings?: number | null
+          total_reviews?: number
           updated_at?: string | null
           video_url?: string | null
         }
@@ -1066,6 +1802,66 @@ export type Database = {
           },
         ]
       }
+      reviews: {
+        Row: {
+          booking_id: string
+          comment: string | null
+          created_at: string
+          customer_id: string
+          customer_name: string | null
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          moderation_note: string | null
+          order_id: string | null
+          provider_id: string
+          provider_replied_at: string | null
+          provider_reply: string | null
+          rating: number
+          service_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          booking_id: string
+          comment?: string | null
+          created_at?: string
+          customer_id: string
+          customer_name?: string | null
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_note?: string | null
+          order_id?: string | null
+          provider_id: string
+          provider_replied_at?: string | null
+          provider_reply?: string | null
+          rating: number
+          service_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string
+          comment?: string | null
+          created_at?: string
+          customer_id?: string
+          customer_name?: string | null
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          moderation_note?: string | null
+          order_id?: string | null
+          provider_id?: string
+          provider_replied_at?: string | null
+          provider_reply?: string | null
+          rating?: number
+          service_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       security_audit_log: {
         Row: {
           created_at: string | null
@@ -1216,69 +2012,141 @@ export type Database = {
         }
         Relationships: []
       }
+      slot_waitlist: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          offered_slot_id: string | null
+          provider_id: string
+          provider_name: string | null
+          service_id: string
+          status: string
+          updated_at: string
+          waitlist_date: string
+          window_end: string | null
+          window_start: string | null
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          offered_slot_id?: string | null
+          provider_id: string
+          provider_name?: string | null
+          service_id: string
+          status?: string
+          updated_at?: string
+          waitlist_date: string
+          window_end?: string | null
+          window_start?: string | null
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          offered_slot_id?: string | null
+          provider_id?: string
+          provider_name?: string | null
+          service_id?: string
+          status?: string
+          updated_at?: string
+          waitlist_date?: string
+          window_end?: string | null
+          window_start?: string | null
+        }
+        Relationships: []
+      }
       special_offers: {
         Row: {
           applicable_categories: Json | null
+          applicable_providers: Json
           applicable_services: Json | null
+          buy_quantity: number | null
           code: string
           created_at: string
           created_by: string | null
           description: string
           discount_type: string
           discount_value: number
+          first_booking_only: boolean
           id: string
           is_active: boolean | null
           maximum_discount_amount: number | null
           minimum_order_amount: number | null
+          offer_type: string
           title: string
           updated_at: string
           usage_count: number | null
           usage_limit: number | null
           usage_limit_per_customer: number | null
+          valid_end_time: string | null
           valid_from: string
+          valid_start_time: string | null
           valid_until: string
+          valid_weekdays: number[]
         }
         Insert: {
           applicable_categories?: Json | null
+          applicable_providers?: Json
           applicable_services?: Json | null
+          buy_quantity?: number | null
           code: string
           created_at?: string
           created_by?: string | null
           description: string
           discount_type: string
           discount_value: number
+          first_booking_only?: boolean
           id?: string
           is_active?: boolean | null
           maximum_discount_amount?: number | null
           minimum_order_amount?: number | null
+          offer_type?: string
           title: string
           updated_at?: string
           usage_count?: number | null
           usage_limit?: number | null
           usage_limit_per_customer?: number | null
+          valid_end_time?: string | null
           valid_from?: string
+          valid_start_time?: string | null
           valid_until: string
+          valid_weekdays?: number[]
         }
         Update: {
           applicable_categories?: Json | null
+          applicable_providers?: Json
           applicable_services?: Json | null
+          buy_quantity?: number | null
           code?: string
           created_at?: string
           created_by?: string | null
           description?: string
           discount_type?: string
           discount_value?: number
+          first_booking_only?: boolean
           id?: string
           is_active?: boolean | null
           maximum_discount_amount?: number | null
           minimum_order_amount?: number | null
+          offer_type?: string
           title?: string
           updated_at?: string
           usage_count?: number | null
           usage_limit?: number | null
           usage_limit_per_customer?: number | null
+          valid_end_time?: string | null
           valid_from?: string
+          valid_start_time?: string | null
           valid_until?: string
+          valid_weekdays?: number[]
         }
         Relationships: []
       }
@@ -1293,6 +2161,7 @@ export type Database = {
           max_price: number
           min_price: number
           name: string
+          search_vector: unknown | null
           updated_at: string | null
         }
         Insert: {
@@ -1305,6 +2174,7 @@ export type Database = {
           max_price?: number
           min_price?: number
           name: string
+          search_vector?: never
           updated_at?: string | null
         }
         Update: {
@@ -1317,6 +2187,7 @@ export type Database = {
           max_price?: number
           min_price?: number
           name?: string
+          search_vector?: never
           updated_at?: string | null
         }
         Relationships: [
@@ -1329,6 +2200,126 @@ export type Database = {
           },
         ]
       }
+      tax_category_exemptions: {
+        Row: {
+          category_id: string
+          created_at: string
+          id: string
+          jurisdiction_id: string | null
+          tax_component_id: string | null
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          id?: string
+          jurisdiction_id?: string | null
+          tax_component_id?: string | null
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          id?: string
+          jurisdiction_id?: string | null
+          tax_component_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_category_exemptions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_category_exemptions_jurisdiction_id_fkey"
+            columns: ["jurisdiction_id"]
+            isOneToOne: false
+            referencedRelation: "tax_jurisdictions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_category_exemptions_tax_component_id_fkey"
+            columns: ["tax_component_id"]
+            isOneToOne: false
+            referencedRelation: "tax_components"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_components: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          is_compound: boolean
+          jurisdiction_id: string
+          name: string
+          rate: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_compound?: boolean
+          jurisdiction_id: string
+          name: string
+          rate: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_compound?: boolean
+          jurisdiction_id?: string
+          name?: string
+          rate?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_components_jurisdiction_id_fkey"
+            columns: ["jurisdiction_id"]
+            isOneToOne: false
+            referencedRelation: "tax_jurisdictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_jurisdictions: {
+        Row: {
+          country_code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          region_code: string
+          region_name: string
+          updated_at: string
+        }
+        Insert: {
+          country_code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          region_code: string
+          region_name: string
+          updated_at?: string
+        }
+        Update: {
+          country_code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          region_code?: string
+          region_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       tax_slabs: {
         Row: {
           applies_to: string | null
@@ -1583,10 +2574,41 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      active_coupon_reservations: {
+        Args: { p_offer_id: string }
+        Returns: number
+      }
       approve_provider: {
         Args: { provider_user_id: string }
         Returns: Json
       }
+      blackout_covers: {
+        Args: {
+          p_date: string
+          p_end_date: string
+          p_end_time: string
+          p_recurrence: string
+          p_recurrence_until: string
+          p_start_date: string
+          p_start_time: string
+          p_time: string
+        }
+        Returns: boolean
+      }
+      calculate_line_taxes: {
+        Args: { p_region: string; p_lines: Json }
+        Returns: {
+          line_key: string
+          jurisdiction_id: string | null
+          tax_component_id: string | null
+          tax_slab_id: string | null
+          tax_name: string
+          rate: number
+          is_compound: boolean
+          taxable_amount: number
+          tax_amount: number
+        }[]
+      }
       calculate_platform_fees: {
         Args: { order_amount: number; service_ids?: string[] }
         Returns: number
@@ -1604,10 +2626,74 @@ export type Database = {
           exists_phone: boolean
         }[]
       }
+      claim_notification_delivery: {
+        Args: {
+          p_booking_id: string
+          p_channel: string
+          p_kind: string
+          p_recipient_role: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      commit_coupon_redemption: {
+        Args: {
+          p_booking_id: string | null
+          p_checkout_session_id: string
+          p_order_id: string
+        }
+        Returns: boolean
+      }
       confirm_slot_booking: {
         Args: { booking_id: string; slot_id: string; user_id: string }
         Returns: boolean
       }
+      coupon_customer_uses: {
+        Args: { p_customer_id: string; p_offer_id: string }
+        Returns: number
+      }
+      create_notification: {
+        Args: {
+          p_booking_id?: string
+          p_data?: Json
+          p_link?: string
+          p_message: string
+          p_order_id?: string
+          p_recipient_role: string
+          p_title: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      create_provider_payout_batches: {
+        Args: { p_period_end: string; p_period_start: string }
+        Returns: Json
+      }
+      distance_km: {
+        Args: {
+          p_lat1: number
+          p_lat2: number
+          p_lng1: number
+          p_lng2: number
+        }
+        Returns: number
+      }
+      evaluate_platform_fees: {
+        Args: { p_lines: Json }
+        Returns: {
+          line_key: string
+          platform_fee_id: string
+          description: string
+          fee_type: string
+          fee_value: number
+          fee_amount: number
+        }[]
+      }
+      extend_slot_holds: {
+        Args: { p_hold_until: string; p_slot_ids: string[]; p_user_id: string }
+        Returns: boolean
+      }
       generate_provider_slots: {
         Args: {
           p_end_date: string
@@ -1616,6 +2702,24 @@ export type Database = {
         }
         Returns: undefined
       }
+      get_available_service_slots: {
+        Args: { p_date: string; p_provider_id: string; p_service_ids?: string[] }
+        Returns: {
+          blocked_by: string
+          blocked_until: string
+          booking_id: string
+          created_at: string
+          held_by: string
+          hold_expires_at: string
+          id: string
+          is_blocked: boolean
+          provider_id: string
+          service_id: string
+          slot_date: string
+          slot_time: string
+          status: string
+        }[]
+      }
       get_available_slots: {
         Args: { p_date: string; p_provider_id: string; p_service_id: string }
         Returns: {
@@ -1634,6 +2738,68 @@ export type Database = {
           status: string
         }[]
       }
+      get_blackout_conflicts: {
+        Args: {
+          p_end_date: string
+          p_end_time?: string
+          p_provider_id: string
+          p_recurrence?: string
+          p_recurrence_until?: string
+          p_start_date: string
+          p_start_time?: string
+        }
+        Returns: {
+          booking_date: string
+          booking_id: string
+          booking_time: string
+          order_id: string
+          service_name: string
+        }[]
+      }
+      get_provider_bookings: {
+        Args: { p_provider_id: string }
+        Returns: {
+          accepted_at: string
+          booking_date: string
+          booking_id: string
+          booking_time: string
+          completed_at: string
+          created_at: string
+          customer_address: string
+          customer_name: string
+          customer_phone: string
+          declined_at: string
+          en_route_at: string
+          no_show_at: string
+          order_id: string
+          payment_status: string
+          provider_note: string
+          provider_status: string
+          quantity: number
+          service_id: string
+          service_name: string
+          special_instructions: string
+          started_at: string
+          status: string
+          total_amount: number
+        }[]
+      }
+      get_provider_calendar: {
+        Args: { p_end_date: string; p_provider_id: string; p_start_date: string }
+        Returns: {
+          blackout_title: string
+          booking_id: string
+          booking_status: string
+          customer_name: string
+          order_id: string
+          provider_status: string
+          service_name: string
+          slot_date: string
+          slot_id: string
+          slot_time: string
+          state: string
+        }[]
+      }
       get_providers_needing_availability_reminder: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -1649,6 +2815,25 @@ export type Database = {
         Args: { user_uuid?: string }
         Returns: string
       }
+      hold_booking_series: {
+        Args: {
+          p_end_date?: string
+          p_frequency: string
+          p_hold_minutes?: number
+          p_provider_id: string
+          p_service_ids?: string[]
+          p_slot_ids: string[]
+        }
+        Returns: Json
+      }
+      hold_service_slots: {
+        Args: {
+          p_hold_minutes?: number
+          p_service_ids: string[]
+          p_slot_id: string
+        }
+        Returns: boolean
+      }
       hold_slot: {
         Args: {
           hold_duration_minutes?: number
@@ -1657,6 +2842,33 @@ export type Database = {
         }
         Returns: boolean
       }
+      hold_slot_span: {
+        Args: {
+          p_hold_minutes?: number
+          p_slot_id: string
+          p_span: number
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_provider_blacked_out: {
+        Args: { p_date: string; p_provider_id: string; p_time: string }
+        Returns: boolean
+      }
+      join_waitlist: {
+        Args: {
+          p_date: string
+          p_provider_id: string
+          p_service_id: string
+          p_window_end?: string
+          p_window_start?: string
+        }
+        Returns: Json
+      }
+      leave_waitlist: {
+        Args: { p_waitlist_id: string }
+        Returns: boolean
+      }
       log_security_event: {
         Args: {
           p_event_data?: Json
@@ -1665,18 +2877,138 @@ export type Database = {
         }
         Returns: undefined
       }
+      match_providers_for_location: {
+        Args: {
+          p_latitude?: number
+          p_longitude?: number
+          p_postal_code?: string
+          p_provider_ids: string[]
+        }
+        Returns: {
+          distance_km: number
+          has_service_areas: boolean
+          provider_id: string
+          serves_location: boolean
+        }[]
+      }
+      moderate_review: {
+        Args: { p_note?: string; p_review_id: string; p_status: string }
+        Returns: Json
+      }
+      normalize_postal_code: {
+        Args: { p_postal_code: string }
+        Returns: string
+      }
       promote_user_role: {
         Args: { new_role: string; user_uuid: string }
         Returns: Json
       }
+      refresh_review_aggregates: {
+        Args: { p_provider_id: string; p_service_id: string }
+        Returns: undefined
+      }
       reject_provider: {
         Args: { provider_user_id: string }
         Returns: Json
       }
+      release_coupon_redemption: {
+        Args: { p_checkout_session_id: string }
+        Returns: boolean
+      }
       release_slot: {
         Args: { slot_id: string; user_id: string }
         Returns: boolean
       }
+      reply_to_review: {
+        Args: { p_reply: string; p_review_id: string }
+        Returns: Json
+      }
+      reschedule_booking: {
+        Args: { p_booking_id: string; p_new_slot_id: string; p_reason?: string }
+        Returns: Json
+      }
+      reserve_coupon_redemption: {
+        Args: {
+          p_code: string
+          p_customer_id: string | null
+          p_discount_amount: number
+          p_offer_id: string
+          p_original_amount: number
+          p_reserved_until: string
+        }
+        Returns: {
+          redemption_id: string | null
+          error_message: string | null
+        }[]
+      }
+      revoke_calendar_feed: {
+        Args: { p_provider_id: string }
+        Returns: undefined
+      }
+      rotate_calendar_feed_token: {
+        Args: { p_provider_id: string }
+        Returns: string
+      }
+      search_services: {
+        Args: {
+          p_category_id?: string
+          p_limit?: number
+          p_max_price?: number
+          p_min_price?: number
+          p_min_rating?: number
+          p_query: string
+        }
+        Returns: {
+          category_id: string
+          category_name: string
+          description: string
+          id: string
+          image_url: string
+          name: string
+          price: number
+          provider_name: string
+          rank: number
+          rating: number
+          result_type: string
+          subcategory_id: string
+          subcategory_name: string
+          total_reviews: number
+        }[]
+      }
+      search_suggestions: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          category_id: string
+          id: string
+          result_type: string
+          suggestion: string
+        }[]
+      }
+      service_slot_span: {
+        Args: { p_service_ids: string[] }
+        Returns: number
+      }
+      set_slots_blocked: {
+        Args: { p_blocked: boolean; p_slot_ids: string[] }
+        Returns: Json
+      }
+      submit_review: {
+        Args: { p_booking_id: string; p_comment?: string; p_rating: number }
+        Returns: Json
+      }
+      update_booking_progress: {
+        Args: { p_booking_id: string; p_note?: string; p_status: string }
+        Returns: Json
+      }
+      update_provider_payout_status: {
+        Args: {
+          p_failure_reason?: string
+          p_payout_id: string
+          p_reference_number?: string
+          p_status: string
+        }
+        Returns: Json
+      }
       validate_coupon_code: {
         Args: { coupon_code: string; customer_id: string; order_amount: number }
         Returns: {
@@ -1686,6 +3018,20 @@ export type Database = {
           offer_id: string
         }[]
       }
+      validate_coupon_for_cart: {
+        Args: {
+          p_coupon_code: string
+          p_customer_id: string | null
+          p_lines: Json
+        }
+        Returns: {
+          is_valid: boolean
+          offer_id: string | null
+          discount_amount: number
+          line_discounts: Json
+          error_message: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCart } from '@/hooks/useCart';
 import { useAuth } from '@/hooks/useAuth';
@@ -16,24 +16,24 @@ import { TaxCalculation } from '@/components/TaxCalculation';
 import { Trash2, Plus, Minus, ShoppingBag, Lock, User, MapPin, Phone, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { paymentService } from '@/services/paymentService';
+import { feeService, LineFee } from '@/services/feeService';
+import { taxService, LineTax } from '@/services/taxService';
+import { AppliedCoupon } from '@/services/couponService';
 
 
-interface AppliedCoupon {
-  code: string;
-  discountAmount: number;
-  offerId: string;
-}
-
 export default function Cart() {
   const { items, itemCount, totalAmount, removeFromCart, updateQuantity, clearCart, isLoading } = useCart();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, profile } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [showGuestForm, setShowGuestForm] = useState(false);
   const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
   const [platformFees, setPlatformFees] = useState(0);
+  const [lineFees, setLineFees] = useState<LineFee[]>([]);
   const [taxAmount, setTaxAmount] = useState(0);
-  const [taxDetails, setTaxDetails] = useState<any>(null);
+  const [lineTaxes, setLineTaxes] = useState<LineTax[]>([]);
+  // Customers without a province on their profile pick one in the summary
+  const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
   const [guestInfo, setGuestInfo] = useState({
     name: '',
     email: '',
@@ -42,6 +42,11 @@ export default function Cart() {
     instructions: ''
   });
 
+  // The coupon is split over the cart lines it covers, so it has to be applied again after the cart changes
+  useEffect(() => {
+    setAppliedCoupon(null);
+  }, [items]);
+
   // Calculate totals with coupon and platform fees
   const subtotalAfterDiscount = appliedCoupon 
     ? Math.max(0, totalAmount - appliedCoupon.discountAmount)
@@ -49,6 +54,42 @@ export default function Cart() {
   const subtotalWithFees = subtotalAfterDiscount + platformFees;
   const finalTotal = subtotalWithFees + taxAmount;
 
+  // Fee rules are evaluated per line, on the line total less its share of the coupon
+  const feeLines = useMemo(() => feeService.applyDiscount(
+    items.map(item => ({
+      key: item.id,
+      service_id: item.serviceId,
+      amount: Math.round(item.price * item.quantity * 100) / 100
+    })),
+    appliedCoupon?.lineDiscounts || {}
+  ), [items, appliedCoupon?.lineDiscounts]);
+
+  const feesByLine = useMemo(() => feeService.groupByLine(lineFees), [lineFees]);
+
+  const handleFeesCalculated = useCallback((total: number, fees: LineFee[]) => {
+    setPlatformFees(total);
+    setLineFees(fees);
+  }, []);
+
+  const taxRegion = profile?.state || selectedRegion;
+
+  // Each line is taxed on its discounted amount plus its own fees
+  const taxLines = useMemo(() => feeLines.map(line => ({
+    ...line,
+    amount: Math.round((line.amount + feeService.totalFees(feesByLine.get(line.key) || [])) * 100) / 100
+  })), [feeLines, feesByLine]);
+
+  const taxesByLine = useMemo(() => {
+    const grouped = new Map<string, LineTax[]>();
+    lineTaxes.forEach(tax => grouped.set(tax.line_key, [...(grouped.get(tax.line_key) || []), tax]));
+    return grouped;
+  }, [lineTaxes]);
+
+  const handleTaxCalculated = useCallback((amount: number, taxes: LineTax[]) => {
+    setTaxAmount(amount);
+    setLineTaxes(taxes);
+  }, []);
+
   const handleCheckout = async (guestData?: typeof guestInfo) => {
     console.log('🚀 Starting checkout process...', { 
       totalAmount, 
@@ -94,14 +135,20 @@ export default function Cart() {
         amount: Math.round(finalTotal * 100), // Convert to cents
         currency: 'usd',
         cartItems: items,
+        couponCode: appliedCoupon?.code,
+        taxRegion: taxRegion || undefined,
         guestInfo: guestData || undefined,
         metadata: { 
           source: 'cart',
           isAuthenticated: isAuthenticated.toString(),
           platformFees: platformFees.toFixed(2),
           taxAmount: taxAmount.toFixed(2),
-          taxDetails: taxDetails ? JSON.stringify(taxDetails) : undefined,
-          appliedCoupon: appliedCoupon ? JSON.stringify(appliedCoupon) : undefined
+          taxDetails: lineTaxes.length > 0
+            ? taxService.totalsByComponent(lineTaxes).map(tax => `${tax.name} ${tax.rate}%`).join(' + ')
+            : undefined,
+          appliedCoupon: appliedCoupon
+            ? JSON.stringify({ code: appliedCoupon.code, discountAmount: appliedCoupon.discountAmount, offerId: appliedCoupon.offerId })
+            : undefined
         },
       });
 
@@ -111,6 +158,32 @@ export default function Cart() {
         console.log('✅ Redirecting to Stripe checkout:', result.url);
         // Open Stripe checkout in the same window
         window.location.href = result.url;
+      } else if (result.errorCode === 'TOTAL_MISMATCH' && result.expectedTotals) {
+        // Prices, fees or tax changed since the cart was loaded
+        console.warn('⚠️ Checkout total mismatch:', result.expectedTotals);
+        toast({
+          title: 'Cart Total Changed',
+          description: `The current total is $${result.expectedTotals.total.toFixed(2)}. Please review your cart and try again.`,
+          variant: 'destructive',
+          duration: 10000,
+        });
+      } else if (result.errorCode === 'COUPON_UNAVAILABLE') {
+        // Other checkouts took the coupon's remaining uses since it was applied
+        setAppliedCoupon(null);
+        toast({
+          title: 'Coupon No Longer Available',
+          description: `${result.error}. The coupon has been removed from your order.`,
+          variant: 'destructive',
+          duration: 10000,
+        });
+      } else if (result.errorCode === 'SLOT_HOLD_EXPIRED') {
+        // The hold on a picked time ran out before checkout started
+        toast({
+          title: 'Time Slot No Longer Reserved',
+          description: `${result.error} Remove the booking from your cart and pick a new time.`,
+          variant: 'destructive',
+          duration: 10000,
+        });
       } else {
         console.error('❌ Checkout failed:', result.error);
         toast({
@@ -248,6 +321,16 @@ export default function Cart() {
                             </Button>
                           </div>
                         </div>
+                        {feesByLine.get(item.id)?.map((fee) => (
+                          <p key={fee.platform_fee_id} className="text-sm text-muted-foreground mt-2">
+                            {fee.description}: ${fee.fee_amount.toFixed(2)}
+                          </p>
+                        ))}
+                        {taxesByLine.get(item.id)?.map((tax) => (
+                          <p key={`${tax.tax_name}:${tax.rate}`} className="text-sm text-muted-foreground mt-1">
+                            {tax.tax_name} ({tax.rate}%): ${tax.tax_amount.toFixed(2)}
+                          </p>
+                        ))}
                       </div>
                       <div className="text-right">
                         <div className="text-lg font-semibold text-gray-900 mb-2">
@@ -290,6 +373,7 @@ export default function Cart() {
             <div className="lg:col-span-2">
               <CouponApplication
                 subtotal={totalAmount}
+                items={items}
                 onCouponApplied={setAppliedCoupon}
                 appliedCoupon={appliedCoupon}
               />
@@ -322,17 +406,16 @@ export default function Cart() {
                   
                   {/* Platform Fees */}
                   <PlatformFees
-                    subtotal={subtotalAfterDiscount}
-                    onFeesCalculated={setPlatformFees}
+                    lines={feeLines}
+                    onFeesCalculated={handleFeesCalculated}
                   />
                   
                   {/* Tax Calculation */}
-                  <TaxCalculation 
-                    subtotal={subtotalWithFees}
-                    onTaxCalculated={(amount, details) => {
-                      setTaxAmount(amount);
-                      setTaxDetails(details);
-                    }}
+                  <TaxCalculation
+                    lines={taxLines}
+                    region={taxRegion}
+                    onRegionChange={profile?.state ? undefined : setSelectedRegion}
+                    onTaxCalculated={handleTaxCalculated}
                   />
                   
                   {/* Total */}
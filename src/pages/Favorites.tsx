@@ -1,6 +1,7 @@
-
-import React, { useState } from 'react';
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useFavorites } from '@/hooks/useFavorites';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,68 +9,23 @@ import {
   Heart, 
   Star, 
   MapPin, 
-  Clock,
+  Loader2,
   Trash2
 } from 'lucide-react';
 
 export default function Favorites() {
   const { isAuthenticated } = useAuth();
-  const [favorites, setFavorites] = useState([
-    {
-      id: 1,
-      type: 'service',
-      serviceName: 'Premium House Cleaning',
-      providerName: 'CleanPro Services',
-      rating: 4.8,
-      reviews: 124,
-      price: 75,
-      duration: '2-3 hours',
-      location: 'Downtown Moncton',
-      image: '/placeholder.svg'
-    },
-    {
-      id: 2,
-      type: 'provider',
-      providerName: 'Style Studio Hair Salon',
-      rating: 4.9,
-      reviews: 89,
-      services: ['Hair Cut', 'Hair Styling', 'Hair Color'],
-      location: 'Riverview',
-      image: '/placeholder.svg'
-    },
-    {
-      id: 3,
-      type: 'service',
-      serviceName: 'AC Installation & Repair',
-      providerName: 'CoolTech Services',
-      rating: 4.7,
-      reviews: 56,
-      price: 120,
-      duration: '1-2 hours',
-      location: 'Saint John',
-      image: '/placeholder.svg'
-    }
-  ]);
+  const navigate = useNavigate();
+  const { favorites, isLoading, removeFavorite } = useFavorites();
 
-  if (!isAuthenticated) {
+  if (isLoading) {
     return (
-      <div className="container mx-auto px-4 py-12">
-        <div className="text-center">
-          <Heart className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Sign in to view your favorites</h2>
-          <p className="text-gray-600 mb-6">Save your preferred services and providers</p>
-          <Button onClick={() => window.location.href = '/auth'}>
-            Sign In
-          </Button>
-        </div>
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
       </div>
     );
   }
 
-  const removeFavorite = (id: number) => {
-    setFavorites(favorites.filter(fav => fav.id !== id));
-  };
-
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
@@ -77,19 +33,30 @@ export default function Favorites() {
         <p className="text-gray-600">Your saved services and providers</p>
       </div>
 
+      {!isAuthenticated && favorites.length > 0 && (
+        <Card className="mb-6">
+          <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-gray-600">Sign in to keep these favorites on your account and every device</p>
+            <Button size="sm" onClick={() => navigate('/auth')}>
+              Sign In
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {favorites.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {favorites.map((favorite) => (
             <Card key={favorite.id} className="hover:shadow-lg transition-shadow">
               <CardContent className="p-6">
                 <div className="flex justify-between items-start mb-4">
-                  <Badge variant={favorite.type === 'service' ? 'default' : 'secondary'}>
-                    {favorite.type === 'service' ? 'Service' : 'Provider'}
+                  <Badge variant={favorite.favorite_type === 'service' ? 'default' : 'secondary'}>
+                    {favorite.favorite_type === 'service' ? 'Service' : 'Provider'}
                   </Badge>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => removeFavorite(favorite.id)}
+                    onClick={() => removeFavorite(favorite)}
                     className="text-red-500 hover:text-red-700 hover:bg-red-50"
                   >
                     <Trash2 className="h-4 w-4" />
@@ -98,58 +65,50 @@ export default function Favorites() {
 
                 <div className="space-y-3">
                   <h3 className="font-semibold text-lg text-gray-900">
-                    {favorite.type === 'service' ? favorite.serviceName : favorite.providerName}
+                    {favorite.favorite_type === 'service' ? favorite.service_name : favorite.provider_name}
                   </h3>
                   
-                  {favorite.type === 'service' && (
-                    <p className="text-gray-600">{favorite.providerName}</p>
+                  {favorite.favorite_type === 'service' && (
+                    <p className="text-gray-600">{favorite.provider_name}</p>
                   )}
 
                   <div className="flex items-center space-x-4 text-sm">
-                    <div className="flex items-center space-x-1">
-                      <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                      <span className="font-medium">{favorite.rating}</span>
-                      <span className="text-gray-500">({favorite.reviews})</span>
-                    </div>
-                    <div className="flex items-center space-x-1 text-gray-600">
-                      <MapPin className="h-4 w-4" />
-                      <span>{favorite.location}</span>
-                    </div>
+                    {favorite.rating !== null && (
+                      <div className="flex items-center space-x-1">
+                        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                        <span className="font-medium">{Number(favorite.rating).toFixed(1)}</span>
+                      </div>
+                    )}
+                    {favorite.location && (
+                      <div className="flex items-center space-x-1 text-gray-600">
+                        <MapPin className="h-4 w-4" />
+                        <span>{favorite.location}</span>
+                      </div>
+                    )}
                   </div>
 
-                  {favorite.type === 'service' && (
+                  {favorite.favorite_type === 'service' && (favorite.category || favorite.price_range) && (
                     <div className="flex justify-between items-center">
-                      <div className="flex items-center space-x-1 text-sm text-gray-600">
-                        <Clock className="h-4 w-4" />
-                        <span>{favorite.duration}</span>
-                      </div>
-                      <p className="text-lg font-bold text-primary">${favorite.price}</p>
-                    </div>
-                  )}
-
-                  {favorite.type === 'provider' && favorite.services && (
-                    <div className="flex flex-wrap gap-1">
-                      {favorite.services.slice(0, 3).map((service, index) => (
-                        <Badge key={index} variant="outline" className="text-xs">
-                          {service}
-                        </Badge>
-                      ))}
-                      {favorite.services.length > 3 && (
+                      {favorite.category && (
                         <Badge variant="outline" className="text-xs">
-                          +{favorite.services.length - 3} more
+                          {favorite.category}
                         </Badge>
                       )}
+                      {favorite.price_range && (
+                        <p className="text-lg font-bold text-primary">{favorite.price_range}</p>
+                      )}
                     </div>
                   )}
                 </div>
 
                 <div className="flex space-x-2 mt-4">
-                  <Button className="flex-1" size="sm">
+                  <Button
+                    className="flex-1"
+                    size="sm"
+                    onClick={() => navigate(`/search?q=${encodeURIComponent(favorite.service_name || favorite.provider_name)}`)}
+                  >
                     Book Now
                   </Button>
-                  <Button variant="outline" size="sm">
-                    View Details
-                  </Button>
                 </div>
               </CardContent>
             </Card>
@@ -160,7 +119,7 @@ export default function Favorites() {
           <Heart className="h-16 w-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">No favorites yet</h2>
           <p className="text-gray-600 mb-6">Save services and providers you love for quick access</p>
-          <Button onClick={() => window.location.href = '/'}>
+          <Button onClick={() => navigate('/')}>
             Browse Services
           </Button>
         </div>
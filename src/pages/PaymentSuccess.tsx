@@ -3,11 +3,16 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Layout } from '@/components/layout/Layout';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { CheckCircle, AlertCircle, Loader2, CalendarPlus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useCart } from '@/hooks/useCart';
 import { useAuth } from '@/hooks/useAuth';
 import { paymentService } from '@/services/paymentService';
+import { calendarService } from '@/services/calendarService';
+
+// The order is created by the Stripe webhook, which can land shortly after the redirect
+const ORDER_POLL_ATTEMPTS = 10;
+const ORDER_POLL_INTERVAL_MS = 2000;
 
 export default function PaymentSuccess() {
   const navigate = useNavigate();
@@ -19,6 +24,7 @@ export default function PaymentSuccess() {
   const [isVerifying, setIsVerifying] = useState(true);
   const [verificationError, setVerificationError] = useState<string | null>(null);
   const [orderDetails, setOrderDetails] = useState<any>(null);
+  const [calendarLoading, setCalendarLoading] = useState(false);
 
   useEffect(() => {
     const sessionId = searchParams.get('session_id');
@@ -36,7 +42,13 @@ export default function PaymentSuccess() {
     try {
       console.log('🔍 Verifying payment for session:', sessionId);
       
-      const result = await paymentService.verifyPayment(sessionId);
+      let result = await paymentService.verifyPayment(sessionId);
+
+      for (let attempt = 1; result.success && result.orderPending && attempt < ORDER_POLL_ATTEMPTS; attempt++) {
+        console.log('⏳ Waiting for order to be created...', attempt);
+        await new Promise(resolve => setTimeout(resolve, ORDER_POLL_INTERVAL_MS));
+        result = await paymentService.verifyPayment(sessionId);
+      }
       
       if (result.success) {
         console.log('✅ Payment verified successfully');
@@ -46,12 +58,14 @@ export default function PaymentSuccess() {
         
         setOrderDetails({
           orderId: result.orderId,
-          status: 'paid'
+          status: result.orderPending ? 'processing' : 'paid'
         });
         
         toast({
           title: 'Payment Successful!',
-          description: 'Your order has been confirmed and your cart has been cleared.',
+          description: result.orderPending
+            ? 'Your payment was received. Your order will appear in your bookings shortly.'
+            : 'Your order has been confirmed and your cart has been cleared.',
           duration: 5000,
         });
       } else {
@@ -80,6 +94,28 @@ export default function PaymentSuccess() {
     }
   };
 
+  const handleAddToCalendar = async () => {
+    if (!orderDetails?.orderId) return;
+
+    setCalendarLoading(true);
+    try {
+      // The session id lets guests download without signing in
+      await calendarService.downloadBookingCalendar({
+        orderId: orderDetails.orderId,
+        sessionId: searchParams.get('session_id') || undefined
+      });
+    } catch (error) {
+      console.error('Error downloading calendar file:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to create the calendar file',
+        variant: 'destructive',
+      });
+    } finally {
+      setCalendarLoading(false);
+    }
+  };
+
   if (isVerifying) {
     return (
       <Layout>
@@ -136,7 +172,7 @@ export default function PaymentSuccess() {
                 <div className="bg-gray-50 p-4 rounded-lg mb-6 text-left">
                   <h3 className="font-semibold mb-2">Order Details:</h3>
                   <p className="text-sm text-gray-600">
-                    Order ID: {orderDetails.orderId}
+                    Order ID: {orderDetails.orderId || 'Being created...'}
                   </p>
                   <p className="text-sm text-gray-600">
                     Status: {orderDetails.status}
@@ -148,6 +184,14 @@ export default function PaymentSuccess() {
                 <Button onClick={() => navigate('/dashboard/customer?section=bookings')} className="w-full">
                   View My Bookings
                 </Button>
+                {orderDetails?.orderId && (
+                  <Button onClick={handleAddToCalendar} variant="outline" className="w-full" disabled={calendarLoading}>
+                    {calendarLoading
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <CalendarPlus className="h-4 w-4 mr-2" />}
+                    Add to Calendar
+                  </Button>
+                )}
                 <Button onClick={() => navigate('/')} variant="outline" className="w-full">
                   Continue Shopping
                 </Button>
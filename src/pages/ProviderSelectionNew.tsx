@@ -4,9 +4,13 @@ import { Layout } from '@/components/layout/Layout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Star, MapPin, Clock, ArrowLeft, Award, Shield } from 'lucide-react';
+import { Star, MapPin, Clock, ArrowLeft, Award, Shield, Heart } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
+import { LocationModal } from '@/components/LocationModal';
+import { useCustomerLocation, CustomerLocation } from '@/hooks/useCustomerLocation';
+import { useFavorites } from '@/hooks/useFavorites';
+import { serviceAreaService } from '@/services/serviceAreaService';
 
 interface Provider {
   id: string;
@@ -21,6 +25,8 @@ interface Provider {
   address: string;
   response_time_minutes: number;
   status: string;
+  /** Distance to the provider's nearest service area centre, when the customer's location is known */
+  distance_km: number | null;
 }
 
 // Providers will be fetched from database based on selected services
@@ -30,6 +36,10 @@ const ProviderSelectionNew: React.FC = () => {
   const navigate = useNavigate();
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [providers, setProviders] = useState<Provider[]>([]);
+  const [hiddenCount, setHiddenCount] = useState(0);
+  const [isLocationModalOpen, setIsLocationModalOpen] = useState(false);
+  const { location: customerLocation, setLocation: setCustomerLocation } = useCustomerLocation();
+  const { isFavorite, toggleFavorite } = useFavorites();
   
   const { selectedServices = [], category = '' } = location.state || {};
 
@@ -99,18 +109,36 @@ const ProviderSelectionNew: React.FC = () => {
             business_name: userProfile?.business_name || serviceProvider?.business_name || 'Professional Service Provider',
             contact_person: userProfile?.full_name || serviceProvider?.contact_person || 'Service Provider',
             phone: userProfile?.phone || serviceProvider?.phone || 'N/A',
-            rating: serviceProvider?.rating || 4.5,
+            rating: Number(serviceProvider?.rating ?? 0),
             years_of_experience: serviceProvider?.years_of_experience || 2,
             total_reviews: serviceProvider?.total_reviews || 0,
             total_completed_jobs: serviceProvider?.total_completed_jobs || 0,
             profile_image_url: serviceProvider?.profile_image_url || '/placeholder.svg',
             address: userProfile?.address || serviceProvider?.address || 'Location not specified',
             response_time_minutes: serviceProvider?.response_time_minutes || 15,
-            status: serviceProvider?.status || 'approved'
+            status: serviceProvider?.status || 'approved',
+            distance_km: null
           };
         });
 
-        setProviders(formattedProviders);
+        // Hide providers whose service areas don't cover the customer's address
+        let visibleProviders = formattedProviders;
+        if (customerLocation) {
+          const matches = await serviceAreaService.matchProviders(formattedProviders.map(p => p.id), customerLocation);
+          visibleProviders = formattedProviders
+            .filter(provider => matches.get(provider.id)?.serves_location ?? true)
+            .map(provider => ({ ...provider, distance_km: matches.get(provider.id)?.distance_km ?? null }));
+        }
+
+        // Nearest first, then best reviewed
+        visibleProviders.sort((a, b) =>
+          (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity) ||
+          b.rating - a.rating ||
+          b.total_reviews - a.total_reviews
+        );
+
+        setHiddenCount(formattedProviders.length - visibleProviders.length);
+        setProviders(visibleProviders);
       } catch (error) {
         console.error('Error fetching providers:', error);
         toast({
@@ -122,7 +150,12 @@ const ProviderSelectionNew: React.FC = () => {
     };
 
     fetchProviders();
-  }, [selectedServices, toast]);
+  }, [selectedServices, toast, customerLocation]);
+
+  const handleLocationSelect = (next: CustomerLocation) => {
+    setCustomerLocation(next);
+    setIsLocationModalOpen(false);
+  };
 
   const handleProviderSelect = (providerId: string) => {
     setSelectedProvider(providerId);
@@ -191,8 +224,40 @@ const ProviderSelectionNew: React.FC = () => {
           </div>
         )}
 
+        {/* Customer Location */}
+        <div className="container mx-auto px-4 pt-6">
+          <div className="flex items-center justify-between gap-4 p-4 bg-white border rounded-lg">
+            <div className="flex items-center gap-2 text-sm">
+              <MapPin className="w-4 h-4 text-primary" />
+              {customerLocation ? (
+                <span>
+                  Showing providers serving <span className="font-medium">{customerLocation.label}</span>
+                  {hiddenCount > 0 && (
+                    <span className="text-muted-foreground"> · {hiddenCount} don't cover this area</span>
+                  )}
+                </span>
+              ) : (
+                <span className="text-muted-foreground">Set your location to see providers who serve your address</span>
+              )}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setIsLocationModalOpen(true)}>
+              {customerLocation ? 'Change' : 'Set location'}
+            </Button>
+          </div>
+        </div>
+
         {/* Provider List */}
         <div className="container mx-auto px-4 py-8">
+          {customerLocation && providers.length === 0 && hiddenCount > 0 && (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground text-lg">
+                No providers for these services cover {customerLocation.label} yet.
+              </p>
+              <Button onClick={() => setIsLocationModalOpen(true)} className="mt-4" variant="outline">
+                Try another location
+              </Button>
+            </div>
+          )}
           <div className="space-y-4">
             {providers.map((provider) => (
               <Card
@@ -235,7 +300,9 @@ const ProviderSelectionNew: React.FC = () => {
                           <div className="flex items-center gap-4 mt-1">
                             <div className="flex items-center gap-1">
                               <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                              <span className="text-sm font-medium">{provider.rating}</span>
+                              <span className="text-sm font-medium">
+                                {provider.total_reviews > 0 ? provider.rating.toFixed(1) : 'New'}
+                              </span>
                               <span className="text-sm text-muted-foreground">
                                 ({provider.total_reviews} reviews)
                               </span>
@@ -247,6 +314,25 @@ const ProviderSelectionNew: React.FC = () => {
                           </div>
                         </div>
                         <div className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label={isFavorite('provider', provider.id) ? 'Remove from favorites' : 'Add to favorites'}
+                            className={isFavorite('provider', provider.id) ? 'text-red-500' : 'text-muted-foreground hover:text-red-500'}
+                            onClick={(e) => {
+                              // Don't select the provider when saving them
+                              e.stopPropagation();
+                              toggleFavorite({
+                                type: 'provider',
+                                itemId: provider.id,
+                                providerName: provider.business_name,
+                                location: provider.address,
+                                rating: provider.total_reviews > 0 ? provider.rating : undefined
+                              });
+                            }}
+                          >
+                            <Heart className={`w-5 h-5 ${isFavorite('provider', provider.id) ? 'fill-current' : ''}`} />
+                          </Button>
                           <p className="text-lg font-semibold text-foreground">
                             {provider.total_completed_jobs} jobs
                           </p>
@@ -258,6 +344,9 @@ const ProviderSelectionNew: React.FC = () => {
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <MapPin className="w-4 h-4" />
                           <span>{provider.address}</span>
+                          {provider.distance_km !== null && (
+                            <Badge variant="outline" className="text-xs">{provider.distance_km} km away</Badge>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <Clock className="w-4 h-4" />
@@ -301,6 +390,14 @@ const ProviderSelectionNew: React.FC = () => {
           )}
         </div>
       </div>
+
+      <LocationModal
+        isOpen={isLocationModalOpen}
+        onClose={() => setIsLocationModalOpen(false)}
+        currentLocation={customerLocation?.label || ''}
+        onLocationSelect={handleLocationSelect}
+        loading={false}
+      />
     </Layout>
   );
 };
@@ -1,8 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { addDays, format, isToday, isTomorrow, parseISO } from 'date-fns';
 import { ArrowLeft, Calendar, Clock, ShoppingCart, CreditCard } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { useCart } from '../hooks/useCart';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/use-toast';
+import { useProviderAvailability } from '../hooks/useProviderAvailability';
+import { supabase } from '../integrations/supabase/client';
+import { slotBookingService, BookingSlot } from '../services/slotBookingService';
 
 interface TimeSlot {
   id: string;
@@ -16,123 +22,164 @@ interface DateSlot {
   slots: TimeSlot[];
 }
 
+interface SelectedService {
+  id: string;
+  service_name: string;
+  price: number;
+  duration_minutes: number | null;
+  provider_name: string | null;
+}
+
+// How many days ahead customers can pick from on this page
+const DAYS_SHOWN = 7;
+
+const toDisplayDate = (date: string) => {
+  const day = parseISO(date);
+  if (isToday(day)) return `Today, ${format(day, 'MMM d')}`;
+  if (isTomorrow(day)) return `Tomorrow, ${format(day, 'MMM d')}`;
+  return format(day, 'EEE, MMM d');
+};
+
+const toTimeSlot = (slot: BookingSlot): TimeSlot => ({
+  id: slot.id,
+  time: format(parseISO(`2000-01-01T${slot.slot_time}`), 'hh:mm a'),
+  // Another customer is checking out with a held start; it may free up again
+  available: slot.status === 'available'
+});
+
 const Scheduling: React.FC = () => {
   const { serviceId, providerId } = useParams<{ serviceId: string; providerId: string }>();
   const navigate = useNavigate();
   const { addToCart } = useCart();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { holdSlot } = useProviderAvailability();
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [selectedTime, setSelectedTime] = useState<string>('');
   const [availableDates, setAvailableDates] = useState<DateSlot[]>([]);
+  const [service, setService] = useState<SelectedService | null>(null);
   const [loading, setLoading] = useState(true);
+  const [holding, setHolding] = useState(false);
 
-  useEffect(() => {
-    // Simulate API call to fetch available slots
-    const fetchAvailableSlots = async () => {
-      setLoading(true);
-      
-      // Mock data - replace with actual API call
-      const mockDates: DateSlot[] = [
-        {
-          date: '2024-01-15',
-          displayDate: 'Today, Jan 15',
-          slots: [
-            { id: '1', time: '09:00 AM', available: true },
-            { id: '2', time: '10:30 AM', available: false },
-            { id: '3', time: '12:00 PM', available: true },
-            { id: '4', time: '02:30 PM', available: true },
-            { id: '5', time: '04:00 PM', available: false },
-            { id: '6', time: '05:30 PM', available: true }
-          ]
-        },
-        {
-          date: '2024-01-16',
-          displayDate: 'Tomorrow, Jan 16',
-          slots: [
-            { id: '7', time: '09:00 AM', available: true },
-            { id: '8', time: '10:30 AM', available: true },
-            { id: '9', time: '12:00 PM', available: false },
-            { id: '10', time: '02:30 PM', available: true },
-            { id: '11', time: '04:00 PM', available: true },
-            { id: '12', time: '05:30 PM', available: true }
-          ]
-        },
-        {
-          date: '2024-01-17',
-          displayDate: 'Wed, Jan 17',
-          slots: [
-            { id: '13', time: '09:00 AM', available: false },
-            { id: '14', time: '10:30 AM', available: true },
-            { id: '15', time: '12:00 PM', available: true },
-            { id: '16', time: '02:30 PM', available: false },
-            { id: '17', time: '04:00 PM', available: true },
-            { id: '18', time: '05:30 PM', available: true }
-          ]
-        }
-      ];
-      
-      setTimeout(() => {
-        setAvailableDates(mockDates);
-        setSelectedDate(mockDates[0].date);
-        setLoading(false);
-      }, 1000);
-    };
+  const fetchAvailableSlots = useCallback(async () => {
+    if (!serviceId || !providerId) return;
+
+    setLoading(true);
+    try {
+      const dates = Array.from({ length: DAYS_SHOWN }, (_, i) => format(addDays(new Date(), i), 'yyyy-MM-dd'));
 
+      const [serviceResult, providerResult] = await Promise.all([
+        supabase
+          .from('provider_services')
+          .select('id, service_name, price, duration_minutes')
+          .eq('id', serviceId)
+          .single(),
+        supabase
+          .from('user_profiles')
+          .select('business_name, full_name')
+          .eq('id', providerId)
+          .maybeSingle()
+      ]);
+
+      if (serviceResult.error) throw serviceResult.error;
+      setService({
+        ...serviceResult.data,
+        provider_name: providerResult.data?.business_name || providerResult.data?.full_name || null
+      });
+
+      // Working days without slots yet get them before availability is read
+      const { error: generateError } = await supabase.rpc('generate_provider_slots', {
+        p_provider_id: providerId,
+        p_start_date: dates[0],
+        p_end_date: dates[dates.length - 1]
+      });
+      if (generateError) throw generateError;
+
+      const slotsByDate = await Promise.all(
+        dates.map(date => slotBookingService.getAvailableServiceSlots(providerId, [serviceId], date))
+      );
+
+      const openDates = dates
+        .map((date, i) => ({
+          date,
+          displayDate: toDisplayDate(date),
+          slots: slotsByDate[i].map(toTimeSlot)
+        }))
+        .filter(dateSlot => dateSlot.slots.length > 0);
+
+      setAvailableDates(openDates);
+      setSelectedDate(prev => openDates.some(d => d.date === prev) ? prev : openDates[0]?.date || '');
+    } catch (error) {
+      console.error('Error loading available slots:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load available slots",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceId, providerId, toast]);
+
+  useEffect(() => {
     fetchAvailableSlots();
-  }, [serviceId, providerId]);
+  }, [fetchAvailableSlots]);
 
-  const handleAddToCart = () => {
-    if (selectedDate && selectedTime) {
-      const selectedDateObj = availableDates.find(d => d.date === selectedDate);
-      const selectedTimeObj = selectedDateObj?.slots.find(s => s.id === selectedTime);
-      
-      if (selectedDateObj && selectedTimeObj) {
-        addToCart({
-          serviceId: serviceId!,
-          serviceName: 'Selected Service', // Add service name
-          providerId: providerId!,
-          providerName: 'Selected Provider', // Add provider name
-          price: 1200, // Add actual price
-          serviceDetails: {
-            date: selectedDate,
-            time: selectedTimeObj.time,
-            displayDate: selectedDateObj.displayDate
-          }
-        });
-        
-        navigate('/cart');
-      }
+  // The slot is held before it goes to the cart so checkout can confirm it
+  const handleBookSlot = async () => {
+    if (!selectedDate || !selectedTime || !service || !providerId) return;
+
+    const selectedDateObj = availableDates.find(d => d.date === selectedDate);
+    const selectedTimeObj = selectedDateObj?.slots.find(s => s.id === selectedTime);
+    if (!selectedDateObj || !selectedTimeObj) return;
+
+    if (!user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in to book a slot",
+        variant: "destructive"
+      });
+      return;
     }
-  };
 
-  const handleProceedToPayment = () => {
-    if (selectedDate && selectedTime) {
-      const selectedDateObj = availableDates.find(d => d.date === selectedDate);
-      const selectedTimeObj = selectedDateObj?.slots.find(s => s.id === selectedTime);
-      
-      if (selectedDateObj && selectedTimeObj) {
-        // Add to cart first
-        addToCart({
-          serviceId: serviceId!,
-          serviceName: 'Selected Service', // Add service name
-          providerId: providerId!,
-          providerName: 'Selected Provider', // Add provider name
-          price: 1200, // Add actual price
-          serviceDetails: {
-            date: selectedDate,
-            time: selectedTimeObj.time,
-            displayDate: selectedDateObj.displayDate
-          }
+    setHolding(true);
+    try {
+      const held = await holdSlot(selectedTimeObj.id, user.id, [service.id]);
+      if (!held) {
+        toast({
+          title: "Slot Unavailable",
+          description: "This slot is no longer available",
+          variant: "destructive"
         });
-        
-        // Redirect to cart for checkout
-        navigate('/cart');
+        setSelectedTime('');
+        await fetchAvailableSlots();
+        return;
       }
+
+      await addToCart({
+        serviceId: service.id,
+        serviceName: service.service_name,
+        providerId,
+        providerName: service.provider_name ?? undefined,
+        price: Number(service.price),
+        serviceDetails: {
+          date: selectedDate,
+          time: selectedTimeObj.time,
+          displayDate: selectedDateObj.displayDate,
+          slotId: selectedTimeObj.id,
+          duration: service.duration_minutes
+        }
+      });
+
+      navigate('/cart');
+    } finally {
+      setHolding(false);
     }
   };
 
   const selectedDateData = availableDates.find(d => d.date === selectedDate);
 
-  if (loading) {
+  if (loading && availableDates.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -160,7 +207,9 @@ const Scheduling: React.FC = () => {
                 Select Date & Time
               </h1>
               <p className="text-sm text-gray-600">
-                Choose your preferred appointment slot
+                {service
+                  ? `${service.service_name}${service.provider_name ? ` with ${service.provider_name}` : ''}`
+                  : 'Choose your preferred appointment slot'}
               </p>
             </div>
           </div>
@@ -174,25 +223,34 @@ const Scheduling: React.FC = () => {
             <Calendar className="w-5 h-5 text-blue-600" />
             <h2 className="text-lg font-semibold text-gray-900">Select Date</h2>
           </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-            {availableDates.map((dateSlot) => (
-              <button
-                key={dateSlot.date}
-                onClick={() => setSelectedDate(dateSlot.date)}
-                className={`p-4 rounded-lg border-2 transition-all duration-200 text-left ${
-                  selectedDate === dateSlot.date
-                    ? 'border-blue-500 bg-blue-50 text-blue-700'
-                    : 'border-gray-200 hover:border-gray-300 text-gray-700'
-                }`}
-              >
-                <div className="font-medium">{dateSlot.displayDate}</div>
-                <div className="text-sm text-gray-500 mt-1">
-                  {dateSlot.slots.filter(s => s.available).length} slots available
-                </div>
-              </button>
-            ))}
-          </div>
+
+          {availableDates.length === 0 ? (
+            <p className="text-gray-600">
+              No times are open in the next {DAYS_SHOWN} days. Please check back later or choose another provider.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {availableDates.map((dateSlot) => (
+                <button
+                  key={dateSlot.date}
+                  onClick={() => {
+                    setSelectedDate(dateSlot.date);
+                    setSelectedTime('');
+                  }}
+                  className={`p-4 rounded-lg border-2 transition-all duration-200 text-left ${
+                    selectedDate === dateSlot.date
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                  }`}
+                >
+                  <div className="font-medium">{dateSlot.displayDate}</div>
+                  <div className="text-sm text-gray-500 mt-1">
+                    {dateSlot.slots.filter(s => s.available).length} slots available
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Time Selection */}
@@ -202,7 +260,7 @@ const Scheduling: React.FC = () => {
               <Clock className="w-5 h-5 text-blue-600" />
               <h2 className="text-lg font-semibold text-gray-900">Select Time</h2>
             </div>
-            
+
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
               {selectedDateData.slots.map((slot) => (
                 <button
@@ -230,7 +288,8 @@ const Scheduling: React.FC = () => {
             <div className="container mx-auto flex flex-col items-center">
               <div className="flex gap-3">
                 <Button
-                  onClick={handleAddToCart}
+                  onClick={handleBookSlot}
+                  disabled={holding}
                   variant="outline"
                   className="flex-1 py-3 text-lg font-medium border-blue-600 text-blue-600 hover:bg-blue-50"
                 >
@@ -238,7 +297,8 @@ const Scheduling: React.FC = () => {
                   Add to Cart
                 </Button>
                 <Button
-                  onClick={handleProceedToPayment}
+                  onClick={handleBookSlot}
+                  disabled={holding}
                   className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-3 text-lg font-medium"
                 >
                   <CreditCard className="w-5 h-5 mr-2" />
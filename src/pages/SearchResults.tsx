@@ -0,0 +1,306 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Layout } from '@/components/layout/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Search, Star } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { searchService, SearchResult } from '@/services/searchService';
+
+interface CategoryOption {
+  id: string;
+  name: string;
+}
+
+const typeLabels: Record<string, string> = {
+  category: 'Category',
+  subcategory: 'Service type',
+  service: 'Service'
+};
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const SearchResults: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const categoryId = searchParams.get('category') || '';
+  const minPrice = searchParams.get('minPrice') || '';
+  const maxPrice = searchParams.get('maxPrice') || '';
+  const minRating = searchParams.get('rating') || '';
+
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [priceDraft, setPriceDraft] = useState({ min: minPrice, max: maxPrice });
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching categories:', error);
+        return;
+      }
+      setCategories(data || []);
+    };
+
+    fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    setPriceDraft({ min: minPrice, max: maxPrice });
+  }, [minPrice, maxPrice]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const runSearch = async () => {
+      setLoading(true);
+      try {
+        const data = await searchService.search(query, {
+          categoryId: categoryId || undefined,
+          minPrice: parseNumber(minPrice),
+          maxPrice: parseNumber(maxPrice),
+          minRating: parseNumber(minRating)
+        });
+        if (!cancelled) setResults(data);
+      } catch (error) {
+        console.error('Error searching services:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    runSearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [query, categoryId, minPrice, maxPrice, minRating]);
+
+  const updateParams = (updates: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    });
+    setSearchParams(params);
+  };
+
+  const applyPrice = () => {
+    updateParams({ minPrice: priceDraft.min, maxPrice: priceDraft.max });
+  };
+
+  const clearFilters = () => {
+    setSearchParams(query ? { q: query } : {});
+  };
+
+  const hasFilters = !!(categoryId || minPrice || maxPrice || minRating);
+
+  const formatPrice = (result: SearchResult) => {
+    if (result.price === null) return null;
+    return result.result_type === 'subcategory' ? `From $${result.price}` : `$${result.price}`;
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gradient-to-b from-background to-muted/20">
+        {/* Header */}
+        <div className="bg-white shadow-sm border-b">
+          <div className="container mx-auto px-4 py-6">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate(-1)}
+                className="p-2 hover:bg-muted rounded-full transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  {query ? `Results for "${query}"` : 'Search'}
+                </h1>
+                <p className="text-muted-foreground">
+                  {loading ? 'Searching...' : `${results.length} result${results.length === 1 ? '' : 's'}`}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="container mx-auto px-4 py-8 grid lg:grid-cols-4 gap-8">
+          {/* Filters */}
+          <aside className="space-y-6">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={categoryId || 'all'}
+                onValueChange={(value) => updateParams({ category: value === 'all' ? '' : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All categories" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Price range</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Min"
+                  value={priceDraft.min}
+                  onChange={(e) => setPriceDraft(prev => ({ ...prev, min: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && applyPrice()}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Max"
+                  value={priceDraft.max}
+                  onChange={(e) => setPriceDraft(prev => ({ ...prev, max: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && applyPrice()}
+                />
+              </div>
+              <Button variant="outline" size="sm" className="w-full" onClick={applyPrice}>
+                Apply
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rating</Label>
+              <Select
+                value={minRating || 'any'}
+                onValueChange={(value) => updateParams({ rating: value === 'any' ? '' : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any rating</SelectItem>
+                  <SelectItem value="4.5">4.5 & up</SelectItem>
+                  <SelectItem value="4">4 & up</SelectItem>
+                  <SelectItem value="3">3 & up</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasFilters && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </aside>
+
+          {/* Results */}
+          <div className="lg:col-span-3">
+            {query.trim().length < 2 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Search className="h-10 w-10 mx-auto mb-3 opacity-50" />
+                <p>Type at least two characters to search for services</p>
+              </div>
+            ) : loading ? (
+              <div className="space-y-4">
+                {[...Array(4)].map((_, index) => (
+                  <Card key={index} className="animate-pulse">
+                    <CardContent className="p-4">
+                      <div className="h-6 bg-gray-200 rounded w-1/3 mb-2"></div>
+                      <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : results.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground text-lg">
+                  No results found{hasFilters ? ' with these filters' : ''}.
+                </p>
+                {hasFilters && (
+                  <Button onClick={clearFilters} className="mt-4" variant="outline">
+                    Clear filters
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {results.map((result) => (
+                  <Card
+                    key={`${result.result_type}-${result.id}`}
+                    className="cursor-pointer transition-all duration-200 hover:shadow-md"
+                    onClick={() => navigate(searchService.getResultPath(result))}
+                  >
+                    <CardContent className="p-4 flex gap-4">
+                      <img
+                        src={result.image_url || '/placeholder.svg'}
+                        alt={result.name}
+                        className="w-20 h-20 rounded-lg object-cover flex-shrink-0"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement;
+                          target.src = '/placeholder.svg';
+                        }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <h3 className="font-semibold text-foreground truncate">{result.name}</h3>
+                            <p className="text-sm text-muted-foreground">
+                              {[result.category_name, result.result_type === 'service' ? result.subcategory_name : null]
+                                .filter(Boolean)
+                                .join(' > ')}
+                              {result.provider_name && ` · by ${result.provider_name}`}
+                            </p>
+                          </div>
+                          <Badge variant="secondary" className="flex-shrink-0">{typeLabels[result.result_type]}</Badge>
+                        </div>
+                        {result.description && (
+                          <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{result.description}</p>
+                        )}
+                        <div className="flex items-center gap-4 mt-2 text-sm">
+                          {formatPrice(result) && (
+                            <span className="font-semibold text-foreground">{formatPrice(result)}</span>
+                          )}
+                          {result.result_type === 'service' && (
+                            <span className="flex items-center gap-1 text-muted-foreground">
+                              <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                              {result.total_reviews ? `${Number(result.rating).toFixed(1)} (${result.total_reviews})` : 'New'}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default SearchResults;
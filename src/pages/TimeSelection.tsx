@@ -4,11 +4,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useProviderAvailability } from '../hooks/useProviderAvailability';
 import { SlotCountdownTimer } from '@/components/SlotCountdownTimer';
+import { RecurrenceOptions, RepeatFrequency, SeriesEnd } from '@/components/RecurrenceOptions';
+import { WaitlistSignup } from '@/components/WaitlistSignup';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { format } from 'date-fns';
+import { useCart } from '@/hooks/useCart';
+import { addMonths, format, parseISO } from 'date-fns';
 import { ArrowLeft, User, Star } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { bookingSeriesService, RecurrenceRule, SeriesOccurrence } from '@/services/bookingSeriesService';
 
 interface BookingSlot {
   id: string;
@@ -33,17 +37,33 @@ const TimeSelection = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const { getAvailableSlots, holdSlot, releaseSlot } = useProviderAvailability();
+  const { addToCart } = useCart();
   
   // Get data from DateSelection page
   const { selectedServices = [], selectedProvider, selectedDate, category = '' } = location.state || {};
   
   // Use provider ID from the state instead of URL params
   const providerId = selectedProvider?.id;
+
+  // The visit covers every selected service, so availability is checked for all of them
+  const serviceIds: string[] = selectedServices.map((service: { id: string }) => service.id);
   
   const [availableSlots, setAvailableSlots] = useState<BookingSlot[]>([]);
   const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
   const [heldSlot, setHeldSlot] = useState<BookingSlot | null>(null);
   const [loading, setLoading] = useState(false);
+  const [repeatFrequency, setRepeatFrequency] = useState<RepeatFrequency>('none');
+  const [seriesEnd, setSeriesEnd] = useState<SeriesEnd>('count');
+  const [occurrenceCount, setOccurrenceCount] = useState(4);
+  const [seriesEndDate, setSeriesEndDate] = useState('');
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[] | null>(null);
+  const [checkingSeries, setCheckingSeries] = useState(false);
+  const [holdingSeries, setHoldingSeries] = useState(false);
+
+  // Any change to the series or its first slot invalidates the last availability check
+  useEffect(() => {
+    setOccurrences(null);
+  }, [repeatFrequency, seriesEnd, occurrenceCount, seriesEndDate, heldSlot?.id]);
 
   // Fetch available slots when component mounts
   useEffect(() => {
@@ -112,7 +132,7 @@ const TimeSelection = () => {
       }
       
       // Try to get existing available slots
-      const slots = await getAvailableSlots(providerId, dateString);
+      const slots = await getAvailableSlots(providerId, dateString, serviceIds);
       
       // If no slots exist, generate them for this provider
       if (slots.length === 0) {
@@ -140,7 +160,7 @@ const TimeSelection = () => {
         }
         
         // Fetch the newly generated slots
-        const newSlots = await getAvailableSlots(providerId, dateString);
+        const newSlots = await getAvailableSlots(providerId, dateString, serviceIds);
         setAvailableSlots(newSlots);
       } else {
         setAvailableSlots(slots);
@@ -173,7 +193,7 @@ const TimeSelection = () => {
     }
 
     // Hold the new slot
-    const success = await holdSlot(slot.id, user.id);
+    const success = await holdSlot(slot.id, user.id, serviceIds);
     if (success) {
       setSelectedSlot(slot);
       setHeldSlot(slot);
@@ -191,17 +211,139 @@ const TimeSelection = () => {
     }
   };
 
-  const handleProceedToPayment = () => {
-    if (selectedSlot && heldSlot) {
-      navigate('/cart', {
-        state: {
+  const getRecurrenceRule = (): RecurrenceRule | null => {
+    if (repeatFrequency === 'none') return null;
+    return seriesEnd === 'count'
+      ? { frequency: repeatFrequency, occurrenceCount }
+      : { frequency: repeatFrequency, endDate: seriesEndDate };
+  };
+
+  const handleCheckSeries = async () => {
+    const rule = getRecurrenceRule();
+    if (!rule || !heldSlot || !providerId) return;
+
+    if (seriesEnd === 'date' && !seriesEndDate) {
+      toast({
+        title: "Missing End Date",
+        description: "Choose the last date of the series",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCheckingSeries(true);
+    try {
+      const result = await bookingSeriesService.checkAvailability(providerId, heldSlot, rule, serviceIds);
+      if (result.length < 2) {
+        toast({
+          title: "Series Too Short",
+          description: "A repeat booking needs at least two visits",
+          variant: "destructive"
+        });
+        return;
+      }
+      setOccurrences(result);
+    } catch (error) {
+      console.error('Error checking series availability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check availability for the series",
+        variant: "destructive"
+      });
+    } finally {
+      setCheckingSeries(false);
+    }
+  };
+
+  const handleProceedToPayment = async () => {
+    if (!selectedSlot || !heldSlot) return;
+
+    const rule = getRecurrenceRule();
+    let schedule = [{ occurrence: 0, date: heldSlot.slot_date, slotId: heldSlot.id }];
+    let seriesId: string | undefined;
+
+    if (rule) {
+      if (!occurrences || occurrences.some(occurrence => !occurrence.slot)) {
+        toast({
+          title: "Series Not Available",
+          description: occurrences
+            ? "Every date in the series must be available"
+            : "Check availability for the series first",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setHoldingSeries(true);
+      try {
+        const result = await bookingSeriesService.holdSeries(
           providerId,
-          serviceId,
-          selectedSlot: heldSlot,
-          selectedDate: format(selectedDate!, 'yyyy-MM-dd')
+          rule,
+          occurrences.map(occurrence => occurrence.slot!.id),
+          serviceIds
+        );
+
+        if (!result.success || !result.seriesId) {
+          toast({
+            title: "Series Unavailable",
+            description: result.unavailableDates?.length
+              ? `${result.message}: ${result.unavailableDates.map(date => format(parseISO(date), 'MMM d')).join(', ')}`
+              : result.message,
+            variant: "destructive"
+          });
+          await handleCheckSeries();
+          return;
         }
-      });
+
+        seriesId = result.seriesId;
+        schedule = occurrences.map(occurrence => ({
+          occurrence: occurrence.occurrence,
+          date: occurrence.date,
+          slotId: occurrence.slot!.id
+        }));
+      } catch (error) {
+        console.error('Error holding series:', error);
+        toast({
+          title: "Error",
+          description: "Failed to reserve the series",
+          variant: "destructive"
+        });
+        return;
+      } finally {
+        setHoldingSeries(false);
+      }
+    }
+
+    // The held slot travels with each cart line so the paid order can confirm it;
+    // a series adds one line per occurrence
+    for (const visit of schedule) {
+      for (const service of selectedServices) {
+        await addToCart({
+          serviceId: service.id,
+          serviceName: service.service_name,
+          providerId,
+          providerName: selectedProvider?.business_name,
+          price: service.price,
+          serviceDetails: {
+            date: visit.date,
+            time: heldSlot.slot_time,
+            displayDate: format(parseISO(visit.date), 'EEE, MMM d'),
+            slotId: visit.slotId,
+            duration: service.duration_minutes,
+            ...(seriesId ? { seriesId, seriesOccurrence: visit.occurrence } : {})
+          }
+        });
+      }
     }
+
+    navigate('/cart', {
+      state: {
+        providerId,
+        serviceId,
+        selectedSlot: heldSlot,
+        selectedDate: format(selectedDate!, 'yyyy-MM-dd')
+      }
+    });
   };
 
   const handleSlotExpired = async () => {
@@ -295,8 +437,15 @@ const TimeSelection = () => {
                   <p className="mt-2 text-gray-600">Loading available slots...</p>
                 </div>
               ) : availableSlots.length === 0 ? (
-                <div className="text-center py-8">
+                <div className="text-center py-8 space-y-6">
                   <p className="text-gray-600">No available time slots for the selected date</p>
+                  {providerId && selectedDate && selectedServices.length > 0 && (
+                    <WaitlistSignup
+                      providerId={providerId}
+                      date={selectedDate.toISOString().split('T')[0]}
+                      services={selectedServices}
+                    />
+                  )}
                 </div>
               ) : (
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
@@ -345,6 +494,29 @@ const TimeSelection = () => {
             </Card>
           )}
 
+          {/* Repeat the held slot weekly, every other week or monthly */}
+          {heldSlot && (
+            <RecurrenceOptions
+              frequency={repeatFrequency}
+              endMode={seriesEnd}
+              occurrenceCount={occurrenceCount}
+              endDate={seriesEndDate}
+              minEndDate={heldSlot.slot_date}
+              occurrences={occurrences}
+              checking={checkingSeries}
+              onFrequencyChange={setRepeatFrequency}
+              onEndModeChange={(endMode) => {
+                setSeriesEnd(endMode);
+                if (endMode === 'date' && !seriesEndDate) {
+                  setSeriesEndDate(format(addMonths(parseISO(heldSlot.slot_date), 2), 'yyyy-MM-dd'));
+                }
+              }}
+              onOccurrenceCountChange={setOccurrenceCount}
+              onEndDateChange={setSeriesEndDate}
+              onCheckAvailability={handleCheckSeries}
+            />
+          )}
+
           {/* Countdown Timer and Proceed Button */}
           {heldSlot && (
             <Card className="mt-6">
@@ -361,8 +533,9 @@ const TimeSelection = () => {
                     onClick={handleProceedToPayment}
                     size="lg"
                     className="w-full"
+                    disabled={holdingSeries}
                   >
-                    Proceed to Payment
+                    {holdingSeries ? 'Reserving Series...' : 'Proceed to Payment'}
                   </Button>
                 </div>
               </CardContent>
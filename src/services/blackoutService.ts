@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type ProviderBlackout = Tables<'provider_blackouts'>;
+
+export type BlackoutRecurrence = 'none' | 'weekly' | 'yearly';
+
+export interface BlackoutInput {
+  title: string;
+  /** yyyy-MM-dd */
+  startDate: string;
+  /** yyyy-MM-dd, inclusive; the same as startDate for a single day */
+  endDate: string;
+  /** HH:mm window on each covered date; leave both empty to block whole days */
+  startTime?: string;
+  endTime?: string;
+  recurrence: BlackoutRecurrence;
+  /** Last date a repeating blackout applies */
+  recurrenceUntil?: string;
+}
+
+export interface BlackoutConflict {
+  booking_id: string;
+  order_id: string | null;
+  booking_date: string;
+  booking_time: string;
+  service_name: string | null;
+}
+
+export const RECURRENCE_LABELS: Record<BlackoutRecurrence, string> = {
+  none: 'Does not repeat',
+  weekly: 'Every week',
+  yearly: 'Every year',
+};
+
+export class BlackoutService {
+  async getBlackouts(providerId: string): Promise<ProviderBlackout[]> {
+    const { data, error } = await supabase
+      .from('provider_blackouts')
+      .select('*')
+      .eq('provider_id', providerId)
+      .order('start_date');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Confirmed upcoming bookings the blackout would cover. Adding the blackout
+   * leaves them in place, so the provider should be shown these first.
+   */
+  async findConflicts(providerId: string, input: BlackoutInput): Promise<BlackoutConflict[]> {
+    const { data, error } = await supabase.rpc('get_blackout_conflicts', {
+      p_provider_id: providerId,
+      p_start_date: input.startDate,
+      p_end_date: input.endDate,
+      p_start_time: input.startTime || undefined,
+      p_end_time: input.endTime || undefined,
+      p_recurrence: input.recurrence,
+      p_recurrence_until: input.recurrenceUntil || undefined
+    });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async addBlackout(providerId: string, input: BlackoutInput): Promise<ProviderBlackout> {
+    const { data, error } = await supabase
+      .from('provider_blackouts')
+      .insert({
+        provider_id: providerId,
+        title: input.title,
+        start_date: input.startDate,
+        end_date: input.endDate,
+        start_time: input.startTime || null,
+        end_time: input.endTime || null,
+        recurrence: input.recurrence,
+        recurrence_until: input.recurrence !== 'none' ? input.recurrenceUntil || null : null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteBlackout(blackoutId: string): Promise<void> {
+    const { error } = await supabase
+      .from('provider_blackouts')
+      .delete()
+      .eq('id', blackoutId);
+
+    if (error) throw error;
+  }
+}
+
+export const blackoutService = new BlackoutService();
+export default blackoutService;
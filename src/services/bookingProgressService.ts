@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables } from '@/integrations/supabase/types';
+import { paymentService } from '@/services/paymentService';
+
+export type ProviderBookingStatus =
+  | 'pending'
+  | 'accepted'
+  | 'declined'
+  | 'en_route'
+  | 'in_progress'
+  | 'completed'
+  | 'no_show';
+
+export type ProviderBooking = Database['public']['Functions']['get_provider_bookings']['Returns'][number];
+
+export type BookingProgress = Pick<
+  Tables<'bookings'>,
+  'id' | 'order_id' | 'service_id' | 'booking_date' | 'booking_time' | 'status' | 'provider_status' | 'provider_note'
+> & {
+  service: { service_name: string } | null;
+};
+
+export interface ProgressResult {
+  success: boolean;
+  message: string;
+}
+
+export const PROVIDER_STATUS_LABELS: Record<ProviderBookingStatus, string> = {
+  pending: 'Awaiting response',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  en_route: 'On the way',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  no_show: 'No-show',
+};
+
+/** Steps a provider can take from each status; update_booking_progress enforces the same rules */
+export const NEXT_PROVIDER_STEPS: Record<ProviderBookingStatus, ProviderBookingStatus[]> = {
+  pending: ['accepted', 'declined'],
+  accepted: ['en_route', 'in_progress', 'no_show'],
+  en_route: ['in_progress', 'no_show'],
+  in_progress: ['completed'],
+  declined: [],
+  completed: [],
+  no_show: [],
+};
+
+export class BookingProgressService {
+  /**
+   * The provider's paid bookings, newest appointment first, with the customer's contact details
+   */
+  async getProviderBookings(providerId: string): Promise<ProviderBooking[]> {
+    const { data, error } = await supabase.rpc('get_provider_bookings', { p_provider_id: providerId });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Move a booking to its next step. The server rejects steps that don't follow
+   * from the booking's current status.
+   */
+  async updateProgress(bookingId: string, status: ProviderBookingStatus, note?: string): Promise<ProgressResult> {
+    const { data, error } = await supabase.rpc('update_booking_progress', {
+      p_booking_id: bookingId,
+      p_status: status,
+      p_note: note || undefined
+    });
+
+    if (error) throw error;
+    return data as unknown as ProgressResult;
+  }
+
+  /**
+   * Decline a booking that is still waiting for a response. The customer is refunded in full.
+   */
+  async declineBooking(booking: ProviderBooking, reason?: string): Promise<ProgressResult> {
+    if (!booking.order_id) {
+      return { success: false, message: 'This booking has no order to refund' };
+    }
+
+    const result = await paymentService.cancelOrder(booking.order_id, {
+      bookingIds: [booking.booking_id],
+      reason: reason || undefined,
+      decline: true
+    });
+
+    return {
+      success: result.success,
+      message: result.success ? 'Booking declined' : result.error || 'Failed to decline booking'
+    };
+  }
+
+  /**
+   * Where each booking of the customer's orders stands with its provider
+   */
+  async getOrderProgress(orderIds: string[]): Promise<BookingProgress[]> {
+    if (orderIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('id, order_id, service_id, booking_date, booking_time, status, provider_status, provider_note, service:provider_services(service_name)')
+      .in('order_id', orderIds)
+      .order('booking_date')
+      .order('booking_time');
+
+    if (error) throw error;
+    return (data || []) as BookingProgress[];
+  }
+}
+
+export const bookingProgressService = new BookingProgressService();
+export default bookingProgressService;
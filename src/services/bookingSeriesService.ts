@@ -0,0 +1,168 @@
+import { addMonths, addWeeks, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { slotBookingService, BookingSlot } from '@/services/slotBookingService';
+
+export type BookingSeries = Tables<'booking_series'>;
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Last date (yyyy-MM-dd, inclusive) when the series ends on a date */
+  endDate?: string;
+  /** Number of occurrences when the series ends after a count */
+  occurrenceCount?: number;
+}
+
+export type SeriesSlot = Pick<BookingSlot, 'id' | 'slot_date' | 'slot_time'>;
+
+export interface SeriesOccurrence {
+  /** 1-based position in the series */
+  occurrence: number;
+  date: string;
+  /** The slot at the series' time on that date, or null when it is taken */
+  slot: SeriesSlot | null;
+}
+
+export interface HoldSeriesResult {
+  success: boolean;
+  message: string;
+  seriesId?: string;
+  holdExpiresAt?: string;
+  unavailableDates?: string[];
+}
+
+export interface SeriesBooking {
+  id: string;
+  order_id: string | null;
+  series_id: string;
+  series_occurrence: number;
+  booking_date: string;
+  booking_time: string;
+  status: string | null;
+}
+
+// Matches the limit enforced by hold_booking_series
+export const MAX_SERIES_OCCURRENCES = 26;
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Every week',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Every month',
+};
+
+export class BookingSeriesService {
+  /**
+   * Dates of every occurrence, starting with `startDate`. Monthly series keep
+   * the day of the month, falling back to the month's last day when it is shorter.
+   */
+  occurrenceDates(startDate: string, rule: RecurrenceRule): string[] {
+    const start = parseISO(startDate);
+    const limit = Math.min(rule.occurrenceCount ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+    const dates: string[] = [];
+
+    for (let index = 0; index < limit; index++) {
+      const date = rule.frequency === 'monthly'
+        ? addMonths(start, index)
+        : addWeeks(start, rule.frequency === 'biweekly' ? index * 2 : index);
+      const value = format(date, 'yyyy-MM-dd');
+
+      if (rule.endDate && value > rule.endDate) break;
+      dates.push(value);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Look up the provider's slot at the first slot's time on every date of the
+   * series, where the whole visit for `serviceIds` fits. The first occurrence
+   * is the slot the customer is already holding.
+   */
+  async checkAvailability(
+    providerId: string,
+    firstSlot: SeriesSlot,
+    rule: RecurrenceRule,
+    serviceIds: string[]
+  ): Promise<SeriesOccurrence[]> {
+    const dates = this.occurrenceDates(firstSlot.slot_date, rule);
+
+    // Slots are generated on demand, so make sure every date in the series has them
+    const { error } = await supabase.rpc('generate_provider_slots', {
+      p_provider_id: providerId,
+      p_start_date: dates[0],
+      p_end_date: dates[dates.length - 1]
+    });
+
+    if (error) throw error;
+
+    return Promise.all(dates.map(async (date, index) => {
+      if (index === 0) {
+        return { occurrence: 1, date, slot: firstSlot };
+      }
+
+      const slots = await slotBookingService.getAvailableServiceSlots(providerId, serviceIds, date);
+      const slot = slots.find(candidate =>
+        candidate.slot_time === firstSlot.slot_time && candidate.status === 'available'
+      );
+
+      return { occurrence: index + 1, date, slot: slot ?? null };
+    }));
+  }
+
+  /**
+   * Hold every occurrence's visit for the signed-in customer, all or nothing
+   */
+  async holdSeries(providerId: string, rule: RecurrenceRule, slotIds: string[], serviceIds: string[]): Promise<HoldSeriesResult> {
+    const { data, error } = await supabase.rpc('hold_booking_series', {
+      p_provider_id: providerId,
+      p_frequency: rule.frequency,
+      p_slot_ids: slotIds,
+      p_end_date: rule.endDate,
+      p_service_ids: serviceIds
+    });
+
+    if (error) throw error;
+
+    const result = data as unknown as { success: boolean; message: string; series_id?: string; hold_expires_at?: string; unavailable_dates?: string[] };
+    return {
+      success: result.success,
+      message: result.message,
+      seriesId: result.series_id,
+      holdExpiresAt: result.hold_expires_at,
+      unavailableDates: result.unavailable_dates
+    };
+  }
+
+  /**
+   * The customer's paid series and every occurrence booked for them
+   */
+  async getCustomerSeries(customerId: string): Promise<{ series: BookingSeries[]; bookings: SeriesBooking[] }> {
+    const { data: series, error: seriesError } = await supabase
+      .from('booking_series')
+      .select('*')
+      .eq('customer_id', customerId)
+      .neq('status', 'pending')
+      .order('start_date', { ascending: false });
+
+    if (seriesError) throw seriesError;
+
+    if (!series?.length) {
+      return { series: [], bookings: [] };
+    }
+
+    const { data: bookings, error: bookingsError } = await supabase
+      .from('bookings')
+      .select('id, order_id, series_id, series_occurrence, booking_date, booking_time, status')
+      .in('series_id', series.map(item => item.id))
+      .order('series_occurrence');
+
+    if (bookingsError) throw bookingsError;
+
+    return { series, bookings: (bookings || []) as SeriesBooking[] };
+  }
+}
+
+export const bookingSeriesService = new BookingSeriesService();
+export default bookingSeriesService;
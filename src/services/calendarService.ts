@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type CalendarFeed = Tables<'provider_calendar_feeds'>;
+
+export interface BookingCalendarRequest {
+  orderId: string;
+  /** Only this booking; otherwise every booking on the order */
+  bookingId?: string;
+  /** Stripe checkout session, so a guest can download right after paying */
+  sessionId?: string;
+}
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL || 'https://igezuyqvfoxolxbudcyj.supabase.co'}/functions/v1`;
+
+export class CalendarService {
+  async getFeed(providerId: string): Promise<CalendarFeed | null> {
+    const { data, error } = await supabase
+      .from('provider_calendar_feeds')
+      .select('*')
+      .eq('provider_id', providerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Issue a new feed token. Calendars subscribed with the old one stop updating.
+   */
+  async rotateFeedToken(providerId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('rotate_calendar_feed_token', { p_provider_id: providerId });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async revokeFeed(providerId: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_calendar_feed', { p_provider_id: providerId });
+
+    if (error) throw error;
+  }
+
+  /** https URL for Google Calendar's "From URL" and Outlook's "Subscribe from web" */
+  getFeedUrl(token: string): string {
+    return `${FUNCTIONS_URL}/booking-calendar?token=${encodeURIComponent(token)}`;
+  }
+
+  /** webcal URL that opens the subscribe prompt in Apple Calendar and Outlook */
+  getWebcalUrl(token: string): string {
+    return this.getFeedUrl(token).replace(/^https?:/, 'webcal:');
+  }
+
+  /**
+   * Download an .ics file with the booking, or every booking of the order
+   */
+  async downloadBookingCalendar(request: BookingCalendarRequest): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('booking-calendar', {
+      body: request
+    });
+
+    if (error) throw error;
+
+    const blob = new Blob([data as string], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = request.bookingId ? `booking-${request.bookingId}.ics` : `order-${request.orderId}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const calendarService = new CalendarService();
+export default calendarService;
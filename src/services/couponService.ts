@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { CartItem } from '@/hooks/useCart';
+
+export type SpecialOffer = Tables<'special_offers'>;
+
+export interface CouponLineInput {
+  key: string;
+  service_id: string;
+  quantity: number;
+  date?: string;
+  time?: string;
+}
+
+export interface AppliedCoupon {
+  code: string;
+  discountAmount: number;
+  offerId: string;
+  /** Discount on each eligible cart line, by cart item id */
+  lineDiscounts: Record<string, number>;
+}
+
+export interface CouponValidation {
+  isValid: boolean;
+  offerId: string | null;
+  discountAmount: number;
+  lineDiscounts: Record<string, number>;
+  errorMessage: string | null;
+}
+
+export interface ProviderOption {
+  id: string;
+  name: string;
+}
+
+interface CouponValidationRow {
+  is_valid: boolean;
+  offer_id: string | null;
+  discount_amount: number;
+  line_discounts: { key: string; amount: number }[];
+  error_message: string | null;
+}
+
+export class CouponService {
+  /**
+   * Cart items as coupon lines; the scheduled date and time drive weekday and time window rules
+   */
+  toCouponLines(items: CartItem[]): CouponLineInput[] {
+    return items.map(item => ({
+      key: item.id,
+      service_id: item.serviceId,
+      quantity: item.quantity,
+      date: item.date ?? item.serviceDetails?.date,
+      time: item.time ?? item.serviceDetails?.time
+    }));
+  }
+
+  /**
+   * Check a coupon against the cart. Only the lines the coupon covers are discounted.
+   */
+  async validateForCart(code: string, customerId: string | null, lines: CouponLineInput[]): Promise<CouponValidation> {
+    const { data, error } = await supabase.rpc('validate_coupon_for_cart', {
+      p_coupon_code: code.toUpperCase(),
+      p_customer_id: customerId,
+      p_lines: lines as unknown as Json
+    });
+
+    if (error) throw error;
+
+    const [result] = (data || []) as unknown as CouponValidationRow[];
+    if (!result) {
+      return { isValid: false, offerId: null, discountAmount: 0, lineDiscounts: {}, errorMessage: 'Invalid coupon code' };
+    }
+
+    return {
+      isValid: result.is_valid,
+      offerId: result.offer_id,
+      discountAmount: Number(result.discount_amount),
+      lineDiscounts: Object.fromEntries(
+        (result.line_discounts || []).map(line => [line.key, Number(line.amount)])
+      ),
+      errorMessage: result.error_message
+    };
+  }
+
+  async getOffers(): Promise<SpecialOffer[]> {
+    const { data, error } = await supabase
+      .from('special_offers')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createOffer(offer: TablesInsert<'special_offers'>): Promise<void> {
+    const { error } = await supabase
+      .from('special_offers')
+      .insert(offer);
+
+    if (error) throw error;
+  }
+
+  async updateOffer(offerId: string, updates: TablesUpdate<'special_offers'>): Promise<void> {
+    const { error } = await supabase
+      .from('special_offers')
+      .update(updates)
+      .eq('id', offerId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Providers a coupon can be limited to, by profile id as stored on provider_services
+   */
+  async getProviderOptions(): Promise<ProviderOption[]> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id, business_name, full_name')
+      .eq('role', 'provider')
+      .order('business_name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(provider => ({
+      id: provider.id,
+      name: provider.business_name || provider.full_name || 'Unnamed provider'
+    }));
+  }
+
+  async deleteOffer(offerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('special_offers')
+      .delete()
+      .eq('id', offerId);
+
+    if (error) throw error;
+  }
+}
+
+export const couponService = new CouponService();
+export default couponService;
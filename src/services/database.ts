@@ -12,6 +12,7 @@ import type {
   Location, 
   UserProfile
 } from '@/types/database';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
 
 // Additional types for locations
 export interface CreateLocationData {
@@ -26,6 +27,41 @@ export interface CreateLocationData {
   is_active?: boolean;
 }
 
+// Additional types for favorites
+export type FavoriteType = 'provider' | 'service';
+
+export type CustomerFavorite = Tables<'customer_favorites'>;
+
+export interface FavoriteInput {
+  type: FavoriteType;
+  /** provider_services.id for a service, user_profiles.id for a provider */
+  itemId: string;
+  /** Provider offering a favorited service */
+  providerId?: string;
+  providerName: string;
+  serviceName?: string;
+  category?: string;
+  priceRange?: string;
+  location?: string;
+  rating?: number;
+}
+
+// Matches the generated favorite_key column
+export const getFavoriteKey = (type: FavoriteType, itemId: string) => `${type}:${itemId}`;
+
+const toFavoriteRow = (customerId: string, input: FavoriteInput): TablesInsert<'customer_favorites'> => ({
+  customer_id: customerId,
+  favorite_type: input.type,
+  provider_id: input.type === 'provider' ? input.itemId : input.providerId || null,
+  service_id: input.type === 'service' ? input.itemId : null,
+  provider_name: input.providerName,
+  service_name: input.serviceName || null,
+  category: input.category || null,
+  price_range: input.priceRange || null,
+  location: input.location || null,
+  rating: input.rating ?? null
+});
+
 // Categories Service
 export const categoriesService = {
   // Get all categories
@@ -420,6 +456,58 @@ export const providerServicesService = {
   }
 };
 
+// Customer Favorites Service
+export const favoritesService = {
+  // Get a customer's favorites, newest first
+  async getAll(customerId: string): Promise<CustomerFavorite[]> {
+    const { data, error } = await supabase
+      .from('customer_favorites')
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Save a favorite; saving one that already exists refreshes its details
+  async add(customerId: string, input: FavoriteInput): Promise<CustomerFavorite> {
+    const { data, error } = await supabase
+      .from('customer_favorites')
+      .upsert(toFavoriteRow(customerId, input), { onConflict: 'customer_id,favorite_key' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Remove a favorite by the provider or service it points at
+  async remove(customerId: string, type: FavoriteType, itemId: string): Promise<void> {
+    const { error } = await supabase
+      .from('customer_favorites')
+      .delete()
+      .eq('customer_id', customerId)
+      .eq('favorite_key', getFavoriteKey(type, itemId));
+
+    if (error) throw error;
+  },
+
+  // Merge favorites saved before signing in, keeping any the account already has
+  async merge(customerId: string, inputs: FavoriteInput[]): Promise<void> {
+    if (inputs.length === 0) return;
+
+    const { error } = await supabase
+      .from('customer_favorites')
+      .upsert(inputs.map(input => toFavoriteRow(customerId, input)), {
+        onConflict: 'customer_id,favorite_key',
+        ignoreDuplicates: true
+      });
+
+    if (error) throw error;
+  }
+};
+
 // Database health check
 export const databaseService = {
   async healthCheck(): Promise<{ connected: boolean; tablesAccessible: string[]; errors: string[] }> {
@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+
+export interface FeeLineInput {
+  key: string;
+  service_id?: string;
+  subcategory_id?: string;
+  amount: number;
+}
+
+export interface LineFee {
+  line_key: string;
+  platform_fee_id: string;
+  description: string;
+  fee_type: string;
+  fee_value: number;
+  fee_amount: number;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export class FeeService {
+  /**
+   * Every fee rule that applies to each line, in the order the rules were applied
+   */
+  async evaluateFees(lines: FeeLineInput[]): Promise<LineFee[]> {
+    if (lines.length === 0) return [];
+
+    const { data, error } = await supabase.rpc('evaluate_platform_fees', {
+      p_lines: lines as unknown as Json
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as unknown as LineFee[]).map(fee => ({
+      ...fee,
+      fee_value: Number(fee.fee_value),
+      fee_amount: Number(fee.fee_amount)
+    }));
+  }
+
+  /**
+   * Take each line's share of the coupon discount off its amount.
+   * Must stay in step with the checkout pricing so both sides charge the same fees.
+   */
+  applyDiscount<T extends { key: string; amount: number }>(lines: T[], lineDiscounts: Record<string, number>): T[] {
+    return lines.map(line => ({
+      ...line,
+      amount: roundCurrency(Math.max(0, line.amount - (lineDiscounts[line.key] || 0)))
+    }));
+  }
+
+  /**
+   * Fees grouped by line key
+   */
+  groupByLine(fees: LineFee[]): Map<string, LineFee[]> {
+    const grouped = new Map<string, LineFee[]>();
+    fees.forEach(fee => {
+      grouped.set(fee.line_key, [...(grouped.get(fee.line_key) || []), fee]);
+    });
+    return grouped;
+  }
+
+  totalFees(fees: LineFee[]): number {
+    return roundCurrency(fees.reduce((sum, fee) => sum + fee.fee_amount, 0));
+  }
+}
+
+export const feeService = new FeeService();
+export default feeService;
@@ -4,7 +4,11 @@ import { CartItem } from '@/types/cart';
 interface PaymentResult {
   success: boolean;
   error?: string;
+  // Machine-readable error from the edge function, e.g. TOTAL_MISMATCH or INVALID_COUPON
+  errorCode?: string;
   orderId?: string;
+  // True when Stripe reports the session paid but the webhook has not created the order yet
+  orderPending?: boolean;
 }
 
 interface CreateCheckoutRequest {
@@ -18,14 +22,49 @@ interface CreateCheckoutRequest {
     address: string;
     instructions?: string;
   };
+  couponCode?: string;
+  // Province used for tax when the customer has none on their profile
+  taxRegion?: string;
   metadata?: Record<string, string>;
 }
 
+export interface CheckoutTotals {
+  subtotal: number;
+  discountAmount: number;
+  platformFee: number;
+  taxAmount: number;
+  total: number;
+  totalCents: number;
+}
+
+export interface RefundQuote {
+  tier: 'full' | 'partial' | 'none';
+  refundPercentage: number;
+  refundAmount: number;
+  hoursUntilStart: number;
+  policy: {
+    name: string;
+    full_refund_hours: number;
+    partial_refund_percentage: number;
+  };
+}
+
+/**
+ * Read the JSON body of a non-2xx edge function response, if there is one
+ */
+const readFunctionErrorBody = async (error: { context?: Response }) => {
+  try {
+    return await error.context?.json();
+  } catch {
+    return null;
+  }
+};
+
 export class PaymentService {
   /**
    * Create a Stripe Checkout session for one-time payments
    */
-  async createCheckoutSession(request: CreateCheckoutRequest): Promise<PaymentResult & { url?: string }> {
+  async createCheckoutSession(request: CreateCheckoutRequest): Promise<PaymentResult & { url?: string; expectedTotals?: CheckoutTotals }> {
     try {
       console.log('🔄 Creating checkout session...', request);
 
@@ -34,6 +73,8 @@ export class PaymentService {
           amount: request.amount,
           currency: request.currency || 'usd',
           cartItems: request.cartItems,
+          couponCode: request.couponCode,
+          taxRegion: request.taxRegion,
           guestInfo: request.guestInfo,
           metadata: request.metadata || {},
         },
@@ -41,9 +82,12 @@ export class PaymentService {
 
       if (error) {
         console.error('❌ Checkout session error:', error);
+        const body = await readFunctionErrorBody(error);
         return {
           success: false,
-          error: error.message || 'Failed to create checkout session',
+          error: body?.error || error.message || 'Failed to create checkout session',
+          errorCode: body?.code,
+          expectedTotals: body?.expected,
         };
       }
 
@@ -69,7 +113,7 @@ export class PaymentService {
   }
 
   /**
-   * Verify payment status after checkout
+   * Look up payment and order status after checkout (orders are created by the stripe-webhook function)
    */
   async verifyPayment(sessionId: string): Promise<PaymentResult> {
     try {
@@ -91,6 +135,7 @@ export class PaymentService {
       return {
         success: data?.success || false,
         orderId: data?.orderId,
+        orderPending: data?.orderPending || false,
         error: data?.error,
       };
     } catch (error: any) {
@@ -101,6 +146,54 @@ export class PaymentService {
       };
     }
   }
+
+  /**
+   * Cancel an order under the active cancellation policy, refunding through Stripe.
+   * With `bookingIds`, only those bookings are cancelled (e.g. visits of a recurring series).
+   * With `preview`, only returns the refund the customer would get.
+   * With `decline`, the bookings' provider turns them down and they are refunded in full.
+   */
+  async cancelOrder(
+    orderId: string,
+    options: { reason?: string; preview?: boolean; bookingIds?: string[]; decline?: boolean } = {}
+  ): Promise<PaymentResult & { refund?: RefundQuote }> {
+    try {
+      console.log(options.preview ? '🔍 Quoting cancellation for order:' : '🚫 Cancelling order:', orderId);
+
+      const { data, error } = await supabase.functions.invoke('cancel-order', {
+        body: {
+          orderId,
+          bookingIds: options.bookingIds,
+          reason: options.reason,
+          preview: options.preview || false,
+          decline: options.decline || false,
+        },
+      });
+
+      if (error) {
+        console.error('❌ Cancel order error:', error);
+        const body = await readFunctionErrorBody(error);
+        return {
+          success: false,
+          error: body?.error || error.message || 'Failed to cancel order',
+          errorCode: body?.code,
+        };
+      }
+
+      return {
+        success: data?.success || false,
+        orderId,
+        refund: data?.refund,
+        error: data?.error,
+      };
+    } catch (error) {
+      console.error('💥 Cancel order error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unexpected error occurred',
+      };
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,198 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { downloadCsv } from '@/utils/csvExport';
+
+export type ProviderPayout = Tables<'provider_payouts'>;
+export type PayoutStatus = 'pending' | 'processing' | 'paid' | 'failed';
+
+interface PayoutResult {
+  success: boolean;
+  message: string;
+}
+
+export interface SettlementStatement {
+  payout: ProviderPayout;
+  providerName: string;
+  entries: Tables<'provider_earnings'>[];
+}
+
+const formatAmount = (amount: number | string) => Number(amount).toFixed(2);
+
+const escapeHtml = (value: string | null | undefined) =>
+  (value ?? '').replace(/[&<>"']/g, char => ({
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+  }[char] as string));
+
+export class PayoutService {
+  /**
+   * Group every provider's available balance for the period into payout batches
+   */
+  async createBatches(periodStart: string, periodEnd: string): Promise<PayoutResult> {
+    const { data, error } = await supabase.rpc('create_provider_payout_batches', {
+      p_period_start: periodStart,
+      p_period_end: periodEnd
+    });
+
+    if (error) {
+      console.error('❌ Failed to create payout batches:', error);
+      return { success: false, message: error.message };
+    }
+
+    return data as unknown as PayoutResult;
+  }
+
+  /**
+   * Move a payout to processing, paid or failed
+   */
+  async updateStatus(
+    payoutId: string,
+    status: PayoutStatus,
+    options: { referenceNumber?: string; failureReason?: string } = {}
+  ): Promise<PayoutResult> {
+    const { data, error } = await supabase.rpc('update_provider_payout_status', {
+      p_payout_id: payoutId,
+      p_status: status,
+      p_reference_number: options.referenceNumber,
+      p_failure_reason: options.failureReason
+    });
+
+    if (error) {
+      console.error('❌ Failed to update payout status:', error);
+      return { success: false, message: error.message };
+    }
+
+    return data as unknown as PayoutResult;
+  }
+
+  /**
+   * Load a payout with its ledger entries and provider name
+   */
+  async getStatement(payoutId: string): Promise<SettlementStatement> {
+    const { data: payout, error: payoutError } = await supabase
+      .from('provider_payouts')
+      .select('*')
+      .eq('id', payoutId)
+      .single();
+
+    if (payoutError) throw payoutError;
+
+    const [{ data: entries, error: entriesError }, { data: provider }] = await Promise.all([
+      supabase
+        .from('provider_earnings')
+        .select('*')
+        .eq('payout_id', payoutId)
+        .order('available_at', { ascending: true }),
+      supabase
+        .from('user_profiles')
+        .select('business_name, full_name')
+        .eq('id', payout.provider_id)
+        .maybeSingle()
+    ]);
+
+    if (entriesError) throw entriesError;
+
+    return {
+      payout,
+      providerName: provider?.business_name || provider?.full_name || 'Provider',
+      entries: entries || []
+    };
+  }
+
+  /**
+   * Download a payout's settlement statement as CSV
+   */
+  downloadStatementCsv({ payout, providerName, entries }: SettlementStatement) {
+    const rows = entries.map(entry => [
+      entry.service_date,
+      entry.service_name,
+      entry.customer_name,
+      formatAmount(entry.gross_amount),
+      formatAmount(entry.commission_amount),
+      formatAmount(entry.net_amount)
+    ]);
+
+    rows.push(
+      [],
+      ['Total', '', '', formatAmount(payout.gross_amount), formatAmount(payout.commission_amount), formatAmount(payout.net_amount)],
+      ['Provider', providerName],
+      ['Period', `${payout.period_start} to ${payout.period_end}`],
+      ['Status', payout.status],
+      ['Reference', payout.reference_number]
+    );
+
+    downloadCsv(
+      `settlement-${payout.period_start}-${payout.period_end}-${payout.id.slice(0, 8)}.csv`,
+      ['Service Date', 'Service', 'Customer', 'Gross', 'Commission', 'Net'],
+      rows
+    );
+  }
+
+  /**
+   * Open a printable HTML settlement statement in a new window
+   */
+  openPrintableStatement({ payout, providerName, entries }: SettlementStatement) {
+    const rows = entries.map(entry => `
+      <tr>
+        <td>${escapeHtml(entry.service_date)}</td>
+        <td>${escapeHtml(entry.service_name)}</td>
+        <td>${escapeHtml(entry.customer_name)}</td>
+        <td class="num">$${formatAmount(entry.gross_amount)}</td>
+        <td class="num">$${formatAmount(entry.commission_amount)}</td>
+        <td class="num">$${formatAmount(entry.net_amount)}</td>
+      </tr>`).join('');
+
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Settlement Statement - ${escapeHtml(providerName)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #111827; margin: 40px; }
+    h1 { font-size: 24px; margin-bottom: 4px; }
+    .meta { color: #4b5563; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border-bottom: 1px solid #e5e7eb; padding: 8px; text-align: left; font-size: 14px; }
+    th { background: #f9fafb; }
+    .num { text-align: right; }
+    tfoot td { font-weight: bold; border-top: 2px solid #111827; }
+  </style>
+</head>
+<body>
+  <h1>Settlement Statement</h1>
+  <div class="meta">
+    <div><strong>Provider:</strong> ${escapeHtml(providerName)}</div>
+    <div><strong>Period:</strong> ${escapeHtml(payout.period_start)} to ${escapeHtml(payout.period_end)}</div>
+    <div><strong>Status:</strong> ${escapeHtml(payout.status)}</div>
+    <div><strong>Reference:</strong> ${escapeHtml(payout.reference_number) || '-'}</div>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Service Date</th><th>Service</th><th>Customer</th>
+        <th class="num">Gross</th><th class="num">Commission</th><th class="num">Net</th>
+      </tr>
+    </thead>
+    <tbody>${rows}</tbody>
+    <tfoot>
+      <tr>
+        <td colspan="3">Total (${payout.entry_count} jobs)</td>
+        <td class="num">$${formatAmount(payout.gross_amount)}</td>
+        <td class="num">$${formatAmount(payout.commission_amount)}</td>
+        <td class="num">$${formatAmount(payout.net_amount)}</td>
+      </tr>
+    </tfoot>
+  </table>
+  <script>window.onload = () => window.print();</script>
+</body>
+</html>`;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Allow pop-ups to open the printable statement');
+    }
+    printWindow.document.write(html);
+    printWindow.document.close();
+  }
+}
+
+export const payoutService = new PayoutService();
+export default payoutService;
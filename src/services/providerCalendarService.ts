@@ -0,0 +1,53 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type CalendarSlotState = 'available' | 'held' | 'booked' | 'blocked';
+
+export type CalendarEntry = Database['public']['Functions']['get_provider_calendar']['Returns'][number];
+
+export interface BlockResult {
+  success: boolean;
+  message: string;
+  changed: number;
+}
+
+export const SLOT_STATE_LABELS: Record<CalendarSlotState, string> = {
+  available: 'Available',
+  held: 'Held',
+  booked: 'Booked',
+  blocked: 'Blocked',
+};
+
+export class ProviderCalendarService {
+  /**
+   * Every slot and booking between two dates (inclusive, yyyy-MM-dd). Upcoming
+   * working days get their slots generated first.
+   */
+  async getCalendar(providerId: string, startDate: string, endDate: string): Promise<CalendarEntry[]> {
+    const { data, error } = await supabase.rpc('get_provider_calendar', {
+      p_provider_id: providerId,
+      p_start_date: startDate,
+      p_end_date: endDate
+    });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Block free slots, or unblock slots blocked by hand. Slots a customer holds
+   * or has booked are skipped.
+   */
+  async setBlocked(slotIds: string[], blocked: boolean): Promise<BlockResult> {
+    const { data, error } = await supabase.rpc('set_slots_blocked', {
+      p_slot_ids: slotIds,
+      p_blocked: blocked
+    });
+
+    if (error) throw error;
+    return data as unknown as BlockResult;
+  }
+}
+
+export const providerCalendarService = new ProviderCalendarService();
+export default providerCalendarService;
@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesUpdate } from '@/integrations/supabase/types';
+
+export type NotificationPreferences = Tables<'notification_preferences'>;
+export type NotificationPreferencesUpdate = Pick<
+  TablesUpdate<'notification_preferences'>,
+  'reminder_24h_enabled' | 'reminder_1h_enabled' | 'review_request_enabled' | 'in_app_enabled' | 'email_enabled' | 'sms_enabled'
+>;
+
+export interface ReminderRunResult {
+  success: boolean;
+  sent: number;
+  failed: number;
+  skipped: number;
+  availabilityReminders: number;
+}
+
+/** Matches the column defaults, for users who have never saved preferences */
+export const DEFAULT_NOTIFICATION_PREFERENCES: Required<NotificationPreferencesUpdate> = {
+  reminder_24h_enabled: true,
+  reminder_1h_enabled: true,
+  review_request_enabled: true,
+  in_app_enabled: true,
+  email_enabled: true,
+  sms_enabled: false,
+};
+
+export class ReminderService {
+  async getPreferences(userId: string): Promise<NotificationPreferences | null> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updatePreferences(userId: string, preferences: NotificationPreferencesUpdate): Promise<NotificationPreferences> {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: userId, ...preferences }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Run the scheduled reminder job now. Admin only; the job also runs every
+   * five minutes on its own.
+   */
+  async runNow(): Promise<ReminderRunResult> {
+    const { data, error } = await supabase.functions.invoke('booking-reminders', { body: {} });
+
+    if (error) throw error;
+    return data as ReminderRunResult;
+  }
+}
+
+export const reminderService = new ReminderService();
+export default reminderService;
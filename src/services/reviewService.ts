@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Review = Tables<'reviews'>;
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+export type FeaturedReview = Review & { service_name: string | null };
+
+interface ReviewResult {
+  success: boolean;
+  message: string;
+}
+
+export class ReviewService {
+  /**
+   * Leave a star rating and optional comment for a completed booking
+   */
+  async submitReview(bookingId: string, rating: number, comment?: string): Promise<ReviewResult> {
+    const { data, error } = await supabase.rpc('submit_review', {
+      p_booking_id: bookingId,
+      p_rating: rating,
+      p_comment: comment
+    });
+
+    if (error) {
+      console.error('❌ Failed to submit review:', error);
+      return { success: false, message: error.message };
+    }
+
+    return data as unknown as ReviewResult;
+  }
+
+  /**
+   * Post the provider's one reply to a review about them
+   */
+  async replyToReview(reviewId: string, reply: string): Promise<ReviewResult> {
+    const { data, error } = await supabase.rpc('reply_to_review', {
+      p_review_id: reviewId,
+      p_reply: reply
+    });
+
+    if (error) {
+      console.error('❌ Failed to reply to review:', error);
+      return { success: false, message: error.message };
+    }
+
+    return data as unknown as ReviewResult;
+  }
+
+  /**
+   * Approve or reject a review (admins only)
+   */
+  async moderateReview(reviewId: string, status: ReviewStatus, note?: string): Promise<ReviewResult> {
+    const { data, error } = await supabase.rpc('moderate_review', {
+      p_review_id: reviewId,
+      p_status: status,
+      p_note: note
+    });
+
+    if (error) {
+      console.error('❌ Failed to moderate review:', error);
+      return { success: false, message: error.message };
+    }
+
+    return data as unknown as ReviewResult;
+  }
+
+  /**
+   * Reviews the signed-in customer left on an order's bookings
+   */
+  async getOrderReviews(orderId: string): Promise<Review[]> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('order_id', orderId);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Every review about a provider, newest first; RLS limits non-owners to approved ones
+   */
+  async getProviderReviews(providerId: string): Promise<Review[]> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('provider_id', providerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Highest rated approved reviews that have a written comment
+   */
+  async getFeaturedReviews(limit = 4): Promise<FeaturedReview[]> {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('status', 'approved')
+      .not('comment', 'is', null)
+      .gte('rating', 4)
+      .order('rating', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    const serviceIds = [...new Set((data || []).map(review => review.service_id).filter((id): id is string => !!id))];
+    const serviceNames: Record<string, string> = {};
+    if (serviceIds.length > 0) {
+      const { data: services } = await supabase
+        .from('provider_services')
+        .select('id, service_name')
+        .in('id', serviceIds);
+
+      services?.forEach(service => { serviceNames[service.id] = service.service_name; });
+    }
+
+    return (data || []).map(review => ({
+      ...review,
+      service_name: review.service_id ? serviceNames[review.service_id] ?? null : null
+    }));
+  }
+}
+
+export const reviewService = new ReviewService();
+export default reviewService;
@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type SearchResultType = 'category' | 'subcategory' | 'service';
+
+export interface SearchFilters {
+  categoryId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+}
+
+export interface SearchResult {
+  result_type: SearchResultType;
+  id: string;
+  name: string;
+  description: string | null;
+  category_id: string;
+  category_name: string;
+  subcategory_id: string | null;
+  subcategory_name: string | null;
+  provider_name: string | null;
+  price: number | null;
+  rating: number | null;
+  total_reviews: number | null;
+  image_url: string | null;
+  rank: number;
+}
+
+export interface SearchSuggestion {
+  suggestion: string;
+  result_type: SearchResultType;
+  id: string;
+  category_id: string;
+}
+
+export class SearchService {
+  /**
+   * Ranked, typo tolerant search across categories, subcategories and approved services
+   */
+  async search(query: string, filters: SearchFilters = {}, limit = 50): Promise<SearchResult[]> {
+    const { data, error } = await supabase.rpc('search_services', {
+      p_query: query,
+      p_category_id: filters.categoryId,
+      p_min_price: filters.minPrice,
+      p_max_price: filters.maxPrice,
+      p_min_rating: filters.minRating,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return (data || []) as unknown as SearchResult[];
+  }
+
+  /**
+   * Autocomplete suggestions for a partially typed query
+   */
+  async suggest(query: string, limit = 8): Promise<SearchSuggestion[]> {
+    if (query.trim().length < 2) return [];
+
+    const { data, error } = await supabase.rpc('search_suggestions', {
+      p_query: query,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return (data || []) as unknown as SearchSuggestion[];
+  }
+
+  /**
+   * Where a result leads: categories to their subcategories, everything else to the subcategory's services
+   */
+  getResultPath(result: Pick<SearchResult, 'result_type' | 'category_id' | 'subcategory_id'>): string {
+    if (result.result_type === 'category' || !result.subcategory_id) {
+      return `/services/${result.category_id}`;
+    }
+    return `/services/${result.category_id}/${result.subcategory_id}`;
+  }
+
+  /**
+   * Where picking a suggestion leads; services have no page of their own so they open the results page
+   */
+  getSuggestionPath(suggestion: SearchSuggestion): string {
+    switch (suggestion.result_type) {
+      case 'category':
+        return `/services/${suggestion.id}`;
+      case 'subcategory':
+        return `/services/${suggestion.category_id}/${suggestion.id}`;
+      default:
+        return `/search?q=${encodeURIComponent(suggestion.suggestion)}`;
+    }
+  }
+}
+
+export const searchService = new SearchService();
+export default searchService;
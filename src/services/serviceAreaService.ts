@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { CustomerLocation } from '@/hooks/useCustomerLocation';
+import { normalizePostalCode } from '@/utils/geo';
+
+export type ServiceAreaType = 'radius' | 'postal_codes';
+
+export type ServiceArea = Tables<'provider_service_areas'> & {
+  locations: Pick<Tables<'locations'>, 'name' | 'city' | 'state'> | null;
+};
+
+export interface NewServiceArea {
+  area_type: ServiceAreaType;
+  location_id?: string;
+  radius_km?: number;
+  postal_codes?: string[];
+}
+
+export interface ProviderMatch {
+  provider_id: string;
+  serves_location: boolean;
+  distance_km: number | null;
+  has_service_areas: boolean;
+}
+
+export class ServiceAreaService {
+  /**
+   * A provider's service areas with the name of the location radius areas are centred on
+   */
+  async getServiceAreas(providerId: string): Promise<ServiceArea[]> {
+    const { data, error } = await supabase
+      .from('provider_service_areas')
+      .select('*, locations(name, city, state)')
+      .eq('provider_id', providerId)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data || []) as ServiceArea[];
+  }
+
+  async addServiceArea(providerId: string, area: NewServiceArea): Promise<void> {
+    const { error } = await supabase
+      .from('provider_service_areas')
+      .insert({
+        provider_id: providerId,
+        area_type: area.area_type,
+        location_id: area.area_type === 'radius' ? area.location_id : null,
+        radius_km: area.area_type === 'radius' ? area.radius_km : null,
+        postal_codes: area.area_type === 'postal_codes'
+          ? [...new Set((area.postal_codes || []).map(normalizePostalCode).filter(Boolean))]
+          : []
+      });
+
+    if (error) throw error;
+  }
+
+  async setServiceAreaActive(areaId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('provider_service_areas')
+      .update({ is_active: isActive })
+      .eq('id', areaId);
+
+    if (error) throw error;
+  }
+
+  async deleteServiceArea(areaId: string): Promise<void> {
+    const { error } = await supabase
+      .from('provider_service_areas')
+      .delete()
+      .eq('id', areaId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Whether each provider serves the customer's location and how far away they are
+   */
+  async matchProviders(providerIds: string[], location: CustomerLocation): Promise<Map<string, ProviderMatch>> {
+    if (providerIds.length === 0) return new Map();
+
+    const { data, error } = await supabase.rpc('match_providers_for_location', {
+      p_provider_ids: providerIds,
+      p_latitude: location.latitude,
+      p_longitude: location.longitude,
+      p_postal_code: location.postalCode
+    });
+
+    if (error) throw error;
+
+    const matches = (data || []) as unknown as ProviderMatch[];
+    return new Map(matches.map(match => [match.provider_id, match]));
+  }
+}
+
+export const serviceAreaService = new ServiceAreaService();
+export default serviceAreaService;
@@ -17,15 +17,24 @@ interface BookingSlot {
   created_at: string;
 }
 
+interface RescheduleResult {
+  success: boolean;
+  message: string;
+  slot_date?: string;
+  slot_time?: string;
+}
+
 interface SlotBookingService {
-  getAvailableSlots(providerId: string, serviceId: string, date: string): Promise<BookingSlot[]>;
+  getAvailableSlots(providerId: string, serviceId: string | null, date: string): Promise<BookingSlot[]>;
+  getAvailableServiceSlots(providerId: string, serviceIds: string[], date: string): Promise<BookingSlot[]>;
   holdSlot(slotId: string, userId: string): Promise<boolean>;
   confirmSlotBooking(slotId: string, userId: string, bookingId: string): Promise<boolean>;
   releaseSlot(slotId: string, userId: string): Promise<boolean>;
+  rescheduleBooking(bookingId: string, newSlotId: string, reason?: string): Promise<RescheduleResult>;
 }
 
 class SlotBookingServiceImpl implements SlotBookingService {
-  async getAvailableSlots(providerId: string, serviceId: string, date: string): Promise<BookingSlot[]> {
+  async getAvailableSlots(providerId: string, serviceId: string | null, date: string): Promise<BookingSlot[]> {
     try {
       // Use raw SQL query to avoid type issues
       const { data, error } = await supabase.rpc('get_available_slots', {
@@ -46,6 +55,27 @@ class SlotBookingServiceImpl implements SlotBookingService {
     }
   }
 
+  async getAvailableServiceSlots(providerId: string, serviceIds: string[], date: string): Promise<BookingSlot[]> {
+    try {
+      // Only start times the whole visit, buffer included, fits after
+      const { data, error } = await supabase.rpc('get_available_service_slots', {
+        p_provider_id: providerId,
+        p_date: date,
+        p_service_ids: serviceIds
+      });
+
+      if (error) {
+        console.error('Error fetching available service slots:', error);
+        throw error;
+      }
+
+      return (data || []) as BookingSlot[];
+    } catch (error) {
+      console.error('Error in getAvailableServiceSlots:', error);
+      return [];
+    }
+  }
+
   async holdSlot(slotId: string, userId: string): Promise<boolean> {
     try {
       const { data, error } = await supabase.rpc('hold_slot', {
@@ -105,7 +135,31 @@ class SlotBookingServiceImpl implements SlotBookingService {
       return false;
     }
   }
+
+  async rescheduleBooking(bookingId: string, newSlotId: string, reason?: string): Promise<RescheduleResult> {
+    try {
+      // Takes the new slot, frees the old one and records the move in one transaction
+      const { data, error } = await supabase.rpc('reschedule_booking', {
+        p_booking_id: bookingId,
+        p_new_slot_id: newSlotId,
+        p_reason: reason
+      });
+
+      if (error) {
+        console.error('Error rescheduling booking:', error);
+        throw error;
+      }
+
+      return data as unknown as RescheduleResult;
+    } catch (error) {
+      console.error('Error in rescheduleBooking:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to reschedule booking'
+      };
+    }
+  }
 }
 
 export const slotBookingService = new SlotBookingServiceImpl();
-export type { BookingSlot };
\ No newline at end of file
+export type { BookingSlot, RescheduleResult };
\ No newline at end of file
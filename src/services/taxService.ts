@@ -0,0 +1,167 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+export interface TaxLineInput {
+  key: string;
+  service_id?: string;
+  subcategory_id?: string;
+  /** The line's share of the discounted subtotal plus its platform fees */
+  amount: number;
+}
+
+export interface LineTax {
+  line_key: string;
+  jurisdiction_id: string | null;
+  tax_component_id: string | null;
+  tax_slab_id: string | null;
+  tax_name: string;
+  rate: number;
+  is_compound: boolean;
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface TaxComponentTotal {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export type TaxJurisdiction = Tables<'tax_jurisdictions'> & {
+  tax_components: Tables<'tax_components'>[];
+};
+
+export type TaxExemption = Tables<'tax_category_exemptions'> & {
+  categories: Pick<Tables<'categories'>, 'name'> | null;
+  tax_jurisdictions: Pick<Tables<'tax_jurisdictions'>, 'region_code'> | null;
+  tax_components: Pick<Tables<'tax_components'>, 'name'> | null;
+};
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export class TaxService {
+  /**
+   * Every tax component charged on each line in the given province. Without a
+   * matching jurisdiction the active tax slab for the cart total is used instead.
+   */
+  async calculateTaxes(region: string | null, lines: TaxLineInput[]): Promise<LineTax[]> {
+    if (lines.length === 0) return [];
+
+    const { data, error } = await supabase.rpc('calculate_line_taxes', {
+      p_region: region ?? '',
+      p_lines: lines as unknown as Json
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as unknown as LineTax[]).map(tax => ({
+      ...tax,
+      rate: Number(tax.rate),
+      taxable_amount: Number(tax.taxable_amount),
+      tax_amount: Number(tax.tax_amount)
+    }));
+  }
+
+  /**
+   * Line taxes summed by component, in the order they were charged
+   */
+  totalsByComponent(taxes: LineTax[]): TaxComponentTotal[] {
+    const totals = new Map<string, TaxComponentTotal>();
+    taxes.forEach(tax => {
+      const key = `${tax.tax_name}:${tax.rate}`;
+      const existing = totals.get(key);
+      totals.set(key, {
+        name: tax.tax_name,
+        rate: tax.rate,
+        amount: roundCurrency((existing?.amount || 0) + tax.tax_amount)
+      });
+    });
+    return Array.from(totals.values());
+  }
+
+  totalTax(taxes: LineTax[]): number {
+    return roundCurrency(taxes.reduce((sum, tax) => sum + tax.tax_amount, 0));
+  }
+
+  /**
+   * Jurisdictions with their components. Customers only see active ones; admins see all.
+   */
+  async getJurisdictions(): Promise<TaxJurisdiction[]> {
+    const { data, error } = await supabase
+      .from('tax_jurisdictions')
+      .select('*, tax_components(*)')
+      .order('region_name');
+
+    if (error) throw error;
+
+    return ((data || []) as TaxJurisdiction[]).map(jurisdiction => ({
+      ...jurisdiction,
+      tax_components: [...jurisdiction.tax_components].sort((a, b) => a.sort_order - b.sort_order)
+    }));
+  }
+
+  async setJurisdictionActive(jurisdictionId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('tax_jurisdictions')
+      .update({ is_active: isActive })
+      .eq('id', jurisdictionId);
+
+    if (error) throw error;
+  }
+
+  async addComponent(component: TablesInsert<'tax_components'>): Promise<void> {
+    const { error } = await supabase
+      .from('tax_components')
+      .insert(component);
+
+    if (error) throw error;
+  }
+
+  async updateComponent(componentId: string, updates: TablesUpdate<'tax_components'>): Promise<void> {
+    const { error } = await supabase
+      .from('tax_components')
+      .update(updates)
+      .eq('id', componentId);
+
+    if (error) throw error;
+  }
+
+  async deleteComponent(componentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('tax_components')
+      .delete()
+      .eq('id', componentId);
+
+    if (error) throw error;
+  }
+
+  async getExemptions(): Promise<TaxExemption[]> {
+    const { data, error } = await supabase
+      .from('tax_category_exemptions')
+      .select('*, categories(name), tax_jurisdictions(region_code), tax_components(name)')
+      .order('created_at');
+
+    if (error) throw error;
+    return (data || []) as TaxExemption[];
+  }
+
+  async addExemption(exemption: TablesInsert<'tax_category_exemptions'>): Promise<void> {
+    const { error } = await supabase
+      .from('tax_category_exemptions')
+      .insert(exemption);
+
+    if (error) throw error;
+  }
+
+  async deleteExemption(exemptionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('tax_category_exemptions')
+      .delete()
+      .eq('id', exemptionId);
+
+    if (error) throw error;
+  }
+}
+
+export const taxService = new TaxService();
+export default taxService;
@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type WaitlistEntry = Tables<'slot_waitlist'>;
+
+export interface WaitlistRequest {
+  providerId: string;
+  serviceId: string;
+  /** yyyy-MM-dd */
+  date: string;
+  /** Optional window for the slot's start time, as HH:mm */
+  windowStart?: string;
+  windowEnd?: string;
+}
+
+export interface WaitlistResult {
+  success: boolean;
+  message: string;
+  waitlistId?: string;
+}
+
+export interface WaitlistOffer {
+  slotId: string;
+  slotDate: string;
+  slotTime: string;
+  holdExpiresAt: string | null;
+}
+
+export interface CustomerWaitlistEntry extends WaitlistEntry {
+  service: Pick<Tables<'provider_services'>, 'id' | 'service_name' | 'price' | 'duration_minutes'> | null;
+  offer: WaitlistOffer | null;
+}
+
+export class WaitlistService {
+  /**
+   * Join the waitlist for a provider's day. Joining twice returns the existing entry.
+   */
+  async joinWaitlist(request: WaitlistRequest): Promise<WaitlistResult> {
+    const { data, error } = await supabase.rpc('join_waitlist', {
+      p_provider_id: request.providerId,
+      p_service_id: request.serviceId,
+      p_date: request.date,
+      p_window_start: request.windowStart || undefined,
+      p_window_end: request.windowEnd || undefined
+    });
+
+    if (error) throw error;
+
+    const result = data as unknown as { success: boolean; message: string; waitlist_id?: string };
+    return { success: result.success, message: result.message, waitlistId: result.waitlist_id };
+  }
+
+  /**
+   * The customer's open entries, with the service and any slot currently held for them
+   */
+  async getCustomerWaitlist(customerId: string): Promise<CustomerWaitlistEntry[]> {
+    const { data: entries, error } = await supabase
+      .from('slot_waitlist')
+      .select('*')
+      .eq('customer_id', customerId)
+      .in('status', ['waiting', 'offered'])
+      .order('waitlist_date');
+
+    if (error) throw error;
+    if (!entries?.length) return [];
+
+    const serviceIds = [...new Set(entries.map(entry => entry.service_id))];
+    const slotIds = entries.map(entry => entry.offered_slot_id).filter((id): id is string => !!id);
+
+    const [{ data: services, error: servicesError }, { data: slots, error: slotsError }] = await Promise.all([
+      supabase.from('provider_services').select('id, service_name, price, duration_minutes').in('id', serviceIds),
+      slotIds.length
+        ? supabase.from('booking_slots').select('id, slot_date, slot_time, hold_expires_at').in('id', slotIds)
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (servicesError) throw servicesError;
+    if (slotsError) throw slotsError;
+
+    return entries.map(entry => {
+      const slot = entry.status === 'offered' ? slots?.find(item => item.id === entry.offered_slot_id) : undefined;
+      return {
+        ...entry,
+        service: services?.find(service => service.id === entry.service_id) ?? null,
+        offer: slot
+          ? { slotId: slot.id, slotDate: slot.slot_date, slotTime: slot.slot_time, holdExpiresAt: slot.hold_expires_at }
+          : null
+      };
+    });
+  }
+
+  /**
+   * Leave the waitlist; a slot held for the customer is passed on to the next in line
+   */
+  async leaveWaitlist(waitlistId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('leave_waitlist', { p_waitlist_id: waitlistId });
+
+    if (error) throw error;
+    return data === true;
+  }
+}
+
+export const waitlistService = new WaitlistService();
+export default waitlistService;
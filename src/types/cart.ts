@@ -11,6 +11,7 @@ export interface CartItem {
   date?: string;
   time?: string;
   displayDate?: string;
+  slotId?: string;
 }
 
 export interface CartContextType {
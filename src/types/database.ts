@@ -295,7 +295,7 @@ export interface Database {
           service_id: string | null;
           booking_date: string;
           booking_time: string;
-          status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled';
+          status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled' | 'no_show';
           total_amount: number;
           payment_status: 'pending' | 'paid' | 'refunded';
           payment_intent_id: string | null;
@@ -311,7 +311,7 @@ export interface Database {
           service_id?: string | null;
           booking_date: string;
           booking_time: string;
-          status?: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled';
+          status?: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled' | 'no_show';
           total_amount: number;
           payment_status?: 'pending' | 'paid' | 'refunded';
           payment_intent_id?: string | null;
@@ -327,7 +327,7 @@ export interface Database {
           service_id?: string | null;
           booking_date?: string;
           booking_time?: string;
-          status?: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled';
+          status?: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'rescheduled' | 'no_show';
           total_amount?: number;
           payment_status?: 'pending' | 'paid' | 'refunded';
           payment_intent_id?: string | null;
@@ -0,0 +1,42 @@
+/**
+ * Utility functions for exporting tabular data as CSV downloads
+ */
+
+type CsvCell = string | number | null | undefined;
+
+/**
+ * Quote a cell when it contains a separator, quote or newline
+ * @param value - The cell value
+ */
+const escapeCsvCell = (value: CsvCell): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build CSV text from a header row and data rows
+ * @param headers - Column headings
+ * @param rows - Data rows, in the same column order as the headings
+ */
+export const toCsv = (headers: string[], rows: CsvCell[][]): string => {
+  return [headers, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\n');
+};
+
+/**
+ * Trigger a browser download of the given rows as a CSV file
+ * @param filename - Name of the downloaded file
+ * @param headers - Column headings
+ * @param rows - Data rows
+ */
+export const downloadCsv = (filename: string, headers: string[], rows: CsvCell[][]) => {
+  const blob = new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
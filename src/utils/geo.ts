@@ -0,0 +1,46 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Great circle distance between two points in kilometres
+ */
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Upper case without spaces, matching normalize_postal_code in the database
+ */
+export const normalizePostalCode = (postalCode: string): string =>
+  postalCode.replace(/\s/g, '').toUpperCase();
+
+/**
+ * The closest of a list of places that have coordinates, or null if none do
+ */
+export const findNearest = <T extends { latitude?: number | null; longitude?: number | null }>(
+  origin: Coordinates,
+  places: T[]
+): T | null => {
+  let nearest: T | null = null;
+  let nearestDistance = Infinity;
+
+  places.forEach(place => {
+    if (place.latitude == null || place.longitude == null) return;
+    const distance = distanceKm(origin, { latitude: place.latitude, longitude: place.longitude });
+    if (distance < nearestDistance) {
+      nearest = place;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+};
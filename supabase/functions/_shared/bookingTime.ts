@@ -0,0 +1,53 @@
+// Booking dates and times are stored as wall-clock times without a zone; this
+// is the zone they are in. Its offset moves with daylight saving time.
+export const BOOKING_TIME_ZONE = Deno.env.get("BOOKING_TIME_ZONE") ?? "America/Moncton";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const zoneFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: BOOKING_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+/**
+ * Minutes the booking time zone is ahead of UTC at the given instant,
+ * e.g. -180 for Atlantic Daylight Time
+ */
+export function zoneOffsetMinutes(date: Date): number {
+  const parts = Object.fromEntries(
+    zoneFormatter.formatToParts(date).map(part => [part.type, part.value])
+  );
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+/**
+ * The instant a booking starts. A time that happens twice when the clocks go
+ * back is the first of the two; one skipped when they go forward is moved an
+ * hour later, as calendar apps do.
+ */
+export function bookingStart(bookingDate: string, bookingTime: string): Date {
+  const wallClock = new Date(`${bookingDate}T${bookingTime}Z`).getTime();
+  if (isNaN(wallClock)) {
+    return new Date(NaN);
+  }
+
+  // The offset in effect is the one from before or after any change that day
+  const candidates = [wallClock - DAY_MS, wallClock + DAY_MS]
+    .map(time => wallClock - zoneOffsetMinutes(new Date(time)) * 60_000);
+  const start = candidates.find(time => time + zoneOffsetMinutes(new Date(time)) * 60_000 === wallClock);
+  return new Date(start ?? candidates[0]);
+}
@@ -0,0 +1,123 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface CancellationPolicy {
+  id: string | null;
+  name: string;
+  full_refund_hours: number;
+  partial_refund_percentage: number;
+}
+
+export interface RefundQuote {
+  tier: 'full' | 'partial' | 'none';
+  refundPercentage: number;
+  refundAmount: number;
+  refundCents: number;
+  hoursUntilStart: number;
+  policy: CancellationPolicy;
+}
+
+// Applies when no policy has been configured
+const DEFAULT_POLICY: CancellationPolicy = {
+  id: null,
+  name: 'Default',
+  full_refund_hours: 24,
+  partial_refund_percentage: 50,
+};
+
+// A provider declining a booking refunds it in full, however close to the start
+export const PROVIDER_DECLINE_POLICY: CancellationPolicy = {
+  id: null,
+  name: 'Declined by provider',
+  full_refund_hours: Number.NEGATIVE_INFINITY,
+  partial_refund_percentage: 100,
+};
+
+/**
+ * Load the newest active cancellation policy, falling back to the default
+ */
+export async function loadCancellationPolicy(supabaseAdmin: SupabaseClient): Promise<CancellationPolicy> {
+  const { data, error } = await supabaseAdmin
+    .from('cancellation_policies')
+    .select('id, name, full_refund_hours, partial_refund_percentage')
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data
+    ? { ...data, partial_refund_percentage: Number(data.partial_refund_percentage) }
+    : DEFAULT_POLICY;
+}
+
+/**
+ * Work out how much of `refundableAmount` goes back to the customer when
+ * cancelling at `now` for an appointment starting at `startsAt`:
+ * full refund outside the policy window, the partial percentage inside it,
+ * nothing once the appointment has started.
+ */
+export function calculateRefund(
+  policy: CancellationPolicy,
+  refundableAmount: number,
+  startsAt: Date,
+  now: Date = new Date()
+): RefundQuote {
+  const hoursUntilStart = (startsAt.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  let tier: RefundQuote['tier'];
+  let refundPercentage: number;
+  if (hoursUntilStart >= policy.full_refund_hours) {
+    tier = 'full';
+    refundPercentage = 100;
+  } else if (hoursUntilStart > 0) {
+    tier = 'partial';
+    refundPercentage = policy.partial_refund_percentage;
+  } else {
+    tier = 'none';
+    refundPercentage = 0;
+  }
+
+  const refundCents = Math.max(0, Math.round(refundableAmount * refundPercentage));
+
+  return {
+    tier,
+    refundPercentage,
+    refundAmount: refundCents / 100,
+    refundCents,
+    hoursUntilStart: Math.round(hoursUntilStart * 10) / 10,
+    policy,
+  };
+}
+
+/**
+ * Quote cancelling several bookings of one order together. Each booking is
+ * refunded under the window of its own start time, so the later visits of a
+ * recurring series can still get a full refund; the total is capped at
+ * `maxRefundable`.
+ */
+export function calculateBookingsRefund(
+  policy: CancellationPolicy,
+  bookings: { amount: number; startsAt: Date }[],
+  maxRefundable: number,
+  now: Date = new Date()
+): RefundQuote {
+  const quotes = bookings.map(booking => calculateRefund(policy, booking.amount, booking.startsAt, now));
+  const baseCents = Math.round(bookings.reduce((sum, booking) => sum + booking.amount, 0) * 100);
+  const refundCents = Math.min(
+    quotes.reduce((sum, quote) => sum + quote.refundCents, 0),
+    Math.max(0, Math.round(maxRefundable * 100))
+  );
+  const tiers = new Set(quotes.map(quote => quote.tier));
+
+  return {
+    tier: tiers.size === 1 ? quotes[0].tier : 'partial',
+    refundPercentage: baseCents > 0 ? Math.round((refundCents / baseCents) * 1000) / 10 : 0,
+    refundAmount: refundCents / 100,
+    refundCents,
+    hoursUntilStart: Math.min(...quotes.map(quote => quote.hoursUntilStart)),
+    policy,
+  };
+}
@@ -0,0 +1,179 @@
+import { BOOKING_TIME_ZONE, bookingStart, zoneOffsetMinutes } from "./bookingTime.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used when a service has no duration set
+const DEFAULT_DURATION_MINUTES = 60;
+
+export interface CalendarEvent {
+  /** Stable per booking so calendar apps update the event in place */
+  uid: string;
+  bookingDate: string;
+  bookingTime: string;
+  durationMinutes: number | null;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  cancelled?: boolean;
+}
+
+/**
+ * UTC date-time in the basic format RFC 5545 wants, e.g. 20250917T140000Z
+ */
+function toIcalUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Wall-clock time in the given UTC offset, e.g. 20250917T110000
+ */
+function toIcalLocal(time: number, offsetMinutes: number): string {
+  return toIcalUtc(new Date(time + offsetMinutes * 60_000)).slice(0, -1);
+}
+
+// UTC offset as RFC 5545 writes it, e.g. -0300
+function offsetLabel(offsetMinutes: number): string {
+  const minutes = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, "0");
+  return `${offsetMinutes < 0 ? "-" : "+"}${hours}${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Every change of the booking time zone's UTC offset within the given years,
+ * found a day at a time and then narrowed to the minute
+ */
+function offsetChanges(fromYear: number, toYear: number) {
+  const changes: { at: number; from: number; to: number }[] = [];
+  const end = Date.UTC(toYear + 1, 0, 1);
+  let offset = zoneOffsetMinutes(new Date(Date.UTC(fromYear, 0, 1)));
+
+  for (let day = Date.UTC(fromYear, 0, 1); day < end; day += DAY_MS) {
+    const next = zoneOffsetMinutes(new Date(day + DAY_MS));
+    if (next === offset) {
+      continue;
+    }
+
+    let [before, after] = [day, day + DAY_MS];
+    while (after - before > 60_000) {
+      const middle = before + Math.floor((after - before) / 120_000) * 60_000;
+      if (zoneOffsetMinutes(new Date(middle)) === offset) {
+        before = middle;
+      } else {
+        after = middle;
+      }
+    }
+
+    changes.push({ at: after, from: offset, to: next });
+    offset = next;
+  }
+
+  return changes;
+}
+
+/**
+ * The booking time zone's definition for the years the events fall in, so
+ * calendar apps place the events correctly on either side of a clock change
+ */
+function timeZoneLines(events: CalendarEvent[]): string[] {
+  if (events.length === 0) {
+    return [];
+  }
+
+  const years = events.map(event => Number(event.bookingDate.slice(0, 4)));
+  const fromYear = Math.min(...years);
+  const initialOffset = zoneOffsetMinutes(new Date(Date.UTC(fromYear, 0, 1)));
+  const changes = offsetChanges(fromYear, Math.max(...years));
+  const standardOffset = Math.min(initialOffset, ...changes.map(change => change.to));
+
+  // Each observance starts at the wall-clock time of the offset it replaces
+  const observance = (at: number, from: number, to: number) => {
+    const kind = to > standardOffset ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${toIcalLocal(at, from)}`,
+      `TZOFFSETFROM:${offsetLabel(from)}`,
+      `TZOFFSETTO:${offsetLabel(to)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${BOOKING_TIME_ZONE}`,
+    ...observance(Date.UTC(fromYear, 0, 1), initialOffset, initialOffset),
+    ...changes.flatMap(change => observance(change.at, change.from, change.to)),
+    "END:VTIMEZONE",
+  ];
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Content lines are folded at 75 octets, continuing on a line that starts
+ * with a space, without splitting a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const start = bookingStart(event.bookingDate, event.bookingTime);
+  const end = new Date(start.getTime() + (event.durationMinutes || DEFAULT_DURATION_MINUTES) * 60_000);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${BOOKING_TIME_ZONE}:${toIcalLocal(start.getTime(), zoneOffsetMinutes(start))}`,
+    `DTEND;TZID=${BOOKING_TIME_ZONE}:${toIcalLocal(end.getTime(), zoneOffsetMinutes(end))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Build an iCalendar (RFC 5545) document with one event per booking
+ */
+export function buildCalendar(events: CalendarEvent[], calendarName: string): string {
+  const stamp = toIcalUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Service NB Link//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...timeZoneLines(events),
+    ...events.flatMap(event => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,73 @@
+// Outbound email and SMS. Each channel is optional: without its settings a
+// message is reported as skipped rather than failed, so the in-app
+// notification still goes out and nothing is retried against a missing provider.
+
+export interface OutboundMessage {
+  subject: string;
+  body: string;
+}
+
+export interface SendResult {
+  status: "sent" | "failed" | "skipped";
+  error?: string;
+}
+
+/**
+ * Send an email through Resend. Needs RESEND_API_KEY and REMINDER_EMAIL_FROM.
+ */
+export async function sendEmail(to: string | null | undefined, message: OutboundMessage): Promise<SendResult> {
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  const from = Deno.env.get("REMINDER_EMAIL_FROM");
+
+  if (!apiKey || !from) {
+    return { status: "skipped", error: "Email delivery is not configured" };
+  }
+  if (!to) {
+    return { status: "skipped", error: "No email address" };
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from, to, subject: message.subject, text: message.body }),
+  });
+
+  if (!response.ok) {
+    return { status: "failed", error: `Email provider returned ${response.status}: ${await response.text()}` };
+  }
+  return { status: "sent" };
+}
+
+/**
+ * Send a text message through Twilio. Needs TWILIO_ACCOUNT_SID,
+ * TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER.
+ */
+export async function sendSms(to: string | null | undefined, message: OutboundMessage): Promise<SendResult> {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const from = Deno.env.get("TWILIO_FROM_NUMBER");
+
+  if (!accountSid || !authToken || !from) {
+    return { status: "skipped", error: "SMS delivery is not configured" };
+  }
+  if (!to) {
+    return { status: "skipped", error: "No phone number" };
+  }
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({ From: from, To: to, Body: `${message.subject}: ${message.body}` }),
+  });
+
+  if (!response.ok) {
+    return { status: "failed", error: `SMS provider returned ${response.status}: ${await response.text()}` };
+  }
+  return { status: "sent" };
+}
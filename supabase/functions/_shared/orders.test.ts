@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { findSessionOrder, upsertSessionOrder } from './orders';
+
+type SupabaseAdmin = Parameters<typeof upsertSessionOrder>[0];
+
+interface OrderRow {
+  id: string;
+  stripe_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  status: string | null;
+  payment_status: string | null;
+  created_at: string;
+}
+
+// Yield for a random moment so concurrent calls interleave differently each run
+const tick = () => new Promise(resolve => setTimeout(resolve, Math.random() * 3));
+
+let nextId = 0;
+
+/**
+ * Just enough of the supabase-js query builder over an in-memory orders table.
+ * Like Postgres, each statement runs atomically and stripe_session_id is
+ * unique, with NULLs never conflicting.
+ */
+class OrdersQuery implements PromiseLike<{ data: unknown; error: { message: string } | null }> {
+  private filters: [keyof OrderRow, unknown][] = [];
+  private orderBy: keyof OrderRow | null = null;
+  private limitTo: number | null = null;
+  private cardinality: 'many' | 'one' | 'maybe' = 'many';
+  private upsertRow: Partial<OrderRow> | null = null;
+
+  constructor(private rows: OrderRow[]) {}
+
+  select() { return this; }
+  eq(column: keyof OrderRow, value: unknown) { this.filters.push([column, value]); return this; }
+  order(column: keyof OrderRow) { this.orderBy = column; return this; }
+  limit(count: number) { this.limitTo = count; return this; }
+  single() { this.cardinality = 'one'; return this; }
+  maybeSingle() { this.cardinality = 'maybe'; return this; }
+
+  upsert(row: Partial<OrderRow>, options: { onConflict: string; ignoreDuplicates: boolean }) {
+    expect(options).toEqual({ onConflict: 'stripe_session_id', ignoreDuplicates: true });
+    this.upsertRow = row;
+    return this;
+  }
+
+  then<T1, T2>(
+    onFulfilled?: ((value: { data: unknown; error: { message: string } | null }) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ) {
+    return this.execute().then(onFulfilled, onRejected);
+  }
+
+  private async execute() {
+    await tick();
+
+    if (this.upsertRow) {
+      const row = this.upsertRow;
+      const conflict = row.stripe_session_id != null
+        && this.rows.some(existing => existing.stripe_session_id === row.stripe_session_id);
+      if (!conflict) {
+        this.rows.push({
+          id: `order-${++nextId}`,
+          stripe_session_id: null,
+          stripe_payment_intent_id: null,
+          status: 'confirmed',
+          payment_status: 'paid',
+          created_at: new Date(Date.now() + nextId).toISOString(),
+          ...row,
+        });
+      }
+      return { data: null, error: null };
+    }
+
+    let matches = this.rows.filter(row => this.filters.every(([column, value]) => row[column] === value));
+    if (this.orderBy) {
+      const column = this.orderBy;
+      matches = [...matches].sort((a, b) => String(a[column]).localeCompare(String(b[column])));
+    }
+    if (this.limitTo !== null) {
+      matches = matches.slice(0, this.limitTo);
+    }
+
+    if (this.cardinality === 'many') {
+      return { data: matches, error: null };
+    }
+    if (matches.length > 1 || (this.cardinality === 'one' && matches.length === 0)) {
+      return { data: null, error: { message: `Expected one row, found ${matches.length}` } };
+    }
+    return { data: matches[0] ?? null, error: null };
+  }
+}
+
+const fakeSupabase = (rows: OrderRow[]) => ({
+  from(table: string) {
+    expect(table).toBe('orders');
+    return new OrdersQuery(rows);
+  },
+}) as unknown as SupabaseAdmin;
+
+const sessionOrder = (sessionId: string) => ({
+  stripe_session_id: sessionId,
+  stripe_payment_intent_id: `pi_${sessionId}`,
+  status: 'confirmed',
+  payment_status: 'paid',
+});
+
+describe('checkout session orders', () => {
+  it('creates exactly one order when webhook deliveries and payment verifications race', async () => {
+    for (let run = 0; run < 25; run++) {
+      const rows: OrderRow[] = [];
+      const supabaseAdmin = fakeSupabase(rows);
+
+      const [fulfilled, verified] = await Promise.all([
+        Promise.all(Array.from({ length: 4 }, () => upsertSessionOrder(supabaseAdmin, sessionOrder('cs_race')))),
+        Promise.all(Array.from({ length: 4 }, () => findSessionOrder(supabaseAdmin, 'cs_race', 'pi_cs_race'))),
+      ]);
+
+      expect(rows).toHaveLength(1);
+      expect(new Set(fulfilled)).toEqual(new Set([rows[0].id]));
+      // Verification never creates an order: it sees none yet, or the one order
+      for (const order of verified) {
+        expect(order === null || order.id === rows[0].id).toBe(true);
+      }
+    }
+  });
+
+  it('returns the existing order id on repeated verification', async () => {
+    const rows: OrderRow[] = [];
+    const supabaseAdmin = fakeSupabase(rows);
+
+    expect(await findSessionOrder(supabaseAdmin, 'cs_repeat', 'pi_cs_repeat')).toBeNull();
+
+    const orderId = await upsertSessionOrder(supabaseAdmin, sessionOrder('cs_repeat'));
+    const first = await findSessionOrder(supabaseAdmin, 'cs_repeat', 'pi_cs_repeat');
+    const second = await findSessionOrder(supabaseAdmin, 'cs_repeat', 'pi_cs_repeat');
+
+    expect(first?.id).toBe(orderId);
+    expect(second?.id).toBe(orderId);
+    expect(await upsertSessionOrder(supabaseAdmin, sessionOrder('cs_repeat'))).toBe(orderId);
+    expect(rows).toHaveLength(1);
+  });
+
+  it('keeps orders for different sessions apart', async () => {
+    const rows: OrderRow[] = [];
+    const supabaseAdmin = fakeSupabase(rows);
+
+    const [first, second] = await Promise.all([
+      upsertSessionOrder(supabaseAdmin, sessionOrder('cs_one')),
+      upsertSessionOrder(supabaseAdmin, sessionOrder('cs_two')),
+    ]);
+
+    expect(first).not.toBe(second);
+    expect(rows).toHaveLength(2);
+    expect((await findSessionOrder(supabaseAdmin, 'cs_two', 'pi_cs_two'))?.id).toBe(second);
+  });
+
+  it('finds the earliest order for a payment intent when it predates session keys', async () => {
+    const rows: OrderRow[] = [
+      { id: 'legacy-2', stripe_session_id: null, stripe_payment_intent_id: 'pi_legacy', status: 'confirmed', payment_status: 'paid', created_at: '2025-01-02T00:00:00Z' },
+      { id: 'legacy-1', stripe_session_id: null, stripe_payment_intent_id: 'pi_legacy', status: 'confirmed', payment_status: 'paid', created_at: '2025-01-01T00:00:00Z' },
+    ];
+
+    const order = await findSessionOrder(fakeSupabase(rows), 'cs_unknown', 'pi_legacy');
+
+    expect(order?.id).toBe('legacy-1');
+    expect(await findSessionOrder(fakeSupabase(rows), 'cs_unknown', null)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface SessionOrder {
+  id: string;
+  status: string | null;
+  payment_status: string | null;
+}
+
+/**
+ * Create the order for a checkout session, or reuse the one that is already
+ * there. ON CONFLICT DO NOTHING on stripe_session_id means concurrent or
+ * repeated deliveries for the same session can never create a second order;
+ * whichever call inserted it, the lookup afterwards finds the one row.
+ */
+export async function upsertSessionOrder(
+  supabaseAdmin: SupabaseClient,
+  order: Record<string, unknown> & { stripe_session_id: string }
+): Promise<string> {
+  const { error: orderError } = await supabaseAdmin
+    .from('orders')
+    .upsert(order, { onConflict: 'stripe_session_id', ignoreDuplicates: true });
+
+  if (orderError) {
+    throw orderError;
+  }
+
+  const { data, error: lookupError } = await supabaseAdmin
+    .from('orders')
+    .select('id')
+    .eq('stripe_session_id', order.stripe_session_id)
+    .single();
+
+  if (lookupError) {
+    throw lookupError;
+  }
+
+  return data.id;
+}
+
+/**
+ * Find the order a checkout session produced, without ever creating one.
+ * Orders are keyed by checkout session; older ones only carry the payment intent.
+ */
+export async function findSessionOrder(
+  supabaseAdmin: SupabaseClient,
+  sessionId: string,
+  paymentIntentId: string | null
+): Promise<SessionOrder | null> {
+  const { data: sessionOrder, error: sessionError } = await supabaseAdmin
+    .from('orders')
+    .select('id, status, payment_status')
+    .eq('stripe_session_id', sessionId)
+    .maybeSingle();
+
+  if (sessionError) {
+    throw sessionError;
+  }
+
+  if (sessionOrder || !paymentIntentId) {
+    return sessionOrder;
+  }
+
+  const { data: legacyOrder, error: legacyError } = await supabaseAdmin
+    .from('orders')
+    .select('id, status, payment_status')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (legacyError) {
+    throw legacyError;
+  }
+
+  return legacyOrder;
+}
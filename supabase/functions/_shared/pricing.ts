@@ -0,0 +1,284 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface CheckoutCartItem {
+  serviceId: string;
+  serviceName?: string;
+  providerId?: string;
+  providerName?: string;
+  price?: number;
+  quantity?: number;
+  serviceDetails?: Record<string, unknown>;
+  date?: string;
+  time?: string;
+  displayDate?: string;
+  slotId?: string;
+}
+
+export interface PricedLine {
+  serviceId: string;
+  serviceName: string;
+  providerId: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+  discountAmount: number;
+  fees: PricedLineFee[];
+  taxes: PricedLineTax[];
+}
+
+export interface PricedLineFee {
+  platformFeeId: string;
+  description: string;
+  feeType: string;
+  feeValue: number;
+  feeAmount: number;
+}
+
+export interface PricedLineTax {
+  name: string;
+  rate: number;
+  isCompound: boolean;
+  taxComponentId: string | null;
+  taxSlabId: string | null;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxComponentTotal {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface CheckoutTotals {
+  lines: PricedLine[];
+  subtotal: number;
+  discountAmount: number;
+  coupon: { code: string; offerId: string } | null;
+  platformFee: number;
+  taxAmount: number;
+  tax: {
+    region: string | null;
+    jurisdictionId: string | null;
+    components: TaxComponentTotal[];
+  };
+  total: number;
+  totalCents: number;
+}
+
+/**
+ * Raised when the cart cannot be priced (unknown service, bad quantity,
+ * rejected coupon). `code` is returned to the client as-is.
+ */
+export class PricingError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'PricingError';
+    this.code = code;
+  }
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Recompute checkout totals from the database, mirroring the order in which
+ * Cart.tsx applies them: coupon on the lines it covers, platform fees on
+ * each line less its share of the coupon, tax on that amount plus the
+ * line's fees.
+ */
+export async function calculateCheckoutTotals(
+  supabaseAdmin: SupabaseClient,
+  cartItems: CheckoutCartItem[],
+  options: { couponCode?: string | null; customerId?: string | null; taxRegion?: string | null } = {}
+): Promise<CheckoutTotals> {
+  if (!Array.isArray(cartItems) || cartItems.length === 0) {
+    throw new PricingError('EMPTY_CART', 'Cart is empty');
+  }
+
+  const serviceIds = [...new Set(cartItems.map(item => item.serviceId))];
+  const { data: services, error: servicesError } = await supabaseAdmin
+    .from('provider_services')
+    .select('id, service_name, price, provider_id, is_active, status')
+    .in('id', serviceIds);
+
+  if (servicesError) {
+    throw servicesError;
+  }
+
+  const servicesById = new Map((services || []).map(service => [service.id, service]));
+
+  const lines: PricedLine[] = cartItems.map(item => {
+    const service = servicesById.get(item.serviceId);
+    if (!service || service.is_active === false || (service.status && service.status !== 'approved')) {
+      throw new PricingError('SERVICE_UNAVAILABLE', `Service ${item.serviceName || item.serviceId} is no longer available`);
+    }
+
+    const quantity = item.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new PricingError('INVALID_QUANTITY', `Invalid quantity for ${service.service_name}`);
+    }
+
+    const unitPrice = Number(service.price);
+    return {
+      serviceId: service.id,
+      serviceName: service.service_name,
+      providerId: service.provider_id,
+      unitPrice,
+      quantity,
+      lineTotal: roundCurrency(unitPrice * quantity),
+      discountAmount: 0,
+      fees: [],
+      taxes: [],
+    };
+  });
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  // Coupon: only the lines it covers are discounted
+  let discountAmount = 0;
+  let coupon: CheckoutTotals['coupon'] = null;
+  const lineDiscounts = new Map<string, number>();
+  if (options.couponCode) {
+    const code = options.couponCode.toUpperCase();
+    const { data, error } = await supabaseAdmin.rpc('validate_coupon_for_cart', {
+      p_coupon_code: code,
+      p_customer_id: options.customerId ?? null,
+      p_lines: lines.map((line, index) => ({
+        key: String(index),
+        service_id: line.serviceId,
+        quantity: line.quantity,
+        date: cartItems[index].date ?? cartItems[index].serviceDetails?.date ?? null,
+        time: cartItems[index].time ?? cartItems[index].serviceDetails?.time ?? null,
+      })),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const result = Array.isArray(data) ? data[0] : data;
+    if (!result?.is_valid) {
+      throw new PricingError('INVALID_COUPON', result?.error_message || 'Invalid coupon code');
+    }
+
+    for (const line of result.line_discounts || []) {
+      lineDiscounts.set(line.key, Number(line.amount) || 0);
+      lines[Number(line.key)].discountAmount = Number(line.amount) || 0;
+    }
+    discountAmount = Math.min(Number(result.discount_amount) || 0, subtotal);
+    coupon = { code, offerId: result.offer_id };
+  }
+
+  const subtotalAfterDiscount = Math.max(0, subtotal - discountAmount);
+
+  // Platform fees: every matching rule per line, on the line total less its
+  // share of the coupon (same as feeService.applyDiscount on the client)
+  const feeLines = lines.map((line, index) => ({
+    key: String(index),
+    service_id: line.serviceId,
+    amount: roundCurrency(Math.max(0, line.lineTotal - (lineDiscounts.get(String(index)) ?? 0))),
+  }));
+
+  const { data: fees, error: feeError } = await supabaseAdmin.rpc('evaluate_platform_fees', {
+    p_lines: feeLines,
+  });
+
+  if (feeError) {
+    throw feeError;
+  }
+
+  for (const fee of fees || []) {
+    lines[Number(fee.line_key)].fees.push({
+      platformFeeId: fee.platform_fee_id,
+      description: fee.description,
+      feeType: fee.fee_type,
+      feeValue: Number(fee.fee_value),
+      feeAmount: Number(fee.fee_amount),
+    });
+  }
+
+  const platformFee = roundCurrency(
+    lines.reduce((sum, line) => sum + line.fees.reduce((lineSum, fee) => lineSum + fee.feeAmount, 0), 0)
+  );
+
+  const subtotalWithFees = subtotalAfterDiscount + platformFee;
+
+  // Tax: the province's components on each line's discounted amount plus its
+  // fees, or the tax slab for the cart total when the province is not set up
+  const taxRegion = options.taxRegion?.trim() || null;
+  const { data: taxes, error: taxError } = await supabaseAdmin.rpc('calculate_line_taxes', {
+    p_region: taxRegion ?? '',
+    p_lines: feeLines.map(line => {
+      const lineFees = lines[Number(line.key)].fees.reduce((sum, fee) => sum + fee.feeAmount, 0);
+      return { ...line, amount: roundCurrency(line.amount + lineFees) };
+    }),
+  });
+
+  if (taxError) {
+    throw taxError;
+  }
+
+  let jurisdictionId: string | null = null;
+  const componentTotals = new Map<string, TaxComponentTotal>();
+  for (const tax of taxes || []) {
+    const lineTax: PricedLineTax = {
+      name: tax.tax_name,
+      rate: Number(tax.rate),
+      isCompound: tax.is_compound,
+      taxComponentId: tax.tax_component_id,
+      taxSlabId: tax.tax_slab_id,
+      taxableAmount: Number(tax.taxable_amount),
+      taxAmount: Number(tax.tax_amount),
+    };
+    lines[Number(tax.line_key)].taxes.push(lineTax);
+    jurisdictionId = tax.jurisdiction_id ?? jurisdictionId;
+
+    const key = `${lineTax.name}:${lineTax.rate}`;
+    componentTotals.set(key, {
+      name: lineTax.name,
+      rate: lineTax.rate,
+      amount: roundCurrency((componentTotals.get(key)?.amount ?? 0) + lineTax.taxAmount),
+    });
+  }
+
+  const taxAmount = roundCurrency(
+    lines.reduce((sum, line) => sum + line.taxes.reduce((lineSum, tax) => lineSum + tax.taxAmount, 0), 0)
+  );
+
+  const totalCents = Math.round((subtotalWithFees + taxAmount) * 100);
+
+  return {
+    lines,
+    subtotal,
+    discountAmount: roundCurrency(discountAmount),
+    coupon,
+    platformFee,
+    taxAmount,
+    tax: {
+      region: taxRegion,
+      jurisdictionId,
+      components: Array.from(componentTotals.values()),
+    },
+    total: totalCents / 100,
+    totalCents,
+  };
+}
+
+/**
+ * What an order keeps of its tax, so later rate changes do not alter past invoices
+ */
+export function taxSnapshot(totals: CheckoutTotals) {
+  return {
+    ...totals.tax,
+    taxAmount: totals.taxAmount,
+    lines: totals.lines.map(line => ({
+      serviceId: line.serviceId,
+      serviceName: line.serviceName,
+      quantity: line.quantity,
+      lineTotal: line.lineTotal,
+      taxes: line.taxes,
+    })),
+  };
+}
@@ -0,0 +1,24 @@
+import Stripe from "https://esm.sh/stripe@14.21.0";
+
+/**
+ * Create a Stripe client. Set STRIPE_API_BASE (e.g. http://localhost:12111)
+ * to point it at a local stand-in such as stripe-mock instead of api.stripe.com.
+ */
+export function createStripeClient(): Stripe {
+  const secretKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!secretKey) {
+    throw new Error("STRIPE_SECRET_KEY not configured");
+  }
+
+  const config: Stripe.StripeConfig = { apiVersion: "2023-10-16" };
+
+  const apiBase = Deno.env.get("STRIPE_API_BASE");
+  if (apiBase) {
+    const url = new URL(apiBase);
+    config.host = url.hostname;
+    config.port = url.port || (url.protocol === "https:" ? "443" : "80");
+    config.protocol = url.protocol.replace(":", "") as "http" | "https";
+  }
+
+  return new Stripe(secretKey, config);
+}
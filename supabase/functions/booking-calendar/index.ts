@@ -0,0 +1,227 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { buildCalendar, CalendarEvent } from "../_shared/ical.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// How far back a subscription feed reaches; calendar apps keep older events themselves
+const FEED_HISTORY_DAYS = 90;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const calendarResponse = (body: string, filename: string) =>
+  new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+
+interface CalendarBooking {
+  id: string;
+  order_id: string | null;
+  booking_date: string;
+  booking_time: string;
+  quantity: number;
+  status: string | null;
+  special_instructions: string | null;
+  provider_id: string | null;
+  service: { service_name: string; duration_minutes: number | null } | null;
+  order: { customer_name: string | null; customer_phone: string | null; customer_address: string | null } | null;
+  provider: { business_name: string | null; full_name: string | null } | null;
+}
+
+const BOOKING_COLUMNS = `
+  id, order_id, booking_date, booking_time, quantity, status, special_instructions, provider_id,
+  service:provider_services (service_name, duration_minutes),
+  order:orders (customer_name, customer_phone, customer_address),
+  provider:user_profiles!bookings_provider_id_fkey (business_name, full_name)
+`;
+
+const bookingUid = (booking: CalendarBooking) => `booking-${booking.id}@servicenblink`;
+
+const serviceLabel = (booking: CalendarBooking) =>
+  `${booking.service?.service_name ?? 'Service'}${booking.quantity > 1 ? ` x${booking.quantity}` : ''}`;
+
+/**
+ * A provider's subscription feed: their confirmed bookings, each titled with
+ * the customer so the provider's calendar shows who they are visiting
+ */
+async function providerFeed(supabaseAdmin: SupabaseClient, token: string) {
+  const { data: feed, error: feedError } = await supabaseAdmin
+    .from('provider_calendar_feeds')
+    .select('id, provider_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) {
+    throw feedError;
+  }
+
+  // Revoked and rotated tokens look the same as ones that never existed
+  if (!feed) {
+    return new Response("Calendar feed not found", { headers: corsHeaders, status: 404 });
+  }
+
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const { data: bookings, error: bookingsError } = await supabaseAdmin
+    .from('bookings')
+    .select(BOOKING_COLUMNS)
+    .eq('provider_id', feed.provider_id)
+    .in('status', ['confirmed', 'rescheduled', 'completed'])
+    .gte('booking_date', since)
+    .order('booking_date')
+    .order('booking_time');
+
+  if (bookingsError) {
+    throw bookingsError;
+  }
+
+  const events: CalendarEvent[] = ((bookings || []) as unknown as CalendarBooking[]).map(booking => ({
+    uid: bookingUid(booking),
+    bookingDate: booking.booking_date,
+    bookingTime: booking.booking_time,
+    durationMinutes: booking.service?.duration_minutes ?? null,
+    summary: `${serviceLabel(booking)} – ${booking.order?.customer_name ?? 'Customer'}`,
+    description: [
+      booking.order?.customer_phone ? `Phone: ${booking.order.customer_phone}` : null,
+      booking.special_instructions ? `Notes: ${booking.special_instructions}` : null,
+    ].filter(Boolean).join("\n"),
+    location: booking.order?.customer_address,
+  }));
+
+  await supabaseAdmin
+    .from('provider_calendar_feeds')
+    .update({ last_fetched_at: new Date().toISOString() })
+    .eq('id', feed.id);
+
+  return calendarResponse(buildCalendar(events, "Service NB Link bookings"), "bookings.ics");
+}
+
+/**
+ * A one-off .ics file for one booking, or every booking of an order. The
+ * customer can download it signed in, or as a guest right after checkout by
+ * passing the Stripe session the order was paid with.
+ */
+async function bookingFile(req: Request, supabaseClient: SupabaseClient, supabaseAdmin: SupabaseClient) {
+  const { orderId, bookingId = null, sessionId = null } = await req.json();
+
+  if (!orderId) {
+    throw new Error("Missing required parameter: orderId");
+  }
+
+  const { data: order, error: orderError } = await supabaseAdmin
+    .from('orders')
+    .select('id, user_id, stripe_session_id')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    throw orderError;
+  }
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  const { data: userData } = token
+    ? await supabaseClient.auth.getUser(token)
+    : { data: { user: null } };
+  const user = userData.user;
+
+  const { data: profile } = user
+    ? await supabaseAdmin.from('user_profiles').select('id, auth_role').eq('user_id', user.id).maybeSingle()
+    : { data: null };
+
+  const isAdmin = profile?.auth_role === 'admin' || profile?.auth_role === 'super_admin';
+  const isCustomer = !!order && (
+    (!!user && order.user_id === user.id) ||
+    (!!sessionId && order.stripe_session_id === sessionId)
+  );
+
+  let query = supabaseAdmin
+    .from('bookings')
+    .select(BOOKING_COLUMNS)
+    .eq('order_id', orderId)
+    .neq('status', 'cancelled')
+    .order('booking_date')
+    .order('booking_time');
+
+  if (bookingId) {
+    query = query.eq('id', bookingId);
+  }
+
+  // Providers only get the bookings on the order that are theirs
+  if (order && !isCustomer && !isAdmin) {
+    if (!profile) {
+      return jsonResponse({ error: "Order not found", code: "NOT_FOUND" }, 404);
+    }
+    query = query.eq('provider_id', profile.id);
+  }
+
+  const { data, error: bookingsError } = order ? await query : { data: [], error: null };
+
+  if (bookingsError) {
+    throw bookingsError;
+  }
+
+  const bookings = (data || []) as unknown as CalendarBooking[];
+  if (bookings.length === 0) {
+    return jsonResponse({ error: "No bookings to add to a calendar", code: "NOT_FOUND" }, 404);
+  }
+
+  const events: CalendarEvent[] = bookings.map(booking => ({
+    uid: bookingUid(booking),
+    bookingDate: booking.booking_date,
+    bookingTime: booking.booking_time,
+    durationMinutes: booking.service?.duration_minutes ?? null,
+    summary: `${serviceLabel(booking)} with ${booking.provider?.business_name || booking.provider?.full_name || 'your provider'}`,
+    description: booking.special_instructions ? `Notes: ${booking.special_instructions}` : undefined,
+    location: booking.order?.customer_address,
+  }));
+
+  const filename = bookingId ? `booking-${bookingId}.ics` : `order-${orderId}.ics`;
+  return calendarResponse(buildCalendar(events, "Service NB Link booking"), filename);
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // Calendar apps subscribe with a plain GET and can't send a session
+    if (req.method === "GET") {
+      const token = new URL(req.url).searchParams.get("token");
+      if (!token) {
+        return new Response("Missing calendar feed token", { headers: corsHeaders, status: 400 });
+      }
+      return await providerFeed(supabaseAdmin, token);
+    }
+
+    return await bookingFile(req, supabaseClient, supabaseAdmin);
+  } catch (error) {
+    console.error("❌ Booking calendar error:", error);
+    return jsonResponse({
+      error: error.message || "Failed to build calendar"
+    }, 500);
+  }
+});
@@ -0,0 +1,442 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { bookingStart } from "../_shared/bookingTime.ts";
+import { OutboundMessage, SendResult, sendEmail, sendSms } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Ask for a review a little after the visit, and stop asking after a week
+const REVIEW_REQUEST_DELAY_HOURS = 2;
+const REVIEW_REQUEST_WINDOW_DAYS = 7;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+type MessageKind = "reminder_24h" | "reminder_1h" | "review_request";
+type Channel = "in_app" | "email" | "sms";
+type RecipientRole = "customer" | "provider";
+
+interface ReminderBooking {
+  id: string;
+  order_id: string | null;
+  customer_id: string | null;
+  booking_date: string;
+  booking_time: string;
+  quantity: number;
+  status: string | null;
+  provider_status: string;
+  created_at: string;
+  completed_at: string | null;
+  service: { service_name: string } | null;
+  order: { customer_name: string | null; customer_phone: string | null; customer_address: string | null } | null;
+  provider: { user_id: string; business_name: string | null; full_name: string | null; phone: string | null } | null;
+}
+
+interface Preferences {
+  reminder_24h_enabled: boolean;
+  reminder_1h_enabled: boolean;
+  review_request_enabled: boolean;
+  in_app_enabled: boolean;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+}
+
+// Users who never opened their settings get the column defaults
+const DEFAULT_PREFERENCES: Preferences = {
+  reminder_24h_enabled: true,
+  reminder_1h_enabled: true,
+  review_request_enabled: true,
+  in_app_enabled: true,
+  email_enabled: true,
+  sms_enabled: false,
+};
+
+interface DueMessage {
+  booking: ReminderBooking;
+  kind: MessageKind;
+  role: RecipientRole;
+  userId: string;
+}
+
+interface RunSummary {
+  sent: number;
+  failed: number;
+  skipped: number;
+  availabilityReminders: number;
+}
+
+const BOOKING_COLUMNS = `
+  id, order_id, customer_id, booking_date, booking_time, quantity, status, provider_status, created_at, completed_at,
+  service:provider_services (service_name),
+  order:orders (customer_name, customer_phone, customer_address),
+  provider:user_profiles!bookings_provider_id_fkey (user_id, business_name, full_name, phone)
+`;
+
+const dateOnly = (date: Date) => date.toISOString().slice(0, 10);
+
+const serviceLabel = (booking: ReminderBooking) =>
+  `${booking.service?.service_name ?? 'service'}${booking.quantity > 1 ? ` x${booking.quantity}` : ''}`;
+
+const providerLabel = (booking: ReminderBooking) =>
+  booking.provider?.business_name || booking.provider?.full_name || 'your provider';
+
+// Stored times are wall-clock times, so format them without shifting zones
+const whenLabel = (booking: ReminderBooking) =>
+  new Date(`${booking.booking_date}T${booking.booking_time}Z`).toLocaleString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const customerLink = (booking: ReminderBooking) =>
+  booking.order_id ? `/dashboard/customer/orders/${booking.order_id}` : '/customer?section=bookings';
+
+/**
+ * Confirmed visits starting within the next day, and completed ones waiting
+ * for a review. A reminder stays due for its whole window, so the delivery log
+ * rather than the run time decides whether it has been sent.
+ */
+async function findDueMessages(supabaseAdmin: SupabaseClient, now: Date): Promise<DueMessage[]> {
+  // Booking dates are in BOOKING_TIME_ZONE, so take a day either side and filter exactly below
+  const { data: upcoming, error: upcomingError } = await supabaseAdmin
+    .from('bookings')
+    .select(BOOKING_COLUMNS)
+    .in('status', ['confirmed', 'rescheduled'])
+    .not('provider_status', 'in', '(declined,no_show,completed)')
+    .gte('booking_date', dateOnly(new Date(now.getTime() - 24 * HOUR_MS)))
+    .lte('booking_date', dateOnly(new Date(now.getTime() + 48 * HOUR_MS)));
+
+  if (upcomingError) {
+    throw upcomingError;
+  }
+
+  const { data: completed, error: completedError } = await supabaseAdmin
+    .from('bookings')
+    .select(BOOKING_COLUMNS)
+    .eq('provider_status', 'completed')
+    .gte('completed_at', new Date(now.getTime() - REVIEW_REQUEST_WINDOW_DAYS * 24 * HOUR_MS).toISOString())
+    .lte('completed_at', new Date(now.getTime() - REVIEW_REQUEST_DELAY_HOURS * HOUR_MS).toISOString());
+
+  if (completedError) {
+    throw completedError;
+  }
+
+  const due: DueMessage[] = [];
+  const addForBoth = (booking: ReminderBooking, kind: MessageKind) => {
+    if (booking.customer_id) {
+      due.push({ booking, kind, role: 'customer', userId: booking.customer_id });
+    }
+    if (booking.provider?.user_id) {
+      due.push({ booking, kind, role: 'provider', userId: booking.provider.user_id });
+    }
+  };
+
+  for (const booking of (upcoming || []) as unknown as ReminderBooking[]) {
+    const msUntilStart = bookingStart(booking.booking_date, booking.booking_time).getTime() - now.getTime();
+    if (msUntilStart <= 0) continue;
+
+    if (msUntilStart <= HOUR_MS) {
+      addForBoth(booking, 'reminder_1h');
+    } else if (msUntilStart <= 24 * HOUR_MS) {
+      // Booked inside the last day: the booking confirmation already did this job
+      const bookedAhead = bookingStart(booking.booking_date, booking.booking_time).getTime() - new Date(booking.created_at).getTime();
+      if (bookedAhead > 24 * HOUR_MS) {
+        addForBoth(booking, 'reminder_24h');
+      }
+    }
+  }
+
+  const completedBookings = (completed || []) as unknown as ReminderBooking[];
+  if (completedBookings.length > 0) {
+    const { data: reviews, error: reviewsError } = await supabaseAdmin
+      .from('reviews')
+      .select('booking_id')
+      .in('booking_id', completedBookings.map(booking => booking.id));
+
+    if (reviewsError) {
+      throw reviewsError;
+    }
+
+    const reviewed = new Set((reviews || []).map(review => review.booking_id));
+    for (const booking of completedBookings) {
+      if (booking.customer_id && !reviewed.has(booking.id)) {
+        due.push({ booking, kind: 'review_request', role: 'customer', userId: booking.customer_id });
+      }
+    }
+  }
+
+  return due;
+}
+
+function composeMessage({ booking, kind, role }: DueMessage) {
+  const service = serviceLabel(booking);
+  const when = whenLabel(booking);
+  const customer = booking.order?.customer_name || 'your customer';
+
+  if (kind === 'review_request') {
+    return {
+      type: 'review_request',
+      title: 'How Did It Go?',
+      message: `Tell others about your ${service} with ${providerLabel(booking)}`,
+      link: customerLink(booking),
+    };
+  }
+
+  const title = kind === 'reminder_24h' ? 'Booking Tomorrow' : 'Booking in 1 Hour';
+  return role === 'customer'
+    ? {
+      type: 'booking_reminder',
+      title,
+      message: `Your ${service} with ${providerLabel(booking)} is on ${when}`,
+      link: customerLink(booking),
+    }
+    : {
+      type: 'booking_reminder',
+      title,
+      message: `${service} for ${customer} on ${when}${booking.order?.customer_address ? ` at ${booking.order.customer_address}` : ''}`,
+      link: `/provider/bookings?booking=${booking.id}`,
+    };
+}
+
+const kindEnabled = (preferences: Preferences, kind: MessageKind) =>
+  kind === 'reminder_24h' ? preferences.reminder_24h_enabled
+    : kind === 'reminder_1h' ? preferences.reminder_1h_enabled
+    : preferences.review_request_enabled;
+
+const enabledChannels = (preferences: Preferences): Channel[] => [
+  ...(preferences.in_app_enabled ? ['in_app' as const] : []),
+  ...(preferences.email_enabled ? ['email' as const] : []),
+  ...(preferences.sms_enabled ? ['sms' as const] : []),
+];
+
+/**
+ * Send each due message on every channel its recipient wants. The delivery row
+ * is claimed first; a message another run has, or one already sent or out of
+ * attempts, is left alone.
+ */
+async function deliverMessages(supabaseAdmin: SupabaseClient, due: DueMessage[], summary: RunSummary) {
+  const userIds = [...new Set(due.map(message => message.userId))];
+  if (userIds.length === 0) return;
+
+  const { data: preferenceRows, error: preferencesError } = await supabaseAdmin
+    .from('notification_preferences')
+    .select('*')
+    .in('user_id', userIds);
+
+  if (preferencesError) {
+    throw preferencesError;
+  }
+
+  const preferencesByUser = new Map<string, Preferences>(
+    (preferenceRows || []).map(row => [row.user_id, row as Preferences])
+  );
+
+  // Looked up once per recipient, and only when an email or text is going out
+  const contacts = new Map<string, { email: string | null; phone: string | null }>();
+  const contactFor = async (message: DueMessage) => {
+    if (!contacts.has(message.userId)) {
+      const { data: userData } = await supabaseAdmin.auth.admin.getUserById(message.userId);
+      const { data: profile } = await supabaseAdmin
+        .from('user_profiles')
+        .select('phone')
+        .eq('user_id', message.userId)
+        .maybeSingle();
+
+      contacts.set(message.userId, {
+        email: userData?.user?.email ?? null,
+        phone: message.role === 'customer'
+          ? message.booking.order?.customer_phone || profile?.phone || null
+          : message.booking.provider?.phone || profile?.phone || null,
+      });
+    }
+    return contacts.get(message.userId)!;
+  };
+
+  for (const message of due) {
+    const preferences = preferencesByUser.get(message.userId) ?? DEFAULT_PREFERENCES;
+    if (!kindEnabled(preferences, message.kind)) continue;
+
+    const content = composeMessage(message);
+
+    for (const channel of enabledChannels(preferences)) {
+      const { data: deliveryId, error: claimError } = await supabaseAdmin.rpc('claim_notification_delivery', {
+        p_user_id: message.userId,
+        p_booking_id: message.booking.id,
+        p_recipient_role: message.role,
+        p_kind: message.kind,
+        p_channel: channel,
+      });
+
+      if (claimError) {
+        throw claimError;
+      }
+      if (!deliveryId) continue;
+
+      let result: SendResult;
+      let notificationId: string | null = null;
+
+      try {
+        if (channel === 'in_app') {
+          const { data, error } = await supabaseAdmin.rpc('create_notification', {
+            p_user_id: message.userId,
+            p_recipient_role: message.role,
+            p_type: content.type,
+            p_title: content.title,
+            p_message: content.message,
+            p_link: content.link,
+            p_order_id: message.booking.order_id,
+            p_booking_id: message.booking.id,
+            p_data: { kind: message.kind },
+          });
+          if (error) throw error;
+          notificationId = data;
+          result = { status: 'sent' };
+        } else {
+          const outbound: OutboundMessage = { subject: content.title, body: content.message };
+          const contact = await contactFor(message);
+          result = channel === 'email'
+            ? await sendEmail(contact.email, outbound)
+            : await sendSms(contact.phone, outbound);
+        }
+      } catch (error) {
+        result = { status: 'failed', error: error.message || String(error) };
+      }
+
+      await supabaseAdmin
+        .from('notification_deliveries')
+        .update({
+          status: result.status,
+          error: result.error ?? null,
+          notification_id: notificationId,
+          sent_at: result.status === 'sent' ? new Date().toISOString() : null,
+        })
+        .eq('id', deliveryId);
+
+      summary[result.status]++;
+      if (result.status === 'failed') {
+        console.error(`❌ ${message.kind} ${channel} for booking ${message.booking.id} failed:`, result.error);
+      }
+    }
+  }
+}
+
+/**
+ * Weekly availability reminders for providers, previously sent from the
+ * browser. One per provider and week.
+ */
+async function sendAvailabilityReminders(supabaseAdmin: SupabaseClient, summary: RunSummary) {
+  const { data: providers, error } = await supabaseAdmin.rpc('get_providers_needing_availability_reminder');
+
+  if (error) {
+    throw error;
+  }
+
+  for (const provider of providers || []) {
+    const { data: existing } = await supabaseAdmin
+      .from('provider_availability_notifications')
+      .select('id')
+      .eq('provider_id', provider.provider_id)
+      .eq('notification_type', 'availability_reminder')
+      .eq('week_start', provider.week_start)
+      .limit(1);
+
+    if (existing && existing.length > 0) continue;
+
+    const message = `Reminder to set availability for week starting ${provider.week_start}`;
+    const { error: logError } = await supabaseAdmin
+      .from('provider_availability_notifications')
+      .insert({
+        provider_id: provider.provider_id,
+        notification_type: 'availability_reminder',
+        week_start: provider.week_start,
+        status: 'sent',
+        message,
+      });
+
+    if (logError) {
+      console.error(`❌ Failed to log availability reminder for ${provider.provider_name}:`, logError);
+      continue;
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('user_profiles')
+      .select('user_id')
+      .eq('id', provider.provider_id)
+      .maybeSingle();
+
+    await supabaseAdmin.rpc('create_notification', {
+      p_user_id: profile?.user_id ?? null,
+      p_recipient_role: 'provider',
+      p_type: 'availability_reminder',
+      p_title: 'Set Your Availability',
+      p_message: message,
+      p_link: '/provider/schedule',
+    });
+
+    summary.availabilityReminders++;
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey
+    );
+
+    // The cron job calls with the service role key; admins may also run it by hand
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: "Authentication required", code: "UNAUTHORIZED" }, 401);
+    }
+
+    if (token !== serviceRoleKey) {
+      const { data: userData } = await supabaseClient.auth.getUser(token);
+      const { data: profile } = userData.user
+        ? await supabaseAdmin.from('user_profiles').select('auth_role').eq('user_id', userData.user.id).maybeSingle()
+        : { data: null };
+
+      if (profile?.auth_role !== 'admin' && profile?.auth_role !== 'super_admin') {
+        return jsonResponse({ error: "Only admins can run reminders", code: "FORBIDDEN" }, 403);
+      }
+    }
+
+    const summary: RunSummary = { sent: 0, failed: 0, skipped: 0, availabilityReminders: 0 };
+
+    const due = await findDueMessages(supabaseAdmin, new Date());
+    await deliverMessages(supabaseAdmin, due, summary);
+    await sendAvailabilityReminders(supabaseAdmin, summary);
+
+    console.log(`📅 Reminder run: ${summary.sent} sent, ${summary.failed} failed, ${summary.skipped} skipped, ${summary.availabilityReminders} availability reminders`);
+
+    return jsonResponse({ success: true, ...summary });
+  } catch (error) {
+    console.error("❌ Booking reminder error:", error);
+    return jsonResponse({
+      error: error.message || "Failed to send reminders"
+    }, 500);
+  }
+});
@@ -0,0 +1,520 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { bookingStart } from "../_shared/bookingTime.ts";
+import { createStripeClient } from "../_shared/stripe.ts";
+import { calculateBookingsRefund, calculateRefund, loadCancellationPolicy, PROVIDER_DECLINE_POLICY } from "../_shared/cancellationPolicy.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+interface CancellableOrder {
+  id: string;
+  total_amount: number;
+  refunded_amount: number | null;
+  payment_status: string | null;
+  stripe_payment_intent_id: string | null;
+  currency: string | null;
+}
+
+interface OrderBooking {
+  id: string;
+  booking_date: string;
+  booking_time: string;
+  slot_id: string | null;
+  status: string | null;
+  total_amount: number;
+  series_id: string | null;
+  provider_id: string | null;
+  provider_status: string;
+}
+
+// Once the provider has set off, the visit can no longer be called off
+const STARTED_PROVIDER_STATUSES = ['en_route', 'in_progress', 'completed', 'no_show'];
+
+const hasStarted = (booking: OrderBooking) => STARTED_PROVIDER_STATUSES.includes(booking.provider_status);
+
+const visitStart = (booking: OrderBooking) => bookingStart(booking.booking_date, booking.booking_time);
+
+/**
+ * Stripe caps idempotency keys at 255 characters, too short for a list of booking ids
+ */
+async function bookingsIdempotencyKey(orderId: string, bookingIds: string[]) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode([...bookingIds].sort().join(',')));
+  const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `cancel-bookings-${orderId}-${hash}`;
+}
+
+/**
+ * Mark recurring series cancelled once none of their bookings are still to come
+ */
+async function closeFinishedSeries(supabaseAdmin: SupabaseClient, seriesIds: string[]) {
+  for (const seriesId of new Set(seriesIds)) {
+    const { count, error: countError } = await supabaseAdmin
+      .from('bookings')
+      .select('id', { count: 'exact', head: true })
+      .eq('series_id', seriesId)
+      .not('status', 'in', '(cancelled,completed,no_show)');
+
+    if (countError) {
+      throw countError;
+    }
+
+    if (count === 0) {
+      const { error: seriesError } = await supabaseAdmin
+        .from('booking_series')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+        .eq('id', seriesId)
+        .neq('status', 'cancelled');
+
+      if (seriesError) {
+        throw seriesError;
+      }
+    }
+  }
+}
+
+/**
+ * Cancel some of an order's bookings, such as one visit of a recurring series
+ * or all of its remaining visits. Each booking is refunded its share of the
+ * order total; the order itself is cancelled once no booking is left.
+ * Bookings the provider declines are refunded in full.
+ */
+async function cancelBookings(
+  supabaseAdmin: SupabaseClient,
+  order: CancellableOrder,
+  bookings: OrderBooking[],
+  bookingIds: string[],
+  options: { reason: string | null; preview: boolean; userId: string; decline: boolean }
+) {
+  const requested = new Set(bookingIds);
+  const selected = bookings.filter(booking => requested.has(booking.id));
+
+  if (selected.length !== requested.size) {
+    return jsonResponse({ error: "Booking not found", code: "NOT_FOUND" }, 404);
+  }
+
+  if (selected.some(booking => booking.status === 'cancelled' || booking.status === 'completed' || booking.status === 'no_show')) {
+    return jsonResponse({ error: "Some of these bookings are already cancelled or completed", code: "NOT_CANCELLABLE" }, 409);
+  }
+
+  if (selected.some(hasStarted)) {
+    return jsonResponse({ error: "Your provider is already on the way or has started some of these bookings", code: "NOT_CANCELLABLE" }, 409);
+  }
+
+  // Taxes and fees are spread over the bookings in proportion to their price
+  const bookedTotal = bookings.reduce((sum, booking) => sum + Number(booking.total_amount), 0);
+  const shareOf = (booking: OrderBooking) =>
+    bookedTotal > 0 ? (Number(order.total_amount) * Number(booking.total_amount)) / bookedTotal : 0;
+
+  const policy = options.decline ? PROVIDER_DECLINE_POLICY : await loadCancellationPolicy(supabaseAdmin);
+  const refundableAmount = order.payment_status === 'paid' || order.payment_status === 'partially_refunded'
+    ? Math.max(0, Number(order.total_amount) - Number(order.refunded_amount ?? 0))
+    : 0;
+  const quote = calculateBookingsRefund(
+    policy,
+    selected.map(booking => ({ amount: refundableAmount > 0 ? shareOf(booking) : 0, startsAt: visitStart(booking) })),
+    refundableAmount
+  );
+
+  if (options.preview) {
+    return jsonResponse({ success: true, refund: quote });
+  }
+
+  // Claim the bookings first so two concurrent requests cannot both refund them
+  const selectedIds = selected.map(booking => booking.id);
+  const declinedFields = options.decline
+    ? { provider_status: 'declined', declined_at: new Date().toISOString(), provider_note: options.reason }
+    : {};
+  let claimQuery = supabaseAdmin
+    .from('bookings')
+    .update({ status: 'cancelled', ...declinedFields })
+    .in('id', selectedIds)
+    .not('status', 'in', '(cancelled,completed,no_show)');
+  claimQuery = options.decline
+    ? claimQuery.eq('provider_status', 'pending')
+    : claimQuery.not('provider_status', 'in', `(${STARTED_PROVIDER_STATUSES.join(',')})`);
+  const { data: claimed, error: claimError } = await claimQuery.select('id');
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  const restoreClaimed = async () => {
+    for (const booking of selected.filter(item => claimed?.some(row => row.id === item.id))) {
+      await supabaseAdmin
+        .from('bookings')
+        .update(options.decline
+          ? { status: booking.status, provider_status: booking.provider_status, declined_at: null, provider_note: null }
+          : { status: booking.status })
+        .eq('id', booking.id);
+    }
+  };
+
+  if (!claimed || claimed.length !== selectedIds.length) {
+    await restoreClaimed();
+    return jsonResponse({ error: "These bookings were changed by another request", code: "NOT_CANCELLABLE" }, 409);
+  }
+
+  let refundId: string | null = null;
+  if (quote.refundCents > 0 && order.stripe_payment_intent_id) {
+    try {
+      const stripe = createStripeClient();
+      const refund = await stripe.refunds.create({
+        payment_intent: order.stripe_payment_intent_id,
+        amount: quote.refundCents,
+        reason: 'requested_by_customer',
+        metadata: { order_id: order.id, booking_count: String(selectedIds.length) },
+      }, {
+        idempotencyKey: await bookingsIdempotencyKey(order.id, selectedIds),
+      });
+
+      refundId = refund.id;
+      console.log('💸 Refund issued:', refund.id, refund.status, quote.refundCents);
+
+      const { error: refundRecordError } = await supabaseAdmin
+        .from('order_refunds')
+        .upsert({
+          order_id: order.id,
+          stripe_refund_id: refund.id,
+          amount: quote.refundAmount,
+          currency: order.currency || 'usd',
+          refund_percentage: quote.refundPercentage,
+          policy_id: policy.id,
+          status: refund.status === 'succeeded' || refund.status === 'pending' ? refund.status : 'failed',
+          reason: options.reason,
+          requested_by: options.userId,
+        }, { onConflict: 'stripe_refund_id' });
+
+      if (refundRecordError) {
+        throw refundRecordError;
+      }
+    } catch (refundError) {
+      // Put the bookings back so the customer can try again
+      await restoreClaimed();
+      throw refundError;
+    }
+  }
+
+  const remaining = bookings
+    .filter(booking => !requested.has(booking.id) && booking.status !== 'cancelled')
+    .sort((a, b) => visitStart(a).getTime() - visitStart(b).getTime());
+  const refundedAmount = Number(order.refunded_amount ?? 0) + quote.refundAmount;
+
+  const orderUpdate: Record<string, unknown> = { refunded_amount: refundedAmount };
+  if (quote.refundCents > 0) {
+    orderUpdate.payment_status = refundedAmount >= Number(order.total_amount) ? 'refunded' : 'partially_refunded';
+  }
+  if (remaining.length === 0) {
+    Object.assign(orderUpdate, {
+      status: 'cancelled',
+      booking_status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancellation_reason: options.reason,
+    });
+  } else {
+    // The order shows its earliest appointment
+    orderUpdate.booking_date = remaining[0].booking_date;
+    orderUpdate.booking_time = remaining[0].booking_time;
+  }
+
+  const { error: orderUpdateError } = await supabaseAdmin
+    .from('orders')
+    .update(orderUpdate)
+    .eq('id', order.id);
+
+  if (orderUpdateError) {
+    throw orderUpdateError;
+  }
+
+  if (quote.refundCents > 0 && quote.tier === 'full') {
+    const { error: paymentStatusError } = await supabaseAdmin
+      .from('bookings')
+      .update({ payment_status: 'refunded' })
+      .in('id', selectedIds);
+
+    if (paymentStatusError) {
+      throw paymentStatusError;
+    }
+  }
+
+  // Give the slots back so other customers can book them
+  const { error: slotError } = await supabaseAdmin
+    .from('booking_slots')
+    .update({ status: 'available', booking_id: null, held_by: null, hold_expires_at: null })
+    .in('booking_id', selectedIds);
+
+  if (slotError) {
+    throw slotError;
+  }
+
+  await closeFinishedSeries(
+    supabaseAdmin,
+    selected.map(booking => booking.series_id).filter(Boolean) as string[]
+  );
+
+  console.log('✅ Bookings cancelled:', order.id, selectedIds.length, quote.tier, quote.refundAmount);
+
+  return jsonResponse({
+    success: true,
+    refund: quote,
+    refundId,
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log('🚫 Cancel order function started');
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    const { data: userData, error: userError } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (userError || !userData.user) {
+      return jsonResponse({ error: "Sign in to cancel an order", code: "UNAUTHENTICATED" }, 401);
+    }
+
+    const user = userData.user;
+    const { orderId, bookingIds = null, reason = null, preview = false, decline = false } = await req.json();
+
+    if (!orderId) {
+      throw new Error("Missing required parameter: orderId");
+    }
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (orderError) {
+      throw orderError;
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, auth_role')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const isAdmin = profile?.auth_role === 'admin' || profile?.auth_role === 'super_admin';
+
+    // Providers can only decline their own bookings, which is checked below
+    if (!order || (order.user_id !== user.id && !isAdmin && !decline)) {
+      return jsonResponse({ error: "Order not found", code: "NOT_FOUND" }, 404);
+    }
+
+    if (order.status === 'cancelled' || order.status === 'completed') {
+      return jsonResponse({ error: `This order is already ${order.status}`, code: "NOT_CANCELLABLE" }, 409);
+    }
+
+    const { data: bookings, error: bookingsError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, booking_date, booking_time, slot_id, status, total_amount, series_id, provider_id, provider_status')
+      .eq('order_id', order.id);
+
+    if (bookingsError) {
+      throw bookingsError;
+    }
+
+    if (decline) {
+      const requested = Array.isArray(bookingIds) ? bookingIds : [];
+      const declined = (bookings || []).filter(booking => requested.includes(booking.id));
+
+      if (
+        requested.length === 0 ||
+        declined.length !== requested.length ||
+        (!isAdmin && declined.some(booking => booking.provider_id !== profile?.id))
+      ) {
+        return jsonResponse({ error: "Booking not found", code: "NOT_FOUND" }, 404);
+      }
+
+      if (declined.some(booking => booking.provider_status !== 'pending')) {
+        return jsonResponse({ error: "Only bookings still waiting for your response can be declined", code: "NOT_DECLINABLE" }, 409);
+      }
+    }
+
+    if (Array.isArray(bookingIds) && bookingIds.length > 0) {
+      return await cancelBookings(supabaseAdmin, order, (bookings || []) as OrderBooking[], bookingIds, {
+        reason,
+        preview,
+        userId: user.id,
+        decline,
+      });
+    }
+
+    if ((bookings || []).some(booking => booking.status !== 'cancelled' && hasStarted(booking as OrderBooking))) {
+      return jsonResponse({
+        error: "Your provider is already on the way or has started a visit in this order",
+        code: "NOT_CANCELLABLE",
+      }, 409);
+    }
+
+    // The refund window is measured from the order's earliest appointment
+    const startsAt = [
+      ...(bookings || [])
+        .filter(booking => booking.status !== 'cancelled')
+        .map(visitStart),
+      bookingStart(order.booking_date, order.booking_time),
+    ]
+      .filter(date => !isNaN(date.getTime()))
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+
+    const policy = await loadCancellationPolicy(supabaseAdmin);
+    const refundableAmount = order.payment_status === 'paid' || order.payment_status === 'partially_refunded'
+      ? Math.max(0, Number(order.total_amount) - Number(order.refunded_amount ?? 0))
+      : 0;
+    const quote = calculateRefund(policy, refundableAmount, startsAt ?? new Date());
+
+    if (preview) {
+      return jsonResponse({ success: true, refund: quote });
+    }
+
+    // Claim the cancellation first so two concurrent requests cannot both refund
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('orders')
+      .update({
+        status: 'cancelled',
+        booking_status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancellation_reason: reason,
+      })
+      .eq('id', order.id)
+      .eq('status', order.status)
+      .select('id');
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse({ error: "This order was changed by another request", code: "NOT_CANCELLABLE" }, 409);
+    }
+
+    let refundId: string | null = null;
+    if (quote.refundCents > 0 && order.stripe_payment_intent_id) {
+      try {
+        const stripe = createStripeClient();
+        const refund = await stripe.refunds.create({
+          payment_intent: order.stripe_payment_intent_id,
+          amount: quote.refundCents,
+          reason: 'requested_by_customer',
+          metadata: { order_id: order.id },
+        }, {
+          idempotencyKey: `cancel-order-${order.id}`,
+        });
+
+        refundId = refund.id;
+        console.log('💸 Refund issued:', refund.id, refund.status, quote.refundCents);
+
+        const { error: refundRecordError } = await supabaseAdmin
+          .from('order_refunds')
+          .upsert({
+            order_id: order.id,
+            stripe_refund_id: refund.id,
+            amount: quote.refundAmount,
+            currency: order.currency || 'usd',
+            refund_percentage: quote.refundPercentage,
+            policy_id: policy.id,
+            status: refund.status === 'succeeded' || refund.status === 'pending' ? refund.status : 'failed',
+            reason,
+            requested_by: user.id,
+          }, { onConflict: 'stripe_refund_id' });
+
+        if (refundRecordError) {
+          throw refundRecordError;
+        }
+      } catch (refundError) {
+        // Put the order back so the customer can try again
+        await supabaseAdmin
+          .from('orders')
+          .update({ status: order.status, booking_status: order.booking_status, cancelled_at: null, cancellation_reason: null })
+          .eq('id', order.id);
+        throw refundError;
+      }
+    }
+
+    const orderUpdate: Record<string, unknown> = {
+      refunded_amount: Number(order.refunded_amount ?? 0) + quote.refundAmount,
+    };
+    if (quote.refundCents > 0) {
+      orderUpdate.payment_status = quote.tier === 'full' ? 'refunded' : 'partially_refunded';
+    }
+
+    const { error: refundSummaryError } = await supabaseAdmin
+      .from('orders')
+      .update(orderUpdate)
+      .eq('id', order.id);
+
+    if (refundSummaryError) {
+      throw refundSummaryError;
+    }
+
+    const orderBookingIds = (bookings || []).map(booking => booking.id);
+    if (orderBookingIds.length > 0) {
+      const { error: bookingUpdateError } = await supabaseAdmin
+        .from('bookings')
+        .update({
+          status: 'cancelled',
+          ...(quote.tier === 'full' && quote.refundCents > 0 ? { payment_status: 'refunded' } : {}),
+        })
+        .in('id', orderBookingIds);
+
+      if (bookingUpdateError) {
+        throw bookingUpdateError;
+      }
+
+      // Give the slots back so other customers can book them
+      const { error: slotError } = await supabaseAdmin
+        .from('booking_slots')
+        .update({ status: 'available', booking_id: null, held_by: null, hold_expires_at: null })
+        .in('booking_id', orderBookingIds);
+
+      if (slotError) {
+        throw slotError;
+      }
+
+      await closeFinishedSeries(
+        supabaseAdmin,
+        (bookings || []).map(booking => booking.series_id).filter(Boolean) as string[]
+      );
+    }
+
+    console.log('✅ Order cancelled:', order.id, quote.tier, quote.refundAmount);
+
+    return jsonResponse({
+      success: true,
+      refund: quote,
+      refundId,
+    });
+
+  } catch (error) {
+    console.error("❌ Cancel order error:", error);
+    return jsonResponse({
+      error: error.message || "Failed to cancel order"
+    }, 500);
+  }
+});
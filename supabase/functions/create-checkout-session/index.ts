@@ -1,18 +1,34 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { calculateCheckoutTotals, CheckoutCartItem, PricingError } from "../_shared/pricing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Client and server totals may differ by a cent from rounding order
+const TOTAL_TOLERANCE_CENTS = 1;
+
+// Stripe will not expire a checkout session sooner than 30 minutes after creation
+const CHECKOUT_SESSION_TTL_MS = 35 * 60 * 1000;
+// Coupon reservations and slot holds outlive their session so a late webhook can still commit them
+const RESERVATION_GRACE_MS = 15 * 60 * 1000;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Coupon use held for this checkout, released again if the session is never created
+  let couponRedemptionId: string | null = null;
+  let supabaseAdmin: SupabaseClient | null = null;
+  // Stripe session created for this checkout, expired again if recording it fails
+  let stripe: Stripe | null = null;
+  let createdSessionId: string | null = null;
+
   try {
     console.log('🚀 Create checkout session function started');
 
@@ -22,7 +38,7 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_ANON_KEY") ?? ""
     );
 
-    const supabaseAdmin = createClient(
+    supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
@@ -56,7 +72,7 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { amount, currency = "usd", cartItems, metadata = {}, guestInfo = {} } = await req.json();
+    const { amount, currency = "usd", cartItems, couponCode = null, taxRegion = null, metadata = {}, guestInfo = {} } = await req.json();
     
     if (!amount || !cartItems || cartItems.length === 0) {
       throw new Error("Missing required parameters: amount and cartItems");
@@ -64,13 +80,44 @@ serve(async (req) => {
 
     console.log('💰 Processing payment for:', { amount, currency, itemCount: cartItems.length });
 
+    // Signed-in customers are taxed by the province on their profile; guests pick one in the cart
+    let profileRegion: string | null = null;
+    if (userId) {
+      const { data: profile } = await supabaseAdmin
+        .from('user_profiles')
+        .select('state')
+        .eq('user_id', userId)
+        .maybeSingle();
+      profileRegion = profile?.state || null;
+    }
+
+    // Never trust client prices: reload every line and recompute coupon, fees and tax
+    const totals = await calculateCheckoutTotals(supabaseAdmin, cartItems, {
+      couponCode,
+      customerId: userId,
+      taxRegion: profileRegion ?? taxRegion,
+    });
+
+    if (Math.abs(totals.totalCents - Math.round(Number(amount))) > TOTAL_TOLERANCE_CENTS) {
+      console.warn('⚠️ Checkout total mismatch:', { clientAmount: amount, serverAmount: totals.totalCents });
+      return new Response(JSON.stringify({
+        error: "Your cart total has changed. Please review your cart and try again.",
+        code: "TOTAL_MISMATCH",
+        clientAmount: Math.round(Number(amount)),
+        expected: totals,
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 409,
+      });
+    }
+
     // Initialize Stripe
     const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
     if (!stripeSecretKey) {
       throw new Error("STRIPE_SECRET_KEY not configured");
     }
 
-    const stripe = new Stripe(stripeSecretKey, {
+    stripe = new Stripe(stripeSecretKey, {
       apiVersion: "2023-10-16",
     });
 
@@ -90,26 +137,123 @@ serve(async (req) => {
       }
     }
 
-    // Convert cart items to Stripe line items
-    interface CartItem {
-      serviceName: string;
-      providerName?: string;
-      price: number;
-      quantity: number;
-    }
-    
-    const lineItems = cartItems.map((item: CartItem) => ({
+    // Build Stripe line items from server prices
+    const providerNames = new Map<string, string | undefined>(
+      cartItems.map((item: { serviceId: string; providerName?: string }) => [item.serviceId, item.providerName])
+    );
+
+    const lineItems = totals.lines.map(line => ({
       price_data: {
         currency: currency,
         product_data: {
-          name: item.serviceName,
-          description: item.providerName ? `Service by ${item.providerName}` : 'Professional service',
+          name: line.serviceName,
+          description: providerNames.get(line.serviceId) ? `Service by ${providerNames.get(line.serviceId)}` : 'Professional service',
         },
-        unit_amount: Math.round(item.price * 100), // Convert to cents
+        unit_amount: Math.round(line.unitPrice * 100), // Convert to cents
       },
-      quantity: item.quantity || 1,
+      quantity: line.quantity,
     }));
 
+    const servicesCents = lineItems.reduce((sum, item) => sum + item.price_data.unit_amount * item.quantity, 0);
+    const discountCents = Math.round(totals.discountAmount * 100);
+    const platformFeeCents = Math.round(totals.platformFee * 100);
+    // Tax takes up any rounding remainder so Stripe charges exactly totals.totalCents
+    const taxCents = totals.totalCents - (servicesCents - discountCents + platformFeeCents);
+
+    if (platformFeeCents > 0) {
+      lineItems.push({
+        price_data: {
+          currency: currency,
+          product_data: { name: 'Platform Fee', description: 'Platform service fee' },
+          unit_amount: platformFeeCents,
+        },
+        quantity: 1,
+      });
+    }
+
+    if (taxCents > 0) {
+      lineItems.push({
+        price_data: {
+          currency: currency,
+          product_data: {
+            name: 'Tax',
+            description: totals.tax.components.map(tax => `${tax.name} ${tax.rate}%`).join(' + ') || 'Tax',
+          },
+          unit_amount: taxCents,
+        },
+        quantity: 1,
+      });
+    }
+
+    const expiresAt = new Date(Date.now() + CHECKOUT_SESSION_TTL_MS);
+    const reservedUntil = new Date(expiresAt.getTime() + RESERVATION_GRACE_MS).toISOString();
+
+    // Slot holds only last a few minutes, so keep the customer's for as long as
+    // this session can be paid; a hold that already lapsed may be someone else's
+    const slotIds = cartItems
+      .map((item: CheckoutCartItem) => item.slotId ?? (item.serviceDetails?.slotId as string | undefined))
+      .filter(Boolean);
+
+    if (slotIds.length > 0) {
+      const { data: holdsKept, error: holdError } = await supabaseAdmin.rpc('extend_slot_holds', {
+        p_slot_ids: slotIds,
+        p_user_id: userId,
+        p_hold_until: reservedUntil,
+      });
+
+      if (holdError) {
+        throw holdError;
+      }
+
+      if (!holdsKept) {
+        console.warn('⚠️ Checkout slot holds lapsed:', slotIds);
+        return new Response(JSON.stringify({
+          error: "The time you picked is no longer reserved. Please choose a time again.",
+          code: "SLOT_HOLD_EXPIRED",
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 409,
+        });
+      }
+    }
+
+    // Hold one use of the coupon until the session is paid or expires, so
+    // concurrent checkouts cannot exceed its usage limits
+    if (totals.coupon) {
+      const { data: reservation, error: reservationError } = await supabaseAdmin.rpc('reserve_coupon_redemption', {
+        p_offer_id: totals.coupon.offerId,
+        p_customer_id: userId,
+        p_code: totals.coupon.code,
+        p_original_amount: totals.subtotal,
+        p_discount_amount: totals.discountAmount,
+        p_reserved_until: reservedUntil,
+      });
+
+      if (reservationError) {
+        throw reservationError;
+      }
+
+      const result = Array.isArray(reservation) ? reservation[0] : reservation;
+      if (!result?.redemption_id) {
+        throw new PricingError('COUPON_UNAVAILABLE', result?.error_message || 'This coupon is no longer available');
+      }
+
+      couponRedemptionId = result.redemption_id;
+    }
+
+    // Stripe applies discounts through coupon objects, so mint a single-use one
+    let discounts;
+    if (discountCents > 0 && totals.coupon) {
+      const stripeCoupon = await stripe.coupons.create({
+        amount_off: discountCents,
+        currency: currency,
+        duration: 'once',
+        max_redemptions: 1,
+        name: totals.coupon.code,
+      });
+      discounts = [{ coupon: stripeCoupon.id }];
+    }
+
     console.log('🛒 Line items prepared:', lineItems.length);
 
     // Create Stripe Checkout session
@@ -117,40 +261,55 @@ serve(async (req) => {
       customer: customerId,
       customer_email: customerId ? undefined : userEmail,
       line_items: lineItems,
+      discounts,
       mode: "payment", // One-time payment
+      expires_at: Math.floor(expiresAt.getTime() / 1000),
       success_url: `${req.headers.get("origin")}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${req.headers.get("origin")}/cart`,
       metadata: {
+        ...metadata,
+        // Server-set identity and amounts override anything the client sent
         user_id: userId || 'guest',
         user_email: userEmail,
         is_authenticated: isAuthenticated.toString(),
-        cart_items: JSON.stringify(cartItems),
-        guest_info: JSON.stringify(guestInfo),
-        ...metadata,
+        subtotal: totals.subtotal.toFixed(2),
+        discountAmount: totals.discountAmount.toFixed(2),
+        couponCode: totals.coupon?.code ?? '',
+        platformFees: totals.platformFee.toFixed(2),
+        taxAmount: totals.taxAmount.toFixed(2),
+        total: totals.total.toFixed(2),
       },
     });
 
+    createdSessionId = session.id;
     console.log('✅ Checkout session created:', session.id);
 
-    // Store payment intent for order creation after successful payment
-    const { error: paymentIntentError } = await supabaseAdmin
-      .from('payment_intents')
+    // Stripe metadata is capped at 500 characters per value, so the cart (with its
+    // scheduled slots) is stored here for the webhook to turn into bookings
+    const { error: checkoutSessionError } = await supabaseAdmin
+      .from('checkout_sessions')
       .insert({
-        id: session.payment_intent as string,
-        amount: amount,
-        currency,
-        status: 'requires_payment_method',
+        id: session.id,
         user_id: userId,
         cart_items: cartItems,
-        metadata: {
-          session_id: session.id,
-          guest_info: guestInfo,
-          ...metadata
-        }
+        guest_info: guestInfo,
+        totals,
+        metadata,
       });
 
-    if (paymentIntentError) {
-      console.error('Failed to store payment intent:', paymentIntentError);
+    if (checkoutSessionError) {
+      throw checkoutSessionError;
+    }
+
+    if (couponRedemptionId) {
+      const { error: redemptionError } = await supabaseAdmin
+        .from('coupons')
+        .update({ checkout_session_id: session.id })
+        .eq('id', couponRedemptionId);
+
+      if (redemptionError) {
+        throw redemptionError;
+      }
     }
 
     return new Response(JSON.stringify({ 
@@ -162,6 +321,39 @@ serve(async (req) => {
     });
 
   } catch (error) {
+    // Without its checkout_sessions row a paid session could never be fulfilled,
+    // so make sure it can't be paid at all
+    if (createdSessionId && stripe) {
+      try {
+        await stripe.checkout.sessions.expire(createdSessionId);
+      } catch (expireError) {
+        console.error('❌ Failed to expire checkout session:', createdSessionId, expireError);
+      }
+    }
+
+    if (couponRedemptionId && supabaseAdmin) {
+      const { error: releaseError } = await supabaseAdmin
+        .from('coupons')
+        .update({ status: 'released' })
+        .eq('id', couponRedemptionId)
+        .eq('status', 'reserved');
+
+      if (releaseError) {
+        console.error('❌ Failed to release coupon reservation:', couponRedemptionId, releaseError);
+      }
+    }
+
+    if (error instanceof PricingError) {
+      console.warn('⚠️ Cart could not be priced:', error.code, error.message);
+      return new Response(JSON.stringify({
+        error: error.message,
+        code: error.code,
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
     console.error("❌ Create checkout session error:", error);
     return new Response(JSON.stringify({ 
       error: error.message || "Failed to create checkout session" 
@@ -0,0 +1,695 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { taxSnapshot } from "../_shared/pricing.ts";
+import { upsertSessionOrder } from "../_shared/orders.ts";
+import type { CheckoutTotals, PricedLine } from "../_shared/pricing.ts";
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") ?? "", {
+  apiVersion: "2023-10-16",
+});
+
+// Stripe signs webhooks with HMAC-SHA256; Deno needs the SubtleCrypto provider
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+// Used only when no cart line carries a scheduled date and time
+const FALLBACK_BOOKING_TIME = '10:00:00';
+
+interface CartLine {
+  serviceId: string;
+  serviceName?: string;
+  providerId?: string;
+  providerName?: string;
+  price?: number;
+  quantity?: number;
+  serviceDetails?: Record<string, unknown>;
+  date?: string;
+  time?: string;
+  slotId?: string;
+}
+
+interface LineSchedule {
+  date: string | null;
+  time: string | null;
+  slotId: string | null;
+  seriesId: string | null;
+  seriesOccurrence: number;
+}
+
+/**
+ * Normalise the time formats the cart pages produce ("14:30", "14:30:00",
+ * "2:30 PM") to a Postgres TIME literal.
+ */
+function toDbTime(time: string | null | undefined): string | null {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  let hours = Number(match[1]);
+  const meridiem = match[4]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+
+  return `${String(hours).padStart(2, '0')}:${match[2]}:${match[3] ?? '00'}`;
+}
+
+/**
+ * The cart pages keep the chosen slot either on the item itself or inside
+ * serviceDetails (that is what survives the cart_items table round trip).
+ */
+function lineSchedule(item: CartLine): LineSchedule {
+  const details = item.serviceDetails ?? {};
+  const date = item.date ?? (details.date as string | undefined);
+
+  return {
+    date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null,
+    time: toDbTime(item.time ?? (details.time as string | undefined)),
+    slotId: item.slotId ?? (details.slotId as string | undefined) ?? null,
+    seriesId: (details.seriesId as string | undefined) ?? null,
+    seriesOccurrence: Number(details.seriesOccurrence ?? 0) || 0,
+  };
+}
+
+/**
+ * Read the cart for a checkout session. Sessions created before carts were
+ * stored in checkout_sessions still carry it in their Stripe metadata.
+ */
+async function loadCheckoutCart(supabaseAdmin: SupabaseClient, session: Stripe.Checkout.Session) {
+  const { data, error } = await supabaseAdmin
+    .from('checkout_sessions')
+    .select('cart_items, guest_info, totals')
+    .eq('id', session.id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (data) {
+    return {
+      cartItems: (data.cart_items || []) as CartLine[],
+      guestInfo: (data.guest_info || {}) as Record<string, string>,
+      totals: (data.totals || null) as CheckoutTotals | null,
+    };
+  }
+
+  return {
+    cartItems: (session.metadata?.cart_items ? JSON.parse(session.metadata.cart_items) : []) as CartLine[],
+    guestInfo: (session.metadata?.guest_info ? JSON.parse(session.metadata.guest_info) : {}) as Record<string, string>,
+    totals: null as CheckoutTotals | null,
+  };
+}
+
+/**
+ * Recurring series the customer held for this cart. Ids that are not the
+ * customer's own pending or active series with the line's provider are ignored.
+ */
+async function loadCartSeries(supabaseAdmin: SupabaseClient, cartItems: CartLine[], userId: string | null) {
+  const seriesIds = [...new Set(cartItems.map(item => lineSchedule(item).seriesId).filter(Boolean))] as string[];
+  if (!userId || seriesIds.length === 0) {
+    return new Map<string, { id: string; provider_id: string }>();
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('booking_series')
+    .select('id, provider_id')
+    .in('id', seriesIds)
+    .eq('customer_id', userId)
+    .in('status', ['pending', 'active']);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map((data || []).map(series => [series.id, series]));
+}
+
+/**
+ * Whether the slot a line picked is still the customer's: held by them, or
+ * already booked for a line of this order by this or an earlier delivery.
+ */
+async function isSlotKept(
+  supabaseAdmin: SupabaseClient,
+  slotId: string,
+  userId: string | null,
+  orderBookingIds: (string | null)[]
+) {
+  const { data: slot, error } = await supabaseAdmin
+    .from('booking_slots')
+    .select('status, held_by, booking_id')
+    .eq('id', slotId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!slot) {
+    return false;
+  }
+
+  if (slot.status === 'held') {
+    return userId !== null && slot.held_by === userId;
+  }
+
+  return slot.status === 'booked' && orderBookingIds.includes(slot.booking_id);
+}
+
+/**
+ * Alert admins and the customer to a paid booking that could not keep its
+ * slot, so it can be rebooked or refunded.
+ */
+async function flagUnheldBooking(
+  supabaseAdmin: SupabaseClient,
+  orderId: string,
+  booking: { id: string; provider_id: string },
+  userId: string | null,
+  item: CartLine,
+  schedule: LineSchedule
+) {
+  const serviceLabel = item.serviceName ?? 'Service';
+  const whenLabel = [schedule.date, schedule.time?.slice(0, 5)].filter(Boolean).join(' at ');
+  console.warn('⚠️ Slot hold lapsed before payment for booking:', booking.id, schedule.slotId);
+
+  const { error: alertError } = await supabaseAdmin
+    .from('admin_notifications')
+    .insert({
+      type: 'booking_needs_rebook',
+      title: 'Paid Booking Lost Its Slot',
+      message: `${serviceLabel} on ${whenLabel || 'the chosen date'} (booking ${booking.id}, order ${orderId}) was paid after its slot hold lapsed. Rebook or refund it.`,
+      provider_id: booking.provider_id,
+      provider_name: item.providerName ?? null,
+    });
+
+  if (alertError) {
+    console.error('❌ Failed to alert admins about unheld booking:', booking.id, alertError);
+  }
+
+  await supabaseAdmin.rpc('create_notification', {
+    p_user_id: userId,
+    p_recipient_role: 'customer',
+    p_type: 'booking_needs_rebook',
+    p_title: 'Your Time Slot Was Taken',
+    p_message: `The time you picked for ${serviceLabel} was no longer available when your payment completed. We'll be in touch to rebook or refund it.`,
+    p_link: `/dashboard/customer/orders/${orderId}`,
+    p_order_id: orderId,
+    p_booking_id: booking.id,
+  });
+}
+
+/**
+ * Create one booking per cart line in the order, at the slot the customer
+ * picked, and confirm any slot they were holding. A line whose hold lapsed
+ * is left pending for an admin to rebook or refund. Returns the booking id
+ * of each line, by cart index.
+ */
+async function createOrderBookings(
+  supabaseAdmin: SupabaseClient,
+  orderId: string,
+  cartItems: CartLine[],
+  userId: string | null,
+  paymentIntentId: string,
+  fallback: { date: string; time: string }
+): Promise<(string | null)[]> {
+  const serviceIds = [...new Set(cartItems.map(item => item.serviceId))];
+  const { data: services, error: servicesError } = await supabaseAdmin
+    .from('provider_services')
+    .select('id, provider_id, price')
+    .in('id', serviceIds);
+
+  if (servicesError) {
+    throw servicesError;
+  }
+
+  const servicesById = new Map((services || []).map(service => [service.id, service]));
+  const seriesById = await loadCartSeries(supabaseAdmin, cartItems, userId);
+  const bookingIds: (string | null)[] = [];
+
+  for (const [lineIndex, item] of cartItems.entries()) {
+    const service = servicesById.get(item.serviceId);
+    if (!service) {
+      console.warn('⚠️ Skipping booking for unknown service:', item.serviceId);
+      bookingIds.push(null);
+      continue;
+    }
+
+    const schedule = lineSchedule(item);
+    const quantity = item.quantity ?? 1;
+    const series = schedule.seriesId ? seriesById.get(schedule.seriesId) : undefined;
+    const seriesId = series?.provider_id === service.provider_id ? series.id : null;
+    const seriesOccurrence = seriesId ? schedule.seriesOccurrence : 0;
+
+    // A line whose slot hold lapsed before payment completed is not confirmed:
+    // the slot may have gone to someone else in the meantime
+    const slotKept = !schedule.slotId || await isSlotKept(supabaseAdmin, schedule.slotId, userId, bookingIds);
+
+    // ON CONFLICT DO NOTHING on the order's cart line keeps retries from creating a second booking
+    const { data: inserted, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .upsert({
+        order_id: orderId,
+        customer_id: userId,
+        provider_id: service.provider_id,
+        service_id: service.id,
+        service_name: item.serviceName ?? null,
+        provider_name: item.providerName ?? null,
+        slot_id: slotKept ? schedule.slotId : null,
+        booking_date: schedule.date ?? fallback.date,
+        booking_time: schedule.time ?? fallback.time,
+        quantity,
+        total_amount: Number(service.price) * quantity,
+        status: slotKept ? 'confirmed' : 'pending',
+        payment_status: 'paid',
+        payment_intent_id: paymentIntentId,
+        special_instructions: (item.serviceDetails?.instructions as string | undefined) ?? null,
+        series_id: seriesId,
+        series_occurrence: seriesOccurrence,
+        line_index: lineIndex,
+      }, { onConflict: 'order_id,line_index', ignoreDuplicates: true })
+      .select('id');
+
+    if (bookingError) {
+      throw bookingError;
+    }
+
+    const { data: booking, error: bookingLookupError } = await supabaseAdmin
+      .from('bookings')
+      .select('id')
+      .eq('order_id', orderId)
+      .eq('line_index', lineIndex)
+      .single();
+
+    if (bookingLookupError) {
+      throw bookingLookupError;
+    }
+
+    bookingIds.push(booking.id);
+
+    if (!schedule.slotId) {
+      continue;
+    }
+
+    if (!slotKept) {
+      // Only the delivery that created the booking raises the alert
+      if (inserted?.length) {
+        await flagUnheldBooking(supabaseAdmin, orderId, { id: booking.id, provider_id: service.provider_id }, userId, item, schedule);
+      }
+      continue;
+    }
+
+    const { data: confirmed, error: confirmError } = await supabaseAdmin.rpc('confirm_slot_booking', {
+      slot_id: schedule.slotId,
+      user_id: userId,
+      booking_id: booking.id,
+    });
+
+    if (confirmError) {
+      throw confirmError;
+    }
+
+    // Not confirmed when a previous delivery or another line of this order
+    // already booked the slot, or when the hold was taken since it was checked
+    if (!confirmed && !await isSlotKept(supabaseAdmin, schedule.slotId, userId, bookingIds)) {
+      const { data: unconfirmed, error: unconfirmError } = await supabaseAdmin
+        .from('bookings')
+        .update({ status: 'pending', slot_id: null })
+        .eq('id', booking.id)
+        .eq('status', 'confirmed')
+        .select('id');
+
+      if (unconfirmError) {
+        throw unconfirmError;
+      }
+
+      if (unconfirmed?.length) {
+        await flagUnheldBooking(supabaseAdmin, orderId, { id: booking.id, provider_id: service.provider_id }, userId, item, schedule);
+      }
+    }
+  }
+
+  // The series is live once an order has paid for it
+  if (seriesById.size > 0) {
+    const { error: seriesError } = await supabaseAdmin
+      .from('booking_series')
+      .update({ status: 'active', order_id: orderId })
+      .in('id', [...seriesById.keys()])
+      .eq('status', 'pending');
+
+    if (seriesError) {
+      throw seriesError;
+    }
+  }
+
+  return bookingIds;
+}
+
+/**
+ * Record the platform fees charged on each line against its booking, one row
+ * per fee rule. Priced lines follow the cart order, as do `bookingIds`.
+ * Sessions priced before per-line fees carry none and are skipped.
+ */
+async function recordBookingFees(supabaseAdmin: SupabaseClient, bookingIds: (string | null)[], pricedLines: PricedLine[]) {
+  for (const [index, line] of pricedLines.entries()) {
+    if (!line.fees?.length) {
+      continue;
+    }
+
+    const bookingId = bookingIds[index];
+    if (!bookingId) {
+      console.warn('⚠️ No booking to record fees on:', line.serviceId);
+      continue;
+    }
+
+    // Unique on (booking_id, platform_fee_id), so retries add nothing
+    const { error: feesError } = await supabaseAdmin
+      .from('booking_fees')
+      .upsert(line.fees.map(fee => ({
+        booking_id: bookingId,
+        platform_fee_id: fee.platformFeeId,
+        description: fee.description,
+        fee_type: fee.feeType,
+        fee_value: fee.feeValue,
+        fee_amount: fee.feeAmount,
+      })), { onConflict: 'booking_id,platform_fee_id', ignoreDuplicates: true });
+
+    if (feesError) {
+      throw feesError;
+    }
+  }
+}
+
+/**
+ * Commit the coupon use reserved at checkout, against the first booking the
+ * coupon discounted. The usage_count trigger fires once, on the reserved → used move.
+ */
+async function commitCouponRedemption(
+  supabaseAdmin: SupabaseClient,
+  sessionId: string,
+  orderId: string,
+  bookingIds: (string | null)[],
+  pricedLines: PricedLine[]
+) {
+  const discountedIndex = pricedLines.findIndex(line => (line.discountAmount ?? 0) > 0);
+  const bookingId = discountedIndex >= 0 ? bookingIds[discountedIndex] ?? null : null;
+
+  const { data: committed, error: commitError } = await supabaseAdmin.rpc('commit_coupon_redemption', {
+    p_checkout_session_id: sessionId,
+    p_order_id: orderId,
+    p_booking_id: bookingId,
+  });
+
+  if (commitError) {
+    throw commitError;
+  }
+
+  if (committed) {
+    console.log('🎟️ Coupon redemption committed:', sessionId, bookingId);
+  }
+}
+
+/**
+ * Create the order for a paid checkout session. Safe to call repeatedly:
+ * the order is keyed by the checkout session id, so retries reuse it.
+ */
+async function handleCheckoutSessionCompleted(supabaseAdmin: SupabaseClient, session: Stripe.Checkout.Session) {
+  if (session.payment_status !== 'paid') {
+    console.log('⏳ Checkout session completed but not paid yet:', session.id, session.payment_status);
+    return;
+  }
+
+  const paymentIntentId = session.payment_intent as string;
+  const { cartItems, guestInfo, totals } = await loadCheckoutCart(supabaseAdmin, session);
+  const userId = session.metadata?.user_id && session.metadata.user_id !== 'guest' ? session.metadata.user_id : null;
+
+  // The order shows the earliest scheduled appointment in the cart
+  const [firstSlot] = cartItems
+    .map(lineSchedule)
+    .filter(schedule => schedule.date && schedule.time)
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+
+  const fallback = {
+    date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    time: FALLBACK_BOOKING_TIME,
+  };
+
+  // Record the payment intent first; orders.payment_intent_id references it
+  const { error: paymentIntentError } = await supabaseAdmin
+    .from('payment_intents')
+    .upsert({
+      id: paymentIntentId,
+      amount: session.amount_total ?? 0,
+      currency: session.currency || 'usd',
+      status: 'succeeded',
+      user_id: userId,
+      stripe_customer_id: (session.customer as string) || null,
+      cart_items: cartItems,
+      metadata: {
+        session_id: session.id,
+        guest_info: guestInfo,
+      },
+    }, { onConflict: 'id' });
+
+  if (paymentIntentError) {
+    throw paymentIntentError;
+  }
+
+  // Concurrent or repeated deliveries for the same session reuse one order
+  const orderId = await upsertSessionOrder(supabaseAdmin, {
+    user_id: userId,
+    total_amount: session.amount_total ? session.amount_total / 100 : 0,
+    currency: session.currency || 'usd',
+    payment_intent_id: paymentIntentId,
+    stripe_payment_intent_id: paymentIntentId,
+    stripe_session_id: session.id,
+    status: 'confirmed',
+    payment_status: 'paid',
+    cart_items: cartItems,
+    customer_info: guestInfo,
+    tax_amount: totals?.taxAmount ?? Number(session.metadata?.taxAmount ?? 0),
+    // Sessions priced before per-line tax have no breakdown to keep
+    tax_snapshot: totals?.tax ? taxSnapshot(totals) : null,
+    booking_date: firstSlot?.date ?? fallback.date,
+    booking_time: firstSlot?.time ?? fallback.time,
+    service_name: cartItems.length > 1 ? `${cartItems.length} Services Booked` : cartItems[0]?.serviceName || 'Service',
+    provider_name: cartItems.length > 1 ? 'Multiple Providers' : cartItems[0]?.providerName || 'Provider',
+    customer_name: guestInfo?.name || session.customer_details?.name || 'Customer',
+    customer_phone: guestInfo?.phone || session.customer_details?.phone || '',
+    customer_address: guestInfo?.address || session.customer_details?.address?.line1 || 'Address not provided',
+    special_instructions: guestInfo?.instructions || ''
+  });
+
+  const { error: linkError } = await supabaseAdmin
+    .from('payment_intents')
+    .update({ order_id: orderId })
+    .eq('id', paymentIntentId);
+
+  if (linkError) {
+    throw linkError;
+  }
+
+  const bookingIds = await createOrderBookings(supabaseAdmin, orderId, cartItems, userId, paymentIntentId, fallback);
+  await recordBookingFees(supabaseAdmin, bookingIds, totals?.lines ?? []);
+
+  if (totals?.coupon) {
+    await commitCouponRedemption(supabaseAdmin, session.id, orderId, bookingIds, totals.lines);
+  }
+
+  console.log('✅ Order ready for checkout session:', session.id, orderId);
+}
+
+/**
+ * An expired session will never be paid, so give back the coupon use it held
+ */
+async function handleCheckoutSessionExpired(supabaseAdmin: SupabaseClient, session: Stripe.Checkout.Session) {
+  const { data: released, error: releaseError } = await supabaseAdmin.rpc('release_coupon_redemption', {
+    p_checkout_session_id: session.id,
+  });
+
+  if (releaseError) {
+    throw releaseError;
+  }
+
+  console.log('⌛ Checkout session expired:', session.id, released ? 'coupon released' : 'no coupon held');
+}
+
+async function handlePaymentFailed(supabaseAdmin: SupabaseClient, paymentIntent: Stripe.PaymentIntent) {
+  const { error: paymentIntentError } = await supabaseAdmin
+    .from('payment_intents')
+    .update({ status: 'failed' })
+    .eq('id', paymentIntent.id);
+
+  if (paymentIntentError) {
+    throw paymentIntentError;
+  }
+
+  // Never downgrade an order that has already been paid
+  const { error: orderError } = await supabaseAdmin
+    .from('orders')
+    .update({ payment_status: 'failed' })
+    .eq('stripe_payment_intent_id', paymentIntent.id)
+    .neq('payment_status', 'paid');
+
+  if (orderError) {
+    throw orderError;
+  }
+
+  console.log('❌ Payment failed:', paymentIntent.id, paymentIntent.last_payment_error?.message);
+}
+
+async function handleChargeRefunded(supabaseAdmin: SupabaseClient, charge: Stripe.Charge) {
+  const paymentIntentId = charge.payment_intent as string;
+  if (!paymentIntentId) {
+    console.log('ℹ️ Refunded charge has no payment intent:', charge.id);
+    return;
+  }
+
+  const fullyRefunded = charge.amount_refunded >= charge.amount;
+  const paymentStatus = fullyRefunded ? 'refunded' : 'partially_refunded';
+
+  const { error: paymentIntentError } = await supabaseAdmin
+    .from('payment_intents')
+    .update({ status: paymentStatus })
+    .eq('id', paymentIntentId);
+
+  if (paymentIntentError) {
+    throw paymentIntentError;
+  }
+
+  const orderUpdate: Record<string, string> = { payment_status: paymentStatus };
+  if (fullyRefunded) {
+    orderUpdate.status = 'cancelled';
+  }
+
+  const { error: orderError } = await supabaseAdmin
+    .from('orders')
+    .update(orderUpdate)
+    .eq('stripe_payment_intent_id', paymentIntentId);
+
+  if (orderError) {
+    throw orderError;
+  }
+
+  console.log('↩️ Charge refunded:', charge.id, paymentStatus);
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      headers: jsonHeaders,
+      status: 405,
+    });
+  }
+
+  const signature = req.headers.get("Stripe-Signature");
+  const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+
+  if (!signature || !webhookSecret) {
+    console.error('❌ Missing Stripe signature or STRIPE_WEBHOOK_SECRET');
+    return new Response(JSON.stringify({ error: "Webhook signature missing" }), {
+      headers: jsonHeaders,
+      status: 400,
+    });
+  }
+
+  // The signature is computed over the raw body, so read it as text
+  const body = await req.text();
+
+  let event: Stripe.Event;
+  try {
+    event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret, undefined, cryptoProvider);
+  } catch (error) {
+    console.error('❌ Stripe signature verification failed:', error.message);
+    return new Response(JSON.stringify({ error: "Invalid signature" }), {
+      headers: jsonHeaders,
+      status: 400,
+    });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  try {
+    console.log('📨 Stripe webhook received:', event.type, event.id);
+
+    // Stripe retries deliveries, so skip events we have already processed
+    const { data: existingEvent, error: lookupError } = await supabaseAdmin
+      .from('stripe_webhook_events')
+      .select('status')
+      .eq('id', event.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      throw lookupError;
+    }
+
+    if (existingEvent?.status === 'processed') {
+      console.log('ℹ️ Event already processed:', event.id);
+      return new Response(JSON.stringify({ received: true, duplicate: true }), {
+        headers: jsonHeaders,
+        status: 200,
+      });
+    }
+
+    const { error: recordError } = await supabaseAdmin
+      .from('stripe_webhook_events')
+      .upsert({
+        id: event.id,
+        type: event.type,
+        status: 'processing',
+        error_message: null,
+        payload: event.data.object,
+      }, { onConflict: 'id' });
+
+    if (recordError) {
+      throw recordError;
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await handleCheckoutSessionCompleted(supabaseAdmin, event.data.object as Stripe.Checkout.Session);
+        break;
+      case 'checkout.session.expired':
+        await handleCheckoutSessionExpired(supabaseAdmin, event.data.object as Stripe.Checkout.Session);
+        break;
+      case 'payment_intent.payment_failed':
+        await handlePaymentFailed(supabaseAdmin, event.data.object as Stripe.PaymentIntent);
+        break;
+      case 'charge.refunded':
+        await handleChargeRefunded(supabaseAdmin, event.data.object as Stripe.Charge);
+        break;
+      default:
+        console.log('ℹ️ Ignoring unhandled event type:', event.type);
+    }
+
+    await supabaseAdmin
+      .from('stripe_webhook_events')
+      .update({ status: 'processed', processed_at: new Date().toISOString() })
+      .eq('id', event.id);
+
+    return new Response(JSON.stringify({ received: true }), {
+      headers: jsonHeaders,
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("❌ Stripe webhook error:", error);
+
+    await supabaseAdmin
+      .from('stripe_webhook_events')
+      .update({ status: 'failed', error_message: error.message || String(error) })
+      .eq('id', event.id);
+
+    // A non-2xx response makes Stripe retry the delivery later
+    return new Response(JSON.stringify({
+      error: error.message || "Failed to process webhook"
+    }), {
+      headers: jsonHeaders,
+      status: 500,
+    });
+  }
+});
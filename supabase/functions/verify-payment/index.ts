@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { findSessionOrder } from "../_shared/orders.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -74,49 +75,21 @@ serve(async (req) => {
 
     if (session.payment_status === 'paid') {
       console.log('✅ Payment confirmed for session:', sessionId);
-      
-      // Parse metadata from session
-      const cartItems = session.metadata?.cart_items ? JSON.parse(session.metadata.cart_items) : [];
-      const guestInfo = session.metadata?.guest_info ? JSON.parse(session.metadata.guest_info) : {};
-      const userId = session.metadata?.user_id !== 'guest' ? session.metadata?.user_id : null;
-      
-      // Create order record
-      const { data: orderData, error: orderError } = await supabaseAdmin
-        .from('orders')
-        .insert({
-          user_id: userId,
-          total_amount: session.amount_total ? session.amount_total / 100 : 0,
-          currency: session.currency || 'usd',
-          payment_intent_id: session.payment_intent as string,
-          stripe_payment_intent_id: session.payment_intent as string,
-          status: 'confirmed',
-          payment_status: 'paid',
-          cart_items: cartItems,
-          customer_info: guestInfo,
-          booking_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          booking_time: '10:00:00',
-          service_name: cartItems.length > 1 ? `${cartItems.length} Services Booked` : cartItems[0]?.serviceName || 'Service',
-          provider_name: cartItems.length > 1 ? 'Multiple Providers' : cartItems[0]?.providerName || 'Provider',
-          customer_name: guestInfo?.name || session.customer_details?.name || user?.user_metadata?.full_name || 'Customer',
-          customer_phone: guestInfo?.phone || user?.user_metadata?.phone || '',
-          customer_address: guestInfo?.address || session.customer_details?.address?.line1 || 'Address not provided',
-          special_instructions: guestInfo?.instructions || ''
-        })
-        .select()
-        .single();
-
-      if (orderError) {
-        console.error('❌ Error creating order:', orderError);
-        throw orderError;
+
+      // Orders are created by the stripe-webhook function; this is only a lookup
+      const orderData = await findSessionOrder(supabaseAdmin, session.id, session.payment_intent as string | null);
+
+      if (!orderData) {
+        console.log('⏳ Order not created yet for session:', sessionId);
       }
 
-      console.log('✅ Order created successfully:', orderData.id);
-      
       return new Response(JSON.stringify({
         success: true,
-        orderId: orderData.id,
+        orderId: orderData?.id ?? null,
+        orderStatus: orderData?.status ?? null,
+        orderPending: !orderData,
         sessionId: sessionId,
-        paymentStatus: session.payment_status,
+        paymentStatus: orderData?.payment_status ?? session.payment_status,
       }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 200,
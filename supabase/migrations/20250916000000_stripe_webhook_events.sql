@@ -0,0 +1,31 @@
+-- Create stripe_webhook_events table so each Stripe event is processed exactly once
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+  id TEXT PRIMARY KEY, -- Stripe event id (evt_...)
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  error_message TEXT,
+  payload JSONB NOT NULL DEFAULT '{}',
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Enable RLS (only the service role used by the webhook touches this table)
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stripe webhook events" ON public.stripe_webhook_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_type ON public.stripe_webhook_events(type);
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_received_at ON public.stripe_webhook_events(received_at DESC);
+
+-- Orders are now looked up by the Stripe payment intent when webhooks arrive
+CREATE INDEX IF NOT EXISTS idx_orders_stripe_payment_intent_id ON public.orders(stripe_payment_intent_id);
+
+COMMENT ON TABLE public.stripe_webhook_events IS 'Log of received Stripe webhook events, used to make event handling idempotent';
+COMMENT ON COLUMN public.stripe_webhook_events.status IS 'Event status: processing, processed, failed';
@@ -0,0 +1,34 @@
+-- Link every order to the Stripe checkout session that paid for it, one order per session
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS stripe_session_id TEXT;
+
+-- Not a partial index: ON CONFLICT (stripe_session_id) can only infer a full one.
+-- NULLs never conflict, so legacy orders without a session are unaffected.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_stripe_session_id_unique
+  ON public.orders(stripe_session_id);
+
+-- Backfill the session id for orders created before this migration
+UPDATE public.orders o
+SET stripe_session_id = pi.metadata->>'session_id'
+FROM public.payment_intents pi
+WHERE o.stripe_session_id IS NULL
+  AND o.stripe_payment_intent_id = pi.id
+  AND pi.metadata->>'session_id' IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.orders other
+    WHERE other.stripe_session_id = pi.metadata->>'session_id'
+  )
+  AND o.id = (
+    SELECT first_order.id FROM public.orders first_order
+    WHERE first_order.stripe_payment_intent_id = pi.id
+    ORDER BY first_order.created_at
+    LIMIT 1
+  );
+
+-- Point payment intents back at the order they produced
+ALTER TABLE public.payment_intents
+ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_intents_order_id ON public.payment_intents(order_id);
+
+COMMENT ON COLUMN public.orders.stripe_session_id IS 'Stripe checkout session that paid for this order; unique so retries never create a second order';
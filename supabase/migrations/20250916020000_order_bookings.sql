@@ -0,0 +1,89 @@
+-- Store the full cart of each Stripe checkout session server-side.
+-- Stripe metadata values are capped at 500 characters, which a cart with
+-- scheduled slots quickly exceeds, so the webhook reads the cart from here.
+CREATE TABLE IF NOT EXISTS public.checkout_sessions (
+  id TEXT PRIMARY KEY, -- Stripe checkout session id (cs_...)
+  user_id UUID REFERENCES auth.users(id),
+  cart_items JSONB NOT NULL DEFAULT '[]',
+  guest_info JSONB NOT NULL DEFAULT '{}',
+  totals JSONB NOT NULL DEFAULT '{}',
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.checkout_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own checkout sessions" ON public.checkout_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all checkout sessions" ON public.checkout_sessions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Bookings are created per cart line when an order is paid. Point them at the
+-- same provider/service tables the cart and orders use.
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_provider_id_fkey;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_provider_id_fkey
+  FOREIGN KEY (provider_id) REFERENCES public.user_profiles(id) NOT VALID;
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_service_id_fkey;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_service_id_fkey
+  FOREIGN KEY (service_id) REFERENCES public.provider_services(id) NOT VALID;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS slot_id UUID REFERENCES public.booking_slots(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS quantity INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS line_index INTEGER;
+
+-- One booking per cart line within an order, so webhook retries never
+-- duplicate bookings while two lines for the same service stay apart
+-- (bookings without an order never conflict)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_order_line
+  ON public.bookings(order_id, line_index);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_provider_id ON public.bookings(provider_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_slot_id ON public.bookings(slot_id);
+
+-- The original definition assigned booking_id = booking_id, which is ambiguous
+-- between the parameter and the column and fails at runtime
+CREATE OR REPLACE FUNCTION public.confirm_slot_booking(
+  slot_id UUID,
+  user_id UUID,
+  booking_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rows_affected INTEGER;
+BEGIN
+  UPDATE public.booking_slots
+  SET
+    status = 'booked',
+    booking_id = confirm_slot_booking.booking_id,
+    held_by = NULL,
+    hold_expires_at = NULL
+  WHERE
+    booking_slots.id = confirm_slot_booking.slot_id
+    AND booking_slots.held_by = confirm_slot_booking.user_id
+    AND booking_slots.status = 'held';
+
+  GET DIAGNOSTICS rows_affected = ROW_COUNT;
+  RETURN rows_affected > 0;
+END;
+$$;
+
+COMMENT ON TABLE public.checkout_sessions IS 'Cart snapshot for each Stripe checkout session, read by the webhook when the session is paid';
+COMMENT ON COLUMN public.bookings.order_id IS 'Order whose payment created this booking';
+COMMENT ON COLUMN public.bookings.line_index IS 'Position of the cart line this booking was created from in its order''s checkout cart';
+COMMENT ON COLUMN public.bookings.slot_id IS 'Booking slot confirmed for this booking, if the customer held one';
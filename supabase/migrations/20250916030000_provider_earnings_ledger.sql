@@ -0,0 +1,140 @@
+-- Provider earnings ledger: one entry per paid booking (order line) recording
+-- the gross amount, the platform commission and the provider's net payout
+CREATE TABLE IF NOT EXISTS public.provider_earnings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  service_id UUID REFERENCES public.provider_services(id) ON DELETE SET NULL,
+  service_name TEXT,
+  customer_name TEXT,
+  service_date DATE,
+  gross_amount NUMERIC(10,2) NOT NULL CHECK (gross_amount >= 0),
+  commission_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (commission_amount >= 0),
+  net_amount NUMERIC(10,2) NOT NULL,
+  platform_fee_id UUID REFERENCES public.platform_fees(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'available', 'paid_out', 'reversed')),
+  available_at TIMESTAMP WITH TIME ZONE,
+  paid_out_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.provider_earnings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can view their own earnings" ON public.provider_earnings
+  FOR SELECT USING (
+    provider_id IN (
+      SELECT id FROM public.user_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage provider earnings" ON public.provider_earnings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_provider_earnings_provider_id ON public.provider_earnings(provider_id);
+CREATE INDEX IF NOT EXISTS idx_provider_earnings_status ON public.provider_earnings(status);
+CREATE INDEX IF NOT EXISTS idx_provider_earnings_created_at ON public.provider_earnings(created_at DESC);
+
+CREATE TRIGGER update_provider_earnings_updated_at
+  BEFORE UPDATE ON public.provider_earnings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the ledger in step with the booking it was earned on:
+--   paid booking        -> pending entry, commission from the active platform fee
+--   completed booking   -> available for payout
+--   cancelled/refunded  -> reversed, unless it has already been paid out
+CREATE OR REPLACE FUNCTION public.sync_provider_earning()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fee RECORD;
+  commission NUMERIC(10,2) := 0;
+  fee_id UUID;
+  customer TEXT;
+BEGIN
+  IF NEW.provider_id IS NULL OR NEW.payment_status IS DISTINCT FROM 'paid' THEN
+    IF NEW.status = 'cancelled' OR NEW.payment_status = 'refunded' THEN
+      UPDATE public.provider_earnings
+      SET status = 'reversed'
+      WHERE booking_id = NEW.id AND status <> 'paid_out';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.provider_earnings WHERE booking_id = NEW.id) THEN
+    -- Newest active fee. Superseded by the per-line fee rules in
+    -- 20250916110000_platform_fee_rules.sql, which redefines this function
+    SELECT * INTO fee
+    FROM public.platform_fees
+    WHERE is_active = true
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      fee_id := fee.id;
+      commission := CASE
+        WHEN fee.fee_type = 'percentage' THEN NEW.total_amount * fee.fee_value / 100
+        ELSE fee.fee_value
+      END;
+      IF fee.minimum_fee IS NOT NULL AND commission < fee.minimum_fee THEN
+        commission := fee.minimum_fee;
+      END IF;
+      IF fee.maximum_fee IS NOT NULL AND commission > fee.maximum_fee THEN
+        commission := fee.maximum_fee;
+      END IF;
+      commission := LEAST(ROUND(commission, 2), NEW.total_amount);
+    END IF;
+
+    SELECT customer_name INTO customer FROM public.orders WHERE id = NEW.order_id;
+
+    INSERT INTO public.provider_earnings (
+      provider_id, booking_id, order_id, service_id, service_name, customer_name,
+      service_date, gross_amount, commission_amount, net_amount, platform_fee_id
+    ) VALUES (
+      NEW.provider_id, NEW.id, NEW.order_id, NEW.service_id, NEW.service_name, customer,
+      NEW.booking_date, NEW.total_amount, commission, NEW.total_amount - commission,
+      fee_id
+    )
+    ON CONFLICT (booking_id) DO NOTHING;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    UPDATE public.provider_earnings
+    SET status = 'available', available_at = COALESCE(available_at, NOW())
+    WHERE booking_id = NEW.id AND status = 'pending';
+  ELSIF NEW.status = 'cancelled' THEN
+    UPDATE public.provider_earnings
+    SET status = 'reversed'
+    WHERE booking_id = NEW.id AND status IN ('pending', 'available');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_provider_earning_on_booking
+  AFTER INSERT OR UPDATE OF status, payment_status, total_amount ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_provider_earning();
+
+-- Backfill entries for bookings that were already paid by running them
+-- through the trigger (a no-op update still fires UPDATE OF total_amount)
+UPDATE public.bookings
+SET total_amount = total_amount
+WHERE payment_status = 'paid'
+  AND provider_id IN (SELECT id FROM public.user_profiles);
+
+COMMENT ON TABLE public.provider_earnings IS 'Provider earnings ledger, one entry per paid booking';
+COMMENT ON COLUMN public.provider_earnings.status IS 'Entry status: pending (service not yet completed), available (ready for payout), paid_out, reversed';
+COMMENT ON COLUMN public.provider_earnings.commission_amount IS 'Platform commission taken from the gross amount, from the active platform_fees row';
@@ -0,0 +1,201 @@
+-- Provider payout batches: each batch groups a provider's available ledger
+-- entries for a period and is paid out as a single transfer
+CREATE TABLE IF NOT EXISTS public.provider_payouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  gross_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  commission_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'paid', 'failed')),
+  reference_number TEXT,
+  failure_reason TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  processing_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (period_end >= period_start)
+);
+
+ALTER TABLE public.provider_earnings
+  ADD COLUMN IF NOT EXISTS payout_id UUID REFERENCES public.provider_payouts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_provider_earnings_payout_id ON public.provider_earnings(payout_id);
+CREATE INDEX IF NOT EXISTS idx_provider_payouts_provider_id ON public.provider_payouts(provider_id);
+CREATE INDEX IF NOT EXISTS idx_provider_payouts_status ON public.provider_payouts(status);
+
+ALTER TABLE public.provider_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can view their own payouts" ON public.provider_payouts
+  FOR SELECT USING (
+    provider_id IN (
+      SELECT id FROM public.user_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage provider payouts" ON public.provider_payouts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE TRIGGER update_provider_payouts_updated_at
+  BEFORE UPDATE ON public.provider_payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Group every provider's available, unbatched entries that became available
+-- within the period into one pending payout per provider
+CREATE OR REPLACE FUNCTION public.create_provider_payout_batches(
+  p_period_start DATE,
+  p_period_end DATE
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  provider RECORD;
+  new_payout_id UUID;
+  batch_count INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND auth_role IN ('admin', 'super_admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only admins can create payouts');
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Period end must be on or after period start');
+  END IF;
+
+  FOR provider IN
+    SELECT
+      provider_id,
+      SUM(gross_amount) AS gross_amount,
+      SUM(commission_amount) AS commission_amount,
+      SUM(net_amount) AS net_amount,
+      COUNT(*) AS entry_count
+    FROM public.provider_earnings
+    WHERE status = 'available'
+      AND payout_id IS NULL
+      AND available_at::date BETWEEN p_period_start AND p_period_end
+    GROUP BY provider_id
+    HAVING SUM(net_amount) > 0
+  LOOP
+    INSERT INTO public.provider_payouts (
+      provider_id, period_start, period_end, gross_amount, commission_amount,
+      net_amount, entry_count, created_by
+    ) VALUES (
+      provider.provider_id, p_period_start, p_period_end, provider.gross_amount,
+      provider.commission_amount, provider.net_amount, provider.entry_count, auth.uid()
+    )
+    RETURNING id INTO new_payout_id;
+
+    UPDATE public.provider_earnings
+    SET payout_id = new_payout_id
+    WHERE provider_id = provider.provider_id
+      AND status = 'available'
+      AND payout_id IS NULL
+      AND available_at::date BETWEEN p_period_start AND p_period_end;
+
+    batch_count := batch_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', format('Created %s payout batch(es)', batch_count),
+    'batch_count', batch_count
+  );
+END;
+$$;
+
+-- Move a payout through pending -> processing -> paid, or to failed from
+-- either open state. Paying marks its entries paid out; failing releases
+-- them back to the provider's available balance for the next batch.
+CREATE OR REPLACE FUNCTION public.update_provider_payout_status(
+  p_payout_id UUID,
+  p_status TEXT,
+  p_reference_number TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payout RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND auth_role IN ('admin', 'super_admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only admins can update payouts');
+  END IF;
+
+  SELECT * INTO payout FROM public.provider_payouts WHERE id = p_payout_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Payout not found');
+  END IF;
+
+  IF NOT (
+    (payout.status = 'pending' AND p_status IN ('processing', 'failed')) OR
+    (payout.status = 'processing' AND p_status IN ('paid', 'failed'))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', format('Cannot move a %s payout to %s', payout.status, p_status));
+  END IF;
+
+  IF p_status = 'paid' AND COALESCE(TRIM(COALESCE(p_reference_number, payout.reference_number)), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A reference number is required to mark a payout paid');
+  END IF;
+
+  UPDATE public.provider_payouts
+  SET
+    status = p_status,
+    reference_number = COALESCE(NULLIF(TRIM(p_reference_number), ''), reference_number),
+    failure_reason = CASE WHEN p_status = 'failed' THEN p_failure_reason ELSE failure_reason END,
+    processing_at = CASE WHEN p_status = 'processing' THEN NOW() ELSE processing_at END,
+    paid_at = CASE WHEN p_status = 'paid' THEN NOW() ELSE paid_at END,
+    failed_at = CASE WHEN p_status = 'failed' THEN NOW() ELSE failed_at END
+  WHERE id = p_payout_id;
+
+  IF p_status = 'paid' THEN
+    UPDATE public.provider_earnings
+    SET status = 'paid_out', paid_out_at = NOW()
+    WHERE payout_id = p_payout_id AND status = 'available';
+  ELSIF p_status = 'failed' THEN
+    UPDATE public.provider_earnings
+    SET payout_id = NULL
+    WHERE payout_id = p_payout_id AND status = 'available';
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'message', format('Payout marked %s', p_status));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_provider_payout_batches(DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_provider_payout_status(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Admin dashboard section
+INSERT INTO public.admin_permissions (section, display_name, description, is_enabled, sort_order) VALUES
+  ('payouts', 'Provider Payouts', 'Batch provider earnings into payouts and download settlement statements', true, 16)
+ON CONFLICT (section)
+DO UPDATE SET
+  display_name = EXCLUDED.display_name,
+  description = EXCLUDED.description;
+
+COMMENT ON TABLE public.provider_payouts IS 'Payout batches grouping a provider''s available earnings for a period';
+COMMENT ON COLUMN public.provider_payouts.status IS 'Payout status: pending, processing, paid, failed';
+COMMENT ON COLUMN public.provider_payouts.reference_number IS 'Bank or transfer reference recorded when the payout is sent';
+COMMENT ON COLUMN public.provider_earnings.payout_id IS 'Payout batch this entry is included in, if any';
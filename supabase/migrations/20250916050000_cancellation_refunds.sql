@@ -0,0 +1,95 @@
+-- Cancellation policy: how much of an order is refunded depending on how long
+-- before the booked slot the customer cancels. The newest active row applies.
+CREATE TABLE IF NOT EXISTS public.cancellation_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  full_refund_hours INTEGER NOT NULL DEFAULT 24 CHECK (full_refund_hours >= 0),
+  partial_refund_percentage NUMERIC(5,2) NOT NULL DEFAULT 50 CHECK (partial_refund_percentage BETWEEN 0 AND 100),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active cancellation policies" ON public.cancellation_policies
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage cancellation policies" ON public.cancellation_policies
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE TRIGGER update_cancellation_policies_updated_at
+  BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.cancellation_policies (name, description, full_refund_hours, partial_refund_percentage)
+SELECT
+  'Standard',
+  'Full refund up to 24 hours before the appointment, 50% refund inside 24 hours, no refund once it has started',
+  24,
+  50
+WHERE NOT EXISTS (SELECT 1 FROM public.cancellation_policies);
+
+-- Refunds issued against orders, one row per Stripe refund
+CREATE TABLE IF NOT EXISTS public.order_refunds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  stripe_refund_id TEXT UNIQUE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  refund_percentage NUMERIC(5,2) NOT NULL,
+  policy_id UUID REFERENCES public.cancellation_policies(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'canceled')),
+  reason TEXT,
+  requested_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view refunds on their orders" ON public.order_refunds
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_refunds.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all refunds" ON public.order_refunds
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order_id ON public.order_refunds(order_id);
+
+CREATE TRIGGER update_order_refunds_updated_at
+  BEFORE UPDATE ON public.order_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Refund summary on the order itself
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+COMMENT ON TABLE public.cancellation_policies IS 'Refund rules for cancelled orders; the newest active policy applies';
+COMMENT ON COLUMN public.cancellation_policies.full_refund_hours IS 'Cancelling at least this many hours before the appointment refunds the full amount';
+COMMENT ON COLUMN public.cancellation_policies.partial_refund_percentage IS 'Percentage refunded when cancelling inside the full refund window but before the appointment starts';
+COMMENT ON TABLE public.order_refunds IS 'Refunds issued through Stripe when orders are cancelled';
+COMMENT ON COLUMN public.orders.refunded_amount IS 'Total amount refunded to the customer for this order';
@@ -0,0 +1,247 @@
+-- How many times a customer may move an order, kept with the other
+-- cancellation rules so admins manage both in one place
+ALTER TABLE public.cancellation_policies
+  ADD COLUMN IF NOT EXISTS max_reschedules INTEGER NOT NULL DEFAULT 2 CHECK (max_reschedules >= 0);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+-- One row per booking moved to a new slot
+CREATE TABLE IF NOT EXISTS public.booking_reschedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  from_slot_id UUID REFERENCES public.booking_slots(id) ON DELETE SET NULL,
+  to_slot_id UUID REFERENCES public.booking_slots(id) ON DELETE SET NULL,
+  from_date DATE,
+  from_time TIME,
+  to_date DATE NOT NULL,
+  to_time TIME NOT NULL,
+  reason TEXT,
+  rescheduled_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.booking_reschedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reschedules of their orders" ON public.booking_reschedules
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = booking_reschedules.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Providers can view reschedules of their bookings" ON public.booking_reschedules
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      JOIN public.user_profiles ON user_profiles.id = bookings.provider_id
+      WHERE bookings.id = booking_reschedules.booking_id
+      AND user_profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all reschedules" ON public.booking_reschedules
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_booking_reschedules_order_id ON public.booking_reschedules(order_id);
+CREATE INDEX IF NOT EXISTS idx_booking_reschedules_booking_id ON public.booking_reschedules(booking_id);
+
+-- Slots generated from weekly availability have no service; they can be
+-- booked for any of the provider's services
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_provider_id UUID,
+  p_service_id UUID,
+  p_date DATE
+)
+RETURNS TABLE(
+  id UUID,
+  provider_id UUID,
+  service_id UUID,
+  slot_date DATE,
+  slot_time TIME,
+  status TEXT,
+  is_blocked BOOLEAN,
+  blocked_by UUID,
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  held_by UUID,
+  hold_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Clean up expired holds first
+  UPDATE public.booking_slots
+  SET status = 'available', held_by = NULL, hold_expires_at = NULL
+  WHERE booking_slots.status = 'held' AND booking_slots.hold_expires_at < NOW();
+
+  RETURN QUERY
+  SELECT
+    bs.id,
+    bs.provider_id,
+    bs.service_id,
+    bs.slot_date,
+    bs.slot_time,
+    bs.status,
+    bs.is_blocked,
+    bs.blocked_by,
+    bs.blocked_until,
+    bs.held_by,
+    bs.hold_expires_at,
+    bs.booking_id,
+    bs.created_at
+  FROM public.booking_slots bs
+  WHERE bs.provider_id = p_provider_id
+    AND (p_service_id IS NULL OR bs.service_id IS NULL OR bs.service_id = p_service_id)
+    AND bs.slot_date = p_date
+    AND bs.status IN ('available', 'held')
+    AND bs.is_blocked = false
+  ORDER BY bs.slot_time;
+END;
+$$;
+
+-- Move a booking to another slot of the same provider in one transaction:
+-- take the new slot, free the old one, record the move and count it
+-- against the order's reschedule limit.
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id UUID,
+  p_new_slot_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking_record RECORD;
+  order_record RECORD;
+  new_slot RECORD;
+  max_allowed INTEGER;
+  is_admin BOOLEAN;
+BEGIN
+  SELECT * INTO booking_record
+  FROM public.bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.order_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking not found');
+  END IF;
+
+  SELECT * INTO order_record
+  FROM public.orders
+  WHERE id = booking_record.order_id
+  FOR UPDATE;
+
+  is_admin := EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+    AND auth_role IN ('admin', 'super_admin')
+  );
+
+  IF order_record.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking not found');
+  END IF;
+
+  IF booking_record.status IN ('cancelled', 'completed') OR order_record.status IN ('cancelled', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This booking can no longer be rescheduled');
+  END IF;
+
+  SELECT max_reschedules INTO max_allowed
+  FROM public.cancellation_policies
+  WHERE is_active = true
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT is_admin AND order_record.reschedule_count >= COALESCE(max_allowed, 2) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('This order has already been rescheduled the maximum of %s times', COALESCE(max_allowed, 2))
+    );
+  END IF;
+
+  -- Take the new slot; it must belong to the same provider and either be free
+  -- or held by the caller
+  UPDATE public.booking_slots
+  SET
+    status = 'booked',
+    booking_id = p_booking_id,
+    held_by = NULL,
+    hold_expires_at = NULL
+  WHERE booking_slots.id = p_new_slot_id
+    AND booking_slots.provider_id = booking_record.provider_id
+    AND (booking_slots.service_id IS NULL OR booking_slots.service_id = booking_record.service_id)
+    AND booking_slots.is_blocked = false
+    AND (
+      booking_slots.status = 'available'
+      OR (booking_slots.status = 'held' AND (booking_slots.held_by = auth.uid() OR booking_slots.hold_expires_at < NOW()))
+    )
+  RETURNING booking_slots.* INTO new_slot;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'That time slot is no longer available');
+  END IF;
+
+  -- Give the old slot back
+  UPDATE public.booking_slots
+  SET status = 'available', booking_id = NULL, held_by = NULL, hold_expires_at = NULL
+  WHERE booking_slots.booking_id = p_booking_id
+    AND booking_slots.id <> p_new_slot_id;
+
+  INSERT INTO public.booking_reschedules (
+    order_id, booking_id, from_slot_id, to_slot_id,
+    from_date, from_time, to_date, to_time, reason, rescheduled_by
+  )
+  VALUES (
+    order_record.id, p_booking_id, booking_record.slot_id, new_slot.id,
+    booking_record.booking_date, booking_record.booking_time, new_slot.slot_date, new_slot.slot_time,
+    p_reason, auth.uid()
+  );
+
+  UPDATE public.bookings
+  SET slot_id = new_slot.id, booking_date = new_slot.slot_date, booking_time = new_slot.slot_time
+  WHERE id = p_booking_id;
+
+  -- The order shows its earliest appointment
+  UPDATE public.orders
+  SET
+    reschedule_count = orders.reschedule_count + 1,
+    status = 'rescheduled',
+    booking_date = earliest.booking_date,
+    booking_time = earliest.booking_time
+  FROM (
+    SELECT b.booking_date, b.booking_time
+    FROM public.bookings b
+    WHERE b.order_id = order_record.id AND b.status <> 'cancelled'
+    ORDER BY b.booking_date, b.booking_time
+    LIMIT 1
+  ) AS earliest
+  WHERE orders.id = order_record.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Booking rescheduled',
+    'slot_date', new_slot.slot_date,
+    'slot_time', new_slot.slot_time
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking(UUID, UUID, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.booking_reschedules IS 'History of bookings moved to a different slot';
+COMMENT ON COLUMN public.cancellation_policies.max_reschedules IS 'How many times a customer may reschedule one order';
+COMMENT ON COLUMN public.orders.reschedule_count IS 'Number of times bookings in this order have been rescheduled';
@@ -0,0 +1,177 @@
+-- In-app notifications for every role. admin_notifications stays as the
+-- admin review queue; this table is the per-user inbox.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_role TEXT NOT NULL DEFAULT 'customer' CHECK (recipient_role IN ('customer', 'provider', 'admin')),
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}',
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications" ON public.notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON public.notifications(user_id) WHERE is_read = false;
+
+CREATE TRIGGER update_notifications_updated_at
+  BEFORE UPDATE ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deliver inserts and read-state changes to open clients
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- Create a notification; used by triggers and edge functions
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_recipient_role TEXT,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_link TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_booking_id UUID DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  notification_id UUID;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (
+    user_id, recipient_role, type, title, message, link, order_id, booking_id, data
+  )
+  VALUES (
+    p_user_id, p_recipient_role, p_type, p_title, p_message, p_link, p_order_id, p_booking_id, COALESCE(p_data, '{}')
+  )
+  RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, UUID, JSONB) TO service_role;
+
+-- Tell the customer and provider about new, cancelled, completed and
+-- rescheduled bookings
+CREATE OR REPLACE FUNCTION public.notify_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  provider_user_id UUID;
+  service_label TEXT;
+  when_label TEXT;
+  customer_link TEXT;
+  provider_link TEXT := '/provider/bookings';
+BEGIN
+  SELECT user_id INTO provider_user_id FROM public.user_profiles WHERE id = NEW.provider_id;
+  SELECT service_name INTO service_label FROM public.provider_services WHERE id = NEW.service_id;
+  service_label := COALESCE(service_label, 'Service');
+  when_label := to_char(NEW.booking_date, 'Mon DD, YYYY') || ' at ' || to_char(NEW.booking_time, 'HH12:MI AM');
+  customer_link := CASE
+    WHEN NEW.order_id IS NOT NULL THEN '/dashboard/customer/orders/' || NEW.order_id
+    ELSE '/customer?section=bookings'
+  END;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.create_notification(
+      provider_user_id, 'provider', 'booking_created', 'New Booking',
+      service_label || ' booked for ' || when_label,
+      provider_link, NEW.order_id, NEW.id
+    );
+    PERFORM public.create_notification(
+      NEW.customer_id, 'customer', 'booking_confirmed', 'Booking Confirmed',
+      'Your ' || service_label || ' is booked for ' || when_label,
+      customer_link, NEW.order_id, NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'cancelled' THEN
+      PERFORM public.create_notification(
+        provider_user_id, 'provider', 'booking_cancelled', 'Booking Cancelled',
+        service_label || ' on ' || when_label || ' was cancelled',
+        provider_link, NEW.order_id, NEW.id
+      );
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_cancelled', 'Booking Cancelled',
+        'Your ' || service_label || ' on ' || when_label || ' was cancelled',
+        customer_link, NEW.order_id, NEW.id
+      );
+    ELSIF NEW.status = 'completed' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_completed', 'Booking Completed',
+        'Your ' || service_label || ' has been completed',
+        customer_link, NEW.order_id, NEW.id
+      );
+    ELSIF NEW.status = 'confirmed' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_confirmed', 'Booking Confirmed',
+        'Your ' || service_label || ' on ' || when_label || ' has been confirmed',
+        customer_link, NEW.order_id, NEW.id
+      );
+    END IF;
+  ELSIF NEW.booking_date IS DISTINCT FROM OLD.booking_date OR NEW.booking_time IS DISTINCT FROM OLD.booking_time THEN
+    PERFORM public.create_notification(
+      provider_user_id, 'provider', 'booking_rescheduled', 'Booking Rescheduled',
+      service_label || ' moved to ' || when_label,
+      provider_link, NEW.order_id, NEW.id,
+      jsonb_build_object('from_date', OLD.booking_date, 'from_time', OLD.booking_time)
+    );
+    PERFORM public.create_notification(
+      NEW.customer_id, 'customer', 'booking_rescheduled', 'Booking Rescheduled',
+      'Your ' || service_label || ' is now on ' || when_label,
+      customer_link, NEW.order_id, NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_booking_change ON public.bookings;
+CREATE TRIGGER notify_booking_change
+  AFTER INSERT OR UPDATE OF status, booking_date, booking_time ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_booking_change();
+
+COMMENT ON TABLE public.notifications IS 'Per-user in-app notifications for customers, providers and admins';
+COMMENT ON COLUMN public.notifications.link IS 'App path the notification opens, e.g. the order or bookings page';
@@ -0,0 +1,283 @@
+-- Customer reviews, one per completed booking (order line). Reviews wait in
+-- an admin moderation queue; only approved reviews count towards ratings.
+CREATE TABLE IF NOT EXISTS public.reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES public.provider_services(id) ON DELETE SET NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  customer_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  moderation_note TEXT,
+  moderated_by UUID REFERENCES auth.users(id),
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  provider_reply TEXT,
+  provider_replied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view approved reviews" ON public.reviews
+  FOR SELECT USING (status = 'approved');
+
+CREATE POLICY "Customers can view their own reviews" ON public.reviews
+  FOR SELECT USING (auth.uid() = customer_id);
+
+CREATE POLICY "Providers can view reviews about them" ON public.reviews
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = reviews.provider_id
+      AND user_profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all reviews" ON public.reviews
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_reviews_provider_status ON public.reviews(provider_id, status);
+CREATE INDEX IF NOT EXISTS idx_reviews_service_status ON public.reviews(service_id, status);
+CREATE INDEX IF NOT EXISTS idx_reviews_order_id ON public.reviews(order_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_status_created ON public.reviews(status, created_at DESC);
+
+CREATE TRIGGER update_reviews_updated_at
+  BEFORE UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.provider_services
+  ADD COLUMN IF NOT EXISTS total_reviews INTEGER NOT NULL DEFAULT 0;
+
+-- Recompute the rating columns for a provider and one of their services
+-- from approved reviews
+CREATE OR REPLACE FUNCTION public.refresh_review_aggregates(p_provider_id UUID, p_service_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  avg_rating NUMERIC;
+  review_count INTEGER;
+BEGIN
+  IF p_service_id IS NOT NULL THEN
+    SELECT ROUND(AVG(rating)::NUMERIC, 2), COUNT(*)
+    INTO avg_rating, review_count
+    FROM public.reviews
+    WHERE service_id = p_service_id AND status = 'approved';
+
+    UPDATE public.provider_services
+    SET rating = COALESCE(avg_rating, 0), total_reviews = review_count
+    WHERE id = p_service_id;
+  END IF;
+
+  IF p_provider_id IS NOT NULL THEN
+    SELECT ROUND(AVG(rating)::NUMERIC, 2), COUNT(*)
+    INTO avg_rating, review_count
+    FROM public.reviews
+    WHERE provider_id = p_provider_id AND status = 'approved';
+
+    UPDATE public.service_providers
+    SET rating = COALESCE(avg_rating, 0), total_reviews = review_count
+    WHERE user_id = (SELECT user_id FROM public.user_profiles WHERE id = p_provider_id);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_review_aggregates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_review_aggregates(OLD.provider_id, OLD.service_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_review_aggregates(NEW.provider_id, NEW.service_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_review_aggregates ON public.reviews;
+CREATE TRIGGER sync_review_aggregates
+  AFTER INSERT OR DELETE OR UPDATE OF status, rating, provider_id, service_id ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_review_aggregates();
+
+-- Customer leaves a review for one of their completed bookings
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_booking_id UUID,
+  p_rating INTEGER,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking_record RECORD;
+  reviewer_name TEXT;
+BEGIN
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Rating must be between 1 and 5 stars');
+  END IF;
+
+  SELECT * INTO booking_record
+  FROM public.bookings
+  WHERE id = p_booking_id AND customer_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking not found');
+  END IF;
+
+  IF booking_record.status IS DISTINCT FROM 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You can review a booking once it has been completed');
+  END IF;
+
+  IF booking_record.provider_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This booking has no provider to review');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE booking_id = p_booking_id) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You have already reviewed this booking');
+  END IF;
+
+  SELECT full_name INTO reviewer_name FROM public.user_profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.reviews (
+    booking_id, order_id, customer_id, provider_id, service_id, rating, comment, customer_name
+  )
+  VALUES (
+    p_booking_id, booking_record.order_id, auth.uid(), booking_record.provider_id,
+    booking_record.service_id, p_rating, NULLIF(TRIM(p_comment), ''), reviewer_name
+  );
+
+  RETURN jsonb_build_object('success', true, 'message', 'Thanks! Your review will appear once it has been approved');
+END;
+$$;
+
+-- Provider answers a review about them; each review gets one reply
+CREATE OR REPLACE FUNCTION public.reply_to_review(
+  p_review_id UUID,
+  p_reply TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  review_record RECORD;
+BEGIN
+  IF NULLIF(TRIM(p_reply), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Reply cannot be empty');
+  END IF;
+
+  SELECT r.* INTO review_record
+  FROM public.reviews r
+  JOIN public.user_profiles up ON up.id = r.provider_id
+  WHERE r.id = p_review_id AND up.user_id = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Review not found');
+  END IF;
+
+  IF review_record.provider_reply IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You have already replied to this review');
+  END IF;
+
+  UPDATE public.reviews
+  SET provider_reply = TRIM(p_reply), provider_replied_at = NOW()
+  WHERE id = p_review_id;
+
+  PERFORM public.create_notification(
+    review_record.customer_id, 'customer', 'review_reply', 'Provider Replied',
+    'The provider replied to your review', '/customer?section=bookings',
+    review_record.order_id, review_record.booking_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'message', 'Reply posted');
+END;
+$$;
+
+-- Admin approves or rejects a review from the moderation queue
+CREATE OR REPLACE FUNCTION public.moderate_review(
+  p_review_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  review_record RECORD;
+  provider_user_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+    AND auth_role IN ('admin', 'super_admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Access denied');
+  END IF;
+
+  IF p_status NOT IN ('approved', 'rejected', 'pending') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Invalid review status');
+  END IF;
+
+  UPDATE public.reviews
+  SET status = p_status, moderation_note = p_note, moderated_by = auth.uid(), moderated_at = NOW()
+  WHERE id = p_review_id
+  RETURNING * INTO review_record;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Review not found');
+  END IF;
+
+  IF p_status = 'approved' THEN
+    SELECT user_id INTO provider_user_id FROM public.user_profiles WHERE id = review_record.provider_id;
+    PERFORM public.create_notification(
+      provider_user_id, 'provider', 'review_received', 'New Review',
+      format('You received a %s-star review', review_record.rating), '/provider/reviews',
+      review_record.order_id, review_record.booking_id
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'message', format('Review %s', p_status));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reply_to_review(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_review(UUID, TEXT, TEXT) TO authenticated;
+
+INSERT INTO public.admin_permissions (section, display_name, description, is_enabled, sort_order) VALUES
+  ('reviews', 'Review Moderation', 'Approve or reject customer reviews before they are published', true, 17)
+ON CONFLICT (section)
+DO UPDATE SET
+  display_name = EXCLUDED.display_name,
+  description = EXCLUDED.description;
+
+COMMENT ON TABLE public.reviews IS 'Customer star ratings and reviews, one per completed booking';
+COMMENT ON COLUMN public.reviews.status IS 'Moderation status: pending, approved, rejected. Only approved reviews are public and counted';
+COMMENT ON COLUMN public.provider_services.total_reviews IS 'Number of approved reviews for this service, kept in sync by sync_review_aggregates';
@@ -0,0 +1,224 @@
+-- Full-text and typo tolerant search over categories, subcategories and approved provider services
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Weighted search documents: names rank above descriptions
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.subcategories
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.provider_services
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(service_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_categories_search_vector ON public.categories USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_subcategories_search_vector ON public.subcategories USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_provider_services_search_vector ON public.provider_services USING GIN (search_vector);
+
+-- Trigram indexes back the fuzzy name matching used for misspellings and autocomplete
+CREATE INDEX IF NOT EXISTS idx_categories_name_trgm ON public.categories USING GIN (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_subcategories_name_trgm ON public.subcategories USING GIN (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_provider_services_name_trgm ON public.provider_services USING GIN (service_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_profiles_business_name_trgm ON public.user_profiles USING GIN (business_name extensions.gin_trgm_ops);
+
+-- Ranked search. Categories only appear when no price or rating filter is set,
+-- subcategories match a price filter when their price range overlaps it.
+CREATE OR REPLACE FUNCTION public.search_services(
+  p_query TEXT,
+  p_category_id UUID DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  name TEXT,
+  description TEXT,
+  category_id UUID,
+  category_name TEXT,
+  subcategory_id UUID,
+  subcategory_name TEXT,
+  provider_name TEXT,
+  price NUMERIC,
+  rating NUMERIC,
+  total_reviews INTEGER,
+  image_url TEXT,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query TEXT := btrim(coalesce(p_query, ''));
+  v_tsquery tsquery;
+BEGIN
+  IF length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := websearch_to_tsquery('english', v_query);
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      'category'::TEXT,
+      c.id,
+      c.name,
+      c.description,
+      c.id,
+      c.name,
+      NULL::UUID,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::NUMERIC,
+      NULL::NUMERIC,
+      NULL::INTEGER,
+      c.image_url,
+      (ts_rank(c.search_vector, v_tsquery) * 2 + word_similarity(v_query, c.name))::REAL
+    FROM public.categories c
+    WHERE c.is_active = true
+      AND p_min_price IS NULL AND p_max_price IS NULL AND p_min_rating IS NULL
+      AND (p_category_id IS NULL OR c.id = p_category_id)
+      AND (c.search_vector @@ v_tsquery OR v_query <% c.name)
+
+    UNION ALL
+
+    SELECT
+      'subcategory'::TEXT,
+      s.id,
+      s.name,
+      s.description,
+      c.id,
+      c.name,
+      s.id,
+      s.name,
+      NULL::TEXT,
+      s.min_price,
+      NULL::NUMERIC,
+      NULL::INTEGER,
+      s.image_url,
+      (ts_rank(s.search_vector, v_tsquery) * 2 + word_similarity(v_query, s.name))::REAL
+    FROM public.subcategories s
+    JOIN public.categories c ON c.id = s.category_id AND c.is_active = true
+    WHERE s.is_active = true
+      AND p_min_rating IS NULL
+      AND (p_category_id IS NULL OR s.category_id = p_category_id)
+      AND (p_min_price IS NULL OR s.max_price >= p_min_price)
+      AND (p_max_price IS NULL OR s.min_price <= p_max_price)
+      AND (s.search_vector @@ v_tsquery OR v_query <% s.name)
+
+    UNION ALL
+
+    SELECT
+      'service'::TEXT,
+      ps.id,
+      ps.service_name,
+      ps.description,
+      c.id,
+      c.name,
+      s.id,
+      s.name,
+      coalesce(up.business_name, up.full_name),
+      ps.price,
+      ps.rating,
+      ps.total_reviews,
+      ps.image_url,
+      (ts_rank(ps.search_vector, v_tsquery) * 2
+        + greatest(word_similarity(v_query, ps.service_name), word_similarity(v_query, coalesce(up.business_name, '')) * 0.8)
+        -- Small boost so well reviewed services win ties
+        + coalesce(ps.rating, 0) / 50)::REAL
+    FROM public.provider_services ps
+    JOIN public.subcategories s ON s.id = ps.subcategory_id AND s.is_active = true
+    JOIN public.categories c ON c.id = s.category_id AND c.is_active = true
+    LEFT JOIN public.user_profiles up ON up.id = ps.provider_id
+    WHERE ps.status = 'approved'
+      AND ps.is_active = true
+      AND (p_category_id IS NULL OR s.category_id = p_category_id)
+      AND (p_min_price IS NULL OR ps.price >= p_min_price)
+      AND (p_max_price IS NULL OR ps.price <= p_max_price)
+      AND (p_min_rating IS NULL OR coalesce(ps.rating, 0) >= p_min_rating)
+      AND (
+        ps.search_vector @@ v_tsquery
+        OR v_query <% ps.service_name
+        OR v_query <% coalesce(up.business_name, '')
+      )
+  ) results
+  ORDER BY 14 DESC, 3
+  LIMIT greatest(1, least(coalesce(p_limit, 50), 100));
+END;
+$$;
+
+-- Autocomplete: one row per distinct name, names that start with the typed text first
+CREATE OR REPLACE FUNCTION public.search_suggestions(p_query TEXT, p_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  suggestion TEXT,
+  result_type TEXT,
+  id UUID,
+  category_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query TEXT := btrim(coalesce(p_query, ''));
+BEGIN
+  IF length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT best.name, best.kind, best.id, best.category_id
+  FROM (
+    SELECT DISTINCT ON (lower(candidates.name)) candidates.*
+    FROM (
+      SELECT c.name, 'category'::TEXT AS kind, c.id, c.id AS category_id,
+        (c.name ILIKE v_query || '%')::INTEGER + word_similarity(v_query, c.name) + 0.2 AS score
+      FROM public.categories c
+      WHERE c.is_active = true AND (c.name ILIKE '%' || v_query || '%' OR v_query <% c.name)
+
+      UNION ALL
+
+      SELECT s.name, 'subcategory'::TEXT, s.id, s.category_id,
+        (s.name ILIKE v_query || '%')::INTEGER + word_similarity(v_query, s.name) + 0.1
+      FROM public.subcategories s
+      WHERE s.is_active = true AND (s.name ILIKE '%' || v_query || '%' OR v_query <% s.name)
+
+      UNION ALL
+
+      SELECT ps.service_name, 'service'::TEXT, ps.id, s.category_id,
+        (ps.service_name ILIKE v_query || '%')::INTEGER + word_similarity(v_query, ps.service_name)
+      FROM public.provider_services ps
+      JOIN public.subcategories s ON s.id = ps.subcategory_id
+      WHERE ps.status = 'approved' AND ps.is_active = true
+        AND (ps.service_name ILIKE '%' || v_query || '%' OR v_query <% ps.service_name)
+    ) candidates
+    ORDER BY lower(candidates.name), candidates.score DESC
+  ) best
+  ORDER BY best.score DESC, best.name
+  LIMIT greatest(1, least(coalesce(p_limit, 8), 20));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_services(TEXT, UUID, NUMERIC, NUMERIC, NUMERIC, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_suggestions(TEXT, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_services IS 'Ranked full-text and fuzzy search over active categories, subcategories and approved provider services';
+COMMENT ON FUNCTION public.search_suggestions IS 'Autocomplete suggestions for the search box, prefix matches first';
@@ -0,0 +1,150 @@
+-- Provider service areas and location based provider matching
+
+CREATE TABLE IF NOT EXISTS public.provider_service_areas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  area_type TEXT NOT NULL CHECK (area_type IN ('radius', 'postal_codes')),
+  -- Radius areas are centred on one of the admin managed locations
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  radius_km NUMERIC(6,2) CHECK (radius_km IS NULL OR radius_km > 0),
+  -- Postal code areas match full codes or prefixes (e.g. the 'E1C' forward sortation area)
+  postal_codes TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT provider_service_areas_shape CHECK (
+    (area_type = 'radius' AND location_id IS NOT NULL AND radius_km IS NOT NULL)
+    OR (area_type = 'postal_codes' AND cardinality(postal_codes) > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_service_areas_provider ON public.provider_service_areas(provider_id) WHERE is_active;
+
+ALTER TABLE public.provider_service_areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can manage their service areas"
+ON public.provider_service_areas
+FOR ALL
+USING (
+  provider_id IN (SELECT id FROM public.user_profiles WHERE user_id = auth.uid())
+)
+WITH CHECK (
+  provider_id IN (SELECT id FROM public.user_profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Anyone can view active service areas"
+ON public.provider_service_areas
+FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Admins can manage all service areas"
+ON public.provider_service_areas
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND auth_role IN ('admin', 'super_admin')
+  )
+);
+
+CREATE TRIGGER update_provider_service_areas_updated_at
+  BEFORE UPDATE ON public.provider_service_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Upper case without spaces so 'e1c 4p5' and 'E1C4P5' compare equal
+CREATE OR REPLACE FUNCTION public.normalize_postal_code(p_postal_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(upper(regexp_replace(coalesce(p_postal_code, ''), '\s', '', 'g')), '');
+$$;
+
+-- Great circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(p_lat1 NUMERIC, p_lng1 NUMERIC, p_lat2 NUMERIC, p_lng2 NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (6371 * 2 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  )))::NUMERIC;
+$$;
+
+-- Which of the given providers serve a customer's address, and how far away their nearest
+-- radius area centre is. Providers that have not set up any service area are treated as
+-- serving everywhere. A postal code without coordinates is placed using the locations table.
+CREATE OR REPLACE FUNCTION public.match_providers_for_location(
+  p_provider_ids UUID[],
+  p_latitude NUMERIC DEFAULT NULL,
+  p_longitude NUMERIC DEFAULT NULL,
+  p_postal_code TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  provider_id UUID,
+  serves_location BOOLEAN,
+  distance_km NUMERIC,
+  has_service_areas BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_postal TEXT := public.normalize_postal_code(p_postal_code);
+  v_lat NUMERIC := p_latitude;
+  v_lng NUMERIC := p_longitude;
+BEGIN
+  IF (v_lat IS NULL OR v_lng IS NULL) AND v_postal IS NOT NULL THEN
+    SELECT l.latitude, l.longitude INTO v_lat, v_lng
+    FROM public.locations l
+    WHERE l.is_active = true
+      AND l.latitude IS NOT NULL
+      AND l.longitude IS NOT NULL
+      AND v_postal LIKE left(public.normalize_postal_code(l.postal_code), 3) || '%'
+    -- Prefer an exact postal code over a shared prefix
+    ORDER BY (public.normalize_postal_code(l.postal_code) = v_postal) DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    CASE
+      WHEN count(a.id) = 0 THEN true
+      ELSE bool_or(
+        (a.area_type = 'radius'
+          AND v_lat IS NOT NULL AND v_lng IS NOT NULL
+          AND l.latitude IS NOT NULL AND l.longitude IS NOT NULL
+          AND public.distance_km(v_lat, v_lng, l.latitude, l.longitude) <= a.radius_km)
+        OR (a.area_type = 'postal_codes'
+          AND v_postal IS NOT NULL
+          AND EXISTS (
+            SELECT 1 FROM unnest(a.postal_codes) code
+            WHERE v_postal LIKE public.normalize_postal_code(code) || '%'
+          ))
+      )
+    END,
+    round(min(
+      CASE
+        WHEN a.area_type = 'radius' AND v_lat IS NOT NULL AND v_lng IS NOT NULL
+          AND l.latitude IS NOT NULL AND l.longitude IS NOT NULL
+        THEN public.distance_km(v_lat, v_lng, l.latitude, l.longitude)
+      END
+    ), 1),
+    count(a.id) > 0
+  FROM unnest(p_provider_ids) AS p(id)
+  LEFT JOIN public.provider_service_areas a ON a.provider_id = p.id AND a.is_active = true
+  LEFT JOIN public.locations l ON l.id = a.location_id
+  GROUP BY p.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_providers_for_location(UUID[], NUMERIC, NUMERIC, TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE public.provider_service_areas IS 'Where a provider works: a radius around a location or a list of postal codes / prefixes';
+COMMENT ON FUNCTION public.match_providers_for_location IS 'Filters providers by whether they serve a customer location and returns the distance to their nearest area centre';
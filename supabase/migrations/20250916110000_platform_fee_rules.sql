@@ -0,0 +1,198 @@
+-- Platform fee rules: scoped to categories/subcategories, with priority and stacking,
+-- evaluated per cart line
+
+ALTER TABLE public.platform_fees
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS is_stackable BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.platform_fees.applicable_categories IS 'JSON array of category ids the rule is limited to; empty with applicable_services empty means every line';
+COMMENT ON COLUMN public.platform_fees.applicable_services IS 'JSON array of subcategory ids the rule is limited to';
+COMMENT ON COLUMN public.platform_fees.priority IS 'Higher priority rules are evaluated first';
+COMMENT ON COLUMN public.platform_fees.is_stackable IS 'A non-stackable rule only applies when it is the first match on a line, and then no other rule applies';
+
+-- Each booking keeps the fee lines charged on it, one per rule
+ALTER TABLE public.booking_fees
+  ADD COLUMN IF NOT EXISTS platform_fee_id UUID REFERENCES public.platform_fees(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_fees_booking_rule ON public.booking_fees(booking_id, platform_fee_id);
+
+-- Evaluate every active rule against each line.
+-- p_lines: [{ "key": "0", "service_id": "...", "subcategory_id": "...", "amount": 120.00 }]
+-- service_id is used to look up the subcategory when subcategory_id is not given.
+-- Rules are tried most specific first within a priority: subcategory, then category, then global.
+CREATE OR REPLACE FUNCTION public.evaluate_platform_fees(p_lines JSONB)
+RETURNS TABLE (
+  line_key TEXT,
+  platform_fee_id UUID,
+  description TEXT,
+  fee_type TEXT,
+  fee_value NUMERIC,
+  fee_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_line JSONB;
+  v_key TEXT;
+  v_amount NUMERIC;
+  v_subcategory_id UUID;
+  v_category_id UUID;
+  v_rule RECORD;
+  v_fee NUMERIC;
+  v_applied BOOLEAN;
+BEGIN
+  FOR v_line IN SELECT * FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  LOOP
+    v_key := v_line->>'key';
+    v_amount := coalesce((v_line->>'amount')::NUMERIC, 0);
+    v_subcategory_id := (v_line->>'subcategory_id')::UUID;
+
+    IF v_subcategory_id IS NULL AND v_line->>'service_id' IS NOT NULL THEN
+      SELECT ps.subcategory_id INTO v_subcategory_id
+      FROM public.provider_services ps
+      WHERE ps.id = (v_line->>'service_id')::UUID;
+    END IF;
+
+    SELECT s.category_id INTO v_category_id
+    FROM public.subcategories s
+    WHERE s.id = v_subcategory_id;
+
+    IF v_amount <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    v_applied := false;
+
+    FOR v_rule IN
+      SELECT f.*,
+        CASE
+          WHEN coalesce(f.applicable_services, '[]'::jsonb) ? coalesce(v_subcategory_id::TEXT, '') THEN 2
+          WHEN coalesce(f.applicable_categories, '[]'::jsonb) ? coalesce(v_category_id::TEXT, '') THEN 1
+          ELSE 0
+        END AS specificity
+      FROM public.platform_fees f
+      WHERE f.is_active = true
+        AND (
+          (jsonb_array_length(coalesce(f.applicable_services, '[]'::jsonb)) = 0
+            AND jsonb_array_length(coalesce(f.applicable_categories, '[]'::jsonb)) = 0)
+          OR coalesce(f.applicable_services, '[]'::jsonb) ? coalesce(v_subcategory_id::TEXT, '')
+          OR coalesce(f.applicable_categories, '[]'::jsonb) ? coalesce(v_category_id::TEXT, '')
+        )
+      ORDER BY f.priority DESC, specificity DESC, f.created_at DESC
+    LOOP
+      -- An exclusive rule cannot join fees that are already on the line
+      IF v_applied AND NOT v_rule.is_stackable THEN
+        CONTINUE;
+      END IF;
+
+      IF v_rule.fee_type = 'percentage' THEN
+        v_fee := v_amount * v_rule.fee_value / 100;
+      ELSE
+        v_fee := v_rule.fee_value;
+      END IF;
+
+      IF v_rule.minimum_fee IS NOT NULL AND v_rule.minimum_fee > 0 THEN
+        v_fee := greatest(v_fee, v_rule.minimum_fee);
+      END IF;
+
+      IF v_rule.maximum_fee IS NOT NULL AND v_rule.maximum_fee > 0 THEN
+        v_fee := least(v_fee, v_rule.maximum_fee);
+      END IF;
+
+      line_key := v_key;
+      platform_fee_id := v_rule.id;
+      description := coalesce(v_rule.description, 'Platform service fee');
+      fee_type := v_rule.fee_type;
+      fee_value := v_rule.fee_value;
+      fee_amount := round(v_fee, 2);
+      RETURN NEXT;
+
+      v_applied := true;
+      EXIT WHEN NOT v_rule.is_stackable;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.evaluate_platform_fees(JSONB) TO anon, authenticated, service_role;
+
+-- Provider commission follows the same rules as the fees charged at checkout:
+-- the fee lines recorded on the booking, or the rules that apply to its line
+-- when none are recorded yet (the webhook records them after the booking)
+CREATE OR REPLACE FUNCTION public.sync_provider_earning()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  commission NUMERIC(10,2) := 0;
+  fee_id UUID;
+  customer TEXT;
+BEGIN
+  IF NEW.provider_id IS NULL OR NEW.payment_status IS DISTINCT FROM 'paid' THEN
+    IF NEW.status = 'cancelled' OR NEW.payment_status = 'refunded' THEN
+      UPDATE public.provider_earnings
+      SET status = 'reversed'
+      WHERE booking_id = NEW.id AND status <> 'paid_out';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.provider_earnings WHERE booking_id = NEW.id) THEN
+    IF EXISTS (SELECT 1 FROM public.booking_fees WHERE booking_id = NEW.id) THEN
+      SELECT
+        COALESCE(SUM(bf.fee_amount), 0),
+        -- Only a single rule can be named on the entry
+        CASE WHEN COUNT(*) = 1 THEN MIN(bf.platform_fee_id::TEXT)::UUID END
+      INTO commission, fee_id
+      FROM public.booking_fees bf
+      WHERE bf.booking_id = NEW.id;
+    ELSE
+      SELECT
+        COALESCE(SUM(f.fee_amount), 0),
+        CASE WHEN COUNT(*) = 1 THEN MIN(f.platform_fee_id::TEXT)::UUID END
+      INTO commission, fee_id
+      FROM public.evaluate_platform_fees(jsonb_build_array(jsonb_build_object(
+        'key', NEW.id,
+        'service_id', NEW.service_id,
+        'amount', NEW.total_amount
+      ))) f;
+    END IF;
+
+    commission := LEAST(ROUND(commission, 2), NEW.total_amount);
+
+    SELECT customer_name INTO customer FROM public.orders WHERE id = NEW.order_id;
+
+    INSERT INTO public.provider_earnings (
+      provider_id, booking_id, order_id, service_id, service_name, customer_name,
+      service_date, gross_amount, commission_amount, net_amount, platform_fee_id
+    ) VALUES (
+      NEW.provider_id, NEW.id, NEW.order_id, NEW.service_id, NEW.service_name, customer,
+      NEW.booking_date, NEW.total_amount, commission, NEW.total_amount - commission,
+      fee_id
+    )
+    ON CONFLICT (booking_id) DO NOTHING;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    UPDATE public.provider_earnings
+    SET status = 'available', available_at = COALESCE(available_at, NOW())
+    WHERE booking_id = NEW.id AND status = 'pending';
+  ELSIF NEW.status = 'cancelled' THEN
+    UPDATE public.provider_earnings
+    SET status = 'reversed'
+    WHERE booking_id = NEW.id AND status IN ('pending', 'available');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.evaluate_platform_fees IS 'Itemised platform fees for each cart line from the active fee rules';
+COMMENT ON COLUMN public.provider_earnings.commission_amount IS 'Platform commission taken from the gross amount: the booking''s fee lines, from the fee rules that apply to it';
+COMMENT ON COLUMN public.provider_earnings.platform_fee_id IS 'The fee rule behind the commission, when a single rule applied';
@@ -0,0 +1,279 @@
+-- Province based tax: jurisdictions with their tax components, per-category exemptions,
+-- per-line calculation and a tax snapshot on each order
+
+CREATE TABLE IF NOT EXISTS public.tax_jurisdictions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  country_code TEXT NOT NULL DEFAULT 'CA',
+  -- Matched against user_profiles.state, by code ('ON') or by name ('Ontario')
+  region_code TEXT NOT NULL,
+  region_name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (country_code, region_code)
+);
+
+CREATE TABLE IF NOT EXISTS public.tax_components (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  jurisdiction_id UUID NOT NULL REFERENCES public.tax_jurisdictions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rate NUMERIC(6,3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  -- A compound component is charged on the amount plus the components before it
+  is_compound BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A category can be exempt everywhere, in one jurisdiction, or from one component
+CREATE TABLE IF NOT EXISTS public.tax_category_exemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  jurisdiction_id UUID REFERENCES public.tax_jurisdictions(id) ON DELETE CASCADE,
+  tax_component_id UUID REFERENCES public.tax_components(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_components_jurisdiction ON public.tax_components(jurisdiction_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_tax_category_exemptions_category ON public.tax_category_exemptions(category_id);
+
+ALTER TABLE public.tax_jurisdictions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_category_exemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active tax jurisdictions"
+ON public.tax_jurisdictions
+FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Admins can manage tax jurisdictions"
+ON public.tax_jurisdictions
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND auth_role IN ('admin', 'super_admin')
+  )
+);
+
+CREATE POLICY "Anyone can view active tax components"
+ON public.tax_components
+FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Admins can manage tax components"
+ON public.tax_components
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND auth_role IN ('admin', 'super_admin')
+  )
+);
+
+CREATE POLICY "Admins can manage tax exemptions"
+ON public.tax_category_exemptions
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND auth_role IN ('admin', 'super_admin')
+  )
+);
+
+CREATE TRIGGER update_tax_jurisdictions_updated_at
+  BEFORE UPDATE ON public.tax_jurisdictions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_tax_components_updated_at
+  BEFORE UPDATE ON public.tax_components
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Canadian sales tax as of 2025
+INSERT INTO public.tax_jurisdictions (country_code, region_code, region_name) VALUES
+  ('CA', 'AB', 'Alberta'),
+  ('CA', 'BC', 'British Columbia'),
+  ('CA', 'MB', 'Manitoba'),
+  ('CA', 'NB', 'New Brunswick'),
+  ('CA', 'NL', 'Newfoundland and Labrador'),
+  ('CA', 'NS', 'Nova Scotia'),
+  ('CA', 'NT', 'Northwest Territories'),
+  ('CA', 'NU', 'Nunavut'),
+  ('CA', 'ON', 'Ontario'),
+  ('CA', 'PE', 'Prince Edward Island'),
+  ('CA', 'QC', 'Quebec'),
+  ('CA', 'SK', 'Saskatchewan'),
+  ('CA', 'YT', 'Yukon')
+ON CONFLICT (country_code, region_code) DO NOTHING;
+
+INSERT INTO public.tax_components (jurisdiction_id, name, rate, sort_order)
+SELECT j.id, c.name, c.rate, c.sort_order
+FROM (VALUES
+  ('AB', 'GST', 5.000, 0),
+  ('BC', 'GST', 5.000, 0),
+  ('BC', 'PST', 7.000, 1),
+  ('MB', 'GST', 5.000, 0),
+  ('MB', 'RST', 7.000, 1),
+  ('NB', 'HST', 15.000, 0),
+  ('NL', 'HST', 15.000, 0),
+  ('NS', 'HST', 14.000, 0),
+  ('NT', 'GST', 5.000, 0),
+  ('NU', 'GST', 5.000, 0),
+  ('ON', 'HST', 13.000, 0),
+  ('PE', 'HST', 15.000, 0),
+  ('QC', 'GST', 5.000, 0),
+  ('QC', 'QST', 9.975, 1),
+  ('SK', 'GST', 5.000, 0),
+  ('SK', 'PST', 6.000, 1),
+  ('YT', 'GST', 5.000, 0)
+) AS c(region_code, name, rate, sort_order)
+JOIN public.tax_jurisdictions j ON j.country_code = 'CA' AND j.region_code = c.region_code
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.tax_components tc WHERE tc.jurisdiction_id = j.id AND tc.name = c.name
+);
+
+-- The tax charged when the order was paid; later rate changes leave it alone
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_snapshot JSONB;
+
+COMMENT ON COLUMN public.orders.tax_snapshot IS 'Jurisdiction, rates and per-line tax components at the time of payment';
+
+-- Tax for each line of a cart.
+-- p_lines: [{ "key": "0", "service_id": "...", "subcategory_id": "...", "amount": 120.00 }]
+-- amount is the taxable amount of the line: its share of the discounted subtotal plus its fees.
+-- With no active jurisdiction for p_region the active tax slab for the cart total is used.
+CREATE OR REPLACE FUNCTION public.calculate_line_taxes(p_region TEXT, p_lines JSONB)
+RETURNS TABLE (
+  line_key TEXT,
+  jurisdiction_id UUID,
+  tax_component_id UUID,
+  tax_slab_id UUID,
+  tax_name TEXT,
+  rate NUMERIC,
+  is_compound BOOLEAN,
+  taxable_amount NUMERIC,
+  tax_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_jurisdiction_id UUID;
+  v_slab RECORD;
+  v_total NUMERIC;
+  v_line JSONB;
+  v_amount NUMERIC;
+  v_subcategory_id UUID;
+  v_category_id UUID;
+  v_component RECORD;
+  v_prior_tax NUMERIC;
+  v_base NUMERIC;
+  v_tax NUMERIC;
+BEGIN
+  SELECT tj.id INTO v_jurisdiction_id
+  FROM public.tax_jurisdictions tj
+  WHERE tj.is_active = true
+    AND (upper(tj.region_code) = upper(trim(p_region)) OR lower(tj.region_name) = lower(trim(p_region)))
+  LIMIT 1;
+
+  IF v_jurisdiction_id IS NULL THEN
+    SELECT coalesce(sum((l->>'amount')::NUMERIC), 0) INTO v_total
+    FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) l;
+
+    IF v_total <= 0 THEN
+      RETURN;
+    END IF;
+
+    SELECT ts.* INTO v_slab
+    FROM public.tax_slabs ts
+    WHERE ts.is_active = true
+      AND v_total >= coalesce(ts.minimum_amount, 0)
+      AND (ts.maximum_amount IS NULL OR v_total <= ts.maximum_amount)
+    ORDER BY ts.minimum_amount ASC NULLS FIRST
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+    LOOP
+      v_amount := coalesce((v_line->>'amount')::NUMERIC, 0);
+      CONTINUE WHEN v_amount <= 0;
+
+      line_key := v_line->>'key';
+      jurisdiction_id := NULL;
+      tax_component_id := NULL;
+      tax_slab_id := v_slab.id;
+      tax_name := v_slab.name;
+      rate := v_slab.tax_percentage;
+      is_compound := false;
+      taxable_amount := v_amount;
+      tax_amount := round(v_amount * v_slab.tax_percentage / 100, 2);
+      RETURN NEXT;
+    END LOOP;
+
+    RETURN;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  LOOP
+    v_amount := coalesce((v_line->>'amount')::NUMERIC, 0);
+    CONTINUE WHEN v_amount <= 0;
+
+    v_subcategory_id := (v_line->>'subcategory_id')::UUID;
+    IF v_subcategory_id IS NULL AND v_line->>'service_id' IS NOT NULL THEN
+      SELECT ps.subcategory_id INTO v_subcategory_id
+      FROM public.provider_services ps
+      WHERE ps.id = (v_line->>'service_id')::UUID;
+    END IF;
+
+    SELECT s.category_id INTO v_category_id
+    FROM public.subcategories s
+    WHERE s.id = v_subcategory_id;
+
+    v_prior_tax := 0;
+
+    FOR v_component IN
+      SELECT tc.*
+      FROM public.tax_components tc
+      WHERE tc.jurisdiction_id = v_jurisdiction_id AND tc.is_active = true
+      ORDER BY tc.sort_order, tc.name
+    LOOP
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM public.tax_category_exemptions e
+        WHERE e.category_id = v_category_id
+          AND (e.jurisdiction_id IS NULL OR e.jurisdiction_id = v_jurisdiction_id)
+          AND (e.tax_component_id IS NULL OR e.tax_component_id = v_component.id)
+      );
+
+      v_base := v_amount + CASE WHEN v_component.is_compound THEN v_prior_tax ELSE 0 END;
+      v_tax := round(v_base * v_component.rate / 100, 2);
+
+      line_key := v_line->>'key';
+      jurisdiction_id := v_jurisdiction_id;
+      tax_component_id := v_component.id;
+      tax_slab_id := NULL;
+      tax_name := v_component.name;
+      rate := v_component.rate;
+      is_compound := v_component.is_compound;
+      taxable_amount := v_base;
+      tax_amount := v_tax;
+      RETURN NEXT;
+
+      v_prior_tax := v_prior_tax + v_tax;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_line_taxes(TEXT, JSONB) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.calculate_line_taxes IS 'Itemised tax components for each cart line in the customer''s province, falling back to tax slabs';
@@ -0,0 +1,256 @@
+-- Coupon rules: category, service and provider scope, first booking only, weekday and
+-- time windows, and buy-N-get-one offers, validated against the cart lines
+
+ALTER TABLE public.special_offers
+  ADD COLUMN IF NOT EXISTS applicable_providers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS first_booking_only BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS valid_weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS valid_start_time TIME,
+  ADD COLUMN IF NOT EXISTS valid_end_time TIME,
+  ADD COLUMN IF NOT EXISTS offer_type TEXT NOT NULL DEFAULT 'discount',
+  ADD COLUMN IF NOT EXISTS buy_quantity INTEGER;
+
+ALTER TABLE public.special_offers
+  ADD CONSTRAINT special_offers_offer_type_check CHECK (offer_type IN ('discount', 'buy_x_get_one')),
+  ADD CONSTRAINT special_offers_buy_quantity_check CHECK (offer_type <> 'buy_x_get_one' OR buy_quantity >= 1),
+  ADD CONSTRAINT special_offers_valid_weekdays_check CHECK (valid_weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]);
+
+COMMENT ON COLUMN public.special_offers.applicable_categories IS 'JSON array of category ids the coupon is limited to';
+COMMENT ON COLUMN public.special_offers.applicable_services IS 'JSON array of subcategory ids the coupon is limited to';
+COMMENT ON COLUMN public.special_offers.applicable_providers IS 'JSON array of provider profile ids the coupon is limited to';
+COMMENT ON COLUMN public.special_offers.valid_weekdays IS 'Days of the appointment the coupon applies to, 0 = Sunday; empty means every day';
+COMMENT ON COLUMN public.special_offers.offer_type IS 'discount: discount_value off the eligible lines; buy_x_get_one: every buy_quantity + 1 eligible units, the cheapest gets discount_value off';
+
+-- Validate a coupon against the cart and split the discount over the eligible lines.
+-- p_lines: [{ "key": "0", "service_id": "...", "quantity": 1, "date": "2025-09-20", "time": "14:30" }]
+-- Prices, providers and categories are read from provider_services, never from the client.
+-- Unscheduled lines are checked against the current day and time.
+CREATE OR REPLACE FUNCTION public.validate_coupon_for_cart(
+  p_coupon_code TEXT,
+  p_customer_id UUID,
+  p_lines JSONB
+)
+RETURNS TABLE (
+  is_valid BOOLEAN,
+  offer_id UUID,
+  discount_amount NUMERIC,
+  line_discounts JSONB,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_offer public.special_offers%ROWTYPE;
+  v_line JSONB;
+  v_position BIGINT;
+  v_service RECORD;
+  v_quantity INTEGER;
+  v_date DATE;
+  v_time TIME;
+  v_subtotal NUMERIC := 0;
+  v_eligible_total NUMERIC := 0;
+  v_customer_uses INTEGER;
+  v_discount NUMERIC := 0;
+  v_free_units INTEGER;
+  v_allocated NUMERIC := 0;
+  v_priced JSONB := '[]'::jsonb;
+  v_result JSONB := '[]'::jsonb;
+  v_scale NUMERIC;
+  v_entry RECORD;
+  v_last_position BIGINT;
+BEGIN
+  SELECT * INTO v_offer
+  FROM public.special_offers so
+  WHERE so.code = upper(p_coupon_code)
+    AND so.is_active = true
+    AND so.valid_from <= now()
+    AND so.valid_until >= now();
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'Invalid or expired coupon code';
+    RETURN;
+  END IF;
+
+  IF v_offer.usage_limit IS NOT NULL AND v_offer.usage_count >= v_offer.usage_limit THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'Coupon usage limit exceeded';
+    RETURN;
+  END IF;
+
+  IF p_customer_id IS NOT NULL THEN
+    SELECT count(*) INTO v_customer_uses
+    FROM public.coupons c
+    WHERE c.offer_id = v_offer.id AND c.customer_id = p_customer_id;
+
+    IF v_customer_uses >= coalesce(v_offer.usage_limit_per_customer, 1) THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'You have already used this coupon';
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_offer.first_booking_only THEN
+    IF p_customer_id IS NULL THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'Sign in to use this first booking coupon';
+      RETURN;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.customer_id = p_customer_id AND b.status <> 'cancelled'
+    ) THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'This coupon is only valid on your first booking';
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Price each line and decide whether the coupon covers it
+  FOR v_line, v_position IN SELECT * FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    SELECT ps.price, ps.provider_id, ps.subcategory_id, s.category_id INTO v_service
+    FROM public.provider_services ps
+    LEFT JOIN public.subcategories s ON s.id = ps.subcategory_id
+    WHERE ps.id = (v_line->>'service_id')::UUID;
+
+    CONTINUE WHEN NOT FOUND;
+
+    v_quantity := greatest(coalesce((v_line->>'quantity')::INTEGER, 1), 1);
+
+    BEGIN
+      v_date := coalesce((v_line->>'date')::DATE, current_date);
+    EXCEPTION WHEN others THEN
+      v_date := current_date;
+    END;
+
+    BEGIN
+      v_time := coalesce((v_line->>'time')::TIME, localtime);
+    EXCEPTION WHEN others THEN
+      v_time := localtime;
+    END;
+
+    v_priced := v_priced || jsonb_build_object(
+      'line_key', v_line->>'key',
+      'position', v_position,
+      'unit_price', v_service.price,
+      'quantity', v_quantity,
+      'eligible', (
+        (
+          (jsonb_array_length(coalesce(v_offer.applicable_categories, '[]'::jsonb)) = 0
+            AND jsonb_array_length(coalesce(v_offer.applicable_services, '[]'::jsonb)) = 0)
+          OR coalesce(v_offer.applicable_categories, '[]'::jsonb) ? coalesce(v_service.category_id::TEXT, '')
+          OR coalesce(v_offer.applicable_services, '[]'::jsonb) ? coalesce(v_service.subcategory_id::TEXT, '')
+        )
+        AND (
+          jsonb_array_length(v_offer.applicable_providers) = 0
+          OR v_offer.applicable_providers ? v_service.provider_id::TEXT
+        )
+        AND (
+          cardinality(v_offer.valid_weekdays) = 0
+          OR extract(dow FROM v_date)::INTEGER = ANY (v_offer.valid_weekdays)
+        )
+        AND (v_offer.valid_start_time IS NULL OR v_time >= v_offer.valid_start_time)
+        AND (v_offer.valid_end_time IS NULL OR v_time < v_offer.valid_end_time)
+      )
+    );
+  END LOOP;
+
+  SELECT coalesce(sum(cl.unit_price * cl.quantity), 0),
+         coalesce(sum(cl.unit_price * cl.quantity) FILTER (WHERE cl.eligible), 0)
+  INTO v_subtotal, v_eligible_total
+  FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN);
+
+  IF v_subtotal < coalesce(v_offer.minimum_order_amount, 0) THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb,
+      format('Minimum order amount of $%s required', to_char(v_offer.minimum_order_amount, 'FM999999990.00'));
+    RETURN;
+  END IF;
+
+  IF v_eligible_total <= 0 THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'This coupon does not apply to the services in your cart';
+    RETURN;
+  END IF;
+
+  IF v_offer.offer_type = 'buy_x_get_one' THEN
+    -- Every buy_quantity + 1 eligible units, the cheapest units are discounted
+    SELECT coalesce(sum(cl.quantity), 0) / (v_offer.buy_quantity + 1) INTO v_free_units
+    FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN)
+    WHERE cl.eligible;
+
+    IF v_free_units = 0 THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb,
+        format('Add %s eligible services to use this coupon', v_offer.buy_quantity + 1);
+      RETURN;
+    END IF;
+
+    FOR v_entry IN
+      SELECT u.line_key, sum(
+        CASE WHEN v_offer.discount_type = 'percentage'
+          THEN u.unit_price * v_offer.discount_value / 100
+          ELSE least(v_offer.discount_value, u.unit_price)
+        END
+      ) AS amount
+      FROM (
+        SELECT cl.line_key, cl.unit_price
+        FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN), generate_series(1, cl.quantity)
+        WHERE cl.eligible
+        ORDER BY cl.unit_price ASC, cl.position ASC
+        LIMIT v_free_units
+      ) u
+      GROUP BY u.line_key
+    LOOP
+      v_result := v_result || jsonb_build_object('key', v_entry.line_key, 'amount', round(v_entry.amount, 2));
+      v_discount := v_discount + round(v_entry.amount, 2);
+    END LOOP;
+
+    IF v_offer.maximum_discount_amount IS NOT NULL AND v_discount > v_offer.maximum_discount_amount THEN
+      v_scale := v_offer.maximum_discount_amount / v_discount;
+      SELECT coalesce(jsonb_agg(jsonb_build_object('key', e->>'key', 'amount', round((e->>'amount')::NUMERIC * v_scale, 2))), '[]'::jsonb)
+      INTO v_result
+      FROM jsonb_array_elements(v_result) e;
+      SELECT coalesce(sum((e->>'amount')::NUMERIC), 0) INTO v_discount FROM jsonb_array_elements(v_result) e;
+    END IF;
+
+    RETURN QUERY SELECT true, v_offer.id, v_discount, v_result, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_offer.discount_type = 'percentage' THEN
+    v_discount := v_eligible_total * v_offer.discount_value / 100;
+  ELSE
+    v_discount := least(v_offer.discount_value, v_eligible_total);
+  END IF;
+
+  IF v_offer.maximum_discount_amount IS NOT NULL THEN
+    v_discount := least(v_discount, v_offer.maximum_discount_amount);
+  END IF;
+
+  v_discount := round(v_discount, 2);
+
+  -- Split over the eligible lines by value; the last line takes the rounding remainder
+  SELECT max(cl.position) INTO v_last_position
+  FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN)
+  WHERE cl.eligible;
+
+  FOR v_entry IN
+    SELECT cl.line_key, cl.position, cl.unit_price * cl.quantity AS line_total
+    FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN)
+    WHERE cl.eligible
+    ORDER BY cl.position
+  LOOP
+    IF v_entry.position = v_last_position THEN
+      v_result := v_result || jsonb_build_object('key', v_entry.line_key, 'amount', v_discount - v_allocated);
+    ELSE
+      v_result := v_result || jsonb_build_object('key', v_entry.line_key, 'amount', round(v_discount * v_entry.line_total / v_eligible_total, 2));
+      v_allocated := v_allocated + round(v_discount * v_entry.line_total / v_eligible_total, 2);
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT true, v_offer.id, v_discount, v_result, NULL::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_coupon_for_cart(TEXT, UUID, JSONB) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.validate_coupon_for_cart IS 'Coupon validation with scope, first booking, weekday, time window and buy-N-get-one rules, split per cart line';
@@ -0,0 +1,411 @@
+-- Coupon redemptions: a checkout reserves a use of its coupon, the payment webhook
+-- commits it against the booking and an expired checkout session releases it
+
+ALTER TABLE public.coupons
+  ADD COLUMN IF NOT EXISTS checkout_session_id TEXT REFERENCES public.checkout_sessions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reserved_until TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.coupons DROP CONSTRAINT IF EXISTS coupons_status_check;
+ALTER TABLE public.coupons
+  ADD CONSTRAINT coupons_status_check CHECK (status IN ('reserved', 'used', 'released', 'refunded'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupons_checkout_session_id
+  ON public.coupons(checkout_session_id) WHERE checkout_session_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_coupons_offer_status ON public.coupons(offer_id, status);
+
+COMMENT ON COLUMN public.coupons.status IS 'reserved: held by a checkout in progress; used: paid; released: the checkout expired or failed; refunded';
+COMMENT ON COLUMN public.coupons.checkout_session_id IS 'Set once the Stripe checkout session exists; the reservation is taken before it is created';
+COMMENT ON COLUMN public.coupons.reserved_until IS 'A reservation stops counting against the usage limits after this time, even if it was never released';
+
+-- usage_count only counts paid redemptions, so it moves when a row becomes used
+-- rather than on every insert
+DROP TRIGGER IF EXISTS trigger_update_offer_usage_count ON public.coupons;
+
+CREATE OR REPLACE FUNCTION public.update_offer_usage_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'used' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'used') THEN
+    UPDATE public.special_offers
+    SET usage_count = coalesce(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = NEW.offer_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_update_offer_usage_count
+  AFTER INSERT OR UPDATE OF status ON public.coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_offer_usage_count();
+
+-- Reservations still inside their hold
+CREATE OR REPLACE FUNCTION public.active_coupon_reservations(p_offer_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.coupons c
+  WHERE c.offer_id = p_offer_id
+    AND c.status = 'reserved'
+    AND c.reserved_until > now();
+$$;
+
+-- A customer's paid redemptions plus the reservations they are still holding
+CREATE OR REPLACE FUNCTION public.coupon_customer_uses(p_offer_id UUID, p_customer_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.coupons c
+  WHERE c.offer_id = p_offer_id
+    AND c.customer_id = p_customer_id
+    AND (c.status = 'used' OR (c.status = 'reserved' AND c.reserved_until > now()));
+$$;
+
+-- Reserve one use of an offer for a checkout. The offer row is locked so that
+-- concurrent checkouts are counted one after another and cannot overshoot
+-- usage_limit or usage_limit_per_customer.
+CREATE OR REPLACE FUNCTION public.reserve_coupon_redemption(
+  p_offer_id UUID,
+  p_customer_id UUID,
+  p_code TEXT,
+  p_original_amount NUMERIC,
+  p_discount_amount NUMERIC,
+  p_reserved_until TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  redemption_id UUID,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer public.special_offers%ROWTYPE;
+  v_redemption_id UUID;
+BEGIN
+  SELECT * INTO v_offer
+  FROM public.special_offers so
+  WHERE so.id = p_offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_offer.is_active IS NOT TRUE OR v_offer.valid_until < now() THEN
+    RETURN QUERY SELECT NULL::UUID, 'Invalid or expired coupon code';
+    RETURN;
+  END IF;
+
+  IF v_offer.usage_limit IS NOT NULL
+     AND coalesce(v_offer.usage_count, 0) + public.active_coupon_reservations(p_offer_id) >= v_offer.usage_limit THEN
+    RETURN QUERY SELECT NULL::UUID, 'Coupon usage limit exceeded';
+    RETURN;
+  END IF;
+
+  IF p_customer_id IS NOT NULL
+     AND public.coupon_customer_uses(p_offer_id, p_customer_id) >= coalesce(v_offer.usage_limit_per_customer, 1) THEN
+    RETURN QUERY SELECT NULL::UUID, 'You have already used this coupon';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.coupons (
+    offer_id, customer_id, code_used, discount_applied, original_amount, final_amount, status, reserved_until
+  ) VALUES (
+    p_offer_id, p_customer_id, upper(p_code), p_discount_amount, p_original_amount,
+    greatest(p_original_amount - p_discount_amount, 0), 'reserved', p_reserved_until
+  )
+  RETURNING id INTO v_redemption_id;
+
+  RETURN QUERY SELECT v_redemption_id, NULL::TEXT;
+END;
+$$;
+
+-- Commit the reservation of a paid checkout session. Only a reserved row moves,
+-- so repeated webhook deliveries count the use once.
+CREATE OR REPLACE FUNCTION public.commit_coupon_redemption(
+  p_checkout_session_id TEXT,
+  p_order_id UUID,
+  p_booking_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.coupons
+  SET status = 'used',
+      order_id = p_order_id,
+      booking_id = p_booking_id,
+      used_at = now()
+  WHERE checkout_session_id = p_checkout_session_id
+    AND status = 'reserved';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Give back the use held by a checkout session that will never be paid
+CREATE OR REPLACE FUNCTION public.release_coupon_redemption(p_checkout_session_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.coupons
+  SET status = 'released'
+  WHERE checkout_session_id = p_checkout_session_id
+    AND status = 'reserved';
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_coupon_redemption(UUID, UUID, TEXT, NUMERIC, NUMERIC, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_coupon_redemption(TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_coupon_redemption(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_coupon_redemption(UUID, UUID, TEXT, NUMERIC, NUMERIC, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_coupon_redemption(TEXT, UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_coupon_redemption(TEXT) TO service_role;
+
+-- Same as before, but reservations held by unfinished checkouts count as uses and
+-- released reservations do not.
+-- Validate a coupon against the cart and split the discount over the eligible lines.
+-- p_lines: [{ "key": "0", "service_id": "...", "quantity": 1, "date": "2025-09-20", "time": "14:30" }]
+-- Prices, providers and categories are read from provider_services, never from the client.
+-- Unscheduled lines are checked against the current day and time.
+CREATE OR REPLACE FUNCTION public.validate_coupon_for_cart(
+  p_coupon_code TEXT,
+  p_customer_id UUID,
+  p_lines JSONB
+)
+RETURNS TABLE (
+  is_valid BOOLEAN,
+  offer_id UUID,
+  discount_amount NUMERIC,
+  line_discounts JSONB,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_offer public.special_offers%ROWTYPE;
+  v_line JSONB;
+  v_position BIGINT;
+  v_service RECORD;
+  v_quantity INTEGER;
+  v_date DATE;
+  v_time TIME;
+  v_subtotal NUMERIC := 0;
+  v_eligible_total NUMERIC := 0;
+  v_customer_uses INTEGER;
+  v_discount NUMERIC := 0;
+  v_free_units INTEGER;
+  v_allocated NUMERIC := 0;
+  v_priced JSONB := '[]'::jsonb;
+  v_result JSONB := '[]'::jsonb;
+  v_scale NUMERIC;
+  v_entry RECORD;
+  v_last_position BIGINT;
+BEGIN
+  SELECT * INTO v_offer
+  FROM public.special_offers so
+  WHERE so.code = upper(p_coupon_code)
+    AND so.is_active = true
+    AND so.valid_from <= now()
+    AND so.valid_until >= now();
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'Invalid or expired coupon code';
+    RETURN;
+  END IF;
+
+  IF v_offer.usage_limit IS NOT NULL
+     AND coalesce(v_offer.usage_count, 0) + public.active_coupon_reservations(v_offer.id) >= v_offer.usage_limit THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'Coupon usage limit exceeded';
+    RETURN;
+  END IF;
+
+  IF p_customer_id IS NOT NULL THEN
+    v_customer_uses := public.coupon_customer_uses(v_offer.id, p_customer_id);
+
+    IF v_customer_uses >= coalesce(v_offer.usage_limit_per_customer, 1) THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'You have already used this coupon';
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_offer.first_booking_only THEN
+    IF p_customer_id IS NULL THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'Sign in to use this first booking coupon';
+      RETURN;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.customer_id = p_customer_id AND b.status <> 'cancelled'
+    ) THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'This coupon is only valid on your first booking';
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Price each line and decide whether the coupon covers it
+  FOR v_line, v_position IN SELECT * FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    SELECT ps.price, ps.provider_id, ps.subcategory_id, s.category_id INTO v_service
+    FROM public.provider_services ps
+    LEFT JOIN public.subcategories s ON s.id = ps.subcategory_id
+    WHERE ps.id = (v_line->>'service_id')::UUID;
+
+    CONTINUE WHEN NOT FOUND;
+
+    v_quantity := greatest(coalesce((v_line->>'quantity')::INTEGER, 1), 1);
+
+    BEGIN
+      v_date := coalesce((v_line->>'date')::DATE, current_date);
+    EXCEPTION WHEN others THEN
+      v_date := current_date;
+    END;
+
+    BEGIN
+      v_time := coalesce((v_line->>'time')::TIME, localtime);
+    EXCEPTION WHEN others THEN
+      v_time := localtime;
+    END;
+
+    v_priced := v_priced || jsonb_build_object(
+      'line_key', v_line->>'key',
+      'position', v_position,
+      'unit_price', v_service.price,
+      'quantity', v_quantity,
+      'eligible', (
+        (
+          (jsonb_array_length(coalesce(v_offer.applicable_categories, '[]'::jsonb)) = 0
+            AND jsonb_array_length(coalesce(v_offer.applicable_services, '[]'::jsonb)) = 0)
+          OR coalesce(v_offer.applicable_categories, '[]'::jsonb) ? coalesce(v_service.category_id::TEXT, '')
+          OR coalesce(v_offer.applicable_services, '[]'::jsonb) ? coalesce(v_service.subcategory_id::TEXT, '')
+        )
+        AND (
+          jsonb_array_length(v_offer.applicable_providers) = 0
+          OR v_offer.applicable_providers ? v_service.provider_id::TEXT
+        )
+        AND (
+          cardinality(v_offer.valid_weekdays) = 0
+          OR extract(dow FROM v_date)::INTEGER = ANY (v_offer.valid_weekdays)
+        )
+        AND (v_offer.valid_start_time IS NULL OR v_time >= v_offer.valid_start_time)
+        AND (v_offer.valid_end_time IS NULL OR v_time < v_offer.valid_end_time)
+      )
+    );
+  END LOOP;
+
+  SELECT coalesce(sum(cl.unit_price * cl.quantity), 0),
+         coalesce(sum(cl.unit_price * cl.quantity) FILTER (WHERE cl.eligible), 0)
+  INTO v_subtotal, v_eligible_total
+  FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN);
+
+  IF v_subtotal < coalesce(v_offer.minimum_order_amount, 0) THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb,
+      format('Minimum order amount of $%s required', to_char(v_offer.minimum_order_amount, 'FM999999990.00'));
+    RETURN;
+  END IF;
+
+  IF v_eligible_total <= 0 THEN
+    RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb, 'This coupon does not apply to the services in your cart';
+    RETURN;
+  END IF;
+
+  IF v_offer.offer_type = 'buy_x_get_one' THEN
+    -- Every buy_quantity + 1 eligible units, the cheapest units are discounted
+    SELECT coalesce(sum(cl.quantity), 0) / (v_offer.buy_quantity + 1) INTO v_free_units
+    FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN)
+    WHERE cl.eligible;
+
+    IF v_free_units = 0 THEN
+      RETURN QUERY SELECT false, NULL::UUID, 0::NUMERIC, '[]'::jsonb,
+        format('Add %s eligible services to use this coupon', v_offer.buy_quantity + 1);
+      RETURN;
+    END IF;
+
+    FOR v_entry IN
+      SELECT u.line_key, sum(
+        CASE WHEN v_offer.discount_type = 'percentage'
+          THEN u.unit_price * v_offer.discount_value / 100
+          ELSE least(v_offer.discount_value, u.unit_price)
+        END
+      ) AS amount
+      FROM (
+        SELECT cl.line_key, cl.unit_price
+        FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN), generate_series(1, cl.quantity)
+        WHERE cl.eligible
+        ORDER BY cl.unit_price ASC, cl.position ASC
+        LIMIT v_free_units
+      ) u
+      GROUP BY u.line_key
+    LOOP
+      v_result := v_result || jsonb_build_object('key', v_entry.line_key, 'amount', round(v_entry.amount, 2));
+      v_discount := v_discount + round(v_entry.amount, 2);
+    END LOOP;
+
+    IF v_offer.maximum_discount_amount IS NOT NULL AND v_discount > v_offer.maximum_discount_amount THEN
+      v_scale := v_offer.maximum_discount_amount / v_discount;
+      SELECT coalesce(jsonb_agg(jsonb_build_object('key', e->>'key', 'amount', round((e->>'amount')::NUMERIC * v_scale, 2))), '[]'::jsonb)
+      INTO v_result
+      FROM jsonb_array_elements(v_result) e;
+      SELECT coalesce(sum((e->>'amount')::NUMERIC), 0) INTO v_discount FROM jsonb_array_elements(v_result) e;
+    END IF;
+
+    RETURN QUERY SELECT true, v_offer.id, v_discount, v_result, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_offer.discount_type = 'percentage' THEN
+    v_discount := v_eligible_total * v_offer.discount_value / 100;
+  ELSE
+    v_discount := least(v_offer.discount_value, v_eligible_total);
+  END IF;
+
+  IF v_offer.maximum_discount_amount IS NOT NULL THEN
+    v_discount := least(v_discount, v_offer.maximum_discount_amount);
+  END IF;
+
+  v_discount := round(v_discount, 2);
+
+  -- Split over the eligible lines by value; the last line takes the rounding remainder
+  SELECT max(cl.position) INTO v_last_position
+  FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN)
+  WHERE cl.eligible;
+
+  FOR v_entry IN
+    SELECT cl.line_key, cl.position, cl.unit_price * cl.quantity AS line_total
+    FROM jsonb_to_recordset(v_priced) AS cl(line_key TEXT, position BIGINT, unit_price NUMERIC, quantity INTEGER, eligible BOOLEAN)
+    WHERE cl.eligible
+    ORDER BY cl.position
+  LOOP
+    IF v_entry.position = v_last_position THEN
+      v_result := v_result || jsonb_build_object('key', v_entry.line_key, 'amount', v_discount - v_allocated);
+    ELSE
+      v_result := v_result || jsonb_build_object('key', v_entry.line_key, 'amount', round(v_discount * v_entry.line_total / v_eligible_total, 2));
+      v_allocated := v_allocated + round(v_discount * v_entry.line_total / v_eligible_total, 2);
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT true, v_offer.id, v_discount, v_result, NULL::TEXT;
+END;
+$$;
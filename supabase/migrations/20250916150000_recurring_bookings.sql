@@ -0,0 +1,156 @@
+-- Recurring bookings: a customer books the same provider at the same time
+-- every week, every other week or every month. Each occurrence is an
+-- ordinary booking in the order that paid for the series.
+CREATE TABLE IF NOT EXISTS public.booking_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  start_date DATE NOT NULL,
+  slot_time TIME NOT NULL,
+  end_date DATE,
+  occurrence_count INTEGER NOT NULL CHECK (occurrence_count > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'cancelled')),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_occurrence INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON public.bookings(series_id);
+CREATE INDEX IF NOT EXISTS idx_booking_series_customer_id ON public.booking_series(customer_id);
+CREATE INDEX IF NOT EXISTS idx_booking_series_provider_id ON public.booking_series(provider_id);
+
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking series" ON public.booking_series
+  FOR SELECT USING (auth.uid() = customer_id);
+
+CREATE POLICY "Providers can view their booking series" ON public.booking_series
+  FOR SELECT USING (
+    provider_id IN (
+      SELECT id FROM public.user_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage booking series" ON public.booking_series
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE TRIGGER update_booking_series_updated_at
+  BEFORE UPDATE ON public.booking_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hold every slot of a new series for the caller, or none of them. Slots the
+-- caller already holds count as free, so the first occurrence picked on the
+-- time page can be part of the series. The series stays pending until the
+-- webhook attaches it to a paid order.
+CREATE OR REPLACE FUNCTION public.hold_booking_series(
+  p_provider_id UUID,
+  p_frequency TEXT,
+  p_slot_ids UUID[],
+  p_end_date DATE DEFAULT NULL,
+  p_hold_minutes INTEGER DEFAULT 7
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  slot_count INTEGER := COALESCE(array_length(p_slot_ids, 1), 0);
+  first_slot RECORD;
+  unavailable DATE[];
+  new_series_id UUID;
+BEGIN
+  IF caller IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Sign in to book a recurring appointment');
+  END IF;
+
+  IF p_frequency NOT IN ('weekly', 'biweekly', 'monthly') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Unknown repeat frequency');
+  END IF;
+
+  IF slot_count < 2 OR slot_count > 26 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A recurring booking has between 2 and 26 occurrences');
+  END IF;
+
+  -- Lock the slots so a concurrent hold cannot take one between the check and the update
+  PERFORM 1 FROM public.booking_slots
+  WHERE booking_slots.id = ANY(p_slot_ids)
+  ORDER BY booking_slots.id
+  FOR UPDATE;
+
+  SELECT array_agg(bs.slot_date ORDER BY bs.slot_date) INTO unavailable
+  FROM public.booking_slots bs
+  WHERE bs.id = ANY(p_slot_ids)
+    AND NOT (
+      bs.provider_id = p_provider_id
+      AND bs.is_blocked = false
+      AND (
+        bs.status = 'available'
+        OR (bs.status = 'held' AND (bs.held_by = caller OR bs.hold_expires_at < NOW()))
+      )
+    );
+
+  IF unavailable IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Some dates in this series are no longer available',
+      'unavailable_dates', to_jsonb(unavailable)
+    );
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT bs.slot_date) FROM public.booking_slots bs WHERE bs.id = ANY(p_slot_ids)) <> slot_count THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Each occurrence needs its own slot on a different date');
+  END IF;
+
+  UPDATE public.booking_slots
+  SET
+    status = 'held',
+    held_by = caller,
+    hold_expires_at = NOW() + (p_hold_minutes || ' minutes')::INTERVAL
+  WHERE booking_slots.id = ANY(p_slot_ids);
+
+  SELECT bs.slot_date, bs.slot_time INTO first_slot
+  FROM public.booking_slots bs
+  WHERE bs.id = ANY(p_slot_ids)
+  ORDER BY bs.slot_date
+  LIMIT 1;
+
+  INSERT INTO public.booking_series (
+    customer_id, provider_id, frequency, start_date, slot_time, end_date, occurrence_count
+  )
+  VALUES (
+    caller, p_provider_id, p_frequency, first_slot.slot_date, first_slot.slot_time, p_end_date, slot_count
+  )
+  RETURNING id INTO new_series_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Series held',
+    'series_id', new_series_id,
+    'hold_expires_at', NOW() + (p_hold_minutes || ' minutes')::INTERVAL
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.hold_booking_series(UUID, TEXT, UUID[], DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE public.booking_series IS 'Recurring bookings: one row per series, one booking per occurrence';
+COMMENT ON COLUMN public.booking_series.end_date IS 'Last date the customer asked for, when the series ends on a date rather than after a count';
+COMMENT ON COLUMN public.booking_series.occurrence_count IS 'Number of occurrences booked when the series was created';
+COMMENT ON COLUMN public.bookings.series_id IS 'Recurring series this booking is an occurrence of';
+COMMENT ON COLUMN public.bookings.series_occurrence IS '1-based position in its series; 0 for one-off bookings';
@@ -0,0 +1,250 @@
+-- Waitlist for fully booked provider days. Whenever a slot becomes available
+-- again (released, hold expired, booking cancelled or moved) the oldest
+-- matching entry is offered it as an ordinary hold.
+CREATE TABLE IF NOT EXISTS public.slot_waitlist (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES public.provider_services(id) ON DELETE CASCADE,
+  provider_name TEXT,
+  waitlist_date DATE NOT NULL,
+  window_start TIME,
+  window_end TIME,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'declined', 'expired', 'cancelled')),
+  offered_slot_id UUID REFERENCES public.booking_slots(id) ON DELETE SET NULL,
+  offered_at TIMESTAMP WITH TIME ZONE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (window_start IS NULL OR window_end IS NULL OR window_end > window_start)
+);
+
+-- One open entry per customer for the same provider, service and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slot_waitlist_open_entry
+  ON public.slot_waitlist(customer_id, provider_id, service_id, waitlist_date)
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_slot_waitlist_queue
+  ON public.slot_waitlist(provider_id, waitlist_date, created_at)
+  WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_slot_waitlist_offered_slot_id ON public.slot_waitlist(offered_slot_id);
+
+ALTER TABLE public.slot_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own waitlist entries" ON public.slot_waitlist
+  FOR SELECT USING (auth.uid() = customer_id);
+
+CREATE POLICY "Providers can view their waitlist" ON public.slot_waitlist
+  FOR SELECT USING (
+    provider_id IN (
+      SELECT id FROM public.user_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage the waitlist" ON public.slot_waitlist
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE TRIGGER update_slot_waitlist_updated_at
+  BEFORE UPDATE ON public.slot_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Put the signed-in customer on the waitlist for a provider's day, optionally
+-- only for slots starting within a time window
+CREATE OR REPLACE FUNCTION public.join_waitlist(
+  p_provider_id UUID,
+  p_service_id UUID,
+  p_date DATE,
+  p_window_start TIME DEFAULT NULL,
+  p_window_end TIME DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  existing_id UUID;
+  entry_id UUID;
+  provider_label TEXT;
+BEGIN
+  IF caller IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Sign in to join the waitlist');
+  END IF;
+
+  IF p_date < CURRENT_DATE THEN
+    RETURN jsonb_build_object('success', false, 'message', 'That date has already passed');
+  END IF;
+
+  IF p_window_start IS NOT NULL AND p_window_end IS NOT NULL AND p_window_end <= p_window_start THEN
+    RETURN jsonb_build_object('success', false, 'message', 'The time window must end after it starts');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.provider_services
+    WHERE id = p_service_id AND provider_id = p_provider_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This provider does not offer that service');
+  END IF;
+
+  SELECT id INTO existing_id
+  FROM public.slot_waitlist
+  WHERE customer_id = caller
+    AND provider_id = p_provider_id
+    AND service_id = p_service_id
+    AND waitlist_date = p_date
+    AND status IN ('waiting', 'offered');
+
+  IF existing_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'message', 'You are already on the waitlist for this day', 'waitlist_id', existing_id);
+  END IF;
+
+  SELECT COALESCE(business_name, full_name) INTO provider_label
+  FROM public.user_profiles
+  WHERE id = p_provider_id;
+
+  INSERT INTO public.slot_waitlist (
+    customer_id, provider_id, service_id, provider_name, waitlist_date, window_start, window_end
+  )
+  VALUES (
+    caller, p_provider_id, p_service_id, provider_label, p_date, p_window_start, p_window_end
+  )
+  RETURNING id INTO entry_id;
+
+  RETURN jsonb_build_object('success', true, 'message', 'You are on the waitlist', 'waitlist_id', entry_id);
+END;
+$$;
+
+-- Leave the waitlist. An offered slot is released, which passes it on to the
+-- next customer in line.
+CREATE OR REPLACE FUNCTION public.leave_waitlist(p_waitlist_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry RECORD;
+BEGIN
+  UPDATE public.slot_waitlist
+  SET status = 'cancelled'
+  WHERE id = p_waitlist_id
+    AND customer_id = auth.uid()
+    AND status IN ('waiting', 'offered')
+  RETURNING * INTO entry;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF entry.offered_slot_id IS NOT NULL THEN
+    PERFORM public.release_slot(entry.offered_slot_id, entry.customer_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Runs whenever a slot changes status: close the offer it was held under and,
+-- if it is free again, hold it for the next matching customer in line
+CREATE OR REPLACE FUNCTION public.process_slot_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Long enough to see the notification and get through checkout
+  offer_minutes CONSTANT INTEGER := 30;
+  next_entry RECORD;
+  service_label TEXT;
+BEGIN
+  -- The customer the slot was offered to has paid for it
+  IF NEW.status = 'booked' THEN
+    UPDATE public.slot_waitlist
+    SET status = 'booked'
+    WHERE offered_slot_id = NEW.id
+      AND status = 'offered'
+      AND customer_id = OLD.held_by;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'available' OR OLD.status = 'available' THEN
+    RETURN NEW;
+  END IF;
+
+  -- An offer on this slot was let go or ran out; that customer leaves the queue
+  UPDATE public.slot_waitlist
+  SET status = CASE WHEN OLD.hold_expires_at < NOW() THEN 'expired' ELSE 'declined' END
+  WHERE offered_slot_id = NEW.id
+    AND status = 'offered';
+
+  IF COALESCE(NEW.is_blocked, false) OR NEW.slot_date < CURRENT_DATE THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO next_entry
+  FROM public.slot_waitlist w
+  WHERE w.provider_id = NEW.provider_id
+    AND w.waitlist_date = NEW.slot_date
+    AND w.status = 'waiting'
+    AND (NEW.service_id IS NULL OR NEW.service_id = w.service_id)
+    AND (w.window_start IS NULL OR NEW.slot_time >= w.window_start)
+    AND (w.window_end IS NULL OR NEW.slot_time <= w.window_end)
+  ORDER BY w.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.hold_slot(NEW.id, next_entry.customer_id, offer_minutes) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.slot_waitlist
+  SET
+    status = 'offered',
+    offered_slot_id = NEW.id,
+    offered_at = NOW(),
+    offer_expires_at = NOW() + (offer_minutes || ' minutes')::INTERVAL
+  WHERE id = next_entry.id;
+
+  SELECT service_name INTO service_label FROM public.provider_services WHERE id = next_entry.service_id;
+
+  PERFORM public.create_notification(
+    next_entry.customer_id, 'customer', 'waitlist_offer', 'A Slot Opened Up',
+    COALESCE(service_label, 'Your service') || ' on ' || to_char(NEW.slot_date, 'Mon DD, YYYY')
+      || ' at ' || to_char(NEW.slot_time, 'HH12:MI AM')
+      || ' is held for you for ' || offer_minutes || ' minutes',
+    '/customer?section=bookings', NULL, NULL,
+    jsonb_build_object('waitlist_id', next_entry.id, 'slot_id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS process_slot_waitlist_on_status_change ON public.booking_slots;
+CREATE TRIGGER process_slot_waitlist_on_status_change
+  AFTER UPDATE OF status ON public.booking_slots
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.process_slot_waitlist();
+
+GRANT EXECUTE ON FUNCTION public.join_waitlist(UUID, UUID, DATE, TIME, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_waitlist(UUID) TO authenticated;
+
+COMMENT ON TABLE public.slot_waitlist IS 'Customers waiting for a slot with a provider on a fully booked day';
+COMMENT ON COLUMN public.slot_waitlist.window_start IS 'Earliest slot start the customer will take; NULL for any time';
+COMMENT ON COLUMN public.slot_waitlist.window_end IS 'Latest slot start the customer will take; NULL for any time';
+COMMENT ON COLUMN public.slot_waitlist.offered_slot_id IS 'Slot currently held for this customer, while the entry is offered';
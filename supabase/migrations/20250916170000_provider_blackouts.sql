@@ -0,0 +1,328 @@
+-- Provider time off and holidays. A blackout covers every date from start_date
+-- to end_date, either all day or between start_time and end_time, and can
+-- repeat every week (a standing afternoon off) or every year (a public holiday).
+-- Slot generation skips covered times and availability hides them, so removing
+-- a blackout makes its slots bookable again.
+CREATE TABLE IF NOT EXISTS public.provider_blackouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'weekly', 'yearly')),
+  recurrence_until DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT provider_blackouts_dates CHECK (end_date >= start_date),
+  CONSTRAINT provider_blackouts_times CHECK (
+    (start_time IS NULL AND end_time IS NULL)
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  ),
+  -- A repeating block has to fit inside the period it repeats over
+  CONSTRAINT provider_blackouts_recurrence CHECK (
+    recurrence = 'none'
+    OR (recurrence = 'weekly' AND end_date - start_date < 7)
+    OR (recurrence = 'yearly' AND end_date - start_date < 365)
+  ),
+  CONSTRAINT provider_blackouts_recurrence_until CHECK (
+    recurrence_until IS NULL OR (recurrence <> 'none' AND recurrence_until >= end_date)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_blackouts_provider ON public.provider_blackouts(provider_id);
+
+ALTER TABLE public.provider_blackouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can manage their blackouts"
+ON public.provider_blackouts
+FOR ALL
+USING (
+  provider_id IN (SELECT id FROM public.user_profiles WHERE user_id = auth.uid())
+)
+WITH CHECK (
+  provider_id IN (SELECT id FROM public.user_profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Admins can manage all blackouts"
+ON public.provider_blackouts
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND auth_role IN ('admin', 'super_admin')
+  )
+);
+
+CREATE TRIGGER update_provider_blackouts_updated_at
+  BEFORE UPDATE ON public.provider_blackouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether a blackout rule covers a slot starting at p_time on p_date. Takes the
+-- rule's fields rather than a row so a block can be checked before it is saved.
+CREATE OR REPLACE FUNCTION public.blackout_covers(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_recurrence TEXT,
+  p_recurrence_until DATE,
+  p_date DATE,
+  p_time TIME
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  years_on INTEGER;
+BEGIN
+  IF p_date < p_start_date OR (p_recurrence_until IS NOT NULL AND p_date > p_recurrence_until) THEN
+    RETURN false;
+  END IF;
+
+  IF p_start_time IS NOT NULL AND (p_time < p_start_time OR p_time >= p_end_time) THEN
+    RETURN false;
+  END IF;
+
+  IF p_recurrence = 'weekly' THEN
+    RETURN (p_date - p_start_date) % 7 <= p_end_date - p_start_date;
+  END IF;
+
+  IF p_recurrence = 'yearly' THEN
+    -- Shift the block into the date's year, and the year before for blocks
+    -- that run over New Year. Adding years keeps Feb 29 on Feb 28.
+    years_on := EXTRACT(YEAR FROM p_date)::INTEGER - EXTRACT(YEAR FROM p_start_date)::INTEGER;
+    RETURN p_date BETWEEN (p_start_date + make_interval(years => years_on))::DATE
+                      AND (p_end_date + make_interval(years => years_on))::DATE
+      OR (years_on > 0 AND p_date BETWEEN (p_start_date + make_interval(years => years_on - 1))::DATE
+                                      AND (p_end_date + make_interval(years => years_on - 1))::DATE);
+  END IF;
+
+  RETURN p_date <= p_end_date;
+END;
+$$;
+
+-- Whether any of the provider's blackouts covers a slot
+CREATE OR REPLACE FUNCTION public.is_provider_blacked_out(
+  p_provider_id UUID,
+  p_date DATE,
+  p_time TIME
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.provider_blackouts b
+    WHERE b.provider_id = p_provider_id
+      AND b.start_date <= p_date
+      AND public.blackout_covers(
+        b.start_date, b.end_date, b.start_time, b.end_time,
+        b.recurrence, b.recurrence_until, p_date, p_time
+      )
+  );
+$$;
+
+-- Confirmed upcoming bookings a proposed blackout would land on. Blocks never
+-- cancel bookings, so the provider is warned and decides what to do with them.
+CREATE OR REPLACE FUNCTION public.get_blackout_conflicts(
+  p_provider_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL,
+  p_recurrence TEXT DEFAULT 'none',
+  p_recurrence_until DATE DEFAULT NULL
+)
+RETURNS TABLE(
+  booking_id UUID,
+  order_id UUID,
+  booking_date DATE,
+  booking_time TIME,
+  service_name TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+      AND (id = p_provider_id OR auth_role IN ('admin', 'super_admin'))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this provider''s bookings';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.id, b.order_id, b.booking_date, b.booking_time, ps.service_name
+  FROM public.bookings b
+  LEFT JOIN public.provider_services ps ON ps.id = b.service_id
+  WHERE b.provider_id = p_provider_id
+    AND b.status = 'confirmed'
+    AND b.booking_date >= GREATEST(p_start_date, CURRENT_DATE)
+    AND public.blackout_covers(
+      p_start_date, p_end_date, p_start_time, p_end_time,
+      p_recurrence, p_recurrence_until, b.booking_date, b.booking_time
+    )
+  ORDER BY b.booking_date, b.booking_time;
+END;
+$$;
+
+-- Generate 30-minute slots from the weekly availability, skipping blacked out times
+CREATE OR REPLACE FUNCTION public.generate_provider_slots(
+  p_provider_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+) RETURNS VOID AS $$
+DECLARE
+  curr_date DATE := p_start_date;
+  current_slot_time TIME;
+  availability_record RECORD;
+BEGIN
+  -- Loop through each date in the range
+  WHILE curr_date <= p_end_date LOOP
+    -- Check if provider has availability for this day
+    SELECT * INTO availability_record
+    FROM provider_availability
+    WHERE provider_availability.provider_id = p_provider_id
+      AND provider_availability.day_of_week = EXTRACT(dow FROM curr_date)
+      AND provider_availability.is_available = true;
+
+    -- If availability exists, generate slots
+    IF FOUND THEN
+      -- Generate 30-minute slots from start_time to end_time
+      current_slot_time := availability_record.start_time;
+
+      WHILE current_slot_time < availability_record.end_time LOOP
+        -- Insert slot if it doesn't already exist and the provider isn't off
+        IF NOT public.is_provider_blacked_out(p_provider_id, curr_date, current_slot_time) THEN
+          INSERT INTO booking_slots (
+            provider_id,
+            slot_date,
+            slot_time,
+            status,
+            is_blocked
+          )
+          VALUES (
+            p_provider_id,
+            curr_date,
+            current_slot_time,
+            'available',
+            false
+          )
+          ON CONFLICT (provider_id, slot_date, slot_time) DO NOTHING;
+        END IF;
+
+        -- Move to next slot (30 minutes later)
+        current_slot_time := current_slot_time + INTERVAL '30 minutes';
+      END LOOP;
+    END IF;
+
+    -- Move to next date
+    curr_date := curr_date + INTERVAL '1 day';
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Slots generated before a blackout was added are hidden rather than deleted
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_provider_id UUID,
+  p_service_id UUID,
+  p_date DATE
+)
+RETURNS TABLE(
+  id UUID,
+  provider_id UUID,
+  service_id UUID,
+  slot_date DATE,
+  slot_time TIME,
+  status TEXT,
+  is_blocked BOOLEAN,
+  blocked_by UUID,
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  held_by UUID,
+  hold_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Clean up expired holds first
+  UPDATE public.booking_slots
+  SET status = 'available', held_by = NULL, hold_expires_at = NULL
+  WHERE booking_slots.status = 'held' AND booking_slots.hold_expires_at < NOW();
+
+  RETURN QUERY
+  SELECT
+    bs.id,
+    bs.provider_id,
+    bs.service_id,
+    bs.slot_date,
+    bs.slot_time,
+    bs.status,
+    bs.is_blocked,
+    bs.blocked_by,
+    bs.blocked_until,
+    bs.held_by,
+    bs.hold_expires_at,
+    bs.booking_id,
+    bs.created_at
+  FROM public.booking_slots bs
+  WHERE bs.provider_id = p_provider_id
+    AND (p_service_id IS NULL OR bs.service_id IS NULL OR bs.service_id = p_service_id)
+    AND bs.slot_date = p_date
+    AND bs.status IN ('available', 'held')
+    AND bs.is_blocked = false
+    AND NOT public.is_provider_blacked_out(bs.provider_id, bs.slot_date, bs.slot_time)
+  ORDER BY bs.slot_time;
+END;
+$$;
+
+-- Holding is refused during a blackout too, which also keeps the waitlist from
+-- offering a slot the provider has taken off
+CREATE OR REPLACE FUNCTION public.hold_slot(
+  slot_id UUID,
+  user_id UUID,
+  hold_duration_minutes INTEGER DEFAULT 7
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rows_affected INTEGER;
+BEGIN
+  -- Check if slot is available and update it atomically
+  UPDATE public.booking_slots
+  SET
+    status = 'held',
+    held_by = user_id,
+    hold_expires_at = NOW() + (hold_duration_minutes || ' minutes')::INTERVAL
+  WHERE
+    id = slot_id
+    AND status = 'available'
+    AND is_blocked = false
+    AND NOT public.is_provider_blacked_out(booking_slots.provider_id, booking_slots.slot_date, booking_slots.slot_time);
+
+  GET DIAGNOSTICS rows_affected = ROW_COUNT;
+  RETURN rows_affected > 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_blackout_conflicts(UUID, DATE, DATE, TIME, TIME, TEXT, DATE) TO authenticated;
+
+COMMENT ON TABLE public.provider_blackouts IS 'One-off and repeating periods when a provider takes no bookings';
+COMMENT ON COLUMN public.provider_blackouts.start_time IS 'Start of the blocked window on each covered date; NULL blocks the whole day';
+COMMENT ON COLUMN public.provider_blackouts.recurrence IS 'none, weekly (same weekdays every week) or yearly (same dates every year)';
+COMMENT ON COLUMN public.provider_blackouts.recurrence_until IS 'Last date a repeating blackout applies; NULL repeats indefinitely';
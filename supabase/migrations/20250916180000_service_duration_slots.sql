@@ -0,0 +1,647 @@
+-- Service-duration-aware availability. Slots stay on the 30-minute grid, but a
+-- visit now takes as many consecutive slots as its services' durations plus
+-- the provider's buffer (travel, setup, clean-up) need. The first slot is the
+-- visit's start; the rest are held and booked with it and point back to it
+-- through parent_slot_id, so two visits can never share a slot.
+ALTER TABLE public.provider_services
+  ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes >= 0);
+
+ALTER TABLE public.booking_slots
+  ADD COLUMN IF NOT EXISTS parent_slot_id UUID REFERENCES public.booking_slots(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_booking_slots_parent_slot_id ON public.booking_slots(parent_slot_id);
+
+-- Number of 30-minute slots a visit for these services takes. Services in one
+-- visit run back to back and the buffer is added once, after the last one.
+CREATE OR REPLACE FUNCTION public.service_slot_span(p_service_ids UUID[])
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    1,
+    CEIL(
+      (COALESCE(SUM(COALESCE(ps.duration_minutes, 30)), 30) + COALESCE(MAX(ps.buffer_minutes), 0)) / 30.0
+    )::INTEGER
+  )
+  FROM public.provider_services ps
+  WHERE ps.id = ANY(COALESCE(p_service_ids, '{}'));
+$$;
+
+-- Hold a slot and the slots after it that the visit runs into, all or none.
+-- A slot counts as free when it is available, already held by this user, or
+-- its hold has run out. Internal: callers decide who the hold is for.
+CREATE OR REPLACE FUNCTION public.hold_slot_span(
+  p_slot_id UUID,
+  p_user_id UUID,
+  p_span INTEGER,
+  p_hold_minutes INTEGER DEFAULT 7
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  start_slot RECORD;
+  span_count INTEGER;
+  free_count INTEGER;
+BEGIN
+  SELECT * INTO start_slot
+  FROM public.booking_slots
+  WHERE booking_slots.id = p_slot_id;
+
+  IF NOT FOUND OR p_span < 1 THEN
+    RETURN false;
+  END IF;
+
+  -- Lock the whole span in time order so overlapping holds queue up
+  PERFORM 1 FROM public.booking_slots bs
+  WHERE bs.provider_id = start_slot.provider_id
+    AND bs.slot_date = start_slot.slot_date
+    AND bs.slot_time >= start_slot.slot_time
+    AND EXTRACT(EPOCH FROM bs.slot_time) < EXTRACT(EPOCH FROM start_slot.slot_time) + p_span * 1800
+  ORDER BY bs.slot_time
+  FOR UPDATE;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (
+      WHERE bs.is_blocked = false
+        AND NOT public.is_provider_blacked_out(bs.provider_id, bs.slot_date, bs.slot_time)
+        AND (
+          bs.status = 'available'
+          OR (bs.status = 'held' AND (bs.held_by = p_user_id OR bs.hold_expires_at < NOW()))
+        )
+    )
+  INTO span_count, free_count
+  FROM public.booking_slots bs
+  WHERE bs.provider_id = start_slot.provider_id
+    AND bs.slot_date = start_slot.slot_date
+    AND bs.slot_time >= start_slot.slot_time
+    AND EXTRACT(EPOCH FROM bs.slot_time) < EXTRACT(EPOCH FROM start_slot.slot_time) + p_span * 1800;
+
+  -- A missing slot means the visit runs past the end of the working day
+  IF span_count <> p_span OR free_count <> p_span THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.booking_slots bs
+  SET
+    status = 'held',
+    held_by = p_user_id,
+    hold_expires_at = NOW() + (p_hold_minutes || ' minutes')::INTERVAL,
+    parent_slot_id = CASE WHEN bs.id = p_slot_id THEN NULL ELSE p_slot_id END
+  WHERE bs.provider_id = start_slot.provider_id
+    AND bs.slot_date = start_slot.slot_date
+    AND bs.slot_time >= start_slot.slot_time
+    AND EXTRACT(EPOCH FROM bs.slot_time) < EXTRACT(EPOCH FROM start_slot.slot_time) + p_span * 1800;
+
+  RETURN true;
+END;
+$$;
+
+-- Hold the slots a visit for these services needs, for the signed-in customer
+CREATE OR REPLACE FUNCTION public.hold_service_slots(
+  p_slot_id UUID,
+  p_service_ids UUID[],
+  p_hold_minutes INTEGER DEFAULT 7
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.hold_slot_span(p_slot_id, auth.uid(), public.service_slot_span(p_service_ids), p_hold_minutes);
+END;
+$$;
+
+-- A single-slot hold is a span of one
+CREATE OR REPLACE FUNCTION public.hold_slot(
+  slot_id UUID,
+  user_id UUID,
+  hold_duration_minutes INTEGER DEFAULT 7
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.hold_slot_span(slot_id, user_id, 1, hold_duration_minutes);
+END;
+$$;
+
+-- Releasing the start slot releases the rest of the visit with it
+CREATE OR REPLACE FUNCTION public.release_slot(
+  slot_id UUID,
+  user_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rows_affected INTEGER;
+BEGIN
+  UPDATE public.booking_slots bs
+  SET
+    status = 'available',
+    held_by = NULL,
+    hold_expires_at = NULL,
+    parent_slot_id = NULL
+  WHERE (bs.id = release_slot.slot_id OR bs.parent_slot_id = release_slot.slot_id)
+    AND bs.held_by = release_slot.user_id
+    AND bs.status = 'held';
+
+  GET DIAGNOSTICS rows_affected = ROW_COUNT;
+  RETURN rows_affected > 0;
+END;
+$$;
+
+-- Booking the start slot books the rest of the visit under the same booking,
+-- so freeing a booking's slots by booking_id frees the whole visit
+CREATE OR REPLACE FUNCTION public.confirm_slot_booking(
+  slot_id UUID,
+  user_id UUID,
+  booking_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rows_affected INTEGER;
+BEGIN
+  UPDATE public.booking_slots bs
+  SET
+    status = 'booked',
+    booking_id = confirm_slot_booking.booking_id,
+    held_by = NULL,
+    hold_expires_at = NULL
+  WHERE bs.id = confirm_slot_booking.slot_id
+    AND bs.held_by = confirm_slot_booking.user_id
+    AND bs.status = 'held';
+
+  GET DIAGNOSTICS rows_affected = ROW_COUNT;
+
+  IF rows_affected > 0 THEN
+    UPDATE public.booking_slots bs
+    SET
+      status = 'booked',
+      booking_id = confirm_slot_booking.booking_id,
+      held_by = NULL,
+      hold_expires_at = NULL
+    WHERE bs.parent_slot_id = confirm_slot_booking.slot_id
+      AND bs.held_by = confirm_slot_booking.user_id
+      AND bs.status = 'held';
+  END IF;
+
+  RETURN rows_affected > 0;
+END;
+$$;
+
+-- Start slots a visit for these services fits into. Every slot the visit runs
+-- into must exist and be open; the start is reported as held when any of them
+-- is held. Without services each slot is a visit of its own.
+CREATE OR REPLACE FUNCTION public.get_available_service_slots(
+  p_provider_id UUID,
+  p_date DATE,
+  p_service_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  provider_id UUID,
+  service_id UUID,
+  slot_date DATE,
+  slot_time TIME,
+  status TEXT,
+  is_blocked BOOLEAN,
+  blocked_by UUID,
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  held_by UUID,
+  hold_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  span INTEGER := public.service_slot_span(p_service_ids);
+BEGIN
+  -- Clean up expired holds first
+  UPDATE public.booking_slots
+  SET status = 'available', held_by = NULL, hold_expires_at = NULL, parent_slot_id = NULL
+  WHERE booking_slots.status = 'held' AND booking_slots.hold_expires_at < NOW();
+
+  RETURN QUERY
+  SELECT
+    bs.id,
+    bs.provider_id,
+    bs.service_id,
+    bs.slot_date,
+    bs.slot_time,
+    CASE WHEN visit.any_held THEN 'held' ELSE bs.status END,
+    bs.is_blocked,
+    bs.blocked_by,
+    bs.blocked_until,
+    bs.held_by,
+    bs.hold_expires_at,
+    bs.booking_id,
+    bs.created_at
+  FROM public.booking_slots bs
+  CROSS JOIN LATERAL (
+    SELECT
+      COUNT(*) AS slot_count,
+      bool_and(
+        s.status IN ('available', 'held')
+        AND s.is_blocked = false
+        AND NOT public.is_provider_blacked_out(s.provider_id, s.slot_date, s.slot_time)
+      ) AS all_open,
+      bool_or(s.status = 'held') AS any_held
+    FROM public.booking_slots s
+    WHERE s.provider_id = bs.provider_id
+      AND s.slot_date = bs.slot_date
+      AND s.slot_time >= bs.slot_time
+      AND EXTRACT(EPOCH FROM s.slot_time) < EXTRACT(EPOCH FROM bs.slot_time) + span * 1800
+  ) AS visit
+  WHERE bs.provider_id = p_provider_id
+    AND (p_service_ids IS NULL OR bs.service_id IS NULL OR bs.service_id = ANY(p_service_ids))
+    AND bs.slot_date = p_date
+    AND visit.slot_count = span
+    AND visit.all_open
+  ORDER BY bs.slot_time;
+END;
+$$;
+
+-- Kept for existing callers; a service narrows the result to starts its visit fits
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_provider_id UUID,
+  p_service_id UUID,
+  p_date DATE
+)
+RETURNS TABLE(
+  id UUID,
+  provider_id UUID,
+  service_id UUID,
+  slot_date DATE,
+  slot_time TIME,
+  status TEXT,
+  is_blocked BOOLEAN,
+  blocked_by UUID,
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  held_by UUID,
+  hold_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM public.get_available_service_slots(
+    p_provider_id,
+    p_date,
+    CASE WHEN p_service_id IS NULL THEN NULL ELSE ARRAY[p_service_id] END
+  );
+END;
+$$;
+
+-- Series holds take a whole visit on every date
+DROP FUNCTION IF EXISTS public.hold_booking_series(UUID, TEXT, UUID[], DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.hold_booking_series(
+  p_provider_id UUID,
+  p_frequency TEXT,
+  p_slot_ids UUID[],
+  p_end_date DATE DEFAULT NULL,
+  p_hold_minutes INTEGER DEFAULT 7,
+  p_service_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  slot_count INTEGER := COALESCE(array_length(p_slot_ids, 1), 0);
+  span INTEGER := public.service_slot_span(p_service_ids);
+  slot_record RECORD;
+  first_slot RECORD;
+  unavailable DATE[];
+  new_series_id UUID;
+BEGIN
+  IF caller IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Sign in to book a recurring appointment');
+  END IF;
+
+  IF p_frequency NOT IN ('weekly', 'biweekly', 'monthly') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Unknown repeat frequency');
+  END IF;
+
+  IF slot_count < 2 OR slot_count > 26 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A recurring booking has between 2 and 26 occurrences');
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT bs.slot_date) FROM public.booking_slots bs WHERE bs.id = ANY(p_slot_ids)) <> slot_count THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Each occurrence needs its own slot on a different date');
+  END IF;
+
+  -- Hold each visit in turn; if any date fails, undo the holds already taken
+  BEGIN
+    FOR slot_record IN
+      SELECT bs.id, bs.provider_id, bs.slot_date
+      FROM public.booking_slots bs
+      WHERE bs.id = ANY(p_slot_ids)
+      ORDER BY bs.slot_date
+    LOOP
+      IF slot_record.provider_id <> p_provider_id
+        OR NOT public.hold_slot_span(slot_record.id, caller, span, p_hold_minutes) THEN
+        unavailable := array_append(unavailable, slot_record.slot_date);
+      END IF;
+    END LOOP;
+
+    IF unavailable IS NOT NULL THEN
+      RAISE EXCEPTION 'series unavailable';
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Some dates in this series are no longer available',
+      'unavailable_dates', to_jsonb(unavailable)
+    );
+  END;
+
+  SELECT bs.slot_date, bs.slot_time INTO first_slot
+  FROM public.booking_slots bs
+  WHERE bs.id = ANY(p_slot_ids)
+  ORDER BY bs.slot_date
+  LIMIT 1;
+
+  INSERT INTO public.booking_series (
+    customer_id, provider_id, frequency, start_date, slot_time, end_date, occurrence_count
+  )
+  VALUES (
+    caller, p_provider_id, p_frequency, first_slot.slot_date, first_slot.slot_time, p_end_date, slot_count
+  )
+  RETURNING id INTO new_series_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Series held',
+    'series_id', new_series_id,
+    'hold_expires_at', NOW() + (p_hold_minutes || ' minutes')::INTERVAL
+  );
+END;
+$$;
+
+-- Rescheduling moves the whole visit. The new visit may overlap the old one,
+-- and nothing changes if it doesn't fit.
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id UUID,
+  p_new_slot_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking_record RECORD;
+  order_record RECORD;
+  new_slot RECORD;
+  max_allowed INTEGER;
+  is_admin BOOLEAN;
+  old_slot_ids UUID[];
+BEGIN
+  SELECT * INTO booking_record
+  FROM public.bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.order_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking not found');
+  END IF;
+
+  SELECT * INTO order_record
+  FROM public.orders
+  WHERE id = booking_record.order_id
+  FOR UPDATE;
+
+  is_admin := EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+    AND auth_role IN ('admin', 'super_admin')
+  );
+
+  IF order_record.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking not found');
+  END IF;
+
+  -- A visit the provider has set off for or finished stays where it is
+  IF booking_record.status IN ('cancelled', 'completed', 'no_show')
+    OR booking_record.provider_status IN ('en_route', 'in_progress', 'completed', 'no_show')
+    OR order_record.status IN ('cancelled', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This booking can no longer be rescheduled');
+  END IF;
+
+  SELECT max_reschedules INTO max_allowed
+  FROM public.cancellation_policies
+  WHERE is_active = true
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT is_admin AND order_record.reschedule_count >= COALESCE(max_allowed, 2) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', format('This order has already been rescheduled the maximum of %s times', COALESCE(max_allowed, 2))
+    );
+  END IF;
+
+  -- The new slot must belong to the same provider and suit the service
+  SELECT * INTO new_slot
+  FROM public.booking_slots bs
+  WHERE bs.id = p_new_slot_id
+    AND bs.provider_id = booking_record.provider_id
+    AND (bs.service_id IS NULL OR bs.service_id = booking_record.service_id);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'That time slot is no longer available');
+  END IF;
+
+  BEGIN
+    -- Turn the old slots into the caller's holds so the new visit can reuse
+    -- them without the waitlist offering them away in between
+    WITH moved AS (
+      UPDATE public.booking_slots
+      SET status = 'held', booking_id = NULL, held_by = auth.uid(), hold_expires_at = NOW() + INTERVAL '1 minute', parent_slot_id = NULL
+      WHERE booking_slots.booking_id = p_booking_id
+      RETURNING booking_slots.id
+    )
+    SELECT array_agg(moved.id) INTO old_slot_ids FROM moved;
+
+    IF NOT public.hold_slot_span(
+      p_new_slot_id,
+      auth.uid(),
+      public.service_slot_span(ARRAY[booking_record.service_id]),
+      1
+    ) THEN
+      RAISE EXCEPTION 'slot unavailable';
+    END IF;
+
+    UPDATE public.booking_slots
+    SET status = 'booked', booking_id = p_booking_id, held_by = NULL, hold_expires_at = NULL
+    WHERE (booking_slots.id = p_new_slot_id OR booking_slots.parent_slot_id = p_new_slot_id)
+      AND booking_slots.status = 'held'
+      AND booking_slots.held_by = auth.uid();
+
+    -- Give back the old slots the new visit didn't take
+    UPDATE public.booking_slots
+    SET status = 'available', held_by = NULL, hold_expires_at = NULL
+    WHERE booking_slots.id = ANY(COALESCE(old_slot_ids, '{}'))
+      AND booking_slots.status = 'held'
+      AND booking_slots.held_by = auth.uid();
+  EXCEPTION WHEN raise_exception THEN
+    RETURN jsonb_build_object('success', false, 'message', 'That time slot is no longer available');
+  END;
+
+  INSERT INTO public.booking_reschedules (
+    order_id, booking_id, from_slot_id, to_slot_id,
+    from_date, from_time, to_date, to_time, reason, rescheduled_by
+  )
+  VALUES (
+    order_record.id, p_booking_id, booking_record.slot_id, new_slot.id,
+    booking_record.booking_date, booking_record.booking_time, new_slot.slot_date, new_slot.slot_time,
+    p_reason, auth.uid()
+  );
+
+  UPDATE public.bookings
+  SET slot_id = new_slot.id, booking_date = new_slot.slot_date, booking_time = new_slot.slot_time
+  WHERE id = p_booking_id;
+
+  -- The order shows its earliest appointment
+  UPDATE public.orders
+  SET
+    reschedule_count = orders.reschedule_count + 1,
+    status = 'rescheduled',
+    booking_date = earliest.booking_date,
+    booking_time = earliest.booking_time
+  FROM (
+    SELECT b.booking_date, b.booking_time
+    FROM public.bookings b
+    WHERE b.order_id = order_record.id AND b.status <> 'cancelled'
+    ORDER BY b.booking_date, b.booking_time
+    LIMIT 1
+  ) AS earliest
+  WHERE orders.id = order_record.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Booking rescheduled',
+    'slot_date', new_slot.slot_date,
+    'slot_time', new_slot.slot_time
+  );
+END;
+$$;
+
+-- Waitlist offers hold the whole visit for the waiting customer's service
+CREATE OR REPLACE FUNCTION public.process_slot_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Long enough to see the notification and get through checkout
+  offer_minutes CONSTANT INTEGER := 30;
+  next_entry RECORD;
+  service_label TEXT;
+BEGIN
+  -- The customer the slot was offered to has paid for it
+  IF NEW.status = 'booked' THEN
+    UPDATE public.slot_waitlist
+    SET status = 'booked'
+    WHERE offered_slot_id = NEW.id
+      AND status = 'offered'
+      AND customer_id = OLD.held_by;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'available' OR OLD.status = 'available' THEN
+    RETURN NEW;
+  END IF;
+
+  -- An offer on this slot was let go or ran out; that customer leaves the queue
+  UPDATE public.slot_waitlist
+  SET status = CASE WHEN OLD.hold_expires_at < NOW() THEN 'expired' ELSE 'declined' END
+  WHERE offered_slot_id = NEW.id
+    AND status = 'offered';
+
+  IF COALESCE(NEW.is_blocked, false) OR NEW.slot_date < CURRENT_DATE THEN
+    RETURN NEW;
+  END IF;
+
+  -- Skip customers whose visit doesn't fit from this slot rather than blocking the queue
+  FOR next_entry IN
+    SELECT * FROM public.slot_waitlist w
+    WHERE w.provider_id = NEW.provider_id
+      AND w.waitlist_date = NEW.slot_date
+      AND w.status = 'waiting'
+      AND (NEW.service_id IS NULL OR NEW.service_id = w.service_id)
+      AND (w.window_start IS NULL OR NEW.slot_time >= w.window_start)
+      AND (w.window_end IS NULL OR NEW.slot_time <= w.window_end)
+    ORDER BY w.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF public.hold_slot_span(
+      NEW.id, next_entry.customer_id, public.service_slot_span(ARRAY[next_entry.service_id]), offer_minutes
+    ) THEN
+      UPDATE public.slot_waitlist
+      SET
+        status = 'offered',
+        offered_slot_id = NEW.id,
+        offered_at = NOW(),
+        offer_expires_at = NOW() + (offer_minutes || ' minutes')::INTERVAL
+      WHERE id = next_entry.id;
+
+      SELECT service_name INTO service_label FROM public.provider_services WHERE id = next_entry.service_id;
+
+      PERFORM public.create_notification(
+        next_entry.customer_id, 'customer', 'waitlist_offer', 'A Slot Opened Up',
+        COALESCE(service_label, 'Your service') || ' on ' || to_char(NEW.slot_date, 'Mon DD, YYYY')
+          || ' at ' || to_char(NEW.slot_time, 'HH12:MI AM')
+          || ' is held for you for ' || offer_minutes || ' minutes',
+        '/customer?section=bookings', NULL, NULL,
+        jsonb_build_object('waitlist_id', next_entry.id, 'slot_id', NEW.id)
+      );
+
+      RETURN NEW;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hold_slot_span(UUID, UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.hold_service_slots(UUID, UUID[], INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_available_service_slots(UUID, DATE, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.hold_booking_series(UUID, TEXT, UUID[], DATE, INTEGER, UUID[]) TO authenticated;
+
+COMMENT ON COLUMN public.provider_services.buffer_minutes IS 'Travel or turnaround time kept free after a visit for this service';
+COMMENT ON COLUMN public.booking_slots.parent_slot_id IS 'Start slot of the visit this slot is held or booked as part of; NULL for a start slot';
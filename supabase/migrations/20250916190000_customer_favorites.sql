@@ -0,0 +1,38 @@
+-- Customer favorites for both providers and individual provider services.
+-- Existing rows are service favorites. A provider favorite has no service, so
+-- service_id and service_name become optional, and favorite_key gives every
+-- saved item one identity per customer so toggles and the guest merge on login
+-- can upsert without creating duplicates.
+ALTER TABLE public.customer_favorites
+  ADD COLUMN IF NOT EXISTS favorite_type TEXT NOT NULL DEFAULT 'service'
+    CHECK (favorite_type IN ('provider', 'service')),
+  ADD COLUMN IF NOT EXISTS provider_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  ALTER COLUMN service_id DROP NOT NULL,
+  ALTER COLUMN service_name DROP NOT NULL;
+
+ALTER TABLE public.customer_favorites
+  ADD COLUMN IF NOT EXISTS favorite_key TEXT
+    GENERATED ALWAYS AS (favorite_type || ':' || COALESCE(service_id, provider_id::text)) STORED;
+
+ALTER TABLE public.customer_favorites
+  ADD CONSTRAINT customer_favorites_target CHECK (
+    (favorite_type = 'provider' AND provider_id IS NOT NULL)
+    OR (favorite_type = 'service' AND service_id IS NOT NULL)
+  );
+
+-- Keep the oldest copy of anything saved twice before enforcing uniqueness
+DELETE FROM public.customer_favorites newer
+USING public.customer_favorites older
+WHERE newer.customer_id = older.customer_id
+  AND newer.favorite_key = older.favorite_key
+  AND (newer.created_at, newer.id) > (older.created_at, older.id);
+
+ALTER TABLE public.customer_favorites
+  ADD CONSTRAINT customer_favorites_customer_item_key UNIQUE (customer_id, favorite_key);
+
+CREATE INDEX IF NOT EXISTS idx_customer_favorites_customer ON public.customer_favorites(customer_id, created_at DESC);
+
+COMMENT ON COLUMN public.customer_favorites.favorite_type IS 'provider or service';
+COMMENT ON COLUMN public.customer_favorites.provider_id IS 'Favorited provider, or the provider offering a favorited service';
+COMMENT ON COLUMN public.customer_favorites.service_id IS 'Favorited provider_services row; NULL for provider favorites';
+COMMENT ON COLUMN public.customer_favorites.favorite_key IS 'type:id of the saved item, unique per customer';
@@ -0,0 +1,413 @@
+-- Provider side of a booking's life: a paid booking waits for the provider to
+-- accept or decline it, then moves through en route and in progress to
+-- completed, or ends as a no-show. bookings.status keeps tracking the
+-- commercial state (refunds, earnings); provider_status tracks the visit
+-- itself and each step is timestamped. Only a visit the provider completed
+-- counts as delivered.
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS provider_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (provider_status IN ('pending', 'accepted', 'declined', 'en_route', 'in_progress', 'completed', 'no_show')),
+  ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS declined_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS en_route_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS provider_note TEXT;
+
+-- A missed visit is closed as a no-show rather than completed, so it is never
+-- reviewed or paid out as if it had happened
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'confirmed', 'completed', 'cancelled', 'rescheduled', 'no_show'));
+
+-- Bookings finished before the lifecycle existed
+UPDATE public.bookings
+SET provider_status = 'completed', completed_at = updated_at
+WHERE status = 'completed' AND provider_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_provider_status ON public.bookings(provider_id, provider_status);
+
+CREATE POLICY "Providers can view their bookings" ON public.bookings
+  FOR SELECT USING (
+    provider_id IN (SELECT id FROM public.user_profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view all bookings" ON public.bookings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Customers may update their own bookings, but only the provider moves a
+-- booking along; they do it through update_booking_progress or cancel-order
+CREATE OR REPLACE FUNCTION public.guard_booking_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() = OLD.customer_id AND (
+    NEW.provider_status IS DISTINCT FROM OLD.provider_status
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.declined_at IS DISTINCT FROM OLD.declined_at
+    OR NEW.en_route_at IS DISTINCT FROM OLD.en_route_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.no_show_at IS DISTINCT FROM OLD.no_show_at
+    OR NEW.provider_note IS DISTINCT FROM OLD.provider_note
+  ) THEN
+    RAISE EXCEPTION 'Only the provider can update the progress of a booking';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_booking_progress ON public.bookings;
+CREATE TRIGGER guard_booking_progress
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_booking_progress();
+
+-- The provider accepted the old time, not the new one, so a moved visit waits
+-- for them to accept it again. Runs after guard_booking_progress, which checks
+-- only what the caller changed.
+CREATE OR REPLACE FUNCTION public.reset_booking_acceptance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.provider_status = 'accepted' AND (
+    NEW.booking_date IS DISTINCT FROM OLD.booking_date
+    OR NEW.booking_time IS DISTINCT FROM OLD.booking_time
+  ) THEN
+    NEW.provider_status := 'pending';
+    NEW.accepted_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_booking_acceptance ON public.bookings;
+CREATE TRIGGER reset_booking_acceptance
+  BEFORE UPDATE OF booking_date, booking_time ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_booking_acceptance();
+
+-- Provider's inbox: their bookings with the customer's contact details from the order
+CREATE OR REPLACE FUNCTION public.get_provider_bookings(p_provider_id UUID)
+RETURNS TABLE(
+  booking_id UUID,
+  order_id UUID,
+  service_id UUID,
+  service_name TEXT,
+  booking_date DATE,
+  booking_time TIME,
+  quantity INTEGER,
+  total_amount NUMERIC,
+  status TEXT,
+  payment_status TEXT,
+  provider_status TEXT,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  declined_at TIMESTAMP WITH TIME ZONE,
+  en_route_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  no_show_at TIMESTAMP WITH TIME ZONE,
+  provider_note TEXT,
+  special_instructions TEXT,
+  customer_name TEXT,
+  customer_phone TEXT,
+  customer_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+      AND (id = p_provider_id OR auth_role IN ('admin', 'super_admin'))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this provider''s bookings';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id, b.order_id, b.service_id, ps.service_name, b.booking_date, b.booking_time,
+    b.quantity, b.total_amount, b.status, b.payment_status, b.provider_status,
+    b.accepted_at, b.declined_at, b.en_route_at, b.started_at, b.completed_at, b.no_show_at,
+    b.provider_note, COALESCE(b.special_instructions, o.special_instructions),
+    o.customer_name, o.customer_phone, o.customer_address, b.created_at
+  FROM public.bookings b
+  LEFT JOIN public.provider_services ps ON ps.id = b.service_id
+  LEFT JOIN public.orders o ON o.id = b.order_id
+  WHERE b.provider_id = p_provider_id
+    AND b.payment_status IS DISTINCT FROM 'pending'
+  ORDER BY b.booking_date DESC, b.booking_time DESC;
+END;
+$$;
+
+-- Move a booking to its next step. Declining goes through the cancel-order
+-- edge function instead, so the customer is refunded in the same step.
+CREATE OR REPLACE FUNCTION public.update_booking_progress(
+  p_booking_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking_record RECORD;
+  allowed TEXT[];
+BEGIN
+  SELECT * INTO booking_record
+  FROM public.bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+      AND (id = booking_record.provider_id OR auth_role IN ('admin', 'super_admin'))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking not found');
+  END IF;
+
+  IF booking_record.status NOT IN ('confirmed', 'rescheduled') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This booking is ' || COALESCE(booking_record.status, 'not active') || ' and can no longer be updated');
+  END IF;
+
+  allowed := CASE booking_record.provider_status
+    WHEN 'pending' THEN ARRAY['accepted']
+    WHEN 'accepted' THEN ARRAY['en_route', 'in_progress', 'no_show']
+    WHEN 'en_route' THEN ARRAY['in_progress', 'no_show']
+    WHEN 'in_progress' THEN ARRAY['completed']
+    ELSE ARRAY[]::TEXT[]
+  END;
+
+  IF p_status IS NULL OR NOT (p_status = ANY(allowed)) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'A ' || replace(booking_record.provider_status, '_', ' ') || ' booking cannot be marked ' || replace(COALESCE(p_status, 'unknown'), '_', ' ')
+    );
+  END IF;
+
+  IF p_status <> 'accepted' AND booking_record.booking_date > CURRENT_DATE THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This booking is not until ' || to_char(booking_record.booking_date, 'Mon DD, YYYY'));
+  END IF;
+
+  UPDATE public.bookings
+  SET
+    provider_status = p_status,
+    -- A finished visit settles as completed; a missed one is closed as a no-show
+    status = CASE WHEN p_status IN ('completed', 'no_show') THEN p_status ELSE status END,
+    accepted_at = CASE WHEN p_status = 'accepted' THEN NOW() ELSE accepted_at END,
+    en_route_at = CASE WHEN p_status = 'en_route' THEN NOW() ELSE en_route_at END,
+    started_at = CASE WHEN p_status = 'in_progress' THEN NOW() ELSE started_at END,
+    completed_at = CASE WHEN p_status = 'completed' THEN NOW() ELSE completed_at END,
+    no_show_at = CASE WHEN p_status = 'no_show' THEN NOW() ELSE no_show_at END,
+    provider_note = COALESCE(NULLIF(TRIM(p_note), ''), provider_note)
+  WHERE id = p_booking_id;
+
+  RETURN jsonb_build_object('success', true, 'message', 'Booking updated', 'provider_status', p_status);
+END;
+$$;
+
+-- Only a visit the provider completed can be reviewed; a no-show cannot
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_booking_id UUID,
+  p_rating INTEGER,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking_record RECORD;
+  reviewer_name TEXT;
+BEGIN
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Rating must be between 1 and 5 stars');
+  END IF;
+
+  SELECT * INTO booking_record
+  FROM public.bookings
+  WHERE id = p_booking_id AND customer_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking not found');
+  END IF;
+
+  IF booking_record.provider_status IS DISTINCT FROM 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You can review a booking once it has been completed');
+  END IF;
+
+  IF booking_record.provider_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This booking has no provider to review');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE booking_id = p_booking_id) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You have already reviewed this booking');
+  END IF;
+
+  SELECT full_name INTO reviewer_name FROM public.user_profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.reviews (
+    booking_id, order_id, customer_id, provider_id, service_id, rating, comment, customer_name
+  )
+  VALUES (
+    p_booking_id, booking_record.order_id, auth.uid(), booking_record.provider_id,
+    booking_record.service_id, p_rating, NULLIF(TRIM(p_comment), ''), reviewer_name
+  );
+
+  RETURN jsonb_build_object('success', true, 'message', 'Thanks! Your review will appear once it has been approved');
+END;
+$$;
+
+-- Also tell the customer as the provider accepts, declines, sets off, starts
+-- and finishes their booking
+CREATE OR REPLACE FUNCTION public.notify_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  provider_user_id UUID;
+  service_label TEXT;
+  when_label TEXT;
+  customer_link TEXT;
+  provider_link TEXT := '/provider/bookings';
+BEGIN
+  SELECT user_id INTO provider_user_id FROM public.user_profiles WHERE id = NEW.provider_id;
+  SELECT service_name INTO service_label FROM public.provider_services WHERE id = NEW.service_id;
+  service_label := COALESCE(service_label, 'Service');
+  when_label := to_char(NEW.booking_date, 'Mon DD, YYYY') || ' at ' || to_char(NEW.booking_time, 'HH12:MI AM');
+  customer_link := CASE
+    WHEN NEW.order_id IS NOT NULL THEN '/dashboard/customer/orders/' || NEW.order_id
+    ELSE '/customer?section=bookings'
+  END;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.create_notification(
+      provider_user_id, 'provider', 'booking_created', 'New Booking',
+      service_label || ' booked for ' || when_label || '. Accept or decline it from your bookings.',
+      provider_link, NEW.order_id, NEW.id
+    );
+    PERFORM public.create_notification(
+      NEW.customer_id, 'customer', 'booking_confirmed', 'Booking Confirmed',
+      'Your ' || service_label || ' is booked for ' || when_label,
+      customer_link, NEW.order_id, NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.provider_status IS DISTINCT FROM OLD.provider_status THEN
+    IF NEW.provider_status = 'accepted' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_accepted', 'Booking Accepted',
+        'Your provider has accepted your ' || service_label || ' on ' || when_label,
+        customer_link, NEW.order_id, NEW.id
+      );
+    ELSIF NEW.provider_status = 'declined' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_declined', 'Booking Declined',
+        'Your provider can''t take your ' || service_label || ' on ' || when_label || '. You will be refunded in full.',
+        customer_link, NEW.order_id, NEW.id,
+        jsonb_build_object('note', NEW.provider_note)
+      );
+      RETURN NEW;
+    ELSIF NEW.provider_status = 'en_route' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'provider_en_route', 'Provider On The Way',
+        'Your provider is on the way for your ' || service_label,
+        customer_link, NEW.order_id, NEW.id
+      );
+    ELSIF NEW.provider_status = 'in_progress' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_started', 'Service Started',
+        'Your ' || service_label || ' has started',
+        customer_link, NEW.order_id, NEW.id
+      );
+    ELSIF NEW.provider_status = 'no_show' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_no_show', 'Missed Appointment',
+        'Your provider could not reach you for your ' || service_label || ' on ' || when_label,
+        customer_link, NEW.order_id, NEW.id,
+        jsonb_build_object('note', NEW.provider_note)
+      );
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'cancelled' THEN
+      PERFORM public.create_notification(
+        provider_user_id, 'provider', 'booking_cancelled', 'Booking Cancelled',
+        service_label || ' on ' || when_label || ' was cancelled',
+        provider_link, NEW.order_id, NEW.id
+      );
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_cancelled', 'Booking Cancelled',
+        'Your ' || service_label || ' on ' || when_label || ' was cancelled',
+        customer_link, NEW.order_id, NEW.id
+      );
+    ELSIF NEW.status = 'completed' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_completed', 'Booking Completed',
+        'Your ' || service_label || ' has been completed',
+        customer_link, NEW.order_id, NEW.id
+      );
+    ELSIF NEW.status = 'confirmed' THEN
+      PERFORM public.create_notification(
+        NEW.customer_id, 'customer', 'booking_confirmed', 'Booking Confirmed',
+        'Your ' || service_label || ' on ' || when_label || ' has been confirmed',
+        customer_link, NEW.order_id, NEW.id
+      );
+    END IF;
+  ELSIF NEW.booking_date IS DISTINCT FROM OLD.booking_date OR NEW.booking_time IS DISTINCT FROM OLD.booking_time THEN
+    PERFORM public.create_notification(
+      provider_user_id, 'provider', 'booking_rescheduled', 'Booking Rescheduled',
+      service_label || ' moved to ' || when_label,
+      provider_link, NEW.order_id, NEW.id,
+      jsonb_build_object('from_date', OLD.booking_date, 'from_time', OLD.booking_time)
+    );
+    PERFORM public.create_notification(
+      NEW.customer_id, 'customer', 'booking_rescheduled', 'Booking Rescheduled',
+      'Your ' || service_label || ' is now on ' || when_label,
+      customer_link, NEW.order_id, NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_booking_change ON public.bookings;
+CREATE TRIGGER notify_booking_change
+  AFTER INSERT OR UPDATE OF status, provider_status, booking_date, booking_time ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_booking_change();
+
+GRANT EXECUTE ON FUNCTION public.get_provider_bookings(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_booking_progress(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON COLUMN public.bookings.provider_status IS 'pending, accepted, declined, en_route, in_progress, completed or no_show; set by the provider';
+COMMENT ON COLUMN public.bookings.provider_note IS 'Provider''s note on the latest step, such as why they declined';
+COMMENT ON COLUMN public.bookings.no_show_at IS 'When the provider reported the customer missing; the booking is then closed with status no_show and its earnings wait for an admin to settle them';
@@ -0,0 +1,174 @@
+-- Provider calendar. Every slot in a date range is reported in one of four
+-- states: available, held (in a customer's unexpired hold), booked or blocked
+-- (blocked by hand or covered by a blackout). Confirmed bookings that never
+-- got a slot are reported as booked too, so the calendar shows everything the
+-- provider has to attend.
+CREATE OR REPLACE FUNCTION public.get_provider_calendar(
+  p_provider_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS TABLE(
+  slot_id UUID,
+  slot_date DATE,
+  slot_time TIME,
+  state TEXT,
+  booking_id UUID,
+  order_id UUID,
+  service_name TEXT,
+  customer_name TEXT,
+  booking_status TEXT,
+  provider_status TEXT,
+  blackout_title TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+      AND (id = p_provider_id OR auth_role IN ('admin', 'super_admin'))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this provider''s calendar';
+  END IF;
+
+  IF p_end_date < p_start_date OR p_end_date - p_start_date > 62 THEN
+    RAISE EXCEPTION 'Calendar range must cover 1 to 63 days';
+  END IF;
+
+  -- Upcoming days the provider works should have slots to show even before a
+  -- customer has looked at them
+  IF p_end_date >= CURRENT_DATE THEN
+    PERFORM public.generate_provider_slots(p_provider_id, GREATEST(p_start_date, CURRENT_DATE), p_end_date);
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    bs.id,
+    bs.slot_date,
+    bs.slot_time,
+    CASE
+      WHEN bs.status = 'booked' THEN 'booked'
+      WHEN bs.status = 'held' AND bs.hold_expires_at >= NOW() THEN 'held'
+      WHEN bs.is_blocked OR blackout.title IS NOT NULL THEN 'blocked'
+      ELSE 'available'
+    END,
+    b.id,
+    b.order_id,
+    ps.service_name,
+    o.customer_name,
+    b.status,
+    b.provider_status,
+    blackout.title
+  FROM public.booking_slots bs
+  LEFT JOIN public.bookings b ON b.id = bs.booking_id
+  LEFT JOIN public.provider_services ps ON ps.id = b.service_id
+  LEFT JOIN public.orders o ON o.id = b.order_id
+  LEFT JOIN LATERAL (
+    SELECT pb.title
+    FROM public.provider_blackouts pb
+    WHERE pb.provider_id = bs.provider_id
+      AND pb.start_date <= bs.slot_date
+      AND public.blackout_covers(
+        pb.start_date, pb.end_date, pb.start_time, pb.end_time,
+        pb.recurrence, pb.recurrence_until, bs.slot_date, bs.slot_time
+      )
+    ORDER BY pb.start_date
+    LIMIT 1
+  ) AS blackout ON true
+  WHERE bs.provider_id = p_provider_id
+    AND bs.slot_date BETWEEN p_start_date AND p_end_date
+
+  UNION ALL
+
+  SELECT
+    NULL::UUID,
+    b.booking_date,
+    b.booking_time,
+    'booked',
+    b.id,
+    b.order_id,
+    ps.service_name,
+    o.customer_name,
+    b.status,
+    b.provider_status,
+    NULL::TEXT
+  FROM public.bookings b
+  LEFT JOIN public.provider_services ps ON ps.id = b.service_id
+  LEFT JOIN public.orders o ON o.id = b.order_id
+  WHERE b.provider_id = p_provider_id
+    AND b.booking_date BETWEEN p_start_date AND p_end_date
+    AND b.status IN ('confirmed', 'rescheduled', 'completed')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.booking_slots bs2 WHERE bs2.booking_id = b.id
+    )
+
+  ORDER BY 2, 3;
+END;
+$$;
+
+-- Block or unblock the provider's own slots. Only free slots can be blocked
+-- and only hand-blocked slots unblocked; held and booked slots are left alone
+-- and the number of slots changed is reported back.
+CREATE OR REPLACE FUNCTION public.set_slots_blocked(
+  p_slot_ids UUID[],
+  p_blocked BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_count INTEGER;
+BEGIN
+  UPDATE public.booking_slots bs
+  SET
+    is_blocked = p_blocked,
+    blocked_by = CASE WHEN p_blocked THEN auth.uid() ELSE NULL END,
+    blocked_until = NULL,
+    status = CASE WHEN p_blocked THEN 'available' ELSE bs.status END,
+    held_by = CASE WHEN p_blocked THEN NULL ELSE bs.held_by END,
+    hold_expires_at = CASE WHEN p_blocked THEN NULL ELSE bs.hold_expires_at END,
+    parent_slot_id = CASE WHEN p_blocked THEN NULL ELSE bs.parent_slot_id END,
+    updated_at = NOW()
+  WHERE bs.id = ANY(p_slot_ids)
+    AND EXISTS (
+      SELECT 1 FROM public.user_profiles up
+      WHERE up.user_id = auth.uid()
+        AND (up.id = bs.provider_id OR up.auth_role IN ('admin', 'super_admin'))
+    )
+    AND (
+      (p_blocked AND bs.is_blocked = false AND (
+        bs.status = 'available'
+        OR (bs.status = 'held' AND bs.hold_expires_at < NOW())
+      ))
+      OR (NOT p_blocked AND bs.is_blocked = true)
+    );
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+
+  IF changed_count = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', CASE WHEN p_blocked THEN 'None of those times are free to block' ELSE 'None of those times are blocked' END,
+      'changed', 0
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', changed_count || CASE WHEN changed_count = 1 THEN ' slot ' ELSE ' slots ' END
+      || CASE WHEN p_blocked THEN 'blocked' ELSE 'unblocked' END,
+    'changed', changed_count
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_provider_calendar(UUID, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_slots_blocked(UUID[], BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.get_provider_calendar(UUID, DATE, DATE) IS 'Slots and bookings for a provider''s calendar, each as available, held, booked or blocked';
+COMMENT ON FUNCTION public.set_slots_blocked(UUID[], BOOLEAN) IS 'Block free slots or unblock hand-blocked ones for the calling provider';
@@ -0,0 +1,74 @@
+-- Secret iCalendar subscription feeds. Each provider has at most one feed
+-- token; the booking-calendar edge function serves the provider's confirmed
+-- bookings to anyone holding it, so Google Calendar or Outlook can subscribe
+-- without signing in. Rotating the token breaks the old URL and revoking
+-- deletes it.
+CREATE TABLE IF NOT EXISTS public.provider_calendar_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider_id UUID NOT NULL UNIQUE REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  last_fetched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.provider_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are only written through the functions below
+CREATE POLICY "Providers can view their calendar feed"
+ON public.provider_calendar_feeds
+FOR SELECT
+USING (
+  provider_id IN (SELECT id FROM public.user_profiles WHERE user_id = auth.uid())
+);
+
+-- Issue a new feed token, replacing any earlier one
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token(p_provider_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+      AND (id = p_provider_id OR auth_role IN ('admin', 'super_admin'))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to manage this provider''s calendar feed';
+  END IF;
+
+  INSERT INTO public.provider_calendar_feeds (provider_id, token)
+  VALUES (p_provider_id, new_token)
+  ON CONFLICT (provider_id) DO UPDATE
+  SET token = EXCLUDED.token, last_fetched_at = NULL, created_at = now();
+
+  RETURN new_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_calendar_feed(p_provider_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid()
+      AND (id = p_provider_id OR auth_role IN ('admin', 'super_admin'))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to manage this provider''s calendar feed';
+  END IF;
+
+  DELETE FROM public.provider_calendar_feeds WHERE provider_id = p_provider_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_calendar_feed(UUID) TO authenticated;
+
+COMMENT ON TABLE public.provider_calendar_feeds IS 'Secret tokens for providers'' iCalendar subscription feeds';
+COMMENT ON COLUMN public.provider_calendar_feeds.last_fetched_at IS 'When a calendar app last pulled the feed';
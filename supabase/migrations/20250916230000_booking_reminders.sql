@@ -0,0 +1,123 @@
+-- Booking reminders (24 hours and 1 hour before a visit) and review requests
+-- after it are sent by the booking-reminders edge function on a schedule,
+-- instead of from whichever browser tab happened to be open. Each user picks
+-- which messages they want and on which channels; every message is logged per
+-- booking, kind and channel before it goes out, so a rerun never repeats one.
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_24h_enabled BOOLEAN NOT NULL DEFAULT true,
+  reminder_1h_enabled BOOLEAN NOT NULL DEFAULT true,
+  review_request_enabled BOOLEAN NOT NULL DEFAULT true,
+  in_app_enabled BOOLEAN NOT NULL DEFAULT true,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences" ON public.notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their notification preferences" ON public.notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their notification preferences" ON public.notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per message. The unique key is claimed before sending, so two
+-- overlapping runs can't both deliver the same reminder; a failed message is
+-- claimed again by a later run while it is still due, a few times at most.
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  recipient_role TEXT NOT NULL CHECK (recipient_role IN ('customer', 'provider')),
+  kind TEXT NOT NULL CHECK (kind IN ('reminder_24h', 'reminder_1h', 'review_request')),
+  channel TEXT NOT NULL CHECK (channel IN ('in_app', 'email', 'sms')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (booking_id, user_id, kind, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_created
+  ON public.notification_deliveries(user_id, created_at DESC);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Only the edge function writes deliveries, with the service role
+CREATE POLICY "Users can view their notification deliveries" ON public.notification_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all notification deliveries" ON public.notification_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.auth_role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Claim a message for sending: the id of its new delivery row, or of its
+-- failed one with attempts left. NULL when another run has it or it is done.
+CREATE OR REPLACE FUNCTION public.claim_notification_delivery(
+  p_user_id UUID,
+  p_booking_id UUID,
+  p_recipient_role TEXT,
+  p_kind TEXT,
+  p_channel TEXT
+)
+RETURNS UUID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.notification_deliveries (user_id, booking_id, recipient_role, kind, channel)
+  VALUES (p_user_id, p_booking_id, p_recipient_role, p_kind, p_channel)
+  ON CONFLICT (booking_id, user_id, kind, channel) DO UPDATE
+  SET status = 'pending', attempts = notification_deliveries.attempts + 1, error = NULL
+  WHERE notification_deliveries.status = 'failed'
+    AND notification_deliveries.attempts < 3
+  RETURNING id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_delivery(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_notification_delivery(UUID, UUID, TEXT, TEXT, TEXT) TO service_role;
+
+-- Run the edge function every five minutes. Reminders are due within a window
+-- rather than at an exact minute, so a late or skipped run still sends them.
+-- Requires the project_url and service_role_key secrets in the Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-booking-reminders',
+  '*/5 * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/booking-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $cron$
+);
+
+COMMENT ON TABLE public.notification_preferences IS 'Which booking reminders and follow-ups a user receives, and on which channels';
+COMMENT ON TABLE public.notification_deliveries IS 'Log of scheduled booking messages; the unique key keeps each one from being sent twice';
+COMMENT ON COLUMN public.notification_deliveries.attempts IS 'Times the message has been tried; a failed one is retried until it has been tried three times';
+COMMENT ON FUNCTION public.claim_notification_delivery IS 'Claims a scheduled message for sending, again after a failure while attempts remain; NULL if it is not to be sent';
+COMMENT ON COLUMN public.notification_deliveries.status IS 'skipped when the channel is not configured or the user has no address for it';
@@ -0,0 +1,56 @@
+-- A checkout session stays open for 35 minutes but a slot hold lasts 7, so a
+-- customer still paying could lose their visit to someone else. Checkout
+-- stretches the customer's holds to cover its session instead.
+CREATE OR REPLACE FUNCTION public.extend_slot_holds(
+  p_slot_ids UUID[],
+  p_user_id UUID,
+  p_hold_until TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  start_ids UUID[];
+  held_count INTEGER;
+BEGIN
+  SELECT ARRAY(SELECT DISTINCT unnest(p_slot_ids)) INTO start_ids;
+
+  IF cardinality(start_ids) = 0 THEN
+    RETURN true;
+  END IF;
+
+  -- Lock the visits' slots so no one can take a hold as it lapses mid-check
+  PERFORM 1 FROM public.booking_slots bs
+  WHERE bs.id = ANY(start_ids) OR bs.parent_slot_id = ANY(start_ids)
+  ORDER BY bs.provider_id, bs.slot_date, bs.slot_time
+  FOR UPDATE;
+
+  -- Every hold must still be live; a lapsed one may already be someone else's.
+  -- A span is held all at once, so a live start slot means live span slots.
+  SELECT COUNT(*) INTO held_count
+  FROM public.booking_slots bs
+  WHERE bs.id = ANY(start_ids)
+    AND bs.status = 'held'
+    AND bs.held_by = p_user_id
+    AND bs.hold_expires_at >= NOW();
+
+  IF held_count <> cardinality(start_ids) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.booking_slots bs
+  SET hold_expires_at = GREATEST(bs.hold_expires_at, p_hold_until)
+  WHERE (bs.id = ANY(start_ids) OR bs.parent_slot_id = ANY(start_ids))
+    AND bs.status = 'held'
+    AND bs.held_by = p_user_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.extend_slot_holds(UUID[], UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.extend_slot_holds(UUID[], UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+COMMENT ON FUNCTION public.extend_slot_holds IS 'Keeps a customer''s live slot holds until their checkout session can no longer be paid; false if any has lapsed';
@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+
+const FUNCTIONS_DIR = fileURLToPath(new URL('../functions/', import.meta.url));
+
+// The app's tsconfig leaves the edge functions to Deno, so this is what notices
+// one that would no longer load or would throw on a name it never declared.
+// Remote imports aren't fetched, so only mistakes within a file are checked.
+const CHECKED_CODES = new Set([
+  2300, // Duplicate identifier
+  2304, // Cannot find name
+  2451, // Cannot redeclare block-scoped variable
+  2552, // Cannot find name, did you mean
+]);
+const RUNTIME_GLOBALS = new Set(['Deno']);
+
+const sources = readdirSync(FUNCTIONS_DIR, { recursive: true })
+  .map(String)
+  .filter(file => file.endsWith('.ts'))
+  .sort();
+
+const program = ts.createProgram(sources.map(file => `${FUNCTIONS_DIR}${file}`), {
+  noEmit: true,
+  noResolve: true,
+  allowImportingTsExtensions: true,
+  target: ts.ScriptTarget.ES2022,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+  types: [],
+  skipLibCheck: true,
+});
+
+const problemsIn = (file: string) => {
+  const sourceFile = program.getSourceFile(`${FUNCTIONS_DIR}${file}`)!;
+  const semantic = program.getSemanticDiagnostics(sourceFile).filter(diagnostic =>
+    CHECKED_CODES.has(diagnostic.code)
+    && !RUNTIME_GLOBALS.has(sourceFile.text.slice(diagnostic.start, diagnostic.start! + diagnostic.length!))
+  );
+
+  return [...program.getSyntacticDiagnostics(sourceFile), ...semantic].map(diagnostic => {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+    return `${file}:${line + 1} ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+  });
+};
+
+describe('edge function sources', () => {
+  it('finds the functions', () => {
+    expect(sources).toContain('cancel-order/index.ts');
+  });
+
+  it.each(sources)('%s has no syntax errors or undeclared names', file => {
+    expect(problemsIn(file)).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const MIGRATION = new URL('../migrations/20250916180000_service_duration_slots.sql', import.meta.url);
+const PROVIDER_ID = '00000000-0000-4000-8000-000000000001';
+const USERS = [
+  '00000000-0000-4000-8000-0000000000a1',
+  '00000000-0000-4000-8000-0000000000a2',
+  '00000000-0000-4000-8000-0000000000a3',
+];
+// One working day on the 30-minute grid, 08:00 to 18:00
+const SLOTS_PER_DAY = 20;
+const DURATIONS = [15, 30, 45, 60, 75, 90, 120, 150, 180];
+const BUFFERS = [0, 10, 15, 30, 45];
+
+// Just the tables and helpers the span functions read, as in the real schema
+const SCHEMA = `
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+  $$;
+
+  CREATE TABLE public.provider_services (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider_id UUID NOT NULL,
+    duration_minutes INTEGER,
+    buffer_minutes INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE public.booking_slots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider_id UUID NOT NULL,
+    slot_date DATE NOT NULL,
+    slot_time TIME NOT NULL,
+    status TEXT NOT NULL DEFAULT 'available',
+    is_blocked BOOLEAN NOT NULL DEFAULT false,
+    held_by UUID,
+    hold_expires_at TIMESTAMP WITH TIME ZONE,
+    booking_id UUID,
+    parent_slot_id UUID REFERENCES public.booking_slots(id) ON DELETE SET NULL
+  );
+
+  CREATE FUNCTION public.is_provider_blacked_out(p_provider_id UUID, p_date DATE, p_time TIME)
+  RETURNS BOOLEAN LANGUAGE sql STABLE AS $$ SELECT false $$;
+`;
+
+/** The migration's definition of each named function, as written */
+const migrationFunctions = (...names: string[]) => {
+  const sql = readFileSync(MIGRATION, 'utf8');
+  return names.map(name => {
+    const match = sql.match(new RegExp(`CREATE OR REPLACE FUNCTION public\\.${name}\\([\\s\\S]*?\\n\\$\\$;`));
+    if (!match) {
+      throw new Error(`${name} is not defined in the migration`);
+    }
+    return match[0];
+  }).join('\n\n');
+};
+
+// Position of a slot time on the day's grid, e.g. 09:30:00 -> 3
+const slotIndex = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours * 60 + minutes - 8 * 60) / 30;
+};
+
+// Seeded so a failing case can be replayed
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+interface HeldSlot {
+  slot_time: string;
+  held_by: string;
+  start_time: string;
+}
+
+describe('slot span holds', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(SCHEMA);
+    await db.exec(migrationFunctions('service_slot_span', 'hold_slot_span', 'hold_service_slots', 'release_slot'));
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const holdAs = async (userId: string, slotId: string, serviceIds: string[]) => {
+    await db.query(`SELECT set_config('request.jwt.claim.sub', $1, false)`, [userId]);
+    const { rows } = await db.query<{ held: boolean }>(
+      'SELECT public.hold_service_slots($1, $2::UUID[]) AS held',
+      [slotId, serviceIds]
+    );
+    return rows[0].held;
+  };
+
+  // Live holds grouped into visits by their start slot
+  const liveVisits = async () => {
+    const { rows } = await db.query<HeldSlot>(`
+      SELECT bs.slot_time::TEXT, bs.held_by::TEXT, start_slot.slot_time::TEXT AS start_time
+      FROM public.booking_slots bs
+      JOIN public.booking_slots start_slot ON start_slot.id = COALESCE(bs.parent_slot_id, bs.id)
+      WHERE bs.status = 'held' AND bs.hold_expires_at >= NOW()
+      ORDER BY bs.slot_time
+    `);
+
+    const visits = new Map<string, HeldSlot[]>();
+    for (const row of rows) {
+      visits.set(row.start_time, [...(visits.get(row.start_time) ?? []), row]);
+    }
+    return visits;
+  };
+
+  it('never lets two held visits share a slot, whatever the durations and start times', async () => {
+    for (let seed = 1; seed <= 30; seed++) {
+      const next = random(seed);
+      const pick = <T,>(values: T[]) => values[Math.floor(next() * values.length)];
+
+      await db.exec('TRUNCATE public.booking_slots, public.provider_services');
+
+      const { rows: services } = await db.query<{ id: string; duration_minutes: number; buffer_minutes: number }>(`
+        INSERT INTO public.provider_services (provider_id, duration_minutes, buffer_minutes)
+        SELECT $1, d, b FROM unnest($2::INTEGER[], $3::INTEGER[]) AS s(d, b)
+        RETURNING id, duration_minutes, buffer_minutes
+      `, [
+        PROVIDER_ID,
+        Array.from({ length: 6 }, () => pick(DURATIONS)),
+        Array.from({ length: 6 }, () => pick(BUFFERS)),
+      ]);
+
+      await db.query(`
+        INSERT INTO public.booking_slots (provider_id, slot_date, slot_time, is_blocked)
+        SELECT $1, DATE '2030-01-07', TIME '08:00' + (n - 1) * INTERVAL '30 minutes', blocked
+        FROM unnest($2::BOOLEAN[]) WITH ORDINALITY AS s(blocked, n)
+      `, [PROVIDER_ID, Array.from({ length: SLOTS_PER_DAY }, () => next() < 0.1)]);
+      const { rows: slots } = await db.query<{ id: string; is_blocked: boolean }>(
+        'SELECT id, is_blocked FROM public.booking_slots ORDER BY slot_time'
+      );
+
+      // Which user's hold, if any, covers each slot, and whether it is still live
+      const owners: ({ userId: string; start: number; live: boolean } | null)[] = slots.map(() => null);
+      const currentHold = new Map<string, number>();
+
+      for (let step = 0; step < 40; step++) {
+        const userId = pick(USERS);
+
+        if (next() < 0.15) {
+          // Let this user's holds run out, so others may take their slots
+          await db.query(`UPDATE public.booking_slots SET hold_expires_at = NOW() - INTERVAL '1 minute' WHERE held_by = $1`, [userId]);
+          owners.forEach(owner => { if (owner?.userId === userId) owner.live = false; });
+          continue;
+        }
+
+        // Like the time picker, a customer lets go of their last slot before holding another
+        const previous = currentHold.get(userId);
+        if (previous !== undefined) {
+          await db.query('SELECT public.release_slot($1, $2)', [slots[previous].id, userId]);
+          owners.forEach((owner, index) => {
+            if (owner?.userId === userId && owner.start === previous) owners[index] = null;
+          });
+          currentHold.delete(userId);
+        }
+
+        const start = Math.floor(next() * SLOTS_PER_DAY);
+        const visit = services.filter(() => next() < 0.35);
+        const chosen = visit.length > 0 ? visit : [pick(services)];
+        const minutes = chosen.reduce((sum, service) => sum + service.duration_minutes, 0)
+          + Math.max(...chosen.map(service => service.buffer_minutes));
+        const span = Math.max(1, Math.ceil(minutes / 30));
+
+        const covered = Array.from({ length: span }, (_, offset) => start + offset);
+        const expected = start + span <= SLOTS_PER_DAY && covered.every(index =>
+          !slots[index].is_blocked
+          && (!owners[index] || owners[index]!.userId === userId || !owners[index]!.live)
+        );
+
+        const held = await holdAs(userId, slots[start].id, chosen.map(service => service.id));
+        expect(held, `seed ${seed}, step ${step}`).toBe(expected);
+
+        if (held) {
+          covered.forEach(index => { owners[index] = { userId, start, live: true }; });
+          currentHold.set(userId, start);
+        }
+
+        // Every live visit is one unbroken run of slots for one customer, and
+        // no two visits' runs overlap
+        const visits = await liveVisits();
+        const runs = [...visits.values()].map(visitSlots => {
+          const indexes = visitSlots.map(slot => slotIndex(slot.slot_time));
+          expect(new Set(visitSlots.map(slot => slot.held_by)).size).toBe(1);
+          expect(indexes).toEqual(indexes.map((_, offset) => indexes[0] + offset));
+          return { from: indexes[0], to: indexes[indexes.length - 1] };
+        });
+        for (const [i, run] of runs.entries()) {
+          for (const other of runs.slice(i + 1)) {
+            expect(run.to < other.from || other.to < run.from, `seed ${seed}, step ${step}: visits overlap`).toBe(true);
+          }
+        }
+
+        // And they are exactly the holds that succeeded and have not lapsed
+        const liveOwners = owners.map(owner => owner?.live ? `${owner.userId}@${owner.start}` : null);
+        const heldOwners = slots.map((_, index) => {
+          for (const visitSlots of visits.values()) {
+            const slot = visitSlots.find(visitSlot => slotIndex(visitSlot.slot_time) === index);
+            if (slot) return `${slot.held_by}@${slotIndex(slot.start_time)}`;
+          }
+          return null;
+        });
+        expect(heldOwners, `seed ${seed}, step ${step}`).toEqual(liveOwners);
+      }
+    }
+  }, 120_000);
+});